@@ -0,0 +1,92 @@
+/**
+ * Regenerates src/data/fmv-31-jan-2018.csv from the official price files:
+ *
+ *   npx vite-node scripts/build-fmv-table.ts -- \
+ *     --nse cm31JAN2018bhav.csv --bse EQ_ISINCODE_310118.CSV \
+ *     --nav NAVAll_31Jan2018.txt [--adjustments adjustments.csv] \
+ *     > src/data/fmv-31-jan-2018.csv
+ *
+ * --nse and --bse can be repeated with earlier days' bhavcopies to cover
+ * securities that did not trade on 31-Jan-2018. With --download the script
+ * fetches the bhavcopies for 29-31 Jan 2018 and the NAV file from NSE, BSE
+ * and AMFI itself:
+ *
+ *   npx vite-node scripts/build-fmv-table.ts -- --download > src/data/fmv-31-jan-2018.csv
+ */
+import { readFileSync } from 'node:fs';
+import * as XLSX from 'xlsx';
+import {
+  buildFmvTable,
+  formatFmvTable,
+  parseAdjustments,
+  parseAmfiNav,
+  parseBseBhavcopy,
+  parseNseBhavcopy,
+  FmvPrice,
+} from '../src/lib/fmvTable';
+
+// The last trading days up to 31-Jan-2018 (26-28 Jan were a holiday and a weekend)
+const TRADING_DAYS = [
+  { nse: '2018/JAN/cm29JAN2018bhav.csv.zip', bse: 'EQ_ISINCODE_290118.zip' },
+  { nse: '2018/JAN/cm30JAN2018bhav.csv.zip', bse: 'EQ_ISINCODE_300118.zip' },
+  { nse: '2018/JAN/cm31JAN2018bhav.csv.zip', bse: 'EQ_ISINCODE_310118.zip' },
+];
+const NSE_ARCHIVE = 'https://archives.nseindia.com/content/historical/EQUITIES';
+const BSE_ARCHIVE = 'https://www.bseindia.com/download/BhavCopy/Equity';
+const AMFI_NAV_HISTORY = 'https://portal.amfiindia.com/DownloadNAVHistoryReport_Po.aspx?frmdt=31-Jan-2018';
+
+async function download(url: string): Promise<ArrayBuffer> {
+  // NSE and BSE reject requests without a browser-like user agent
+  const response = await fetch(url, { headers: { 'User-Agent': 'Mozilla/5.0' } });
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: HTTP ${response.status}`);
+  }
+  return response.arrayBuffer();
+}
+
+// The bhavcopy archives hold a single CSV
+async function downloadZippedCsv(url: string): Promise<string> {
+  const archive = XLSX.CFB.read(new Uint8Array(await download(url)), { type: 'array' });
+  const entry = archive.FileIndex.find((file: { name: string }) => /\.csv$/i.test(file.name));
+  if (!entry) {
+    throw new Error(`No CSV in ${url}`);
+  }
+  return new TextDecoder().decode(new Uint8Array(entry.content));
+}
+
+const args = process.argv.slice(2).filter(arg => arg !== '--');
+const files = (flag: string) =>
+  args.flatMap((arg, i) => (arg === flag && args[i + 1] ? [readFileSync(args[i + 1], 'utf8')] : []));
+
+const nseFiles = files('--nse');
+const bseFiles = files('--bse');
+const navFiles = files('--nav');
+
+if (args.includes('--download')) {
+  for (const day of TRADING_DAYS) {
+    nseFiles.push(await downloadZippedCsv(`${NSE_ARCHIVE}/${day.nse}`));
+    bseFiles.push(await downloadZippedCsv(`${BSE_ARCHIVE}/${day.bse}`));
+  }
+  navFiles.push(new TextDecoder().decode(await download(AMFI_NAV_HISTORY)));
+}
+
+const exchangePrices: FmvPrice[] = [
+  ...nseFiles.flatMap(parseNseBhavcopy),
+  ...bseFiles.flatMap(parseBseBhavcopy),
+];
+const navs = navFiles.flatMap(parseAmfiNav);
+const adjustments = files('--adjustments').map(parseAdjustments)[0];
+
+if (exchangePrices.length === 0 && navs.length === 0) {
+  console.error('Usage: build-fmv-table.ts (--download | --nse <bhavcopy> --bse <bhavcopy> --nav <amfi nav>) [--adjustments <csv>]');
+  process.exit(1);
+}
+
+const rows = buildFmvTable(exchangePrices, navs, adjustments);
+process.stdout.write(formatFmvTable(rows, [
+  'Fair market value as on 31-Jan-2018 for Section 112A grandfathering.',
+  'Listed shares/ETFs: highest price quoted on NSE or BSE on 31-Jan-2018, or on the last',
+  'earlier day the security traded. Mutual fund units: NAV published for 31-Jan-2018.',
+  'Values are per unit in INR, adjusted for any later split or bonus.',
+  'Generated by scripts/build-fmv-table.ts; do not edit by hand.',
+]));
@@ -9,6 +9,8 @@ import { ProtectedRoute } from "./components/auth/ProtectedRoute";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import SyncHistory from "./pages/SyncHistory";
+import CapitalGains from "./pages/CapitalGains";
+import SnapshotDiff from "./pages/SnapshotDiff";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -58,6 +60,22 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/capital-gains"
+              element={
+                <ProtectedRoute>
+                  <CapitalGains />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/snapshot-diff"
+              element={
+                <ProtectedRoute>
+                  <SnapshotDiff />
+                </ProtectedRoute>
+              }
+            />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -6,9 +6,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useMFCASSync } from '@/hooks/useMFCASSync';
-import { MFCentralSyncModal } from './MFCentralSyncModal';
+import { MFCASUploadModal } from './MFCASUploadModal';
 
-export function MFCentralCard() {
+export function MFCASCard() {
   const {
     latestSync,
     isLoadingSync,
@@ -44,8 +44,8 @@ export function MFCentralCard() {
                 <Building2 className="h-5 w-5 text-primary" />
               </div>
               <div>
-                <CardTitle className="text-lg">Sync Mutual Funds</CardTitle>
-                <CardDescription>Connect via MFCentral CAS API</CardDescription>
+                <CardTitle className="text-lg">Mutual Fund CAS</CardTitle>
+                <CardDescription>Import a CAMS / KFintech CAS PDF</CardDescription>
               </div>
             </div>
             {isSynced ? (
@@ -61,12 +61,12 @@ export function MFCentralCard() {
               <div className="text-sm text-muted-foreground space-y-2">
                 <div className="flex items-center gap-2">
                   <CheckCircle2 className="h-4 w-4 text-profit" />
-                  <span>{mfHoldings.length} mutual fund holdings synced</span>
+                  <span>{mfHoldings.length} mutual fund holdings imported</span>
                 </div>
                 {latestSync?.last_synced_at && (
                   <div className="flex items-center gap-2">
                     <Clock className="h-4 w-4 text-muted-foreground" />
-                    <span>Last synced: {new Date(latestSync.last_synced_at).toLocaleString('en-IN')}</span>
+                    <span>Last imported: {new Date(latestSync.last_synced_at).toLocaleString('en-IN')}</span>
                   </div>
                 )}
               </div>
@@ -76,16 +76,16 @@ export function MFCentralCard() {
                 className="w-full bg-primary hover:bg-primary/90"
               >
                 <RefreshCw className="h-4 w-4 mr-2" />
-                Sync Again
+                Import Newer CAS
               </Button>
             </>
           ) : (
             <>
               <Alert className="border-primary/20 bg-primary/5">
                 <Building2 className="h-4 w-4 text-primary" />
-                <AlertTitle className="text-sm">Fetch All MF Holdings</AlertTitle>
+                <AlertTitle className="text-sm">All MF Holdings in One Statement</AlertTitle>
                 <AlertDescription className="text-xs text-muted-foreground">
-                  Sync all your mutual fund holdings across all AMCs using your PAN number.
+                  The detailed CAS covers every folio across AMCs, with full transaction history.
                 </AlertDescription>
               </Alert>
 
@@ -94,7 +94,7 @@ export function MFCentralCard() {
                 className="w-full bg-primary hover:bg-primary/90"
               >
                 <Building2 className="h-4 w-4 mr-2" />
-                Connect MFCentral CAS
+                Import CAS PDF
               </Button>
             </>
           )}
@@ -119,10 +119,10 @@ export function MFCentralCard() {
                 <AlertTitle className="text-sm font-medium">How it Works</AlertTitle>
                 <AlertDescription className="text-xs space-y-2 mt-2">
                   <ul className="list-disc list-inside space-y-1">
-                    <li>Enter your PAN number to fetch all MF holdings across AMCs</li>
-                    <li>Verify via OTP sent to your registered phone/email</li>
-                    <li>All transactions, folios, and current holdings will be synced</li>
-                    <li>Data is fetched from MFCentral's Consolidated Account Statement (CAS)</li>
+                    <li>Request a Detailed CAS (with transactions) from camsonline.com or mfs.kfintech.com</li>
+                    <li>Choose a period from your first investment and set a PDF password</li>
+                    <li>Upload the emailed PDF here with that password</li>
+                    <li>Folios, every transaction including stamp duty, and closing balances are imported</li>
                   </ul>
                 </AlertDescription>
               </Alert>
@@ -132,7 +132,7 @@ export function MFCentralCard() {
       </Card>
 
       {showModal && (
-        <MFCentralSyncModal onClose={() => setShowModal(false)} />
+        <MFCASUploadModal onClose={() => setShowModal(false)} />
       )}
     </>
   );
@@ -0,0 +1,194 @@
+import { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Building2, CheckCircle2, FileText, Loader2, Lock, Shield, Upload, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useMFCASSync } from '@/hooks/useMFCASSync';
+
+interface MFCASUploadModalProps {
+  onClose: () => void;
+}
+
+export function MFCASUploadModal({ onClose }: MFCASUploadModalProps) {
+  const { uploadCAS, isUploadingCAS, lastUpload } = useMFCASSync();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [password, setPassword] = useState('');
+  const [nickname, setNickname] = useState('');
+  const [isCompleted, setIsCompleted] = useState(false);
+
+  const handleUpload = () => {
+    if (!file || !password) {
+      return;
+    }
+
+    uploadCAS(
+      { file, password, nickname: nickname || undefined },
+      { onSuccess: () => setIsCompleted(true) }
+    );
+  };
+
+  const handleReset = () => {
+    setFile(null);
+    setPassword('');
+    setNickname('');
+    setIsCompleted(false);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        transition={{ duration: 0.3, delay: 0.1 }}
+        className="w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto"
+      >
+        <Card className="border-border bg-card shadow-2xl">
+          <CardHeader className="relative">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="absolute right-4 top-4"
+              onClick={onClose}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="p-3 rounded-xl bg-primary/10">
+                <Building2 className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">Import MF CAS</CardTitle>
+                <CardDescription>
+                  Detailed statement from CAMS or KFintech
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            {!isCompleted ? (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="space-y-4"
+              >
+                <div className="space-y-2">
+                  <Label>CAS PDF</Label>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".pdf"
+                    className="hidden"
+                    onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                    disabled={isUploadingCAS}
+                  />
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isUploadingCAS}
+                  >
+                    <FileText className="h-4 w-4 mr-2" />
+                    <span className="truncate">{file ? file.name : 'Choose the detailed CAS PDF'}</span>
+                  </Button>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="cas-password">PDF Password</Label>
+                  <Input
+                    id="cas-password"
+                    type="password"
+                    autoComplete="off"
+                    placeholder="Password set when requesting the CAS"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={isUploadingCAS}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="cas-nickname">Add Nickname (Optional)</Label>
+                  <Input
+                    id="cas-nickname"
+                    placeholder="My Portfolio"
+                    value={nickname}
+                    onChange={(e) => setNickname(e.target.value)}
+                    disabled={isUploadingCAS}
+                  />
+                </div>
+
+                <Alert className="border-primary/20 bg-primary/5">
+                  <Shield className="h-4 w-4 text-primary" />
+                  <AlertTitle className="text-sm">Stays private</AlertTitle>
+                  <AlertDescription className="text-xs text-muted-foreground">
+                    The PDF is decrypted and read on our server for this import only. Neither the file nor the password is stored.
+                  </AlertDescription>
+                </Alert>
+
+                <Button
+                  onClick={handleUpload}
+                  disabled={isUploadingCAS || !file || !password}
+                  className="w-full"
+                >
+                  {isUploadingCAS ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Importing statement...
+                    </>
+                  ) : (
+                    <>
+                      {password ? <Upload className="h-4 w-4 mr-2" /> : <Lock className="h-4 w-4 mr-2" />}
+                      Import CAS
+                    </>
+                  )}
+                </Button>
+              </motion.div>
+            ) : (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="space-y-4"
+              >
+                <div className="p-6 bg-profit/10 rounded-lg border border-profit/20 text-center">
+                  <CheckCircle2 className="h-12 w-12 text-profit mx-auto mb-3" />
+                  <h3 className="font-semibold text-lg mb-2">Import Completed!</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {lastUpload
+                      ? `${lastUpload.holdings_count} folios and ${lastUpload.transactions_count} transactions imported`
+                      : 'Statement imported'}
+                  </p>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    onClick={handleReset}
+                    variant="outline"
+                    className="flex-1"
+                  >
+                    Import Another
+                  </Button>
+                  <Button onClick={onClose} className="flex-1">
+                    Done
+                  </Button>
+                </div>
+              </motion.div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </motion.div>
+  );
+}
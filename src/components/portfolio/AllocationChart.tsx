@@ -38,6 +38,7 @@ export function AllocationChart<T extends AllocationData>({
       name: String(item[labelKey]),
       value: item.value,
       percent: item.percent,
+      xirr: 'xirr' in item ? item.xirr : undefined,
       color: CHART_COLORS[index % CHART_COLORS.length]
     })),
     [data, labelKey]
@@ -109,6 +110,11 @@ function CustomTooltip({ active, payload }: any) {
       <p className="text-sm font-mono-numbers" style={{ color: data.color }}>
         {data.percent.toFixed(2)}%
       </p>
+      {data.xirr !== undefined && (
+        <p className="text-xs text-muted-foreground font-mono-numbers">
+          XIRR {formatPercent(data.xirr)}
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { CheckCircle2, Clock, KeyRound, Loader2, LogOut, RefreshCw, Shield, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAngelSession } from '@/hooks/useAngelSession';
+
+interface AngelConnectCardProps {
+  onSync: () => Promise<void>;
+  isSyncing: boolean;
+  status?: {
+    status: string;
+    holdings_count: number | null;
+    error_message: string | null;
+  };
+}
+
+function formatExpiry(expiresAt: string | null): string | null {
+  if (!expiresAt) return null;
+  return new Date(expiresAt).toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * Angel One through SmartAPI. There is no OAuth redirect: the user types their
+ * client code, PIN and authenticator TOTP, which go straight to Angel.
+ */
+export function AngelConnectCard({ onSync, isSyncing, status }: AngelConnectCardProps) {
+  const { session, isLoading, isSessionValid, login, isLoggingIn, disconnect, isDisconnecting } = useAngelSession();
+  const [clientCode, setClientCode] = useState('');
+  const [pin, setPin] = useState('');
+  const [totp, setTotp] = useState('');
+
+  const canLogin = clientCode.trim() !== '' && pin !== '' && /^\d{6}$/.test(totp);
+
+  const handleLogin = () => {
+    login(
+      { clientCode: clientCode.trim(), pin, totp },
+      {
+        onSuccess: () => {
+          setPin('');
+          setTotp('');
+          onSync();
+        },
+        // A TOTP is single-use, so a failed attempt needs a fresh one
+        onError: () => setTotp(''),
+      }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="border-border bg-card/50 backdrop-blur-sm">
+        <CardContent className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-6 bg-muted rounded w-1/3"></div>
+            <div className="h-4 bg-muted rounded w-2/3"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="border-border bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-angel/10">
+              <TrendingUp className="h-5 w-5 text-angel" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Angel One</CardTitle>
+              <CardDescription>Connect via SmartAPI</CardDescription>
+            </div>
+          </div>
+          {isSessionValid ? (
+            <Badge className="bg-profit/20 text-profit border-profit/30">Connected</Badge>
+          ) : session ? (
+            <Badge variant="destructive">Expired</Badge>
+          ) : (
+            <Badge variant="outline" className="text-muted-foreground">Not connected</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isSessionValid ? (
+          <>
+            <div className="text-sm text-muted-foreground space-y-2">
+              <div className="flex items-center gap-2">
+                <CheckCircle2 className="h-4 w-4 text-profit" />
+                <span>Session active{session?.client_code ? ` • ${session.client_code}` : ''}</span>
+              </div>
+              {formatExpiry(session?.expires_at ?? null) && (
+                <div className="flex items-center gap-2">
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                  <span>Expires at {formatExpiry(session?.expires_at ?? null)}</span>
+                </div>
+              )}
+              {status?.status === 'success' && (
+                <div className="flex items-center gap-2">
+                  <CheckCircle2 className="h-4 w-4 text-profit" />
+                  <span>{status.holdings_count} holdings synced</span>
+                </div>
+              )}
+              {status?.status === 'error' && status.error_message && (
+                <p className="text-xs text-destructive">{status.error_message}</p>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                onClick={onSync}
+                disabled={isSyncing}
+                className="flex-1 bg-angel hover:bg-angel/90"
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+                Sync Holdings
+              </Button>
+
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="icon" disabled={isDisconnecting} className="shrink-0">
+                    {isDisconnecting ? (
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <LogOut className="h-4 w-4" />
+                    )}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Disconnect Angel One?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This will log out your Angel One session. Your synced holdings will remain, but you'll need to log in again to sync.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => disconnect()}>Disconnect</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="angel-client-code">Client code</Label>
+              <Input
+                id="angel-client-code"
+                autoComplete="username"
+                value={clientCode}
+                onChange={(e) => setClientCode(e.target.value.toUpperCase())}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="angel-pin">PIN</Label>
+                <Input
+                  id="angel-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="current-password"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="angel-totp">TOTP</Label>
+                <Input
+                  id="angel-totp"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  placeholder="6 digits"
+                  value={totp}
+                  onChange={(e) => setTotp(e.target.value.replace(/\D/g, ''))}
+                />
+              </div>
+            </div>
+
+            <Button
+              onClick={handleLogin}
+              disabled={!canLogin || isLoggingIn}
+              className="w-full bg-angel hover:bg-angel/90"
+            >
+              {isLoggingIn ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <KeyRound className="h-4 w-4 mr-2" />
+              )}
+              Connect Angel One
+            </Button>
+          </div>
+        )}
+
+        <Alert className="border-muted bg-muted/20">
+          <Shield className="h-4 w-4 text-muted-foreground" />
+          <AlertDescription className="text-xs text-muted-foreground">
+            Your PIN and TOTP are sent to Angel One and never stored. Sessions end at midnight.
+          </AlertDescription>
+        </Alert>
+      </CardContent>
+    </Card>
+  );
+}
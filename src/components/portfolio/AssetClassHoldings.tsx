@@ -21,6 +21,11 @@ const ASSET_ORDER: AssetType[] = [
   'NPS',
   'EPF',
   'PPF',
+  'FD',
+  'RD',
+  'Unlisted',
+  'P2P',
+  'Other',
 ];
 
 export function AssetClassHoldings({ holdings }: AssetClassHoldingsProps) {
@@ -28,7 +28,11 @@ import {
   Home,
   Shield,
   Briefcase,
-  Wallet
+  Wallet,
+  Gem,
+  Handshake,
+  Package,
+  PiggyBank
 } from 'lucide-react';
 
 interface AssetClassTableProps {
@@ -51,6 +55,11 @@ const ASSET_CONFIG: Record<AssetType, { icon: any; color: string; bgColor: strin
   'NPS': { icon: Shield, color: 'text-indigo-600', bgColor: 'bg-indigo-600/10' },
   'EPF': { icon: Briefcase, color: 'text-amber-600', bgColor: 'bg-amber-600/10' },
   'PPF': { icon: Wallet, color: 'text-teal-600', bgColor: 'bg-teal-600/10' },
+  'FD': { icon: Landmark, color: 'text-emerald-600', bgColor: 'bg-emerald-600/10' },
+  'RD': { icon: PiggyBank, color: 'text-green-600', bgColor: 'bg-green-600/10' },
+  'Unlisted': { icon: Gem, color: 'text-rose-500', bgColor: 'bg-rose-500/10' },
+  'P2P': { icon: Handshake, color: 'text-lime-600', bgColor: 'bg-lime-600/10' },
+  'Other': { icon: Package, color: 'text-slate-500', bgColor: 'bg-slate-500/10' },
 };
 
 // Columns that are specific to certain asset types
@@ -67,6 +76,11 @@ const ASSET_SPECIFIC_COLUMNS: Record<AssetType, string[]> = {
   'NPS': ['symbol', 'investedValue', 'currentValue', 'pnl', 'pnlPercent'],
   'EPF': ['symbol', 'investedValue', 'currentValue', 'pnl', 'pnlPercent'],
   'PPF': ['symbol', 'investedValue', 'currentValue', 'pnl', 'pnlPercent'],
+  'FD': ['symbol', 'investedValue', 'currentValue', 'pnl', 'pnlPercent'],
+  'RD': ['symbol', 'investedValue', 'currentValue', 'pnl', 'pnlPercent'],
+  'Unlisted': ['symbol', 'sector', 'quantity', 'avgPrice', 'ltp', 'investedValue', 'currentValue', 'pnl', 'pnlPercent'],
+  'P2P': ['symbol', 'investedValue', 'currentValue', 'pnl', 'pnlPercent'],
+  'Other': ['symbol', 'investedValue', 'currentValue', 'pnl', 'pnlPercent'],
 };
 
 export function AssetClassTable({ assetType, holdings, delay = 0 }: AssetClassTableProps) {
@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { Bar, BarChart, Cell, XAxis, YAxis, CartesianGrid, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAttribution } from '@/hooks/useAttribution';
+import { formatCurrency } from '@/lib/portfolioUtils';
+import { Attribution, AttributionDimension } from '@/types/performance';
+
+interface AttributionCardProps {
+  snapshots: { id: string; snapshot_date: string }[];
+  // Range picked in the analytics header, used until the user picks dates here
+  defaultFromId?: string;
+  defaultToId?: string;
+}
+
+interface WaterfallStep {
+  label: string;
+  // Floating bar from low to high
+  range: [number, number];
+  amount: number;
+  kind: 'total' | 'invested' | 'gain' | 'loss';
+}
+
+const DIMENSION_LABELS: Record<AttributionDimension, string> = {
+  assetType: 'Asset Class',
+  source: 'Source',
+  holding: 'Top Holdings',
+};
+
+const STEP_COLORS: Record<WaterfallStep['kind'], string> = {
+  total: 'hsl(var(--primary))',
+  invested: 'hsl(var(--chart-4))',
+  gain: 'hsl(var(--profit))',
+  loss: 'hsl(var(--loss))',
+};
+
+const waterfallChartConfig = {
+  range: {
+    label: 'Change',
+    color: 'hsl(var(--primary))',
+  },
+};
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+// Start value, money added, one bar per contributor, end value
+function buildWaterfall(attribution: Attribution): WaterfallStep[] {
+  const steps: WaterfallStep[] = [
+    { label: 'Start', range: [0, attribution.startValue], amount: attribution.startValue, kind: 'total' },
+  ];
+
+  let running = attribution.startValue;
+  const addStep = (label: string, amount: number, kind: WaterfallStep['kind']) => {
+    const next = running + amount;
+    steps.push({ label, range: [Math.min(running, next), Math.max(running, next)], amount, kind });
+    running = next;
+  };
+
+  if (attribution.netInvested !== 0) {
+    addStep('Net invested', attribution.netInvested, 'invested');
+  }
+  attribution.contributions.forEach(c => addStep(c.label, c.gain, c.gain >= 0 ? 'gain' : 'loss'));
+
+  steps.push({ label: 'End', range: [0, attribution.endValue], amount: attribution.endValue, kind: 'total' });
+  return steps;
+}
+
+export function AttributionCard({ snapshots, defaultFromId, defaultToId }: AttributionCardProps) {
+  const [selectedFromId, setSelectedFromId] = useState<string>();
+  const [selectedToId, setSelectedToId] = useState<string>();
+
+  const fromId = selectedFromId ?? defaultFromId;
+  const toId = selectedToId ?? defaultToId;
+  const { attributions, isLoading } = useAttribution(fromId, toId);
+
+  const waterfalls = useMemo(() => {
+    if (!attributions) return null;
+    return (Object.keys(DIMENSION_LABELS) as AttributionDimension[]).map(dimension => ({
+      dimension,
+      steps: buildWaterfall(attributions[dimension]),
+    }));
+  }, [attributions]);
+
+  const descendingSnapshots = useMemo(() => [...snapshots].reverse(), [snapshots]);
+
+  if (snapshots.length < 2) return null;
+
+  const summary = attributions?.assetType;
+
+  const renderDateSelect = (value: string | undefined, onChange: (id: string) => void, placeholder: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[140px] h-9 text-xs">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {descendingSnapshots.map(s => (
+          <SelectItem key={s.id} value={s.id}>{formatDate(s.snapshot_date)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card className="border-border bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5 text-primary" />
+              Performance Attribution
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Where the change in value came from: money added, then market gains by group
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {renderDateSelect(fromId, setSelectedFromId, 'From')}
+            <span className="text-muted-foreground text-sm">→</span>
+            {renderDateSelect(toId, setSelectedToId, 'To')}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-[300px] bg-muted rounded animate-pulse" />
+        ) : !waterfalls || !summary ? (
+          <div className="h-[120px] flex items-center justify-center text-sm text-muted-foreground">
+            No source breakdown captured for one of these dates
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-x-6 gap-y-1 mb-4 text-sm">
+              <span className="text-muted-foreground">
+                Value change{' '}
+                <span className="font-mono-numbers text-foreground">
+                  {formatCurrency(summary.endValue - summary.startValue, true)}
+                </span>
+              </span>
+              <span className="text-muted-foreground">
+                Net invested{' '}
+                <span className="font-mono-numbers text-foreground">{formatCurrency(summary.netInvested, true)}</span>
+              </span>
+              <span className="text-muted-foreground">
+                Market gain{' '}
+                <span className={`font-mono-numbers ${summary.gain >= 0 ? 'text-profit' : 'text-loss'}`}>
+                  {summary.gain >= 0 ? '+' : ''}{formatCurrency(summary.gain, true)}
+                </span>
+              </span>
+            </div>
+
+            <Tabs defaultValue="assetType">
+              <TabsList>
+                {waterfalls.map(({ dimension }) => (
+                  <TabsTrigger key={dimension} value={dimension}>{DIMENSION_LABELS[dimension]}</TabsTrigger>
+                ))}
+              </TabsList>
+              {waterfalls.map(({ dimension, steps }) => (
+                <TabsContent key={dimension} value={dimension} className="mt-4">
+                  <ChartContainer config={waterfallChartConfig} className="h-[320px] w-full">
+                    <BarChart data={steps} margin={{ top: 5, right: 10, left: 10, bottom: 40 }}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" vertical={false} />
+                      <XAxis
+                        dataKey="label"
+                        axisLine={false}
+                        tickLine={false}
+                        interval={0}
+                        angle={-30}
+                        textAnchor="end"
+                        tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                      />
+                      <YAxis
+                        axisLine={false}
+                        tickLine={false}
+                        tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                        tickFormatter={(value) => `₹${(value / 100000).toFixed(1)}L`}
+                      />
+                      <ReferenceLine y={0} className="stroke-muted-foreground" />
+                      <ChartTooltip
+                        content={<ChartTooltipContent
+                          hideIndicator
+                          formatter={(_value, _name, item) => {
+                            const step = item.payload as WaterfallStep;
+                            const sign = step.kind !== 'total' && step.amount >= 0 ? '+' : '';
+                            return `${sign}${formatCurrency(step.amount)}`;
+                          }}
+                        />}
+                      />
+                      <Bar dataKey="range" radius={2}>
+                        {steps.map((step, i) => (
+                          <Cell key={i} fill={STEP_COLORS[step.kind]} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ChartContainer>
+                </TabsContent>
+              ))}
+            </Tabs>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,303 @@
+import { useState, useRef } from 'react';
+import { Upload, Plus, Loader2, LineChart, ChevronDown } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { formatPercent } from '@/lib/portfolioUtils';
+import { KITE_BENCHMARKS } from '@/hooks/useBenchmarks';
+import { Benchmark, BenchmarkComparison, DateRange } from '@/types/performance';
+import { cn } from '@/lib/utils';
+
+interface BenchmarkPanelProps {
+  benchmarks: Benchmark[];
+  selectedSymbols: string[];
+  onSelectionChange: (symbols: string[]) => void;
+  comparisons: Record<DateRange, BenchmarkComparison[]>;
+  activeRange: DateRange;
+  onImportCsv: (params: { symbol: string; name?: string; file: File }) => void;
+  isImporting: boolean;
+  onSyncFromKite: (params: { symbol: string; name?: string; instrumentToken?: number }) => void;
+  isSyncingFromKite: boolean;
+}
+
+const RANGE_LABELS: Record<DateRange, string> = {
+  '7d': '7D',
+  '30d': '30D',
+  '90d': '90D',
+  'all': 'All',
+};
+
+function SignedPercent({ value }: { value: number | null }) {
+  if (value === null) return <span className="text-muted-foreground">-</span>;
+  return <span className={value >= 0 ? 'text-profit' : 'text-loss'}>{formatPercent(value)}</span>;
+}
+
+export function BenchmarkPanel({
+  benchmarks,
+  selectedSymbols,
+  onSelectionChange,
+  comparisons,
+  activeRange,
+  onImportCsv,
+  isImporting,
+  onSyncFromKite,
+  isSyncingFromKite,
+}: BenchmarkPanelProps) {
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [csvSymbol, setCsvSymbol] = useState('');
+  const [csvName, setCsvName] = useState('');
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [customToken, setCustomToken] = useState('');
+  const [customSymbol, setCustomSymbol] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const toggleSymbol = (symbol: string) => {
+    onSelectionChange(
+      selectedSymbols.includes(symbol)
+        ? selectedSymbols.filter(s => s !== symbol)
+        : [...selectedSymbols, symbol]
+    );
+  };
+
+  const handleCsvImport = () => {
+    if (!csvSymbol.trim() || !csvFile) return;
+    onImportCsv({ symbol: csvSymbol, name: csvName || undefined, file: csvFile });
+    if (!selectedSymbols.includes(csvSymbol.trim().toUpperCase())) {
+      onSelectionChange([...selectedSymbols, csvSymbol.trim().toUpperCase()]);
+    }
+    setShowAddDialog(false);
+    setCsvFile(null);
+  };
+
+  const handleKiteSync = (symbol: string, name?: string, instrumentToken?: number) => {
+    onSyncFromKite({ symbol, name, instrumentToken });
+    if (!selectedSymbols.includes(symbol.toUpperCase())) {
+      onSelectionChange([...selectedSymbols, symbol.toUpperCase()]);
+    }
+    setShowAddDialog(false);
+  };
+
+  const selectedBenchmarks = benchmarks.filter(b => selectedSymbols.includes(b.symbol));
+
+  return (
+    <Card className="border-border bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <LineChart className="h-5 w-5 text-primary" />
+              Benchmark Comparison
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Same cashflows invested in the index, compared with your time-weighted return
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={benchmarks.length === 0}>
+                  Benchmarks ({selectedBenchmarks.length})
+                  <ChevronDown className="h-4 w-4 ml-2" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>Compare against</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {benchmarks.map(b => (
+                  <DropdownMenuCheckboxItem
+                    key={b.symbol}
+                    checked={selectedSymbols.includes(b.symbol)}
+                    onCheckedChange={() => toggleSymbol(b.symbol)}
+                  >
+                    {b.name}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" size="sm" onClick={() => setShowAddDialog(true)}>
+              {isImporting || isSyncingFromKite ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4 mr-2" />
+              )}
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {selectedBenchmarks.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            {benchmarks.length === 0
+              ? 'Load index closes from a CSV or your Kite session to compare performance'
+              : 'Pick one or more benchmarks to compare'}
+          </div>
+        ) : (
+          <TooltipProvider>
+            <div className="rounded-md border border-border/50 overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableHead className="font-semibold">Benchmark</TableHead>
+                    {(Object.keys(RANGE_LABELS) as DateRange[]).map(range => (
+                      <TableHead
+                        key={range}
+                        className={cn('text-right font-semibold', range === activeRange && 'text-foreground')}
+                      >
+                        {RANGE_LABELS[range]}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedBenchmarks.map(benchmark => (
+                    <TableRow key={benchmark.symbol}>
+                      <TableCell className="font-medium">{benchmark.name}</TableCell>
+                      {(Object.keys(RANGE_LABELS) as DateRange[]).map(range => {
+                        const comparison = comparisons[range].find(c => c.symbol === benchmark.symbol);
+                        return (
+                          <TableCell
+                            key={range}
+                            className={cn('text-right font-mono-numbers text-xs', range === activeRange && 'bg-muted/20')}
+                          >
+                            {comparison ? (
+                              <Tooltip>
+                                <TooltipTrigger className="space-y-0.5 text-right">
+                                  <div>TD <SignedPercent value={comparison.trackingDifference} /></div>
+                                  <div className="text-muted-foreground">
+                                    α <SignedPercent value={comparison.alpha} />
+                                  </div>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <div className="text-xs space-y-1">
+                                    <p>Portfolio (TWR): {formatPercent(comparison.portfolioTwr)}</p>
+                                    <p>{benchmark.name}: {formatPercent(comparison.benchmarkReturn)}</p>
+                                    <p>Beta: {comparison.beta !== null ? comparison.beta.toFixed(2) : 'needs more snapshots'}</p>
+                                  </div>
+                                </TooltipContent>
+                              </Tooltip>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              TD = tracking difference (your return minus the index). α = return not explained by your beta to the index.
+            </p>
+          </TooltipProvider>
+        )}
+      </CardContent>
+
+      <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Benchmark</DialogTitle>
+            <DialogDescription>
+              Load daily index closes from a CSV file or from Kite if your Zerodha session is active
+            </DialogDescription>
+          </DialogHeader>
+          <Tabs defaultValue="csv">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="csv">CSV File</TabsTrigger>
+              <TabsTrigger value="kite">Kite</TabsTrigger>
+            </TabsList>
+            <TabsContent value="csv" className="space-y-4 mt-4">
+              <div className="space-y-2">
+                <Label htmlFor="benchmark-symbol">Symbol</Label>
+                <Input
+                  id="benchmark-symbol"
+                  placeholder="NIFTY 50"
+                  value={csvSymbol}
+                  onChange={e => setCsvSymbol(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="benchmark-name">Display name (optional)</Label>
+                <Input
+                  id="benchmark-name"
+                  placeholder="Nifty 50"
+                  value={csvName}
+                  onChange={e => setCsvName(e.target.value)}
+                />
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={e => setCsvFile(e.target.files?.[0] || null)}
+              />
+              <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                {csvFile ? csvFile.name : 'Choose CSV with Date and Close columns'}
+              </Button>
+              <Button className="w-full" onClick={handleCsvImport} disabled={!csvSymbol.trim() || !csvFile || isImporting}>
+                Import
+              </Button>
+            </TabsContent>
+            <TabsContent value="kite" className="space-y-4 mt-4">
+              <div className="flex flex-wrap gap-2">
+                {KITE_BENCHMARKS.map(b => (
+                  <Badge
+                    key={b.symbol}
+                    variant="outline"
+                    className="cursor-pointer hover:bg-muted px-3 py-1.5"
+                    onClick={() => handleKiteSync(b.symbol, b.name)}
+                  >
+                    {b.name}
+                  </Badge>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  placeholder="Symbol"
+                  value={customSymbol}
+                  onChange={e => setCustomSymbol(e.target.value)}
+                />
+                <Input
+                  placeholder="Instrument token"
+                  inputMode="numeric"
+                  value={customToken}
+                  onChange={e => setCustomToken(e.target.value)}
+                />
+              </div>
+              <Button
+                className="w-full"
+                disabled={!customSymbol.trim() || !Number(customToken) || isSyncingFromKite}
+                onClick={() => handleKiteSync(customSymbol.trim(), undefined, Number(customToken))}
+              >
+                Load custom index
+              </Button>
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -4,45 +4,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { toast } from 'sonner';
-
-interface BrokerInfo {
-  name: string;
-  description: string;
-  icon?: React.ReactNode;
-  color: string;
-}
-
-const BROKERS: Record<string, BrokerInfo> = {
-  'angel': {
-    name: 'Angel One',
-    description: 'Angel Broking SmartAPI',
-    color: 'text-red-400',
-  },
-  'groww': {
-    name: 'Groww',
-    description: 'Stocks & Mutual Funds',
-    color: 'text-green-400',
-  },
-  'hdfc': {
-    name: 'HDFC Securities',
-    description: 'HDFC Bank Integration',
-    color: 'text-blue-400',
-  },
-  'icici': {
-    name: 'ICICI Direct',
-    description: 'ICICIdirect API',
-    color: 'text-orange-400',
-  },
-};
+import { BrokerInfo } from '@/types/broker';
 
 interface BrokerPlaceholderCardProps {
-  brokerId: keyof typeof BROKERS;
+  broker: BrokerInfo;
   delay?: number;
 }
 
-export function BrokerPlaceholderCard({ brokerId, delay = 0 }: BrokerPlaceholderCardProps) {
-  const broker = BROKERS[brokerId];
-
+export function BrokerPlaceholderCard({ broker, delay = 0 }: BrokerPlaceholderCardProps) {
   const handleClick = () => {
     toast.info('Feature in development', {
       description: `${broker.name} integration is coming soon!`,
@@ -50,8 +19,6 @@ export function BrokerPlaceholderCard({ brokerId, delay = 0 }: BrokerPlaceholder
     });
   };
 
-  if (!broker) return null;
-
   return (
     <TooltipProvider>
       <Tooltip>
@@ -100,6 +67,3 @@ export function BrokerPlaceholderCard({ brokerId, delay = 0 }: BrokerPlaceholder
     </TooltipProvider>
   );
 }
-
-// Export the list of available brokers for iteration
-export const AVAILABLE_BROKERS = Object.keys(BROKERS) as Array<keyof typeof BROKERS>;
@@ -15,6 +15,8 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { ImportPreviewDialog } from './ImportPreviewDialog';
+import { ImportPreview } from '@/types/importPreview';
 
 interface CaptureModalProps {
   open: boolean;
@@ -48,6 +50,9 @@ export function CaptureModal({
   );
   const [isCapturing, setIsCapturing] = useState(false);
   const [excelFile, setExcelFile] = useState<File | null>(null);
+  const [previewFile, setPreviewFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const toggleSource = (source: string) => {
@@ -66,11 +71,47 @@ export function CaptureModal({
     );
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // The file is only queued for import once its dry run has been reviewed
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      setExcelFile(file);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
+    if (!file) return;
+
+    setIsPreviewing(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('dry_run', 'true');
+
+      const { data, error } = await supabase.functions.invoke('parse-indmoney', {
+        body: formData,
+      });
+
+      if (error || !data?.success) {
+        throw new Error(data?.error || 'Failed to parse Excel file');
+      }
+
+      setPreviewFile(file);
+      setPreview(data as ImportPreview);
+    } catch (error) {
+      console.error('Excel preview error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to parse Excel file');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleConfirmPreview = () => {
+    setExcelFile(previewFile);
+    setPreview(null);
+    setPreviewFile(null);
+  };
+
+  const handleCancelPreview = () => {
+    setPreview(null);
+    setPreviewFile(null);
   };
 
   const handleCapture = async () => {
@@ -226,7 +267,7 @@ export function CaptureModal({
                   ? 'border-profit bg-profit/5'
                   : 'border-border hover:border-primary/50'
               }`}
-              onClick={() => fileInputRef.current?.click()}
+              onClick={() => !isPreviewing && fileInputRef.current?.click()}
             >
               <input
                 ref={fileInputRef}
@@ -235,13 +276,18 @@ export function CaptureModal({
                 onChange={handleFileChange}
                 className="hidden"
               />
-              {excelFile ? (
+              {isPreviewing ? (
+                <>
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  <p className="flex-1 text-sm text-muted-foreground">Checking file...</p>
+                </>
+              ) : excelFile ? (
                 <>
                   <Check className="h-5 w-5 text-profit" />
                   <div className="flex-1">
                     <p className="text-sm font-medium">{excelFile.name}</p>
                     <p className="text-xs text-muted-foreground">
-                      Will be parsed before snapshot
+                      Reviewed, will be imported before snapshot
                     </p>
                   </div>
                 </>
@@ -268,7 +314,7 @@ export function CaptureModal({
           </Button>
           <Button
             onClick={handleCapture}
-            disabled={isCapturing || (selectedSources.length === 0 && !excelFile)}
+            disabled={isCapturing || isPreviewing || (selectedSources.length === 0 && !excelFile)}
           >
             {isCapturing ? (
               <>
@@ -284,6 +330,14 @@ export function CaptureModal({
           </Button>
         </div>
       </DialogContent>
+
+      <ImportPreviewDialog
+        open={preview !== null}
+        fileName={previewFile?.name}
+        preview={preview}
+        onConfirm={handleConfirmPreview}
+        onCancel={handleCancelPreview}
+      />
     </Dialog>
   );
 }
@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { AlertTriangle, Bookmark, Eye, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MAPPABLE_FIELDS, columnLetter, sourceLabelError, validateColumnMap } from '@/lib/columnMapping';
+import { MappableField, SpreadsheetMapping } from '@/types/columnMapping';
+import { AssetType } from '@/types/portfolio';
+
+export interface SheetRows {
+  name: string;
+  rows: unknown[][];
+}
+
+interface ColumnMappingDialogProps {
+  open: boolean;
+  fileName?: string;
+  sheets: SheetRows[];
+  mapping: SpreadsheetMapping;
+  // Name of the saved template that produced the mapping, if any
+  appliedTemplate?: string | null;
+  isPreviewing?: boolean;
+  isSavingTemplate?: boolean;
+  onMappingChange: (mapping: SpreadsheetMapping) => void;
+  onSheetChange: (sheetName: string) => void;
+  onHeaderRowChange: (headerRow: number) => void;
+  onSaveTemplate: (name: string) => void;
+  onContinue: () => void;
+  onCancel: () => void;
+}
+
+// Types offered for files without an asset type column
+const DEFAULT_TYPES: AssetType[] = ['Equity', 'ETF', 'Mutual Fund', 'US Stock', 'Bond', 'REIT', 'SGB'];
+
+// Rows offered as the header; matches the detection window
+const HEADER_ROW_OPTIONS = 40;
+
+const NOT_IN_FILE = '-1';
+
+function cellPreview(value: unknown): string {
+  const text = value instanceof Date ? value.toLocaleDateString('en-IN') : String(value ?? '').trim();
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+/**
+ * Second step of the generic spreadsheet import: confirm the header row and
+ * the column for each holding field before previewing the import
+ */
+export function ColumnMappingDialog({
+  open,
+  fileName,
+  sheets,
+  mapping,
+  appliedTemplate,
+  isPreviewing = false,
+  isSavingTemplate = false,
+  onMappingChange,
+  onSheetChange,
+  onHeaderRowChange,
+  onSaveTemplate,
+  onContinue,
+  onCancel,
+}: ColumnMappingDialogProps) {
+  const [templateName, setTemplateName] = useState('');
+
+  const rows = sheets.find(s => s.name === mapping.sheetName)?.rows ?? [];
+  const header = rows[mapping.headerRow] ?? [];
+  // First row under the header with a value in the name column, shown as a sample
+  const sampleRow = rows.slice(mapping.headerRow + 1).find(row => String(row?.[mapping.columns.name] ?? '').trim()) ?? [];
+  const sourceError = sourceLabelError(mapping.source);
+  const errors = [...validateColumnMap(mapping.columns), ...(sourceError ? [sourceError] : [])];
+  const canContinue = errors.length === 0 && mapping.source.trim().length > 0;
+
+  const setColumn = (field: MappableField, value: string) => {
+    onMappingChange({ ...mapping, columns: { ...mapping.columns, [field]: Number(value) } });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && !isPreviewing && onCancel()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Map columns</DialogTitle>
+          <DialogDescription>
+            {fileName ? `${fileName}: ` : ''}check which column holds each field. Nothing is saved until you confirm the preview.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {appliedTemplate && (
+            <Badge variant="outline" className="gap-1 border-primary/30 text-primary">
+              <Bookmark className="h-3 w-3" />
+              Using template “{appliedTemplate}”
+            </Badge>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {sheets.length > 1 && (
+              <div className="space-y-2">
+                <Label>Sheet</Label>
+                <Select value={mapping.sheetName} onValueChange={onSheetChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sheets.map(sheet => (
+                      <SelectItem key={sheet.name} value={sheet.name}>{sheet.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Header row</Label>
+              <Select value={String(mapping.headerRow)} onValueChange={value => onHeaderRowChange(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {rows.slice(0, HEADER_ROW_OPTIONS).map((row, idx) => (
+                    <SelectItem key={idx} value={String(idx)}>
+                      Row {idx + 1}: {cellPreview((row || []).filter(cell => String(cell).trim()).slice(0, 4).join(' · ')) || '(empty)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="spreadsheet-source">Source label</Label>
+              <Input
+                id="spreadsheet-source"
+                placeholder="e.g. HDFC Securities"
+                maxLength={50}
+                value={mapping.source}
+                onChange={(e) => onMappingChange({ ...mapping, source: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="spreadsheet-broker">Broker (if the file has no broker column)</Label>
+              <Input
+                id="spreadsheet-broker"
+                placeholder="Defaults to the source label"
+                maxLength={50}
+                value={mapping.broker}
+                onChange={(e) => onMappingChange({ ...mapping, broker: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Asset type (if the file has no type column)</Label>
+              <Select value={mapping.defaultType} onValueChange={value => onMappingChange({ ...mapping, defaultType: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEFAULT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="rounded-md border border-border/50">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Field</TableHead>
+                  <TableHead className="text-xs">Column</TableHead>
+                  <TableHead className="text-xs">Sample</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {MAPPABLE_FIELDS.map(({ field, label, required }) => (
+                  <TableRow key={field}>
+                    <TableCell className="text-xs font-medium">
+                      {label}
+                      {required && <span className="text-loss"> *</span>}
+                    </TableCell>
+                    <TableCell className="py-1.5">
+                      <Select value={String(mapping.columns[field])} onValueChange={value => setColumn(field, value)}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_IN_FILE}>Not in file</SelectItem>
+                          {header.map((cell, idx) => (
+                            <SelectItem key={idx} value={String(idx)}>
+                              {columnLetter(idx)}: {cellPreview(cell) || '(blank)'}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground font-mono-numbers truncate max-w-[180px]">
+                      {mapping.columns[field] >= 0 ? cellPreview(sampleRow[mapping.columns[field]]) : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="space-y-1 rounded-md border border-yellow-500/30 bg-yellow-500/5 p-3 text-sm">
+              {errors.map(error => (
+                <p key={error} className="flex items-center gap-2 text-yellow-500">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {error}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              placeholder="Template name, e.g. HDFC holdings"
+              maxLength={60}
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              onClick={() => onSaveTemplate(templateName.trim())}
+              disabled={!templateName.trim() || !canContinue || isSavingTemplate}
+            >
+              {isSavingTemplate ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Bookmark className="h-4 w-4 mr-2" />
+              )}
+              Save as template
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A saved template is applied automatically the next time you upload a file with the same header.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel} disabled={isPreviewing}>
+            Cancel
+          </Button>
+          <Button onClick={onContinue} disabled={!canContinue || isPreviewing}>
+            {isPreviewing ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Eye className="h-4 w-4 mr-2" />
+            )}
+            Preview import
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,21 +1,23 @@
-import { useState, useRef } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, FileSpreadsheet, CheckCircle2, XCircle, Clock } from 'lucide-react';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
+import { motion } from 'framer-motion';
+import { Clock } from 'lucide-react';
 import { KiteConnectCard } from './KiteConnectCard';
-import { BrokerPlaceholderCard, AVAILABLE_BROKERS } from './BrokerPlaceholderCard';
-import { UploadProgressIndicator, UploadStep } from './UploadProgressIndicator';
+import { AngelConnectCard } from './AngelConnectCard';
+import { UpstoxConnectCard } from './UpstoxConnectCard';
+import { BrokerPlaceholderCard } from './BrokerPlaceholderCard';
+import { StatementUploadCard, SyncStatus } from './StatementUploadCard';
+import { UploadResult } from '@/hooks/usePortfolioData';
+import { ImportPreview } from '@/types/importPreview';
+import { SpreadsheetMapping } from '@/types/columnMapping';
+import { ManualHoldingInput } from '@/types/manualHolding';
 import { useKiteSession } from '@/hooks/useKiteSession';
-import { MFCentralCard } from '@/components/mutualfund/MFCentralCard';
-interface SyncStatus {
-  source: string;
-  status: string;
-  holdings_count: number | null;
-  error_message: string | null;
-  created_at: string;
-}
-
+import { ZerodhaConsoleCard } from './ZerodhaConsoleCard';
+import { SpreadsheetImportCard } from './SpreadsheetImportCard';
+import { ManualHoldingsCard } from './ManualHoldingsCard';
+import { DepositsCard } from './DepositsCard';
+import { Holding } from '@/types/portfolio';
+import { BrokerInfo } from '@/types/broker';
+import { availableBrokers, upcomingBrokers } from '@/lib/brokerRegistry';
+import { MFCASCard } from '@/components/mutualfund/MFCASCard';
 interface SyncProgress {
   step: 'idle' | 'connecting' | 'verifying' | 'syncing' | 'complete' | 'error';
   message: string;
@@ -23,117 +25,90 @@ interface SyncProgress {
 
 interface DataSourcePanelProps {
   onSyncZerodha: () => Promise<void>;
-  onUploadINDMoney: (file: File) => Promise<{ success: boolean; holdings_count?: number; error?: string }>;
+  onSyncBroker: (brokerId: string, label: string) => Promise<void>;
+  onUploadINDMoney: (file: File) => Promise<UploadResult>;
+  onUploadGroww: (file: File) => Promise<UploadResult>;
+  onUploadCAS: (file: File, password?: string) => Promise<UploadResult>;
+  onPreviewINDMoney: (file: File) => Promise<ImportPreview>;
+  onPreviewGroww: (file: File) => Promise<ImportPreview>;
+  onUploadSpreadsheet: (file: File, mapping: SpreadsheetMapping) => Promise<UploadResult>;
+  onPreviewSpreadsheet: (file: File, mapping: SpreadsheetMapping) => Promise<ImportPreview>;
+  onSaveManualHolding: (input: ManualHoldingInput, id?: string) => Promise<boolean>;
+  onDeleteManualHolding: (id: string) => Promise<boolean>;
+  onDepositsChanged?: () => void;
   isSyncing: boolean;
   syncStatus: SyncStatus[];
   lastSync: Date | null;
   syncProgress?: SyncProgress;
+  upstoxProgress?: SyncProgress;
+  holdings: Holding[];
 }
 
 export function DataSourcePanel({
   onSyncZerodha,
+  onSyncBroker,
   onUploadINDMoney,
+  onUploadGroww,
+  onUploadCAS,
+  onPreviewINDMoney,
+  onPreviewGroww,
+  onUploadSpreadsheet,
+  onPreviewSpreadsheet,
+  onSaveManualHolding,
+  onDeleteManualHolding,
+  onDepositsChanged,
   isSyncing,
   syncStatus,
   lastSync,
   syncProgress,
+  upstoxProgress,
+  holdings,
 }: DataSourcePanelProps) {
-  const [dragActive, setDragActive] = useState(false);
-  const [uploadStep, setUploadStep] = useState<UploadStep>('idle');
-  const [uploadMessage, setUploadMessage] = useState('');
-  const [uploadedHoldingsCount, setUploadedHoldingsCount] = useState(0);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const handleDrag = (e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    if (e.type === 'dragenter' || e.type === 'dragover') {
-      setDragActive(true);
-    } else if (e.type === 'dragleave') {
-      setDragActive(false);
-    }
-  };
-
-  const handleUpload = async (file: File) => {
-    try {
-      // Step 1: Uploading
-      setUploadStep('uploading');
-      setUploadMessage(`Uploading ${file.name}...`);
-      
-      // Small delay to show the uploading state
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      // Step 2: Parsing
-      setUploadStep('parsing');
-      setUploadMessage('Parsing Excel file...');
-      
-      // Step 3: Syncing (this is where the actual upload happens)
-      setUploadStep('syncing');
-      setUploadMessage('Syncing holdings to database...');
-      
-      const result = await onUploadINDMoney(file);
-      
-      if (result.success) {
-        setUploadStep('complete');
-        setUploadedHoldingsCount(result.holdings_count || 0);
-        setUploadMessage(`Successfully imported ${result.holdings_count || 0} holdings!`);
-        
-        // Reset after 3 seconds
-        setTimeout(() => {
-          setUploadStep('idle');
-          setUploadMessage('');
-        }, 3000);
-      } else {
-        setUploadStep('error');
-        setUploadMessage(result.error || 'Failed to import holdings');
-        
-        // Reset after 5 seconds
-        setTimeout(() => {
-          setUploadStep('idle');
-          setUploadMessage('');
-        }, 5000);
-      }
-    } catch (error: any) {
-      setUploadStep('error');
-      setUploadMessage(error.message || 'Upload failed');
-      
-      setTimeout(() => {
-        setUploadStep('idle');
-        setUploadMessage('');
-      }, 5000);
-    }
-  };
-
-  const handleDrop = async (e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setDragActive(false);
-
-    const files = e.dataTransfer.files;
-    if (files && files[0]) {
-      await handleUpload(files[0]);
-    }
-  };
-
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files && files[0]) {
-      await handleUpload(files[0]);
-    }
-    // Reset the input so the same file can be uploaded again
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
-  };
-
   const getLatestStatus = (source: string) => {
     return syncStatus.find(s => s.source === source);
   };
 
   const zerodhaStatus = getLatestStatus('Zerodha');
   const indmoneyStatus = getLatestStatus('INDMoney');
-
-  const isUploading = uploadStep !== 'idle' && uploadStep !== 'complete' && uploadStep !== 'error';
+  const growwStatus = getLatestStatus('Groww');
+  const casStatus = getLatestStatus('CAS');
+
+  // Connect card for each API broker in the registry
+  const renderBrokerCard = (broker: BrokerInfo) => {
+    switch (broker.id) {
+      case 'zerodha':
+        return (
+          <KiteConnectCard
+            key={broker.id}
+            onSyncZerodha={onSyncZerodha}
+            isSyncing={isSyncing}
+            zerodhaStatus={zerodhaStatus}
+            syncProgress={syncProgress}
+          />
+        );
+      case 'upstox':
+        return (
+          <UpstoxConnectCard
+            key={broker.id}
+            onSync={() => onSyncBroker(broker.id, broker.name)}
+            isSyncing={isSyncing}
+            status={getLatestStatus(broker.source)}
+            syncProgress={upstoxProgress}
+          />
+        );
+      case 'angel':
+        return (
+          <AngelConnectCard
+            key={broker.id}
+            onSync={() => onSyncBroker(broker.id, broker.name)}
+            isSyncing={isSyncing}
+            status={getLatestStatus(broker.source)}
+          />
+        );
+      default:
+        return null;
+    }
+  };
 
   return (
     <motion.div
@@ -158,98 +133,62 @@ export function DataSourcePanel({
 
         {/* Active Brokers Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {/* Zerodha Kite Connect Card */}
-          <KiteConnectCard
-            onSyncZerodha={onSyncZerodha}
-            isSyncing={isSyncing}
-            zerodhaStatus={zerodhaStatus}
-            syncProgress={syncProgress}
-          />
+          {/* API-connected brokers */}
+          {availableBrokers().map(renderBrokerCard)}
 
           {/* INDMoney Upload Card */}
-          <Card className="border-border bg-card/50 backdrop-blur-sm">
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <div className="p-2 rounded-lg bg-blue-500/10">
-                    <FileSpreadsheet className="h-5 w-5 text-blue-500" />
-                  </div>
-                  <div>
-                    <CardTitle className="text-lg">INDMoney</CardTitle>
-                    <CardDescription>Upload Holdings Report Excel</CardDescription>
-                  </div>
-                </div>
-                <StatusBadge status={indmoneyStatus} />
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {/* Show upload progress or status */}
-                <AnimatePresence mode="wait">
-                  {uploadStep !== 'idle' ? (
-                    <UploadProgressIndicator 
-                      step={uploadStep} 
-                      message={uploadMessage}
-                      holdingsCount={uploadedHoldingsCount}
-                    />
-                  ) : indmoneyStatus ? (
-                    <motion.div
-                      initial={{ opacity: 0 }}
-                      animate={{ opacity: 1 }}
-                      className="text-sm text-muted-foreground"
-                    >
-                      {indmoneyStatus.status === 'success' ? (
-                        <span className="flex items-center gap-2">
-                          <CheckCircle2 className="h-4 w-4 text-profit" />
-                          {indmoneyStatus.holdings_count} holdings imported
-                        </span>
-                      ) : (
-                        <span className="flex items-center gap-2 text-loss">
-                          <XCircle className="h-4 w-4" />
-                          {indmoneyStatus.error_message}
-                        </span>
-                      )}
-                    </motion.div>
-                  ) : null}
-                </AnimatePresence>
+          <StatementUploadCard
+            title="INDMoney"
+            description="Upload Holdings Report Excel"
+            fileHint="Indmoney-HoldingsReport*.xlsx"
+            accept=".xlsx,.xls"
+            accentClassName="text-blue-500"
+            accentBgClassName="bg-blue-500/10"
+            status={indmoneyStatus}
+            onUpload={onUploadINDMoney}
+            onPreview={onPreviewINDMoney}
+          />
+
+          {/* Groww Upload Card */}
+          <StatementUploadCard
+            title="Groww"
+            description="Stocks or Mutual Funds holdings export"
+            fileHint="Stocks_Holdings_Statement*.xlsx or Mutual_Funds*.xlsx"
+            accept=".xlsx,.xls,.csv"
+            accentClassName="text-green-500"
+            accentBgClassName="bg-green-500/10"
+            status={growwStatus}
+            onUpload={onUploadGroww}
+            onPreview={onPreviewGroww}
+          />
+
+          {/* Depository CAS Upload Card */}
+          <StatementUploadCard
+            title="NSDL / CDSL CAS"
+            description="All demat accounts and MF folios in one PDF"
+            fileHint="Monthly consolidated account statement (.pdf)"
+            accept=".pdf"
+            accentClassName="text-cas"
+            accentBgClassName="bg-cas/10"
+            passwordLabel="PDF password (usually your PAN)"
+            status={casStatus}
+            onUpload={onUploadCAS}
+          />
+
+          {/* Any broker's spreadsheet, with a user-confirmed column mapping */}
+          <SpreadsheetImportCard onUpload={onUploadSpreadsheet} onPreview={onPreviewSpreadsheet} />
 
-                <div
-                  className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors cursor-pointer ${
-                    isUploading ? 'opacity-50 pointer-events-none' :
-                    dragActive
-                      ? 'border-primary bg-primary/5'
-                      : 'border-border hover:border-primary/50'
-                  }`}
-                  onDragEnter={handleDrag}
-                  onDragLeave={handleDrag}
-                  onDragOver={handleDrag}
-                  onDrop={handleDrop}
-                  onClick={() => !isUploading && fileInputRef.current?.click()}
-                >
-                  <input
-                    ref={fileInputRef}
-                    type="file"
-                    accept=".xlsx,.xls"
-                    onChange={handleFileChange}
-                    className="hidden"
-                    disabled={isUploading}
-                  />
-                  <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                  <p className="text-sm text-muted-foreground">
-                    {dragActive
-                      ? 'Drop the file here'
-                      : 'Drag & drop or click to upload'}
-                  </p>
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Indmoney-HoldingsReport*.xlsx
-                  </p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+          {/* Off-platform assets entered by hand */}
+          <ManualHoldingsCard holdings={holdings} onSave={onSaveManualHolding} onDelete={onDeleteManualHolding} />
+
+          {/* Bank FDs and RDs, valued from their terms */}
+          <DepositsCard onChanged={onDepositsChanged} />
+
+          {/* Zerodha Console Trade History Card */}
+          <ZerodhaConsoleCard holdings={holdings} />
 
           {/* Mutual Fund CAS Sync Card */}
-          <MFCentralCard />
+          <MFCASCard />
         </div>
 
         {/* Coming Soon Brokers */}
@@ -259,10 +198,10 @@ export function DataSourcePanel({
             <p className="text-sm text-muted-foreground/70">More broker integrations are on the way</p>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            {AVAILABLE_BROKERS.map((brokerId, index) => (
+            {upcomingBrokers().map((broker, index) => (
               <BrokerPlaceholderCard
-                key={brokerId}
-                brokerId={brokerId}
+                key={broker.id}
+                broker={broker}
                 delay={0.1 + index * 0.05}
               />
             ))}
@@ -271,15 +210,3 @@ export function DataSourcePanel({
       </motion.div>
   );
 }
-
-function StatusBadge({ status }: { status?: SyncStatus }) {
-  if (!status) {
-    return <Badge variant="outline" className="text-muted-foreground">Not synced</Badge>;
-  }
-
-  if (status.status === 'success') {
-    return <Badge className="bg-profit/20 text-profit border-profit/30">Synced</Badge>;
-  }
-
-  return <Badge variant="destructive">Error</Badge>;
-}
@@ -0,0 +1,253 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FREQUENCY_LABELS, addMonths, toISODate, validateDeposit, valueDeposit } from '@/lib/deposits';
+import { formatCurrency } from '@/lib/portfolioUtils';
+import { CompoundingFrequency, DepositKind, InterestPayout, NewDeposit } from '@/types/deposit';
+
+interface DepositDialogProps {
+  open: boolean;
+  // Terms of the deposit being edited; a new deposit when absent
+  initial?: NewDeposit;
+  isSaving?: boolean;
+  onSave: (deposit: NewDeposit) => void;
+  onCancel: () => void;
+}
+
+const FREQUENCIES = Object.keys(FREQUENCY_LABELS) as CompoundingFrequency[];
+
+function blankDeposit(): NewDeposit {
+  const today = toISODate(Date.now());
+  return {
+    kind: 'FD',
+    bank: '',
+    name: '',
+    principal: 0,
+    interestRate: 0,
+    compounding: 'quarterly',
+    payout: 'cumulative',
+    startDate: today,
+    maturityDate: addMonths(today, 12),
+    tdsRate: 10,
+  };
+}
+
+function numberValue(value: number): string {
+  return value ? String(value) : '';
+}
+
+/**
+ * Add or edit a bank FD or RD. Shows what it is worth today and at maturity
+ * as the terms are filled in.
+ */
+export function DepositDialog({ open, initial, isSaving = false, onSave, onCancel }: DepositDialogProps) {
+  const [deposit, setDeposit] = useState<NewDeposit>(initial ?? blankDeposit());
+  const [touched, setTouched] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDeposit(initial ?? blankDeposit());
+      setTouched(false);
+    }
+  }, [open, initial]);
+
+  const errors = validateDeposit(deposit);
+  const valuation = errors.length === 0 ? valueDeposit(deposit) : null;
+  const update = (changes: Partial<NewDeposit>) => setDeposit(prev => ({ ...prev, ...changes }));
+  const isRD = deposit.kind === 'RD';
+
+  const handleSave = () => {
+    setTouched(true);
+    if (errors.length === 0) onSave(deposit);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && !isSaving && onCancel()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initial ? 'Edit deposit' : 'Add a deposit'}</DialogTitle>
+          <DialogDescription>
+            Interest accrues daily from these terms; the value updates on its own.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={deposit.kind}
+                onValueChange={value => update({ kind: value as DepositKind, payout: 'cumulative' })}
+                disabled={!!initial}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="FD">Fixed deposit</SelectItem>
+                  <SelectItem value="RD">Recurring deposit</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deposit-bank">Bank</Label>
+              <Input
+                id="deposit-bank"
+                placeholder="e.g. HDFC Bank"
+                maxLength={50}
+                value={deposit.bank}
+                onChange={(e) => update({ bank: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="deposit-name">Label (optional)</Label>
+              <Input
+                id="deposit-name"
+                placeholder={`${deposit.bank.trim() || 'Bank'} ${deposit.kind}`}
+                maxLength={100}
+                value={deposit.name}
+                onChange={(e) => update({ name: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deposit-principal">{isRD ? 'Monthly instalment (₹)' : 'Principal (₹)'}</Label>
+              <Input
+                id="deposit-principal"
+                type="number"
+                min={0}
+                step="any"
+                value={numberValue(deposit.principal)}
+                onChange={(e) => update({ principal: Number(e.target.value) })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deposit-rate">Interest rate (% p.a.)</Label>
+              <Input
+                id="deposit-rate"
+                type="number"
+                min={0}
+                step="0.01"
+                value={numberValue(deposit.interestRate)}
+                onChange={(e) => update({ interestRate: Number(e.target.value) })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deposit-start">{isRD ? 'First instalment' : 'Start date'}</Label>
+              <Input
+                id="deposit-start"
+                type="date"
+                value={deposit.startDate}
+                onChange={(e) => update({ startDate: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deposit-maturity">Maturity date</Label>
+              <Input
+                id="deposit-maturity"
+                type="date"
+                value={deposit.maturityDate}
+                onChange={(e) => update({ maturityDate: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Compounding</Label>
+              <Select value={deposit.compounding} onValueChange={value => update({ compounding: value as CompoundingFrequency })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FREQUENCIES.map(frequency => (
+                    <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Interest payout</Label>
+              <Select
+                value={deposit.payout}
+                onValueChange={value => update({ payout: value as InterestPayout })}
+                disabled={isRD}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cumulative">Cumulative (at maturity)</SelectItem>
+                  {FREQUENCIES.map(frequency => (
+                    <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]} payout</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deposit-tds">TDS on interest (%)</Label>
+              <Input
+                id="deposit-tds"
+                type="number"
+                min={0}
+                max={100}
+                step="any"
+                value={String(deposit.tdsRate)}
+                onChange={(e) => update({ tdsRate: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          {valuation && (
+            <div className="grid grid-cols-2 gap-3 rounded-md border border-border/50 bg-muted/30 p-3 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">Value today</p>
+                <p className="font-mono-numbers font-medium">{formatCurrency(valuation.currentValue)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">At maturity</p>
+                <p className="font-mono-numbers font-medium">{formatCurrency(valuation.maturityValue)}</p>
+              </div>
+            </div>
+          )}
+
+          {touched && errors.length > 0 && (
+            <div className="space-y-1 rounded-md border border-yellow-500/30 bg-yellow-500/5 p-3 text-sm">
+              {errors.map(error => (
+                <p key={error} className="flex items-center gap-2 text-yellow-500">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {error}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {initial ? 'Save changes' : 'Add deposit'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
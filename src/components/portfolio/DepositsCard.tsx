@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Landmark, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { DepositDialog } from './DepositDialog';
+import { useDeposits } from '@/hooks/useDeposits';
+import { depositName, valueDeposit } from '@/lib/deposits';
+import { formatCurrency } from '@/lib/portfolioUtils';
+import { Deposit, NewDeposit } from '@/types/deposit';
+
+interface DepositsCardProps {
+  // Deposits own holdings rows, so the holdings list needs a refetch after changes
+  onChanged?: () => void;
+}
+
+function formatMaturity(date: string): string {
+  return new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+/**
+ * Bank fixed and recurring deposits, entered by hand and valued from their terms
+ */
+export function DepositsCard({ onChanged }: DepositsCardProps) {
+  const { deposits, addDeposit, isAdding, updateDeposit, isUpdating, deleteDeposit } = useDeposits(onChanged);
+  // null: dialog closed; no deposit: adding a new one
+  const [editing, setEditing] = useState<{ deposit?: Deposit } | null>(null);
+
+  const handleSave = (terms: NewDeposit) => {
+    const close = { onSuccess: () => setEditing(null) };
+    if (editing?.deposit) {
+      updateDeposit({ id: editing.deposit.id, deposit: terms }, close);
+    } else {
+      addDeposit(terms, close);
+    }
+  };
+
+  return (
+    <Card className="border-border bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-emerald-500/10">
+            <Landmark className="h-5 w-5 text-emerald-500" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Fixed &amp; Recurring Deposits</CardTitle>
+            <CardDescription>Bank FDs and RDs, valued as interest accrues</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button variant="outline" className="w-full" onClick={() => setEditing({})}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add deposit
+        </Button>
+
+        {deposits.length > 0 && (
+          <div className="space-y-2">
+            {deposits.map(deposit => (
+              <div key={deposit.id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{depositName(deposit)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {deposit.interestRate}% • {formatCurrency(valueDeposit(deposit).currentValue)} • matures {formatMaturity(deposit.maturityDate)}
+                  </p>
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setEditing({ deposit })}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-7 w-7">
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove {depositName(deposit)}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Do this once the deposit is closed or has matured and been paid out. Snapshots already taken keep it.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => deleteDeposit(deposit)}>Remove</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <DepositDialog
+        open={editing !== null}
+        initial={editing?.deposit}
+        isSaving={isAdding || isUpdating}
+        onSave={handleSave}
+        onCancel={() => setEditing(null)}
+      />
+    </Card>
+  );
+}
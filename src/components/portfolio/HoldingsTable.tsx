@@ -421,7 +421,8 @@ export function HoldingsTable({ holdings }: HoldingsTableProps) {
         const isMutualFund = holding.type === 'Mutual Fund';
         const actualXirr = holding.xirr;
         const hasActualXirr = actualXirr !== undefined && actualXirr !== null;
-        const isFromExcel = holding.source === 'INDMoney';
+        const isFromLedger = holding.xirrSource === 'ledger';
+        const isFromExcel = !isFromLedger && holding.source === 'INDMoney';
 
         if (isMutualFund) {
           if (!hasActualXirr) {
@@ -454,7 +455,9 @@ export function HoldingsTable({ holdings }: HoldingsTableProps) {
                 </TooltipTrigger>
                 <TooltipContent>
                   <p className="text-xs max-w-[220px]">
-                    {isFromExcel
+                    {isFromLedger
+                      ? 'XIRR calculated from your transaction history'
+                      : isFromExcel
                       ? 'XIRR imported from your INDMoney Excel file'
                       : 'XIRR value from portfolio data'}
                   </p>
@@ -0,0 +1,154 @@
+import { CheckCircle2, FileSpreadsheet, History, Loader2, RotateCcw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useImportBatches } from '@/hooks/useImportBatches';
+import { ImportBatch } from '@/types/importBatch';
+
+interface ImportHistoryCardProps {
+  onRestored?: () => void;
+}
+
+function scopeLabel(scope: string): string | null {
+  if (!scope) return null;
+  if (scope === 'exchange=MF') return 'Mutual funds';
+  if (scope === 'exchange!=MF') return 'Stocks';
+  return scope;
+}
+
+function formatBatchDate(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: true,
+  });
+}
+
+// Batches grouped per source and scope, newest first within each group
+function groupBatches(batches: ImportBatch[]): { key: string; source: string; scope: string; batches: ImportBatch[] }[] {
+  const groups = new Map<string, { key: string; source: string; scope: string; batches: ImportBatch[] }>();
+  for (const batch of batches) {
+    const key = `${batch.source}|${batch.scope}`;
+    if (!groups.has(key)) {
+      groups.set(key, { key, source: batch.source, scope: batch.scope, batches: [] });
+    }
+    groups.get(key)!.batches.push(batch);
+  }
+  return [...groups.values()].sort((a, b) => a.source.localeCompare(b.source) || a.scope.localeCompare(b.scope));
+}
+
+/**
+ * Past holdings imports per source, with a restore action for any batch that
+ * is no longer the current one
+ */
+export function ImportHistoryCard({ onRestored }: ImportHistoryCardProps) {
+  const { batches, isLoading, rollback, isRollingBack } = useImportBatches();
+  const groups = groupBatches(batches);
+
+  return (
+    <Card className="bg-card/50 mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Import History
+        </CardTitle>
+        <CardDescription>
+          Every sync and upload that replaced a source's holdings. Restore an earlier one to undo a bad import.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map(i => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-center py-6 text-sm text-muted-foreground">No imports recorded yet</p>
+        ) : (
+          <div className="space-y-6">
+            {groups.map(group => (
+              <div key={group.key} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{group.source}</span>
+                  {scopeLabel(group.scope) && (
+                    <Badge variant="outline" className="text-[10px] text-muted-foreground">{scopeLabel(group.scope)}</Badge>
+                  )}
+                </div>
+                {group.batches.map(batch => (
+                  <div
+                    key={batch.id}
+                    className="flex items-center justify-between gap-4 p-3 rounded-lg border border-border bg-background/50"
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <FileSpreadsheet className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{batch.fileName ?? 'API sync'}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatBatchDate(batch.createdAt)} • {batch.holdingsCount} holdings
+                          {batch.skippedCount > 0 && ` • ${batch.skippedCount} rows skipped`}
+                          {batch.restoredFrom && ' • restored'}
+                          {batch.status === 'rolled_back' && ' • rolled back'}
+                        </p>
+                      </div>
+                    </div>
+                    {batch.status === 'active' ? (
+                      <Badge className="bg-profit/20 text-profit border-profit/30 gap-1 shrink-0">
+                        <CheckCircle2 className="h-3 w-3" />
+                        Current
+                      </Badge>
+                    ) : (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" className="shrink-0" disabled={isRollingBack}>
+                            {isRollingBack ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <RotateCcw className="h-4 w-4 mr-2" />
+                            )}
+                            Restore
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Restore this import?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Your current {group.source}{scopeLabel(group.scope) ? ` ${scopeLabel(group.scope)?.toLowerCase()}` : ''} holdings
+                              will be replaced with the {batch.holdingsCount} holdings imported on {formatBatchDate(batch.createdAt)}.
+                              The current import stays in the history, so you can switch back.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => rollback(batch.id, { onSuccess: () => onRestored?.() })}>
+                              Restore
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,242 @@
+import { AlertTriangle, Loader2, Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCurrency, formatNumber } from '@/lib/portfolioUtils';
+import { HoldingChangeStatus, ImportPreview, PreviewHoldingValues } from '@/types/importPreview';
+import { cn } from '@/lib/utils';
+
+interface ImportPreviewDialogProps {
+  open: boolean;
+  fileName?: string;
+  preview: ImportPreview | null;
+  isConfirming?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_LABELS: Record<HoldingChangeStatus, string> = {
+  added: 'New',
+  changed: 'Changed',
+  removed: 'Removed',
+};
+
+const STATUS_STYLES: Record<HoldingChangeStatus, string> = {
+  added: 'border-profit/30 text-profit',
+  changed: 'border-yellow-500/30 text-yellow-500',
+  removed: 'border-loss/30 text-loss',
+};
+
+// Show changes first, in the order a reviewer cares about
+const STATUS_ORDER: Record<HoldingChangeStatus, number> = { removed: 0, changed: 1, added: 2 };
+
+function ValueChange({ before, after, field, format }: {
+  before: PreviewHoldingValues | null;
+  after: PreviewHoldingValues | null;
+  field: keyof PreviewHoldingValues;
+  format: (value: number) => string;
+}) {
+  if (!before) return <span>{after ? format(after[field]) : '—'}</span>;
+  if (!after) return <span className="text-muted-foreground line-through">{format(before[field])}</span>;
+  if (before[field] === after[field]) return <span className="text-muted-foreground">{format(after[field])}</span>;
+
+  return (
+    <span>
+      <span className="text-muted-foreground">{format(before[field])}</span>
+      {' → '}
+      {format(after[field])}
+    </span>
+  );
+}
+
+/**
+ * Review step for spreadsheet imports: shows the dry-run result and only
+ * writes once the user confirms
+ */
+export function ImportPreviewDialog({
+  open,
+  fileName,
+  preview,
+  isConfirming = false,
+  onConfirm,
+  onCancel,
+}: ImportPreviewDialogProps) {
+  const counts = preview?.diff.counts;
+  const changes = [...(preview?.diff.changes ?? [])].sort(
+    (a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || a.name.localeCompare(b.name)
+  );
+  const warnings = preview?.data_integrity.warnings ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && !isConfirming && onCancel()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Review import</DialogTitle>
+          <DialogDescription>
+            {fileName ? `${fileName}: ` : ''}{preview?.message ?? 'Parsing statement...'}. Nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview && counts && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className={STATUS_STYLES.added}>{counts.added} new</Badge>
+              <Badge variant="outline" className={STATUS_STYLES.changed}>{counts.changed} changed</Badge>
+              <Badge variant="outline" className={STATUS_STYLES.removed}>{counts.removed} removed</Badge>
+              <Badge variant="outline" className="text-muted-foreground">{counts.unchanged} unchanged</Badge>
+              {preview.skipped_count > 0 && (
+                <Badge variant="outline" className="text-muted-foreground">{preview.skipped_count} rows skipped</Badge>
+              )}
+            </div>
+
+            {(counts.removed > 0 || warnings.length > 0) && (
+              <div className="space-y-1 rounded-md border border-yellow-500/30 bg-yellow-500/5 p-3 text-sm">
+                {counts.removed > 0 && (
+                  <p className="flex items-center gap-2 text-yellow-500">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    {counts.removed} stored holding{counts.removed > 1 ? 's are' : ' is'} not in this file and will be deleted
+                  </p>
+                )}
+                {warnings.map(warning => (
+                  <p key={warning} className="text-muted-foreground">{warning}</p>
+                ))}
+              </div>
+            )}
+
+            <Tabs defaultValue="changes">
+              <TabsList>
+                <TabsTrigger value="changes">Changes ({changes.length})</TabsTrigger>
+                <TabsTrigger value="holdings">Parsed ({preview.holdings.length})</TabsTrigger>
+                <TabsTrigger value="skipped">Skipped ({preview.skipped_count})</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="changes">
+                <div className="max-h-[320px] overflow-y-auto rounded-md border border-border/50">
+                  {changes.length === 0 ? (
+                    <p className="p-4 text-sm text-muted-foreground">The file matches your current holdings</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="text-xs">Holding</TableHead>
+                          <TableHead className="text-xs text-right">Quantity</TableHead>
+                          <TableHead className="text-xs text-right">Avg price</TableHead>
+                          <TableHead className="text-xs text-right">LTP</TableHead>
+                          <TableHead className="text-xs">Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {changes.map(change => (
+                          <TableRow key={`${change.status}-${change.symbol}-${change.broker ?? ''}`}>
+                            <TableCell className="text-xs">
+                              <div className="font-medium truncate max-w-[220px]">{change.name}</div>
+                              <div className="text-muted-foreground">{change.type}{change.broker ? ` · ${change.broker}` : ''}</div>
+                            </TableCell>
+                            <TableCell className="text-xs text-right font-mono-numbers">
+                              <ValueChange before={change.before} after={change.after} field="quantity" format={(v) => formatNumber(v, 4)} />
+                            </TableCell>
+                            <TableCell className="text-xs text-right font-mono-numbers">
+                              <ValueChange before={change.before} after={change.after} field="avg_price" format={(v) => formatCurrency(v)} />
+                            </TableCell>
+                            <TableCell className="text-xs text-right font-mono-numbers">
+                              <ValueChange before={change.before} after={change.after} field="ltp" format={(v) => formatCurrency(v)} />
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className={cn('text-[10px]', STATUS_STYLES[change.status])}>
+                                {STATUS_LABELS[change.status]}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              </TabsContent>
+
+              <TabsContent value="holdings">
+                <div className="max-h-[320px] overflow-y-auto rounded-md border border-border/50">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-xs">Holding</TableHead>
+                        <TableHead className="text-xs text-right">Quantity</TableHead>
+                        <TableHead className="text-xs text-right">Avg price</TableHead>
+                        <TableHead className="text-xs text-right">LTP</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.holdings.map((holding, index) => (
+                        <TableRow key={`${holding.symbol}-${holding.broker ?? ''}-${index}`}>
+                          <TableCell className="text-xs">
+                            <div className="font-medium truncate max-w-[220px]">{holding.name}</div>
+                            <div className="text-muted-foreground">{holding.type}</div>
+                          </TableCell>
+                          <TableCell className="text-xs text-right font-mono-numbers">{formatNumber(holding.quantity, 4)}</TableCell>
+                          <TableCell className="text-xs text-right font-mono-numbers">{formatCurrency(holding.avg_price)}</TableCell>
+                          <TableCell className="text-xs text-right font-mono-numbers">{formatCurrency(holding.ltp)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="skipped">
+                <div className="max-h-[320px] overflow-y-auto rounded-md border border-border/50">
+                  {preview.skipped.length === 0 ? (
+                    <p className="p-4 text-sm text-muted-foreground">Every row was imported</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="text-xs w-20">Row</TableHead>
+                          <TableHead className="text-xs">Reason</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.skipped.map(skip => (
+                          <TableRow key={`${skip.row}-${skip.reason}`}>
+                            <TableCell className="text-xs font-mono-numbers">{skip.row}</TableCell>
+                            <TableCell className="text-xs">{skip.reason}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+                {preview.skipped_count > preview.skipped.length && (
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Showing the first {preview.skipped.length} of {preview.skipped_count} skipped rows
+                  </p>
+                )}
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel} disabled={isConfirming}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={!preview || isConfirming}>
+            {isConfirming ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Import {preview ? preview.holdings.length : ''} holdings
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
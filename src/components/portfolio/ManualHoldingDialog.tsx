@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MANUAL_ASSET_KINDS, validateManualHolding } from '@/lib/manualHoldings';
+import { ManualAssetKind, ManualHoldingInput } from '@/types/manualHolding';
+import { Sector } from '@/types/portfolio';
+
+interface ManualHoldingDialogProps {
+  open: boolean;
+  // Values of the holding being edited; a new holding when absent
+  initial?: ManualHoldingInput;
+  isSaving?: boolean;
+  onSave: (input: ManualHoldingInput) => void;
+  onCancel: () => void;
+}
+
+const SECTORS: Sector[] = [
+  'Other', 'IT', 'Banking', 'Finance', 'Power', 'Auto', 'Pharma', 'FMCG', 'Metals', 'Telecom',
+  'Infra', 'Energy', 'Commodity', 'Real Estate', 'Consumer', 'Chemicals', 'Diversified', 'International',
+];
+
+function blankInput(kind: ManualAssetKind): ManualHoldingInput {
+  return {
+    kind,
+    name: '',
+    quantity: MANUAL_ASSET_KINDS[kind].valuation === 'amount' ? 1 : 0,
+    avgPrice: 0,
+    ltp: 0,
+    sector: MANUAL_ASSET_KINDS[kind].defaultSector,
+    broker: '',
+    isin: '',
+  };
+}
+
+function numberValue(value: number): string {
+  return value ? String(value) : '';
+}
+
+/**
+ * Add or edit a holding that no broker or statement reports. The fields
+ * shown depend on how the asset kind is valued.
+ */
+export function ManualHoldingDialog({ open, initial, isSaving = false, onSave, onCancel }: ManualHoldingDialogProps) {
+  const [input, setInput] = useState<ManualHoldingInput>(initial ?? blankInput('gold'));
+  const [touched, setTouched] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setInput(initial ?? blankInput('gold'));
+      setTouched(false);
+    }
+  }, [open, initial]);
+
+  const config = MANUAL_ASSET_KINDS[input.kind];
+  const errors = validateManualHolding(input);
+  const update = (changes: Partial<ManualHoldingInput>) => setInput(prev => ({ ...prev, ...changes }));
+
+  const handleKindChange = (kind: ManualAssetKind) => {
+    // Keep what was typed; only reset what the new kind values differently
+    setInput(prev => ({
+      ...blankInput(kind),
+      name: prev.name,
+      broker: prev.broker,
+      isin: prev.isin,
+    }));
+  };
+
+  const handleSave = () => {
+    setTouched(true);
+    if (errors.length === 0) onSave(input);
+  };
+
+  const unitValued = config.valuation === 'unit';
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && !isSaving && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{initial ? 'Edit asset' : 'Add an asset'}</DialogTitle>
+          <DialogDescription>
+            For holdings no broker export covers. Imports and syncs never change them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Kind of asset</Label>
+            <Select value={input.kind} onValueChange={value => handleKindChange(value as ManualAssetKind)} disabled={!!initial}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MANUAL_ASSET_KINDS) as ManualAssetKind[]).map(kind => (
+                  <SelectItem key={kind} value={kind}>{MANUAL_ASSET_KINDS[kind].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{config.description}</p>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="manual-name">{config.nameLabel}</Label>
+              <Input
+                id="manual-name"
+                maxLength={100}
+                value={input.name}
+                onChange={(e) => update({ name: e.target.value })}
+              />
+            </div>
+
+            {unitValued && (
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="manual-quantity">{config.quantityLabel}</Label>
+                <Input
+                  id="manual-quantity"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={numberValue(input.quantity)}
+                  onChange={(e) => update({ quantity: Number(e.target.value) })}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="manual-cost">
+                {unitValued ? `Cost ${config.priceLabel} (₹)` : 'Amount invested (₹)'}
+              </Label>
+              <Input
+                id="manual-cost"
+                type="number"
+                min={0}
+                step="any"
+                value={numberValue(input.avgPrice)}
+                onChange={(e) => update({ avgPrice: Number(e.target.value) })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="manual-value">
+                {unitValued ? `Current value ${config.priceLabel} (₹)` : 'Current value (₹)'}
+              </Label>
+              <Input
+                id="manual-value"
+                type="number"
+                min={0}
+                step="any"
+                value={numberValue(input.ltp)}
+                onChange={(e) => update({ ltp: Number(e.target.value) })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="manual-broker">
+                {config.custodianLabel}{config.custodianRequired ? '' : ' (optional)'}
+              </Label>
+              <Input
+                id="manual-broker"
+                maxLength={50}
+                value={input.broker}
+                onChange={(e) => update({ broker: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sector</Label>
+              <Select value={input.sector} onValueChange={value => update({ sector: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SECTORS.map(sector => (
+                    <SelectItem key={sector} value={sector}>{sector}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {input.kind === 'unlisted' && (
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="manual-isin">ISIN (optional)</Label>
+                <Input
+                  id="manual-isin"
+                  maxLength={12}
+                  value={input.isin}
+                  onChange={(e) => update({ isin: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          {touched && errors.length > 0 && (
+            <div className="space-y-1 rounded-md border border-yellow-500/30 bg-yellow-500/5 p-3 text-sm">
+              {errors.map(error => (
+                <p key={error} className="flex items-center gap-2 text-yellow-500">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {error}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {initial ? 'Save changes' : 'Add asset'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
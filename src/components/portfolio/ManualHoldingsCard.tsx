@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Pencil, Plus, Trash2, Wallet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ManualHoldingDialog } from './ManualHoldingDialog';
+import { isDepositType } from '@/lib/deposits';
+import { MANUAL_ASSET_KINDS, isManualHolding, manualHoldingToInput, manualKindForType } from '@/lib/manualHoldings';
+import { formatCurrency } from '@/lib/portfolioUtils';
+import { ManualHoldingInput } from '@/types/manualHolding';
+import { Holding } from '@/types/portfolio';
+
+interface ManualHoldingsCardProps {
+  holdings: Holding[];
+  onSave: (input: ManualHoldingInput, id?: string) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+/**
+ * Assets the user tracks by hand, such as physical gold or unlisted shares
+ */
+export function ManualHoldingsCard({ holdings, onSave, onDelete }: ManualHoldingsCardProps) {
+  // Deposits are manual too but have their own card
+  const manual = holdings.filter(h => isManualHolding(h) && !isDepositType(h.type));
+  // null: dialog closed; undefined id: adding a new holding
+  const [editing, setEditing] = useState<{ id?: string; initial?: ManualHoldingInput } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async (input: ManualHoldingInput) => {
+    setIsSaving(true);
+    const saved = await onSave(input, editing?.id);
+    setIsSaving(false);
+    if (saved) setEditing(null);
+  };
+
+  return (
+    <Card className="border-border bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-manual/10">
+            <Wallet className="h-5 w-5 text-manual" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Manual Assets</CardTitle>
+            <CardDescription>Gold, unlisted shares, P2P loans and more</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button variant="outline" className="w-full" onClick={() => setEditing({})}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add asset
+        </Button>
+
+        {manual.length > 0 && (
+          <div className="space-y-2">
+            {manual.map(holding => (
+              <div key={holding.id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{holding.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {MANUAL_ASSET_KINDS[manualKindForType(holding.type)].label} • {formatCurrency(holding.quantity * holding.ltp)}
+                  </p>
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setEditing({ id: holding.id, initial: manualHoldingToInput(holding) })}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-7 w-7">
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove {holding.name}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          It will no longer count towards your portfolio. Snapshots already taken keep it.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => onDelete(holding.id)}>Remove</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ManualHoldingDialog
+        open={editing !== null}
+        initial={editing?.initial}
+        isSaving={isSaving}
+        onSave={handleSave}
+        onCancel={() => setEditing(null)}
+      />
+    </Card>
+  );
+}
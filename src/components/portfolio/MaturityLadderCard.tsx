@@ -0,0 +1,91 @@
+import { motion } from 'framer-motion';
+import { BellRing, CalendarClock } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { buildMaturityLadder, depositName, upcomingMaturities } from '@/lib/deposits';
+import { formatCurrency } from '@/lib/portfolioUtils';
+import { Deposit } from '@/types/deposit';
+
+interface MaturityLadderCardProps {
+  deposits: Deposit[];
+  // How far ahead a maturity counts as upcoming
+  reminderDays?: number;
+  delay?: number;
+}
+
+function maturityLabel(daysToMaturity: number): string {
+  if (daysToMaturity < 0) return `matured ${-daysToMaturity}d ago`;
+  if (daysToMaturity === 0) return 'matures today';
+  return `in ${daysToMaturity}d`;
+}
+
+/**
+ * When deposits mature, bucketed by quarter, with reminders for the ones
+ * maturing soon or already matured and still on the books
+ */
+export function MaturityLadderCard({ deposits, reminderDays = 30, delay = 0 }: MaturityLadderCardProps) {
+  const ladder = buildMaturityLadder(deposits);
+  const upcoming = upcomingMaturities(deposits, reminderDays);
+  const largest = Math.max(...ladder.map(bucket => bucket.maturityValue), 1);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay }}
+    >
+      <Card className="bg-card/50">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Deposit Maturity Ladder
+          </CardTitle>
+          <CardDescription>Maturity value of your FDs and RDs by quarter</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {upcoming.length > 0 && (
+            <div className="space-y-2 rounded-md border border-yellow-500/30 bg-yellow-500/5 p-3">
+              <p className="flex items-center gap-2 text-sm font-medium text-yellow-500">
+                <BellRing className="h-4 w-4" />
+                Maturing soon
+              </p>
+              {upcoming.map(({ deposit, valuation }) => (
+                <div key={deposit.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{depositName(deposit)}</span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    <span className="font-mono-numbers">{formatCurrency(valuation.maturityValue)}</span>
+                    <Badge variant="outline" className="text-[10px]">{maturityLabel(valuation.daysToMaturity)}</Badge>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {ladder.length === 0 ? (
+            <p className="text-center py-6 text-sm text-muted-foreground">No open deposits</p>
+          ) : (
+            <div className="space-y-3">
+              {ladder.map(bucket => (
+                <div key={bucket.start} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{bucket.label}</span>
+                    <span className="font-mono-numbers">{formatCurrency(bucket.maturityValue, true)}</span>
+                  </div>
+                  <div className="h-2 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className="h-full rounded-full bg-emerald-500"
+                      style={{ width: `${(bucket.maturityValue / largest) * 100}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {bucket.deposits.map(depositName).join(' • ')}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -7,10 +7,11 @@ export type OAuthStep = 'idle' | 'connecting' | 'verifying' | 'syncing' | 'compl
 interface OAuthProgressIndicatorProps {
   step: OAuthStep;
   message: string;
+  brokerName?: string;
 }
 
 const STEPS = [
-  { key: 'connecting', label: 'Connecting', description: 'Redirecting to Zerodha', icon: Wifi },
+  { key: 'connecting', label: 'Connecting', description: 'Redirecting to broker', icon: Wifi },
   { key: 'verifying', label: 'Verifying', description: 'Validating session', icon: ShieldCheck },
   { key: 'syncing', label: 'Syncing', description: 'Importing holdings', icon: RefreshCw },
   { key: 'complete', label: 'Complete', description: 'All done!', icon: PartyPopper },
@@ -37,7 +38,7 @@ function getStepStatus(stepKey: string, currentStep: OAuthStep): 'pending' | 'ac
   return 'pending';
 }
 
-export function OAuthProgressIndicator({ step, message }: OAuthProgressIndicatorProps) {
+export function OAuthProgressIndicator({ step, message, brokerName = 'Zerodha' }: OAuthProgressIndicatorProps) {
   if (step === 'idle') return null;
 
   const currentStepIndex = getStepIndex(step);
@@ -54,7 +55,7 @@ export function OAuthProgressIndicator({ step, message }: OAuthProgressIndicator
       <div className="space-y-2">
         <div className="flex items-center justify-between text-sm">
           <span className="font-medium text-foreground">
-            {step === 'error' ? 'Connection Failed' : step === 'complete' ? 'Connected!' : 'Connecting to Zerodha'}
+            {step === 'error' ? 'Connection Failed' : step === 'complete' ? 'Connected!' : `Connecting to ${brokerName}`}
           </span>
           <span className="text-muted-foreground">{Math.round(progressPercent)}%</span>
         </div>
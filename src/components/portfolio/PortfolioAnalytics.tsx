@@ -8,11 +8,25 @@ import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/
 import { Area, AreaChart, XAxis, YAxis, CartesianGrid } from 'recharts';
 import { supabase } from '@/integrations/supabase/client';
 import { formatCurrency, formatPercent } from '@/lib/portfolioUtils';
+import {
+  filterSnapshotsByRange,
+  buildLedgerIncome,
+  buildContributionSeries,
+  calculatePeriodReturn,
+} from '@/lib/performance';
+import { simulateBenchmarkValues, compareWithBenchmark } from '@/lib/benchmark';
+import { useTransactions } from '@/hooks/useTransactions';
+import { useBenchmarks } from '@/hooks/useBenchmarks';
+import { BenchmarkComparison, DateRange } from '@/types/performance';
 import { toast } from 'sonner';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 // SourceBreakdownChart import removed - section removed per user request
 import { CaptureModal } from './CaptureModal';
 import { DataFreshnessIndicator, MultiSourceFreshness } from './DataFreshnessIndicator';
+import { BenchmarkPanel } from './BenchmarkPanel';
+import { RiskMetricsCard } from './RiskMetricsCard';
+import { SnapshotHoldingsCard } from './SnapshotHoldingsCard';
+import { AttributionCard } from './AttributionCard';
 
 interface Snapshot {
   id: string;
@@ -22,6 +36,7 @@ interface Snapshot {
   total_pnl: number;
   pnl_percent: number;
   holdings_count: number;
+  net_contribution: number | null;
 }
 
 interface SourceDetail {
@@ -36,7 +51,19 @@ interface SourceDetail {
   last_sync_at: string | null;
 }
 
-type DateRange = '7d' | '30d' | '90d' | 'all';
+const DATE_RANGES: DateRange[] = ['7d', '30d', '90d', 'all'];
+
+const RANGE_LABELS: Record<DateRange, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  'all': 'All time',
+};
+
+// PostgREST returns at most this many rows per request
+const SNAPSHOT_PAGE_SIZE = 1000;
+
+const BENCHMARK_COLORS = ['hsl(var(--chart-3))', 'hsl(var(--chart-6))', 'hsl(var(--chart-5))', 'hsl(var(--chart-2))'];
 
 const chartConfig = {
   current_value: {
@@ -47,6 +74,10 @@ const chartConfig = {
     label: 'Invested Amount',
     color: 'hsl(var(--muted-foreground))',
   },
+  contributions: {
+    label: 'Net Contributions',
+    color: 'hsl(var(--chart-4))',
+  },
 };
 
 export function PortfolioAnalytics() {
@@ -57,6 +88,21 @@ export function PortfolioAnalytics() {
   const [isCapturing, setIsCapturing] = useState(false);
   const [dateRange, setDateRange] = useState<DateRange>('30d');
   const [showCaptureModal, setShowCaptureModal] = useState(false);
+  const { transactions } = useTransactions();
+  const {
+    benchmarks,
+    selectedSymbols,
+    setSelectedSymbols,
+    importCsv,
+    isImporting,
+    syncFromKite,
+    isSyncingFromKite,
+  } = useBenchmarks(snapshots[0]?.snapshot_date);
+
+  const selectedBenchmarks = useMemo(
+    () => benchmarks.filter(b => selectedSymbols.includes(b.symbol)),
+    [benchmarks, selectedSymbols]
+  );
 
   useEffect(() => {
     fetchSnapshots();
@@ -65,14 +111,20 @@ export function PortfolioAnalytics() {
 
   const fetchSnapshots = async () => {
     try {
-      const { data, error } = await supabase
-        .from('portfolio_snapshots')
-        .select('*')
-        .order('snapshot_date', { ascending: true })
-        .limit(365);
+      // Page through the full history: rolling 1Y returns need more than a year of rows
+      const data: Snapshot[] = [];
+      for (let page = 0; ; page++) {
+        const { data: rows, error } = await supabase
+          .from('portfolio_snapshots')
+          .select('*')
+          .order('snapshot_date', { ascending: true })
+          .range(page * SNAPSHOT_PAGE_SIZE, (page + 1) * SNAPSHOT_PAGE_SIZE - 1);
 
-      if (error) throw error;
-      setSnapshots(data || []);
+        if (error) throw error;
+        data.push(...(rows || []));
+        if (!rows || rows.length < SNAPSHOT_PAGE_SIZE) break;
+      }
+      setSnapshots(data);
 
       // Fetch source details for the latest snapshot
       if (data && data.length > 0) {
@@ -134,53 +186,95 @@ export function PortfolioAnalytics() {
     }
   };
 
-  const filteredSnapshots = useMemo(() => {
-    if (dateRange === 'all') return snapshots;
-    
-    const days = dateRange === '7d' ? 7 : dateRange === '30d' ? 30 : 90;
-    const cutoff = new Date();
-    cutoff.setDate(cutoff.getDate() - days);
-    
-    return snapshots.filter(s => new Date(s.snapshot_date) >= cutoff);
-  }, [snapshots, dateRange]);
+  const filteredSnapshots = useMemo(
+    () => filterSnapshotsByRange(snapshots, dateRange),
+    [snapshots, dateRange]
+  );
 
-  const chartData = useMemo(() => {
-    return filteredSnapshots.map(s => ({
-      date: new Date(s.snapshot_date).toLocaleDateString('en-IN', { month: 'short', day: 'numeric' }),
-      fullDate: s.snapshot_date,
-      current_value: Number(s.current_value),
-      total_investment: Number(s.total_investment),
-      pnl: Number(s.total_pnl),
-      pnl_percent: Number(s.pnl_percent),
+  // Realized gains and dividends from the ledger, which invested-amount deltas miss
+  const ledgerIncome = useMemo(() => buildLedgerIncome(transactions), [transactions]);
+
+  const contributionSeries = useMemo(
+    () => buildContributionSeries(filteredSnapshots, ledgerIncome),
+    [filteredSnapshots, ledgerIncome]
+  );
+
+  const rangeSeries = useMemo(() => {
+    return DATE_RANGES.map(range => ({
+      range,
+      series: buildContributionSeries(filterSnapshotsByRange(snapshots, range), ledgerIncome),
     }));
-  }, [filteredSnapshots]);
+  }, [snapshots, ledgerIncome]);
+
+  // TWR for every range so they can be compared side by side
+  const rangeReturns = useMemo(
+    () => rangeSeries.map(({ range, series }) => ({ range, ...calculatePeriodReturn(series) })),
+    [rangeSeries]
+  );
+
+  const benchmarkComparisons = useMemo(() => {
+    const result = {} as Record<DateRange, BenchmarkComparison[]>;
+    rangeSeries.forEach(({ range, series }) => {
+      result[range] = selectedBenchmarks
+        .map(b => compareWithBenchmark(series, b.prices, b.symbol, b.name))
+        .filter((c): c is BenchmarkComparison => c !== null);
+    });
+    return result;
+  }, [rangeSeries, selectedBenchmarks]);
+
+  const benchmarkValues = useMemo(
+    () => selectedBenchmarks.map(b => simulateBenchmarkValues(contributionSeries, b.prices)),
+    [selectedBenchmarks, contributionSeries]
+  );
+
+  const performanceChartConfig = useMemo(() => {
+    const config: Record<string, { label: string; color: string }> = { ...chartConfig };
+    selectedBenchmarks.forEach((b, i) => {
+      config[`benchmark_${i}`] = { label: b.name, color: BENCHMARK_COLORS[i % BENCHMARK_COLORS.length] };
+    });
+    return config;
+  }, [selectedBenchmarks]);
+
+  const chartData = useMemo(() => {
+    const startValue = contributionSeries[0]?.value ?? 0;
+    return filteredSnapshots.map((s, index) => {
+      const point: Record<string, string | number | null> = {
+        date: new Date(s.snapshot_date).toLocaleDateString('en-IN', { month: 'short', day: 'numeric' }),
+        fullDate: s.snapshot_date,
+        current_value: Number(s.current_value),
+        total_investment: Number(s.total_investment),
+        // Starting value plus money added since: what the portfolio would be worth at zero return
+        contributions: startValue + (contributionSeries[index]?.cumulativeContribution ?? 0),
+        pnl: Number(s.total_pnl),
+        pnl_percent: Number(s.pnl_percent),
+      };
+      benchmarkValues.forEach((values, i) => {
+        point[`benchmark_${i}`] = values[index] ?? null;
+      });
+      return point;
+    });
+  }, [filteredSnapshots, contributionSeries, benchmarkValues]);
 
   const stats = useMemo(() => {
     if (filteredSnapshots.length === 0) return null;
     
     const latest = filteredSnapshots[filteredSnapshots.length - 1];
-    const oldest = filteredSnapshots[0];
-    
-    const periodPnl = Number(latest.current_value) - Number(oldest.current_value);
-    const periodPnlPercent = Number(oldest.current_value) > 0 
-      ? (periodPnl / Number(oldest.current_value)) * 100 
-      : 0;
+    const periodReturn = calculatePeriodReturn(contributionSeries);
 
     const values = filteredSnapshots.map(s => Number(s.current_value));
     const maxValue = Math.max(...values);
     const minValue = Math.min(...values);
-    const volatility = ((maxValue - minValue) / minValue) * 100;
     
     return {
       latest,
-      periodPnl,
-      periodPnlPercent,
+      periodPnl: periodReturn.gain,
+      periodTwr: periodReturn.twr,
+      netContributions: periodReturn.netContributions,
       daysTracked: filteredSnapshots.length,
       maxValue,
       minValue,
-      volatility,
     };
-  }, [filteredSnapshots]);
+  }, [filteredSnapshots, contributionSeries]);
 
   // Calculate source freshness for display
   const sourceFreshness = useMemo(() => {
@@ -280,12 +374,15 @@ export function PortfolioAnalytics() {
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-muted-foreground">Period Change</p>
-                  <p className={`text-2xl font-bold font-mono-numbers ${stats.periodPnl >= 0 ? 'text-profit' : 'text-loss'}`}>
-                    {stats.periodPnl >= 0 ? '+' : ''}{formatPercent(stats.periodPnlPercent)}
+                  <p className="text-sm text-muted-foreground">Period Return (TWR)</p>
+                  <p className={`text-2xl font-bold font-mono-numbers ${stats.periodTwr >= 0 ? 'text-profit' : 'text-loss'}`}>
+                    {formatPercent(stats.periodTwr)}
+                  </p>
+                  <p className={`text-sm font-mono-numbers ${stats.periodPnl >= 0 ? 'text-profit' : 'text-loss'}`}>
+                    {stats.periodPnl >= 0 ? '+' : ''}{formatCurrency(stats.periodPnl, true)}
                   </p>
-                  <p className="text-sm text-muted-foreground">
-                    {stats.daysTracked} days
+                  <p className="text-xs text-muted-foreground">
+                    {stats.netContributions >= 0 ? '+' : ''}{formatCurrency(stats.netContributions, true)} added · {stats.daysTracked} days
                   </p>
                 </div>
                 <div className="p-2 rounded-lg bg-muted">
@@ -375,61 +472,129 @@ export function PortfolioAnalytics() {
               <Badge variant="outline">Tip: Capture daily for best insights</Badge>
             </div>
           ) : (
-            <ChartContainer config={chartConfig} className="h-[300px] w-full">
-              <AreaChart data={chartData}>
-                <defs>
-                  <linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.3}/>
-                    <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0}/>
-                  </linearGradient>
-                  <linearGradient id="colorInvested" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="hsl(var(--muted-foreground))" stopOpacity={0.2}/>
-                    <stop offset="95%" stopColor="hsl(var(--muted-foreground))" stopOpacity={0}/>
-                  </linearGradient>
-                </defs>
-                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-                <XAxis 
-                  dataKey="date" 
-                  axisLine={false}
-                  tickLine={false}
-                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
-                />
-                <YAxis 
-                  axisLine={false}
-                  tickLine={false}
-                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
-                  tickFormatter={(value) => `₹${(value / 100000).toFixed(1)}L`}
-                />
-                <ChartTooltip 
-                  content={<ChartTooltipContent 
-                    formatter={(value, name) => {
-                      if (name === 'current_value') return [formatCurrency(Number(value)), 'Value'];
-                      if (name === 'total_investment') return [formatCurrency(Number(value)), 'Invested Amount'];
-                      return [value, name];
-                    }}
-                  />} 
-                />
-                <Area
-                  type="monotone"
-                  dataKey="total_investment"
-                  stroke="hsl(var(--muted-foreground))"
-                  strokeWidth={1}
-                  strokeDasharray="4 4"
-                  fill="url(#colorInvested)"
-                />
-                <Area
-                  type="monotone"
-                  dataKey="current_value"
-                  stroke="hsl(var(--primary))"
-                  strokeWidth={2}
-                  fill="url(#colorValue)"
-                />
-              </AreaChart>
-            </ChartContainer>
+            <>
+              <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+                <span className="text-muted-foreground">Time-weighted return:</span>
+                {rangeReturns.map(({ range, twr }) => (
+                  <Badge
+                    key={range}
+                    variant={range === dateRange ? 'secondary' : 'outline'}
+                    className={`font-mono-numbers ${twr >= 0 ? 'text-profit' : 'text-loss'}`}
+                  >
+                    {range === 'all' ? 'All' : range.toUpperCase()} {formatPercent(twr)}
+                  </Badge>
+                ))}
+              </div>
+              <ChartContainer config={performanceChartConfig} className="h-[300px] w-full">
+                <AreaChart data={chartData}>
+                  <defs>
+                    <linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.3}/>
+                      <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0}/>
+                    </linearGradient>
+                    <linearGradient id="colorInvested" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="hsl(var(--muted-foreground))" stopOpacity={0.2}/>
+                      <stop offset="95%" stopColor="hsl(var(--muted-foreground))" stopOpacity={0}/>
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis 
+                    dataKey="date" 
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                  />
+                  <YAxis 
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                    tickFormatter={(value) => `₹${(value / 100000).toFixed(1)}L`}
+                  />
+                  <ChartTooltip 
+                    content={<ChartTooltipContent 
+                      formatter={(value, name) => {
+                        if (name === 'current_value') return [formatCurrency(Number(value)), 'Value'];
+                        if (name === 'total_investment') return [formatCurrency(Number(value)), 'Invested Amount'];
+                        if (name === 'contributions') return [formatCurrency(Number(value)), 'Net Contributions'];
+                        if (String(name).startsWith('benchmark_')) {
+                          return [formatCurrency(Number(value)), performanceChartConfig[String(name)]?.label ?? name];
+                        }
+                        return [value, name];
+                      }}
+                    />} 
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey="total_investment"
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeWidth={1}
+                    strokeDasharray="4 4"
+                    fill="url(#colorInvested)"
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey="contributions"
+                    stroke="hsl(var(--chart-4))"
+                    strokeWidth={1.5}
+                    fill="transparent"
+                  />
+                  {selectedBenchmarks.map((b, i) => (
+                    <Area
+                      key={b.symbol}
+                      type="monotone"
+                      dataKey={`benchmark_${i}`}
+                      stroke={BENCHMARK_COLORS[i % BENCHMARK_COLORS.length]}
+                      strokeWidth={1.5}
+                      fill="transparent"
+                      connectNulls
+                    />
+                  ))}
+                  <Area
+                    type="monotone"
+                    dataKey="current_value"
+                    stroke="hsl(var(--primary))"
+                    strokeWidth={2}
+                    fill="url(#colorValue)"
+                  />
+                </AreaChart>
+              </ChartContainer>
+            </>
           )}
         </CardContent>
       </Card>
 
+      {snapshots.length > 0 && (
+        <RiskMetricsCard
+          points={contributionSeries}
+          historyPoints={rangeSeries.find(r => r.range === 'all')?.series ?? []}
+          rangeLabel={RANGE_LABELS[dateRange]}
+        />
+      )}
+
+      {snapshots.length > 1 && (
+        <AttributionCard
+          snapshots={snapshots}
+          defaultFromId={filteredSnapshots[0]?.id}
+          defaultToId={filteredSnapshots[filteredSnapshots.length - 1]?.id}
+        />
+      )}
+
+      {snapshots.length > 0 && <SnapshotHoldingsCard snapshots={snapshots} />}
+
+      {snapshots.length > 0 && (
+        <BenchmarkPanel
+          benchmarks={benchmarks}
+          selectedSymbols={selectedSymbols}
+          onSelectionChange={setSelectedSymbols}
+          comparisons={benchmarkComparisons}
+          activeRange={dateRange}
+          onImportCsv={importCsv}
+          isImporting={isImporting}
+          onSyncFromKite={syncFromKite}
+          isSyncingFromKite={isSyncingFromKite}
+        />
+      )}
+
       {/* Capture Modal */}
       <CaptureModal
         open={showCaptureModal}
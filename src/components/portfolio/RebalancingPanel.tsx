@@ -0,0 +1,398 @@
+import { useMemo, useState } from 'react';
+import { Scale, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { useTargetAllocations } from '@/hooks/useTargetAllocations';
+import { proposeRebalance } from '@/lib/rebalancing';
+import { formatCurrency, formatNumber, formatPercent } from '@/lib/portfolioUtils';
+import { EnrichedHolding } from '@/types/portfolio';
+import { PositionLots } from '@/types/transaction';
+import { AllocationDimension, DriftStatus } from '@/types/rebalancing';
+import { cn } from '@/lib/utils';
+
+interface RebalancingPanelProps {
+  holdings: EnrichedHolding[];
+  positions?: Map<string, PositionLots>;
+}
+
+const DIMENSION_LABELS: Record<AllocationDimension, string> = {
+  type: 'Asset Type',
+  sector: 'Sector',
+  bucket: 'Custom Buckets',
+};
+
+const STATUS_STYLES: Record<DriftStatus, { label: string; className: string }> = {
+  within: { label: 'In band', className: 'border-profit/30 text-profit' },
+  over: { label: 'Overweight', className: 'border-loss/30 text-loss' },
+  under: { label: 'Underweight', className: 'border-yellow-500/30 text-yellow-500' },
+  untargeted: { label: 'No target', className: 'text-muted-foreground' },
+};
+
+export function RebalancingPanel({ holdings, positions }: RebalancingPanelProps) {
+  const { targets, saveTarget, isSaving, deleteTarget } = useTargetAllocations();
+  const [dimension, setDimension] = useState<AllocationDimension>('type');
+  const [newMoney, setNewMoney] = useState('');
+  const [newMoneyOnly, setNewMoneyOnly] = useState(false);
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [bucketKey, setBucketKey] = useState('');
+  const [targetPercent, setTargetPercent] = useState('');
+  const [tolerancePercent, setTolerancePercent] = useState('5');
+  const [bucketTypes, setBucketTypes] = useState<string[]>([]);
+  const [bucketSymbols, setBucketSymbols] = useState('');
+
+  const dimensionTargets = useMemo(
+    () => targets.filter(t => t.dimension === dimension),
+    [targets, dimension]
+  );
+  const targetTotal = dimensionTargets.reduce((sum, t) => sum + t.targetPercent, 0);
+
+  const plan = useMemo(
+    () => proposeRebalance(holdings, targets, dimension, positions, {
+      newMoney: Number(newMoney) || 0,
+      newMoneyOnly,
+    }),
+    [holdings, targets, dimension, positions, newMoney, newMoneyOnly]
+  );
+
+  const bucketOptions = useMemo(() => {
+    const values = holdings.map(h => (dimension === 'sector' ? h.sector : h.type));
+    return Array.from(new Set(values)).sort();
+  }, [holdings, dimension]);
+
+  const assetTypes = useMemo(() => Array.from(new Set(holdings.map(h => h.type))).sort(), [holdings]);
+
+  const openDialog = (key = '') => {
+    const existing = dimensionTargets.find(t => t.bucketKey === key);
+    setBucketKey(key);
+    setTargetPercent(existing ? String(existing.targetPercent) : '');
+    setTolerancePercent(existing ? String(existing.tolerancePercent) : '5');
+    setBucketTypes(existing?.assetTypes || []);
+    setBucketSymbols(existing?.symbols.join(', ') || '');
+    setShowDialog(true);
+  };
+
+  const handleSave = () => {
+    saveTarget({
+      dimension,
+      bucketKey,
+      targetPercent: Number(targetPercent),
+      tolerancePercent: Number(tolerancePercent),
+      assetTypes: dimension === 'bucket' ? bucketTypes : [],
+      symbols: dimension === 'bucket' ? bucketSymbols.split(',') : [],
+    });
+    setShowDialog(false);
+  };
+
+  const targetValid = bucketKey.trim().length > 0
+    && Number(targetPercent) >= 0 && Number(targetPercent) <= 100 && targetPercent !== ''
+    && Number(tolerancePercent) >= 0;
+
+  return (
+    <Card className="border-border bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5 text-primary" />
+              Rebalancing
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Target weights with tolerance bands, and the trades that bring drifted buckets back
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={dimension} onValueChange={value => setDimension(value as AllocationDimension)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DIMENSION_LABELS) as AllocationDimension[]).map(d => (
+                  <SelectItem key={d} value={d}>{DIMENSION_LABELS[d]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => openDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Target
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {dimensionTargets.length > 0 && Math.abs(targetTotal - 100) > 0.01 && (
+          <div className="flex items-center gap-2 text-sm text-yellow-500">
+            <AlertTriangle className="h-4 w-4" />
+            Targets add up to {formatNumber(targetTotal)}%; untargeted value is left as it is
+          </div>
+        )}
+
+        <div className="rounded-md border border-border/50 overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/30 hover:bg-muted/30">
+                <TableHead className="font-semibold">{DIMENSION_LABELS[dimension]}</TableHead>
+                <TableHead className="text-right font-semibold">Value</TableHead>
+                <TableHead className="text-right font-semibold">Current</TableHead>
+                <TableHead className="text-right font-semibold">Target</TableHead>
+                <TableHead className="text-right font-semibold">Drift</TableHead>
+                <TableHead className="font-semibold">Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plan.drift.map(row => {
+                const target = dimensionTargets.find(t => t.bucketKey === row.bucketKey);
+                const style = STATUS_STYLES[row.status];
+                return (
+                  <TableRow
+                    key={row.bucketKey}
+                    className="cursor-pointer"
+                    onClick={() => openDialog(row.bucketKey)}
+                  >
+                    <TableCell className="font-medium">{row.bucketKey}</TableCell>
+                    <TableCell className="text-right font-mono-numbers">{formatCurrency(row.currentValue, true)}</TableCell>
+                    <TableCell className="text-right font-mono-numbers">{formatNumber(row.currentPercent)}%</TableCell>
+                    <TableCell className="text-right font-mono-numbers">
+                      {target ? `${formatNumber(row.targetPercent)}% ± ${formatNumber(row.tolerancePercent)}` : '-'}
+                    </TableCell>
+                    <TableCell className="text-right font-mono-numbers">
+                      {target ? formatPercent(row.drift) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={style.className}>{style.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {target && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={e => {
+                            e.stopPropagation();
+                            deleteTarget(target.id);
+                          }}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {dimensionTargets.length === 0 ? (
+          <div className="py-4 text-center text-sm text-muted-foreground">
+            Set a target for a bucket to see rebalancing suggestions
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rebalance-new-money">New money (₹)</Label>
+                <Input
+                  id="rebalance-new-money"
+                  inputMode="decimal"
+                  placeholder="0"
+                  className="w-40"
+                  value={newMoney}
+                  onChange={e => setNewMoney(e.target.value)}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch id="rebalance-new-money-only" checked={newMoneyOnly} onCheckedChange={setNewMoneyOnly} />
+                <Label htmlFor="rebalance-new-money-only">Rebalance with new money only</Label>
+              </div>
+            </div>
+
+            {plan.trades.length === 0 ? (
+              <div className="py-4 text-center text-sm text-muted-foreground">
+                {newMoneyOnly && !Number(newMoney)
+                  ? 'Enter an amount to invest to see where it should go'
+                  : 'Every targeted bucket is within its band'}
+              </div>
+            ) : (
+              <TooltipProvider>
+                <div className="rounded-md border border-border/50 overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/30 hover:bg-muted/30">
+                        <TableHead className="font-semibold">Action</TableHead>
+                        <TableHead className="font-semibold">Holding</TableHead>
+                        <TableHead className="text-right font-semibold">Amount</TableHead>
+                        <TableHead className="text-right font-semibold">Quantity</TableHead>
+                        <TableHead className="text-right font-semibold">Est. Tax</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.trades.map((trade, index) => (
+                        <TableRow key={`${trade.bucketKey}-${trade.holdingId || index}-${trade.action}`}>
+                          <TableCell>
+                            <Badge
+                              variant="outline"
+                              className={trade.action === 'buy' ? 'border-profit/30 text-profit' : 'border-loss/30 text-loss'}
+                            >
+                              {trade.action === 'buy' ? 'Buy' : 'Sell'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{trade.symbol || `New ${trade.bucketKey} holding`}</div>
+                            <div className="text-xs text-muted-foreground">{trade.bucketKey}</div>
+                          </TableCell>
+                          <TableCell className="text-right font-mono-numbers">{formatCurrency(trade.amount)}</TableCell>
+                          <TableCell className="text-right font-mono-numbers">
+                            {trade.quantity !== undefined ? formatNumber(trade.quantity, 3) : '-'}
+                          </TableCell>
+                          <TableCell className="text-right font-mono-numbers">
+                            {trade.tax ? (
+                              <Tooltip>
+                                <TooltipTrigger className={cn(trade.tax.fromAverageCost && 'text-yellow-500')}>
+                                  {formatCurrency(trade.tax.estimatedTax)}
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <div className="text-xs space-y-1">
+                                    <p>Short-term gain: {formatCurrency(trade.tax.shortTermGain)}</p>
+                                    <p>Long-term gain: {formatCurrency(trade.tax.longTermGain)}</p>
+                                    {trade.tax.fromAverageCost && (
+                                      <p>Priced from average cost and assumed short-term: the ledger doesn't cover this holding</p>
+                                    )}
+                                  </div>
+                                </TooltipContent>
+                              </Tooltip>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground mt-2">
+                  <span>Buy {formatCurrency(plan.totalBuys)}</span>
+                  <span>Sell {formatCurrency(plan.totalSells)}</span>
+                  <span>Estimated tax {formatCurrency(plan.estimatedTax)}</span>
+                  {plan.unallocated > 0 && <span>Left over {formatCurrency(plan.unallocated)}</span>}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Sells come from the holdings that cost the least tax per rupee raised, losses first. Units are sold FIFO, so gains follow your oldest lots.
+                </p>
+              </TooltipProvider>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{DIMENSION_LABELS[dimension]} Target</DialogTitle>
+            <DialogDescription>
+              Drift beyond the tolerance band either side of the target triggers a rebalance
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="target-bucket">{dimension === 'bucket' ? 'Bucket name' : DIMENSION_LABELS[dimension]}</Label>
+              {dimension === 'bucket' ? (
+                <Input
+                  id="target-bucket"
+                  placeholder="Core equity"
+                  value={bucketKey}
+                  onChange={e => setBucketKey(e.target.value)}
+                />
+              ) : (
+                <Select value={bucketKey} onValueChange={setBucketKey}>
+                  <SelectTrigger id="target-bucket">
+                    <SelectValue placeholder={`Choose ${DIMENSION_LABELS[dimension].toLowerCase()}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(new Set([...bucketOptions, ...dimensionTargets.map(t => t.bucketKey)])).map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="target-percent">Target %</Label>
+                <Input
+                  id="target-percent"
+                  inputMode="decimal"
+                  value={targetPercent}
+                  onChange={e => setTargetPercent(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="target-tolerance">Tolerance ± %</Label>
+                <Input
+                  id="target-tolerance"
+                  inputMode="decimal"
+                  value={tolerancePercent}
+                  onChange={e => setTolerancePercent(e.target.value)}
+                />
+              </div>
+            </div>
+            {dimension === 'bucket' && (
+              <>
+                <div className="space-y-2">
+                  <Label>Asset types in this bucket</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {assetTypes.map(type => (
+                      <label key={type} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={bucketTypes.includes(type)}
+                          onCheckedChange={checked => setBucketTypes(
+                            checked ? [...bucketTypes, type] : bucketTypes.filter(t => t !== type)
+                          )}
+                        />
+                        {type}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="target-symbols">Symbols or ISINs (comma separated)</Label>
+                  <Input
+                    id="target-symbols"
+                    placeholder="GOLDBEES, SGBAUG28"
+                    value={bucketSymbols}
+                    onChange={e => setBucketSymbols(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Listed symbols take priority over asset types when a holding matches more than one bucket
+                  </p>
+                </div>
+              </>
+            )}
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSave} disabled={!targetValid || isSaving}>
+              Save Target
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,262 @@
+import { useMemo, useState } from 'react';
+import { ShieldAlert, Info } from 'lucide-react';
+import { Area, AreaChart, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { calculateRiskMetrics, calculateRollingReturns } from '@/lib/risk';
+import { formatPercent } from '@/lib/portfolioUtils';
+import { ContributionPoint } from '@/types/performance';
+
+interface RiskMetricsCardProps {
+  // Snapshots in the selected range
+  points: ContributionPoint[];
+  // Full snapshot history, for rolling returns
+  historyPoints: ContributionPoint[];
+  rangeLabel: string;
+}
+
+const RISK_FREE_STORAGE_KEY = 'risk_free_rate';
+
+// Roughly the 91-day T-bill yield
+const DEFAULT_RISK_FREE_RATE = 6.5;
+
+const rollingChartConfig = {
+  value: {
+    label: '1Y Return',
+    color: 'hsl(var(--chart-2))',
+  },
+};
+
+function loadRiskFreeRate(): string {
+  return localStorage.getItem(RISK_FREE_STORAGE_KEY) || String(DEFAULT_RISK_FREE_RATE);
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function MetricTile({ label, help, children }: { label: string; help: string; children: React.ReactNode }) {
+  return (
+    <div className="rounded-lg border border-border/50 bg-muted/20 p-3">
+      <div className="flex items-center gap-1 text-sm text-muted-foreground">
+        {label}
+        <Tooltip>
+          <TooltipTrigger>
+            <Info className="h-3.5 w-3.5" />
+          </TooltipTrigger>
+          <TooltipContent className="max-w-xs">
+            <p className="text-xs">{help}</p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      <div className="mt-1">{children}</div>
+    </div>
+  );
+}
+
+function Ratio({ value }: { value: number | null }) {
+  if (value === null) return <p className="text-xl font-bold text-muted-foreground">-</p>;
+  return (
+    <p className={`text-xl font-bold font-mono-numbers ${value >= 0 ? 'text-profit' : 'text-loss'}`}>
+      {value.toFixed(2)}
+    </p>
+  );
+}
+
+export function RiskMetricsCard({ points, historyPoints, rangeLabel }: RiskMetricsCardProps) {
+  const [riskFreeInput, setRiskFreeInput] = useState(loadRiskFreeRate);
+  const riskFreeRate = isFinite(parseFloat(riskFreeInput)) ? parseFloat(riskFreeInput) : DEFAULT_RISK_FREE_RATE;
+
+  const handleRiskFreeChange = (value: string) => {
+    setRiskFreeInput(value);
+    if (isFinite(parseFloat(value))) {
+      localStorage.setItem(RISK_FREE_STORAGE_KEY, value);
+    }
+  };
+
+  const metrics = useMemo(() => calculateRiskMetrics(points, riskFreeRate), [points, riskFreeRate]);
+  const rolling = useMemo(() => calculateRollingReturns(historyPoints), [historyPoints]);
+
+  const rollingStats = useMemo(() => {
+    if (rolling.length === 0) return null;
+    const values = rolling.map(r => r.value);
+    return {
+      latest: values[values.length - 1],
+      best: Math.max(...values),
+      worst: Math.min(...values),
+      positiveShare: (values.filter(v => v > 0).length / values.length) * 100,
+    };
+  }, [rolling]);
+
+  const rollingChartData = useMemo(
+    () => rolling.map(r => ({
+      date: new Date(r.date).toLocaleDateString('en-IN', { month: 'short', year: '2-digit' }),
+      value: r.value,
+    })),
+    [rolling]
+  );
+
+  const drawdown = metrics.maxDrawdown;
+
+  return (
+    <Card className="border-border bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-primary" />
+              Risk
+            </CardTitle>
+            <CardDescription className="mt-1">
+              From cashflow-adjusted snapshot returns · {rangeLabel} · {metrics.observations} intervals
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="risk-free-rate" className="text-sm text-muted-foreground whitespace-nowrap">
+              Risk-free rate %
+            </Label>
+            <Input
+              id="risk-free-rate"
+              inputMode="decimal"
+              className="w-20 h-8"
+              value={riskFreeInput}
+              onChange={e => handleRiskFreeChange(e.target.value)}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <TooltipProvider>
+          {metrics.annualizedVolatility === null && (
+            <p className="text-sm text-muted-foreground">
+              Volatility and risk-adjusted ratios need at least 5 snapshot intervals in this range
+            </p>
+          )}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <MetricTile
+              label="Volatility"
+              help="Annualized standard deviation of returns between snapshots, after removing deposits and withdrawals. Higher means a bumpier ride."
+            >
+              <p className="text-xl font-bold font-mono-numbers">
+                {metrics.annualizedVolatility !== null ? `${metrics.annualizedVolatility.toFixed(2)}%` : '-'}
+              </p>
+              {metrics.annualizedReturn !== null && (
+                <p className="text-xs text-muted-foreground">
+                  Annualized mean return {formatPercent(metrics.annualizedReturn)}
+                </p>
+              )}
+            </MetricTile>
+
+            <MetricTile
+              label="Max Drawdown"
+              help="Largest fall from a peak to a later low in the cashflow-adjusted value, so withdrawals don't count as losses. Shows when the peak and trough happened and whether it has recovered."
+            >
+              {drawdown ? (
+                <>
+                  <p className="text-xl font-bold font-mono-numbers text-loss">{drawdown.depth.toFixed(2)}%</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDate(drawdown.peakDate)} → {formatDate(drawdown.troughDate)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {drawdown.recoveryDate ? `Recovered ${formatDate(drawdown.recoveryDate)}` : 'Not yet recovered'}
+                  </p>
+                </>
+              ) : (
+                <p className="text-xl font-bold font-mono-numbers text-muted-foreground">-</p>
+              )}
+            </MetricTile>
+
+            <MetricTile
+              label="Sharpe Ratio"
+              help={`Annualized return above the risk-free rate (${riskFreeRate}%) per unit of volatility. Above 1 is good; below 0 means a risk-free deposit would have done better.`}
+            >
+              <Ratio value={metrics.sharpe} />
+            </MetricTile>
+
+            <MetricTile
+              label="Sortino Ratio"
+              help="Like Sharpe, but only counts volatility below the risk-free rate as risk, so sharp gains aren't penalized."
+            >
+              <Ratio value={metrics.sortino} />
+              {metrics.downsideDeviation !== null && (
+                <p className="text-xs text-muted-foreground">
+                  Downside deviation {metrics.downsideDeviation.toFixed(2)}%
+                </p>
+              )}
+            </MetricTile>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-1 text-sm font-medium mb-3">
+              Rolling 1Y Returns
+              <Tooltip>
+                <TooltipTrigger>
+                  <Info className="h-3.5 w-3.5 text-muted-foreground" />
+                </TooltipTrigger>
+                <TooltipContent className="max-w-xs">
+                  <p className="text-xs">
+                    Time-weighted return over every trailing one-year window in your full snapshot history. Shows how much the result depends on when you look.
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            {rollingStats ? (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Latest</p>
+                    <p className={`font-mono-numbers font-semibold ${rollingStats.latest >= 0 ? 'text-profit' : 'text-loss'}`}>
+                      {formatPercent(rollingStats.latest)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Best</p>
+                    <p className="font-mono-numbers font-semibold text-profit">{formatPercent(rollingStats.best)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Worst</p>
+                    <p className="font-mono-numbers font-semibold text-loss">{formatPercent(rollingStats.worst)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Positive windows</p>
+                    <p className="font-mono-numbers font-semibold">{rollingStats.positiveShare.toFixed(0)}%</p>
+                  </div>
+                </div>
+                {rollingChartData.length > 1 && (
+                  <ChartContainer config={rollingChartConfig} className="h-[160px] w-full">
+                    <AreaChart data={rollingChartData} margin={{ top: 5, right: 10, left: 10, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-border/30" />
+                      <XAxis dataKey="date" tickLine={false} axisLine={false} className="text-xs" />
+                      <YAxis
+                        tickLine={false}
+                        axisLine={false}
+                        className="text-xs"
+                        tickFormatter={value => `${Number(value).toFixed(0)}%`}
+                      />
+                      <ChartTooltip
+                        content={<ChartTooltipContent formatter={value => formatPercent(Number(value))} />}
+                      />
+                      <Area
+                        type="monotone"
+                        dataKey="value"
+                        stroke="var(--color-value)"
+                        fill="var(--color-value)"
+                        fillOpacity={0.15}
+                        strokeWidth={2}
+                      />
+                    </AreaChart>
+                  </ChartContainer>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Available once you have a year of snapshots</p>
+            )}
+          </div>
+        </TooltipProvider>
+      </CardContent>
+    </Card>
+  );
+}
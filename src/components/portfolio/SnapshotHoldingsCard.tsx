@@ -0,0 +1,178 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarDays, History, Loader2, RotateCcw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useSnapshotHoldings } from '@/hooks/useSnapshotHoldings';
+import { formatCurrency, formatNumber } from '@/lib/portfolioUtils';
+import { SourceBadge } from './SourceBadge';
+
+interface SnapshotHoldingsCardProps {
+  snapshots: { id: string; snapshot_date: string }[];
+}
+
+function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+export function SnapshotHoldingsCard({ snapshots }: SnapshotHoldingsCardProps) {
+  const [selectedDate, setSelectedDate] = useState<string | undefined>();
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  const snapshotByDate = useMemo(
+    () => new Map(snapshots.map(s => [s.snapshot_date.slice(0, 10), s])),
+    [snapshots]
+  );
+
+  const activeDate = selectedDate ?? snapshots[snapshots.length - 1]?.snapshot_date.slice(0, 10);
+  const activeSnapshot = activeDate ? snapshotByDate.get(activeDate) : undefined;
+  const { holdings, isLoading, backfill, isBackfilling } = useSnapshotHoldings(activeSnapshot?.id);
+
+  const totals = useMemo(() => {
+    const investment = holdings.reduce((sum, h) => sum + h.investment, 0);
+    const priced = holdings.filter(h => h.currentValue !== undefined);
+    const value = priced.reduce((sum, h) => sum + (h.currentValue || 0), 0);
+    return {
+      investment,
+      value: priced.length > 0 ? value : undefined,
+      pnl: priced.length > 0 ? priced.reduce((sum, h) => sum + (h.pnl || 0), 0) : undefined,
+      reconstructed: holdings.some(h => h.reconstructed),
+    };
+  }, [holdings]);
+
+  if (snapshots.length === 0) return null;
+
+  return (
+    <Card className="border-border bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5 text-primary" />
+              Holdings on Date
+            </CardTitle>
+            <CardDescription className="mt-1">
+              What you held on any captured snapshot date, and at what price
+            </CardDescription>
+          </div>
+          <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm">
+                <CalendarDays className="h-4 w-4 mr-2" />
+                {activeDate ? format(parseISO(activeDate), 'dd MMM yyyy') : 'Pick a date'}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="single"
+                selected={activeDate ? parseISO(activeDate) : undefined}
+                defaultMonth={activeDate ? parseISO(activeDate) : undefined}
+                onSelect={date => {
+                  if (!date) return;
+                  setSelectedDate(toDateKey(date));
+                  setPickerOpen(false);
+                }}
+                // Only captured dates can be viewed
+                disabled={date => !snapshotByDate.has(toDateKey(date))}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-8 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : holdings.length === 0 ? (
+          <div className="py-6 text-center space-y-3">
+            <p className="text-sm text-muted-foreground">
+              This snapshot was captured before per-holding detail was recorded
+            </p>
+            <Button variant="outline" size="sm" onClick={() => backfill()} disabled={isBackfilling}>
+              {isBackfilling ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RotateCcw className="h-4 w-4 mr-2" />
+              )}
+              Rebuild from transactions
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+              <span className="text-muted-foreground">
+                {holdings.length} holdings
+              </span>
+              <span>
+                Invested <span className="font-mono-numbers">{formatCurrency(totals.investment, true)}</span>
+              </span>
+              {totals.value !== undefined && (
+                <span>
+                  Value <span className="font-mono-numbers">{formatCurrency(totals.value, true)}</span>
+                </span>
+              )}
+              {totals.pnl !== undefined && (
+                <span className={totals.pnl >= 0 ? 'text-profit' : 'text-loss'}>
+                  P&L <span className="font-mono-numbers">{formatCurrency(totals.pnl, true)}</span>
+                </span>
+              )}
+            </div>
+            {totals.reconstructed && (
+              <p className="text-xs text-yellow-500">
+                Rebuilt from your transactions: quantities and average cost only, no prices for this date
+              </p>
+            )}
+            <div className="rounded-md border border-border/50 overflow-x-auto max-h-[480px]">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableHead className="font-semibold">Holding</TableHead>
+                    <TableHead className="font-semibold">Source</TableHead>
+                    <TableHead className="text-right font-semibold">Qty</TableHead>
+                    <TableHead className="text-right font-semibold">Avg Price</TableHead>
+                    <TableHead className="text-right font-semibold">Price</TableHead>
+                    <TableHead className="text-right font-semibold">Invested</TableHead>
+                    <TableHead className="text-right font-semibold">Value</TableHead>
+                    <TableHead className="text-right font-semibold">P&L</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {holdings.map(h => (
+                    <TableRow key={h.id}>
+                      <TableCell>
+                        <div className="font-medium">{h.symbol}</div>
+                        {h.name && <div className="text-xs text-muted-foreground truncate max-w-[220px]">{h.name}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <SourceBadge source={h.source} />
+                      </TableCell>
+                      <TableCell className="text-right font-mono-numbers">{formatNumber(h.quantity, 3)}</TableCell>
+                      <TableCell className="text-right font-mono-numbers">{formatCurrency(h.avgPrice)}</TableCell>
+                      <TableCell className="text-right font-mono-numbers">
+                        {h.ltp !== undefined ? formatCurrency(h.ltp) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right font-mono-numbers">{formatCurrency(h.investment, true)}</TableCell>
+                      <TableCell className="text-right font-mono-numbers">
+                        {h.currentValue !== undefined ? formatCurrency(h.currentValue, true) : '-'}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-mono-numbers ${h.pnl === undefined ? '' : h.pnl >= 0 ? 'text-profit' : 'text-loss'}`}
+                      >
+                        {h.pnl !== undefined ? formatCurrency(h.pnl, true) : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
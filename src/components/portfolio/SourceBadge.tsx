@@ -14,6 +14,11 @@ export function SourceBadge({ source, className }: SourceBadgeProps) {
         "inline-flex items-center px-2 py-0.5 rounded text-xs font-medium",
         label === 'Zerodha' && "bg-zerodha/10 text-zerodha",
         label === 'INDMoney' && "bg-indmoney/10 text-indmoney",
+        label === 'Groww' && "bg-groww/10 text-groww",
+        label === 'CAS' && "bg-cas/10 text-cas",
+        label === 'Manual' && "bg-manual/10 text-manual",
+        label === 'Angel One' && "bg-angel/10 text-angel",
+        label === 'Upstox' && "bg-upstox/10 text-upstox",
         className
       )}
     >
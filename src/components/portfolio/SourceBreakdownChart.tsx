@@ -23,7 +23,8 @@ const SOURCE_COLORS: Record<string, string> = {
   'Zerodha': 'hsl(142, 76%, 36%)',
   'INDMoney': 'hsl(217, 91%, 60%)',
   'Groww': 'hsl(280, 87%, 65%)',
-  'Angel': 'hsl(25, 95%, 53%)',
+  'Angel One': 'hsl(25, 95%, 53%)',
+  'Upstox': 'hsl(270, 67%, 52%)',
   'ICICI Direct': 'hsl(350, 80%, 50%)',
   'Manual': 'hsl(220, 13%, 60%)',
 };
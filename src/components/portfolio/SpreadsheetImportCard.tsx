@@ -0,0 +1,251 @@
+import { useRef, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { Bookmark, FileSpreadsheet, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ColumnMappingDialog, SheetRows } from './ColumnMappingDialog';
+import { ImportPreviewDialog } from './ImportPreviewDialog';
+import { UploadResult } from '@/hooks/usePortfolioData';
+import { useImportTemplates } from '@/hooks/useImportTemplates';
+import { detectHeaderRow, emptyColumnMap, findMatchingTemplate, headerSignature, proposeColumnMap } from '@/lib/columnMapping';
+import { ImportTemplate, SpreadsheetMapping } from '@/types/columnMapping';
+import { ImportPreview } from '@/types/importPreview';
+
+interface SpreadsheetImportCardProps {
+  onUpload: (file: File, mapping: SpreadsheetMapping) => Promise<UploadResult>;
+  onPreview: (file: File, mapping: SpreadsheetMapping) => Promise<ImportPreview>;
+}
+
+// Enough rows to find the header and show samples; the server parses the full file
+const SAMPLE_ROWS = 60;
+
+async function readSheets(file: File): Promise<SheetRows[]> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true, sheetRows: SAMPLE_ROWS });
+  return workbook.SheetNames.map(name => ({
+    name,
+    rows: XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, defval: '' }) as unknown[][],
+  }));
+}
+
+function proposedMapping(sheet: SheetRows, headerRow: number, base?: Partial<SpreadsheetMapping>): SpreadsheetMapping {
+  return {
+    source: '',
+    broker: '',
+    defaultType: 'Equity',
+    ...base,
+    sheetName: sheet.name,
+    headerRow,
+    columns: headerRow >= 0 ? proposeColumnMap(sheet.rows[headerRow] ?? []) : emptyColumnMap(),
+  };
+}
+
+function templateMapping(sheet: SheetRows, headerRow: number, template: ImportTemplate): SpreadsheetMapping {
+  return {
+    sheetName: sheet.name,
+    headerRow,
+    columns: template.columns,
+    source: template.source,
+    broker: template.broker ?? '',
+    defaultType: template.defaultType,
+  };
+}
+
+/**
+ * Import from any broker's spreadsheet: the user confirms the column mapping,
+ * reviews a dry run, then imports. Mappings can be saved as templates.
+ */
+export function SpreadsheetImportCard({ onUpload, onPreview }: SpreadsheetImportCardProps) {
+  const { templates, saveTemplate, isSaving, deleteTemplate } = useImportTemplates();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [sheets, setSheets] = useState<SheetRows[]>([]);
+  const [mapping, setMapping] = useState<SpreadsheetMapping | null>(null);
+  const [appliedTemplate, setAppliedTemplate] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setSheets([]);
+    setMapping(null);
+    setAppliedTemplate(null);
+    setPreview(null);
+  };
+
+  // Saved template first, then header detection on the first sheet that has one
+  const initialMapping = (loaded: SheetRows[]) => {
+    for (const sheet of loaded) {
+      const match = findMatchingTemplate(sheet.rows, templates, sheet.name);
+      if (match) {
+        setAppliedTemplate(match.template.name);
+        return templateMapping(sheet, match.headerRow, match.template);
+      }
+    }
+
+    setAppliedTemplate(null);
+    const sheet = loaded.find(s => detectHeaderRow(s.rows) !== -1) ?? loaded[0];
+    return proposedMapping(sheet, Math.max(detectHeaderRow(sheet.rows), 0));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (!selected) return;
+
+    try {
+      const loaded = await readSheets(selected);
+      if (loaded.length === 0 || loaded.every(s => s.rows.length === 0)) {
+        throw new Error('The file has no rows');
+      }
+      setFile(selected);
+      setSheets(loaded);
+      setMapping(initialMapping(loaded));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the spreadsheet');
+    }
+  };
+
+  const handleSheetChange = (sheetName: string) => {
+    const sheet = sheets.find(s => s.name === sheetName);
+    if (!sheet || !mapping) return;
+    setAppliedTemplate(null);
+    setMapping(proposedMapping(sheet, Math.max(detectHeaderRow(sheet.rows), 0), mapping));
+  };
+
+  const handleHeaderRowChange = (headerRow: number) => {
+    const sheet = sheets.find(s => s.name === mapping?.sheetName);
+    if (!sheet || !mapping) return;
+    setAppliedTemplate(null);
+    setMapping(proposedMapping(sheet, headerRow, mapping));
+  };
+
+  const handleSaveTemplate = (name: string) => {
+    const sheet = sheets.find(s => s.name === mapping?.sheetName);
+    if (!sheet || !mapping) return;
+
+    saveTemplate(
+      {
+        name,
+        headerSignature: headerSignature(sheet.rows[mapping.headerRow] ?? []),
+        sheetName: sheets.length > 1 ? sheet.name : null,
+        columns: mapping.columns,
+        source: mapping.source,
+        broker: mapping.broker || null,
+        defaultType: mapping.defaultType,
+      },
+      { onSuccess: () => setAppliedTemplate(name) }
+    );
+  };
+
+  const handleContinue = async () => {
+    if (!file || !mapping) return;
+    setIsPreviewing(true);
+    try {
+      setPreview(await onPreview(file, mapping));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to parse file');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!file || !mapping) return;
+    setIsImporting(true);
+    const result = await onUpload(file, mapping);
+    setIsImporting(false);
+    if (result.success) {
+      reset();
+    } else {
+      setPreview(null);
+    }
+  };
+
+  return (
+    <Card className="border-border bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Other Spreadsheet</CardTitle>
+            <CardDescription>Holdings export from any broker</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".xlsx,.xls,.csv"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Choose file and map columns
+        </Button>
+
+        {templates.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">Saved templates</p>
+            {templates.map(template => (
+              <div key={template.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="flex items-center gap-2 min-w-0">
+                  <Bookmark className="h-3 w-3 shrink-0 text-muted-foreground" />
+                  <span className="truncate">{template.name}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">→ {template.source}</span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => deleteTemplate(template.id)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {mapping && (
+        <ColumnMappingDialog
+          open={preview === null}
+          fileName={file?.name}
+          sheets={sheets}
+          mapping={mapping}
+          appliedTemplate={appliedTemplate}
+          isPreviewing={isPreviewing}
+          isSavingTemplate={isSaving}
+          onMappingChange={(next) => {
+            setMapping(next);
+            setAppliedTemplate(null);
+          }}
+          onSheetChange={handleSheetChange}
+          onHeaderRowChange={handleHeaderRowChange}
+          onSaveTemplate={handleSaveTemplate}
+          onContinue={handleContinue}
+          onCancel={reset}
+        />
+      )}
+
+      <ImportPreviewDialog
+        open={preview !== null}
+        fileName={file?.name}
+        preview={preview}
+        isConfirming={isImporting}
+        onConfirm={handleConfirm}
+        // Back to the mapping to fix columns rather than starting over
+        onCancel={() => setPreview(null)}
+      />
+    </Card>
+  );
+}
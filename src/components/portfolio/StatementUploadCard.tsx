@@ -0,0 +1,300 @@
+import { useState, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Upload, FileSpreadsheet, CheckCircle2, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { UploadProgressIndicator, UploadStep } from './UploadProgressIndicator';
+import { ImportPreviewDialog } from './ImportPreviewDialog';
+import { UploadResult } from '@/hooks/usePortfolioData';
+import { ImportPreview } from '@/types/importPreview';
+import { cn } from '@/lib/utils';
+
+export interface SyncStatus {
+  source: string;
+  status: string;
+  holdings_count: number | null;
+  error_message: string | null;
+  created_at: string;
+}
+
+interface StatementUploadCardProps {
+  title: string;
+  description: string;
+  // Example file name shown under the drop zone
+  fileHint: string;
+  accept: string;
+  // Tailwind colours for the icon and its tile, e.g. 'text-blue-500' / 'bg-blue-500/10'
+  accentClassName: string;
+  accentBgClassName: string;
+  // Shows a password field for protected statements (e.g. CAS PDFs)
+  passwordLabel?: string;
+  status?: SyncStatus;
+  onUpload: (file: File, password?: string) => Promise<UploadResult>;
+  // Dry run shown for review before onUpload writes anything
+  onPreview?: (file: File) => Promise<ImportPreview>;
+}
+
+/**
+ * Drag-and-drop card for brokers that import from an exported statement
+ * rather than an API connection
+ */
+export function StatementUploadCard({
+  title,
+  description,
+  fileHint,
+  accept,
+  accentClassName,
+  accentBgClassName,
+  passwordLabel,
+  status,
+  onUpload,
+  onPreview,
+}: StatementUploadCardProps) {
+  const [dragActive, setDragActive] = useState(false);
+  const [password, setPassword] = useState('');
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [uploadStep, setUploadStep] = useState<UploadStep>('idle');
+  const [uploadMessage, setUploadMessage] = useState('');
+  const [uploadedHoldingsCount, setUploadedHoldingsCount] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === 'dragenter' || e.type === 'dragover') {
+      setDragActive(true);
+    } else if (e.type === 'dragleave') {
+      setDragActive(false);
+    }
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      // Step 1: Uploading
+      setUploadStep('uploading');
+      setUploadMessage(`Uploading ${file.name}...`);
+
+      // Small delay to show the uploading state
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      // Step 2: Parsing
+      setUploadStep('parsing');
+      setUploadMessage('Parsing statement...');
+
+      // Step 3: Syncing (this is where the actual upload happens)
+      setUploadStep('syncing');
+      setUploadMessage('Syncing holdings to database...');
+
+      const result = await onUpload(file, passwordLabel ? password : undefined);
+
+      if (result.success) {
+        setUploadStep('complete');
+        setUploadedHoldingsCount(result.holdings_count || 0);
+        setUploadMessage(`Successfully imported ${result.holdings_count || 0} holdings!`);
+
+        // Reset after 3 seconds
+        setTimeout(() => {
+          setUploadStep('idle');
+          setUploadMessage('');
+        }, 3000);
+      } else {
+        setUploadStep('error');
+        setUploadMessage(result.error || 'Failed to import holdings');
+
+        // Reset after 5 seconds
+        setTimeout(() => {
+          setUploadStep('idle');
+          setUploadMessage('');
+        }, 5000);
+      }
+    } catch (error) {
+      setUploadStep('error');
+      setUploadMessage(error instanceof Error ? error.message : 'Upload failed');
+
+      setTimeout(() => {
+        setUploadStep('idle');
+        setUploadMessage('');
+      }, 5000);
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    if (!onPreview) {
+      await importFile(file);
+      return;
+    }
+
+    try {
+      setUploadStep('parsing');
+      setUploadMessage(`Parsing ${file.name}...`);
+
+      const result = await onPreview(file);
+      setPendingFile(file);
+      setPreview(result);
+    } catch (error) {
+      setUploadStep('error');
+      setUploadMessage(error instanceof Error ? error.message : 'Failed to parse file');
+
+      setTimeout(() => {
+        setUploadStep('idle');
+        setUploadMessage('');
+      }, 5000);
+    }
+  };
+
+  const handleConfirmPreview = async () => {
+    const file = pendingFile;
+    setPreview(null);
+    setPendingFile(null);
+    if (file) {
+      await importFile(file);
+    }
+  };
+
+  const handleCancelPreview = () => {
+    setPreview(null);
+    setPendingFile(null);
+    setUploadStep('idle');
+    setUploadMessage('');
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+
+    const files = e.dataTransfer.files;
+    if (files && files[0]) {
+      await handleUpload(files[0]);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files[0]) {
+      await handleUpload(files[0]);
+    }
+    // Reset the input so the same file can be uploaded again
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const isUploading = uploadStep !== 'idle' && uploadStep !== 'complete' && uploadStep !== 'error';
+
+  return (
+    <Card className="border-border bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className={cn('p-2 rounded-lg', accentBgClassName)}>
+              <FileSpreadsheet className={cn('h-5 w-5', accentClassName)} />
+            </div>
+            <div>
+              <CardTitle className="text-lg">{title}</CardTitle>
+              <CardDescription>{description}</CardDescription>
+            </div>
+          </div>
+          <StatusBadge status={status} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {/* Show upload progress or status */}
+          <AnimatePresence mode="wait">
+            {uploadStep !== 'idle' ? (
+              <UploadProgressIndicator
+                step={uploadStep}
+                message={uploadMessage}
+                holdingsCount={uploadedHoldingsCount}
+              />
+            ) : status ? (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="text-sm text-muted-foreground"
+              >
+                {status.status === 'success' ? (
+                  <span className="flex items-center gap-2">
+                    <CheckCircle2 className="h-4 w-4 text-profit" />
+                    {status.holdings_count} holdings imported
+                  </span>
+                ) : (
+                  <span className="flex items-center gap-2 text-loss">
+                    <XCircle className="h-4 w-4" />
+                    {status.error_message}
+                  </span>
+                )}
+              </motion.div>
+            ) : null}
+          </AnimatePresence>
+
+          {passwordLabel && (
+            <Input
+              type="password"
+              autoComplete="off"
+              placeholder={passwordLabel}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={isUploading}
+            />
+          )}
+
+          <div
+            className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors cursor-pointer ${
+              isUploading ? 'opacity-50 pointer-events-none' :
+              dragActive
+                ? 'border-primary bg-primary/5'
+                : 'border-border hover:border-primary/50'
+            }`}
+            onDragEnter={handleDrag}
+            onDragLeave={handleDrag}
+            onDragOver={handleDrag}
+            onDrop={handleDrop}
+            onClick={() => !isUploading && fileInputRef.current?.click()}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={accept}
+              onChange={handleFileChange}
+              className="hidden"
+              disabled={isUploading}
+            />
+            <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              {dragActive
+                ? 'Drop the file here'
+                : 'Drag & drop or click to upload'}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              {fileHint}
+            </p>
+          </div>
+        </div>
+      </CardContent>
+
+      <ImportPreviewDialog
+        open={preview !== null}
+        fileName={pendingFile?.name}
+        preview={preview}
+        onConfirm={handleConfirmPreview}
+        onCancel={handleCancelPreview}
+      />
+    </Card>
+  );
+}
+
+function StatusBadge({ status }: { status?: SyncStatus }) {
+  if (!status) {
+    return <Badge variant="outline" className="text-muted-foreground">Not synced</Badge>;
+  }
+
+  if (status.status === 'success') {
+    return <Badge className="bg-profit/20 text-profit border-profit/30">Synced</Badge>;
+  }
+
+  return <Badge variant="destructive">Error</Badge>;
+}
@@ -11,7 +11,10 @@ import {
   Building,
   Briefcase,
   Shield,
-  Wallet
+  Wallet,
+  Gem,
+  Handshake,
+  Package
 } from 'lucide-react';
 import { EnrichedHolding, AssetType } from '@/types/portfolio';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -24,6 +27,7 @@ import { SGBTable } from './asset-tables/SGBTable';
 import { BondTable } from './asset-tables/BondTable';
 import { RetirementTable } from './asset-tables/RetirementTable';
 import { formatCurrency, formatPercent } from '@/lib/portfolioUtils';
+import { calculateGroupXirr } from '@/lib/xirr';
 import { cn } from '@/lib/utils';
 import { useExchangeRate } from '@/hooks/useExchangeRate';
 
@@ -51,10 +55,13 @@ const ASSET_CONFIG: Record<string, {
   'PPF': { label: 'PPF', icon: Wallet },
   'FD': { label: 'Fixed Deposits', icon: Building2 },
   'RD': { label: 'Recurring Deposits', icon: PiggyBank },
+  'Unlisted': { label: 'Unlisted', icon: Gem },
+  'P2P': { label: 'P2P Lending', icon: Handshake },
+  'Other': { label: 'Other', icon: Package },
 };
 
 // Order of tabs - including retirement assets
-const TAB_ORDER = ['Equity', 'Mutual Fund', 'ETF', 'US Stock', 'SGB', 'Bond', 'REIT', 'Commodity', 'Index', 'NPS', 'EPF', 'PPF', 'FD', 'RD'];
+const TAB_ORDER = ['Equity', 'Mutual Fund', 'ETF', 'US Stock', 'SGB', 'Bond', 'REIT', 'Commodity', 'Index', 'NPS', 'EPF', 'PPF', 'FD', 'RD', 'Unlisted', 'P2P', 'Other'];
 
 export function TabbedHoldings({ holdings }: TabbedHoldingsProps) {
   const [activeTab, setActiveTab] = useState<string>('all');
@@ -77,7 +84,7 @@ export function TabbedHoldings({ holdings }: TabbedHoldingsProps) {
   // Group holdings by asset type with MF consolidation
   const { groupedHoldings, assetSummaries, availableTabs } = useMemo(() => {
     const groups = new Map<string, EnrichedHolding[]>();
-    const summaries = new Map<string, { count: number; invested: number; current: number; pnl: number }>();
+    const summaries = new Map<string, { count: number; invested: number; current: number; pnl: number; xirr?: number }>();
 
     // Initialize groups
     TAB_ORDER.forEach(type => {
@@ -126,6 +133,10 @@ export function TabbedHoldings({ holdings }: TabbedHoldingsProps) {
       }
     });
 
+    summaries.forEach((summary, type) => {
+      summary.xirr = calculateGroupXirr(groups.get(type) || []);
+    });
+
     // Filter to only tabs with holdings
     const available = TAB_ORDER.filter(type => (groups.get(type)?.length || 0) > 0);
 
@@ -298,6 +309,17 @@ export function TabbedHoldings({ holdings }: TabbedHoldingsProps) {
                           </p>
                         )}
                       </div>
+                      {summary.xirr !== undefined && (
+                        <div className="text-right">
+                          <p className="text-muted-foreground text-xs">XIRR</p>
+                          <p className={cn(
+                            "font-mono font-semibold",
+                            summary.xirr >= 0 ? "text-profit" : "text-loss"
+                          )}>
+                            {formatPercent(summary.xirr)}
+                          </p>
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -386,6 +408,17 @@ export function TabbedHoldings({ holdings }: TabbedHoldingsProps) {
                           </p>
                         )}
                       </div>
+                      {summary.xirr !== undefined && (
+                        <div className="text-right">
+                          <p className="text-muted-foreground text-xs">XIRR</p>
+                          <p className={cn(
+                            "font-mono font-semibold text-lg",
+                            summary.xirr >= 0 ? "text-profit" : "text-loss"
+                          )}>
+                            {formatPercent(summary.xirr)}
+                          </p>
+                        </div>
+                      )}
                     </div>
                   );
                 })()}
@@ -0,0 +1,169 @@
+import { CheckCircle2, Clock, ExternalLink, LogOut, RefreshCw, Shield, Wallet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { OAuthProgressIndicator } from './OAuthProgressIndicator';
+import { useUpstoxSession } from '@/hooks/useUpstoxSession';
+import { OAuthProgress } from '@/hooks/useBrokerOAuthHandler';
+
+interface UpstoxConnectCardProps {
+  onSync: () => Promise<void>;
+  isSyncing: boolean;
+  status?: {
+    status: string;
+    holdings_count: number | null;
+    error_message: string | null;
+  };
+  syncProgress?: OAuthProgress;
+}
+
+function formatExpiry(expiresAt: string | null): string | null {
+  if (!expiresAt) return null;
+  return new Date(expiresAt).toLocaleString('en-IN', { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * Upstox through API v2 OAuth. Syncs long-term (demat) holdings.
+ */
+export function UpstoxConnectCard({ onSync, isSyncing, status, syncProgress }: UpstoxConnectCardProps) {
+  const { session, isLoading, isSessionValid, login, isRedirecting, disconnect, isDisconnecting } = useUpstoxSession();
+
+  if (isLoading) {
+    return (
+      <Card className="border-border bg-card/50 backdrop-blur-sm">
+        <CardContent className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-6 bg-muted rounded w-1/3"></div>
+            <div className="h-4 bg-muted rounded w-2/3"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const showProgressIndicator = syncProgress && syncProgress.step !== 'idle';
+  const expiry = formatExpiry(session?.expires_at ?? null);
+
+  return (
+    <Card className="border-border bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-upstox/10">
+              <Wallet className="h-5 w-5 text-upstox" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Upstox</CardTitle>
+              <CardDescription>Connect via Upstox API v2</CardDescription>
+            </div>
+          </div>
+          {isSessionValid ? (
+            <Badge className="bg-profit/20 text-profit border-profit/30">Connected</Badge>
+          ) : session ? (
+            <Badge variant="destructive">Expired</Badge>
+          ) : (
+            <Badge variant="outline" className="text-muted-foreground">Not connected</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showProgressIndicator && (
+          <OAuthProgressIndicator step={syncProgress.step} message={syncProgress.message} brokerName="Upstox" />
+        )}
+
+        {isSessionValid ? (
+          <>
+            <div className="text-sm text-muted-foreground space-y-2">
+              <div className="flex items-center gap-2">
+                <CheckCircle2 className="h-4 w-4 text-profit" />
+                <span>Session active</span>
+              </div>
+              {expiry && (
+                <div className="flex items-center gap-2">
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                  <span>Expires {expiry}</span>
+                </div>
+              )}
+              {status?.status === 'success' && (
+                <div className="flex items-center gap-2">
+                  <CheckCircle2 className="h-4 w-4 text-profit" />
+                  <span>{status.holdings_count} holdings synced</span>
+                </div>
+              )}
+              {status?.status === 'error' && status.error_message && (
+                <p className="text-xs text-destructive">{status.error_message}</p>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                onClick={onSync}
+                disabled={isSyncing}
+                className="flex-1 bg-upstox hover:bg-upstox/90"
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+                Sync Holdings
+              </Button>
+
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="icon" disabled={isDisconnecting} className="shrink-0">
+                    {isDisconnecting ? (
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <LogOut className="h-4 w-4" />
+                    )}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Disconnect Upstox?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This will revoke your Upstox session. Your synced holdings will remain, but you'll need to reconnect to sync again.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => disconnect()}>Disconnect</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </>
+        ) : (
+          <Button
+            onClick={login}
+            disabled={isRedirecting}
+            className="w-full bg-upstox hover:bg-upstox/90"
+          >
+            {isRedirecting ? (
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <ExternalLink className="h-4 w-4 mr-2" />
+            )}
+            {isRedirecting ? 'Redirecting...' : 'Connect Upstox'}
+          </Button>
+        )}
+
+        <Alert className="border-muted bg-muted/20">
+          <Shield className="h-4 w-4 text-muted-foreground" />
+          <AlertDescription className="text-xs text-muted-foreground">
+            You log in on Upstox's own page. The session token expires early every morning.
+          </AlertDescription>
+        </Alert>
+      </CardContent>
+    </Card>
+  );
+}
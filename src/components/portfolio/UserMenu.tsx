@@ -1,4 +1,4 @@
-import { LogOut, History } from 'lucide-react';
+import { LogOut, History, Receipt, GitCompare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -53,6 +53,14 @@ export function UserMenu() {
           <History className="mr-2 h-4 w-4" />
           Sync History
         </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate('/capital-gains')} className="cursor-pointer">
+          <Receipt className="mr-2 h-4 w-4" />
+          Capital Gains
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate('/snapshot-diff')} className="cursor-pointer">
+          <GitCompare className="mr-2 h-4 w-4" />
+          Snapshot Diff
+        </DropdownMenuItem>
         <DropdownMenuSeparator />
         <DropdownMenuItem onClick={handleSignOut} className="text-destructive focus:text-destructive cursor-pointer">
           <LogOut className="mr-2 h-4 w-4" />
@@ -0,0 +1,179 @@
+import { useMemo, useRef } from 'react';
+import { FileText, Loader2, Upload, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useTransactions } from '@/hooks/useTransactions';
+import { useZerodhaConsole } from '@/hooks/useZerodhaConsole';
+import { reconcileLots } from '@/lib/reconciliation';
+import { formatNumber } from '@/lib/portfolioUtils';
+import { Holding } from '@/types/portfolio';
+import { LotReconciliationStatus } from '@/types/transaction';
+
+interface ZerodhaConsoleCardProps {
+  holdings: Holding[];
+}
+
+const STATUS_LABELS: Record<LotReconciliationStatus, string> = {
+  matched: 'Matched',
+  mismatch: 'Mismatch',
+  no_history: 'No history',
+  not_held: 'Not held',
+};
+
+const STATUS_STYLES: Record<LotReconciliationStatus, string> = {
+  matched: 'border-profit/30 text-profit',
+  mismatch: 'border-loss/30 text-loss',
+  no_history: 'text-muted-foreground',
+  not_held: 'border-yellow-500/30 text-yellow-500',
+};
+
+const ZERODHA_SOURCE = 'Zerodha';
+
+export function ZerodhaConsoleCard({ holdings }: ZerodhaConsoleCardProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { transactions, isLoading } = useTransactions({ source: ZERODHA_SOURCE });
+  const { importStatements, isImporting, lastImport } = useZerodhaConsole();
+
+  const reconciliation = useMemo(
+    () => reconcileLots(holdings, transactions, ZERODHA_SOURCE),
+    [holdings, transactions]
+  );
+
+  const counts = useMemo(() => {
+    const result: Record<LotReconciliationStatus, number> = { matched: 0, mismatch: 0, no_history: 0, not_held: 0 };
+    reconciliation.forEach(r => result[r.status]++);
+    return result;
+  }, [reconciliation]);
+
+  const flagged = reconciliation.filter(r => r.status === 'mismatch' || r.status === 'not_held');
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from(e.target.files) : [];
+    if (files.length > 0) {
+      importStatements(files);
+    }
+    // Reset the input so the same files can be uploaded again
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <Card className="border-border bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-zerodha/10">
+              <FileText className="h-5 w-5 text-zerodha" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Zerodha Console</CardTitle>
+              <CardDescription>Tradebook CSVs & tax P&L for trade history</CardDescription>
+            </div>
+          </div>
+          {transactions.length > 0 && (
+            <Badge variant="outline" className="text-muted-foreground">
+              {transactions.length} trades
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          multiple
+          onChange={handleFileChange}
+          className="hidden"
+          disabled={isImporting}
+        />
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+        >
+          {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+          {isImporting ? 'Importing...' : 'Upload tradebooks / tax P&L'}
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Select one tradebook per financial year. Re-uploading is safe: trades are matched on trade ID.
+        </p>
+
+        {lastImport && lastImport.files.length > 0 && (
+          <div className="text-xs text-muted-foreground space-y-0.5">
+            {lastImport.files.map(f => (
+              <div key={f.file} className="flex justify-between gap-2">
+                <span className="truncate">{f.file}</span>
+                <span className="shrink-0">
+                  {f.imported} {f.kind === 'tradebook' ? 'trades' : 'dividends'}
+                  {f.skipped > 0 ? ` · ${f.skipped} skipped` : ''}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Reconciliation against the live Kite quantities */}
+        {isLoading ? null : reconciliation.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Sync Zerodha holdings to reconcile them with your trade history</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-1">
+              {(Object.keys(STATUS_LABELS) as LotReconciliationStatus[])
+                .filter(status => counts[status] > 0)
+                .map(status => (
+                  <Badge key={status} variant="outline" className={STATUS_STYLES[status]}>
+                    {counts[status]} {STATUS_LABELS[status].toLowerCase()}
+                  </Badge>
+                ))}
+            </div>
+
+            {flagged.length === 0 ? (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <CheckCircle2 className="h-4 w-4 text-profit" />
+                Every position with history matches Kite
+              </p>
+            ) : (
+              <>
+                <p className="flex items-center gap-2 text-sm text-loss">
+                  <AlertTriangle className="h-4 w-4" />
+                  {flagged.length} position{flagged.length > 1 ? 's' : ''} don't match Kite
+                </p>
+                <div className="max-h-[200px] overflow-y-auto rounded-md border border-border/50">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-xs">Symbol</TableHead>
+                        <TableHead className="text-xs text-right">Kite</TableHead>
+                        <TableHead className="text-xs text-right">Ledger</TableHead>
+                        <TableHead className="text-xs">Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {flagged.map(r => (
+                        <TableRow key={r.key}>
+                          <TableCell className="text-xs font-medium">{r.symbol}</TableCell>
+                          <TableCell className="text-xs text-right font-mono-numbers">{formatNumber(r.liveQuantity, 0)}</TableCell>
+                          <TableCell className="text-xs text-right font-mono-numbers">{formatNumber(r.ledgerQuantity, 0)}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={`text-[10px] ${STATUS_STYLES[r.status]}`}>
+                              {STATUS_LABELS[r.status]}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -143,7 +143,8 @@ export function MutualFundsTable({ holdings }: MutualFundsTableProps) {
         }
 
         const isProfit = actualXirr >= 0;
-        const isFromExcel = row.original.source === 'INDMoney';
+        const isFromLedger = row.original.xirrSource === 'ledger';
+        const isFromExcel = !isFromLedger && row.original.source === 'INDMoney';
 
         return (
           <TooltipProvider>
@@ -165,7 +166,9 @@ export function MutualFundsTable({ holdings }: MutualFundsTableProps) {
               </TooltipTrigger>
               <TooltipContent>
                 <p className="text-xs max-w-[220px]">
-                  {isFromExcel
+                  {isFromLedger
+                    ? 'XIRR calculated from your transaction history'
+                    : isFromExcel
                     ? 'XIRR imported from your INDMoney Excel file'
                     : 'XIRR value from portfolio data'}
                 </p>
@@ -189,7 +192,7 @@ export function MutualFundsTable({ holdings }: MutualFundsTableProps) {
             <TooltipContent>
               <p className="text-xs max-w-[200px]">
                 XIRR (Extended Internal Rate of Return) is the annualized return considering all cash flows.
-                Values from your portfolio data are shown when available.
+                Calculated from your transaction history when available, otherwise taken from imported data.
               </p>
             </TooltipContent>
           </Tooltip>
@@ -209,7 +212,8 @@ export function MutualFundsTable({ holdings }: MutualFundsTableProps) {
         }
 
         const isProfit = actualXirr >= 0;
-        const isFromExcel = row.original.source === 'INDMoney';
+        const isFromLedger = row.original.xirrSource === 'ledger';
+        const isFromExcel = !isFromLedger && row.original.source === 'INDMoney';
         
         return (
           <TooltipProvider>
@@ -229,7 +233,9 @@ export function MutualFundsTable({ holdings }: MutualFundsTableProps) {
               </TooltipTrigger>
               <TooltipContent>
                 <p className="text-xs">
-                  {isFromExcel
+                  {isFromLedger
+                    ? 'XIRR calculated from your transaction history'
+                    : isFromExcel
                     ? 'XIRR imported from your INDMoney Excel file'
                     : 'XIRR value from portfolio data'}
                 </p>
@@ -0,0 +1,93 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { functionError } from '@/integrations/supabase/functionError';
+import { toast } from 'sonner';
+import { Tables } from '@/integrations/supabase/types';
+
+export type AngelSession = Tables<'angel_sessions_status'>;
+
+export interface AngelLoginParams {
+  clientCode: string;
+  pin: string;
+  totp: string;
+}
+
+/**
+ * The user's Angel One SmartAPI session. Logging in needs the client code,
+ * PIN and current TOTP every day; the session lapses at midnight IST.
+ */
+export function useAngelSession() {
+  const queryClient = useQueryClient();
+
+  const { data: session, isLoading } = useQuery({
+    queryKey: ['angel-session'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('angel_sessions_status')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    },
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async ({ clientCode, pin, totp }: AngelLoginParams) => {
+      const { data, error } = await supabase.functions.invoke('angel-login', {
+        body: { client_code: clientCode, pin, totp },
+      });
+
+      if (error) {
+        throw await functionError(error, 'Failed to connect Angel One');
+      }
+      if (!data?.success) {
+        throw new Error(data?.error || 'Failed to connect Angel One');
+      }
+    },
+    onSuccess: () => {
+      toast.success('Angel One connected');
+      queryClient.invalidateQueries({ queryKey: ['angel-session'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to connect Angel One', { description: error.message });
+    },
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('angel-disconnect');
+
+      if (error) {
+        throw await functionError(error, 'Failed to disconnect');
+      }
+      if (!data?.success) {
+        throw new Error(data?.error || 'Failed to disconnect');
+      }
+    },
+    onSuccess: () => {
+      toast.success('Angel One disconnected', {
+        description: 'Your Angel One session has been terminated.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['angel-session'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to disconnect', { description: error.message });
+    },
+  });
+
+  return {
+    session: session ?? null,
+    isLoading,
+    isSessionValid: Boolean(session?.is_valid),
+    login: loginMutation.mutate,
+    isLoggingIn: loginMutation.isPending,
+    disconnect: disconnectMutation.mutate,
+    isDisconnecting: disconnectMutation.isPending,
+  };
+}
@@ -0,0 +1,73 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { attributeChange, slicesFromHoldings, slicesFromSourceDetails } from '@/lib/attribution';
+import { Attribution, AttributionDimension } from '@/types/performance';
+import { useSnapshotHoldings } from './useSnapshotHoldings';
+
+// Individual holdings shown before the rest are folded into "Other holdings"
+const TOP_HOLDINGS = 10;
+
+/**
+ * Attribution of the change between two snapshots by asset type, source and
+ * top holding. All three reconcile to the same portfolio totals, taken from
+ * the snapshots' source details.
+ */
+export function useAttribution(fromSnapshotId?: string, toSnapshotId?: string) {
+  const { data: details, isLoading: isLoadingDetails } = useQuery({
+    queryKey: ['snapshot-source-details', fromSnapshotId, toSnapshotId],
+    enabled: !!fromSnapshotId && !!toSnapshotId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('snapshot_source_details')
+        .select('snapshot_id, source, asset_type, current_value, total_investment')
+        .in('snapshot_id', [fromSnapshotId as string, toSnapshotId as string]);
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    },
+  });
+
+  const { holdings: fromHoldings, isLoading: isLoadingFrom } = useSnapshotHoldings(fromSnapshotId);
+  const { holdings: toHoldings, isLoading: isLoadingTo } = useSnapshotHoldings(toSnapshotId);
+
+  const attributions = useMemo(() => {
+    if (!details) return null;
+    const fromDetails = details.filter(d => d.snapshot_id === fromSnapshotId);
+    const toDetails = details.filter(d => d.snapshot_id === toSnapshotId);
+    if (fromDetails.length === 0 || toDetails.length === 0) return null;
+
+    const sum = (rows: typeof details) => ({
+      value: rows.reduce((s, d) => s + (Number(d.current_value) || 0), 0),
+      investment: rows.reduce((s, d) => s + (Number(d.total_investment) || 0), 0),
+    });
+    const totals = { start: sum(fromDetails), end: sum(toDetails) };
+
+    const result: Record<AttributionDimension, Attribution> = {
+      assetType: attributeChange(
+        slicesFromSourceDetails(fromDetails, 'assetType'),
+        slicesFromSourceDetails(toDetails, 'assetType'),
+        { totals }
+      ),
+      source: attributeChange(
+        slicesFromSourceDetails(fromDetails, 'source'),
+        slicesFromSourceDetails(toDetails, 'source'),
+        { totals }
+      ),
+      holding: attributeChange(slicesFromHoldings(fromHoldings), slicesFromHoldings(toHoldings), {
+        totals,
+        limit: TOP_HOLDINGS,
+        otherLabel: 'Other holdings',
+      }),
+    };
+    return result;
+  }, [details, fromSnapshotId, toSnapshotId, fromHoldings, toHoldings]);
+
+  return {
+    attributions,
+    isLoading: isLoadingDetails || isLoadingFrom || isLoadingTo,
+  };
+}
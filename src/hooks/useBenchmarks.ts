@@ -0,0 +1,165 @@
+import { useState, useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { parseBenchmarkCsv } from '@/lib/benchmark';
+import { Benchmark } from '@/types/performance';
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+const SELECTION_STORAGE_KEY = 'benchmark_selection';
+
+// Indices the Kite historical API can load without an instrument token
+export const KITE_BENCHMARKS = [
+  { symbol: 'NIFTY 50', name: 'Nifty 50' },
+  { symbol: 'SENSEX', name: 'S&P BSE Sensex' },
+  { symbol: 'NIFTY BANK', name: 'Nifty Bank' },
+];
+
+interface ImportCsvParams {
+  symbol: string;
+  name?: string;
+  file: File;
+}
+
+interface KiteSyncParams {
+  symbol: string;
+  name?: string;
+  instrumentToken?: number;
+  from?: string;
+}
+
+function loadSelection(): string[] {
+  try {
+    const stored = localStorage.getItem(SELECTION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Benchmark index closes for the current user, grouped by symbol, plus the
+ * user's chosen benchmarks (kept in localStorage)
+ */
+export function useBenchmarks(fromDate?: string) {
+  const queryClient = useQueryClient();
+  const [selectedSymbols, setSelectedSymbolsState] = useState<string[]>(loadSelection);
+
+  const setSelectedSymbols = useCallback((symbols: string[]) => {
+    setSelectedSymbolsState(symbols);
+    localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(symbols));
+  }, []);
+
+  const { data: benchmarks, isLoading } = useQuery({
+    queryKey: ['benchmark-prices', fromDate],
+    queryFn: async () => {
+      const rows: { symbol: string; name: string | null; price_date: string; close: number }[] = [];
+
+      for (let page = 0; ; page++) {
+        let query = supabase
+          .from('benchmark_prices')
+          .select('symbol, name, price_date, close')
+          .order('price_date', { ascending: true })
+          .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+        // Keep one close before the window so the first snapshot can be priced
+        if (fromDate) {
+          const lookback = new Date(fromDate);
+          lookback.setDate(lookback.getDate() - 10);
+          query = query.gte('price_date', lookback.toISOString().slice(0, 10));
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+
+      const bySymbol = new Map<string, Benchmark>();
+      rows.forEach(row => {
+        const existing = bySymbol.get(row.symbol) || { symbol: row.symbol, name: row.name || row.symbol, prices: [] };
+        existing.prices.push({ date: row.price_date, close: Number(row.close) });
+        bySymbol.set(row.symbol, existing);
+      });
+
+      return Array.from(bySymbol.values());
+    },
+  });
+
+  const importCsvMutation = useMutation({
+    mutationFn: async ({ symbol, name, file }: ImportCsvParams) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('Not authenticated');
+      }
+
+      const prices = parseBenchmarkCsv(await file.text());
+      if (prices.length === 0) {
+        throw new Error('No valid closes found in file');
+      }
+
+      const normalizedSymbol = symbol.trim().toUpperCase();
+      const rows = prices.map(p => ({
+        user_id: user.id,
+        symbol: normalizedSymbol,
+        name: name?.trim() || symbol.trim(),
+        price_date: p.date,
+        close: p.close,
+        source: 'csv',
+      }));
+
+      for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+        const { error } = await supabase
+          .from('benchmark_prices')
+          .upsert(rows.slice(i, i + PAGE_SIZE), { onConflict: 'user_id,symbol,price_date' });
+
+        if (error) throw error;
+      }
+
+      return { symbol: normalizedSymbol, count: rows.length };
+    },
+    onSuccess: ({ symbol, count }) => {
+      toast.success(`Imported ${count} closes for ${symbol}`);
+      queryClient.invalidateQueries({ queryKey: ['benchmark-prices'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to import benchmark: ' + error.message);
+    },
+  });
+
+  const kiteSyncMutation = useMutation({
+    mutationFn: async ({ symbol, name, instrumentToken, from }: KiteSyncParams) => {
+      const { data, error } = await supabase.functions.invoke('benchmark-sync', {
+        body: { symbol, name, instrument_token: instrumentToken, from },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to load benchmark');
+
+      return data as { symbol: string; count: number; message: string };
+    },
+    onSuccess: (data) => {
+      toast.success(data.message);
+      queryClient.invalidateQueries({ queryKey: ['benchmark-prices'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to load from Kite: ' + error.message);
+    },
+  });
+
+  return {
+    benchmarks: benchmarks || [],
+    isLoading,
+    selectedSymbols,
+    setSelectedSymbols,
+
+    importCsv: importCsvMutation.mutate,
+    isImporting: importCsvMutation.isPending,
+
+    syncFromKite: kiteSyncMutation.mutate,
+    isSyncingFromKite: kiteSyncMutation.isPending,
+  };
+}
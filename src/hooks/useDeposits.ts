@@ -0,0 +1,173 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Tables } from '@/integrations/supabase/types';
+import { depositHoldingFields, depositName } from '@/lib/deposits';
+import { MANUAL_SOURCE, manualSymbol } from '@/lib/manualHoldings';
+import { CompoundingFrequency, Deposit, DepositKind, InterestPayout, NewDeposit } from '@/types/deposit';
+
+type DepositRow = Tables<'deposits'>;
+
+export function mapDepositRow(row: DepositRow): Deposit {
+  return {
+    id: row.id,
+    holdingId: row.holding_id,
+    kind: row.kind as DepositKind,
+    bank: row.bank,
+    name: row.name,
+    principal: Number(row.principal),
+    interestRate: Number(row.interest_rate),
+    compounding: row.compounding as CompoundingFrequency,
+    payout: row.payout as InterestPayout,
+    startDate: row.start_date,
+    maturityDate: row.maturity_date,
+    tdsRate: Number(row.tds_rate),
+  };
+}
+
+function depositFields(deposit: NewDeposit) {
+  return {
+    kind: deposit.kind,
+    bank: deposit.bank.trim(),
+    name: deposit.name.trim(),
+    principal: deposit.principal,
+    interest_rate: deposit.interestRate,
+    compounding: deposit.compounding,
+    payout: deposit.kind === 'RD' ? 'cumulative' : deposit.payout,
+    start_date: deposit.startDate,
+    maturity_date: deposit.maturityDate,
+    tds_rate: deposit.tdsRate,
+  };
+}
+
+/**
+ * Fixed and recurring deposits. Each one owns a 'Manual' holdings row, so
+ * `onChanged` should refetch holdings after any change.
+ */
+export function useDeposits(onChanged?: () => void) {
+  const queryClient = useQueryClient();
+
+  const { data: deposits, isLoading } = useQuery({
+    queryKey: ['deposits'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('deposits')
+        .select('*')
+        .order('maturity_date', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      return (data || []).map(mapDepositRow);
+    },
+  });
+
+  const handleChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['deposits'] });
+    onChanged?.();
+  };
+
+  const addDepositMutation = useMutation({
+    mutationFn: async (deposit: NewDeposit) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('Not authenticated');
+      }
+
+      const { data: existing } = await supabase
+        .from('holdings')
+        .select('symbol')
+        .eq('source', MANUAL_SOURCE);
+      const symbol = manualSymbol(depositName(deposit), (existing || []).map(h => h.symbol), deposit.kind);
+
+      const { data: holding, error: holdingError } = await supabase
+        .from('holdings')
+        .insert({ ...depositHoldingFields(deposit), symbol, user_id: user.id })
+        .select('id')
+        .single();
+
+      if (holdingError) throw holdingError;
+
+      const { error } = await supabase
+        .from('deposits')
+        .insert({ ...depositFields(deposit), holding_id: holding.id, user_id: user.id });
+
+      if (error) {
+        // Don't leave a holding behind without the terms that value it
+        await supabase.from('holdings').delete().eq('id', holding.id);
+        throw error;
+      }
+    },
+    onSuccess: (_, deposit) => {
+      toast.success(`${depositName(deposit)} added`);
+      handleChanged();
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to add deposit: ' + error.message);
+    },
+  });
+
+  const updateDepositMutation = useMutation({
+    mutationFn: async ({ id, deposit }: { id: string; deposit: NewDeposit }) => {
+      const { data: row, error } = await supabase
+        .from('deposits')
+        .update(depositFields(deposit))
+        .eq('id', id)
+        .select('holding_id')
+        .single();
+
+      if (error) throw error;
+
+      // The symbol stays as inserted so snapshots match the same position
+      const { error: holdingError } = await supabase
+        .from('holdings')
+        .update(depositHoldingFields(deposit))
+        .eq('id', row.holding_id);
+
+      if (holdingError) throw holdingError;
+    },
+    onSuccess: (_, { deposit }) => {
+      toast.success(`${depositName(deposit)} updated`);
+      handleChanged();
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to update deposit: ' + error.message);
+    },
+  });
+
+  const deleteDepositMutation = useMutation({
+    mutationFn: async (deposit: Deposit) => {
+      // Removing the holding cascades to the deposit
+      const { error } = await supabase
+        .from('holdings')
+        .delete()
+        .eq('id', deposit.holdingId)
+        .eq('source', MANUAL_SOURCE);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Deposit removed');
+      handleChanged();
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to remove deposit: ' + error.message);
+    },
+  });
+
+  return {
+    deposits: deposits || [],
+    isLoading,
+
+    addDeposit: addDepositMutation.mutate,
+    isAdding: addDepositMutation.isPending,
+
+    updateDeposit: updateDepositMutation.mutate,
+    isUpdating: updateDepositMutation.isPending,
+
+    deleteDeposit: deleteDepositMutation.mutate,
+    isDeleting: deleteDepositMutation.isPending,
+  };
+}
@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Tables } from '@/integrations/supabase/types';
+import { ImportBatch, ImportBatchStatus } from '@/types/importBatch';
+
+type ImportBatchRow = Omit<Tables<'import_batches'>, 'holdings'>;
+
+// Everything but the holdings payload, which can be large
+const BATCH_COLUMNS = 'id, source, scope, file_name, file_hash, status, total_rows, holdings_count, skipped_count, restored_from, created_at, user_id';
+
+function mapBatchRow(row: ImportBatchRow): ImportBatch {
+  return {
+    id: row.id,
+    source: row.source,
+    scope: row.scope,
+    fileName: row.file_name,
+    fileHash: row.file_hash,
+    status: row.status as ImportBatchStatus,
+    totalRows: row.total_rows,
+    holdingsCount: row.holdings_count,
+    skippedCount: row.skipped_count,
+    restoredFrom: row.restored_from,
+    createdAt: row.created_at,
+  };
+}
+
+export function useImportBatches() {
+  const queryClient = useQueryClient();
+
+  const { data: batches, isLoading, refetch } = useQuery({
+    queryKey: ['import-batches'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('import_batches')
+        .select(BATCH_COLUMNS)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      return (data || []).map(mapBatchRow);
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (batchId: string) => {
+      const { data, error } = await supabase.functions.invoke('rollback-import', {
+        body: { batch_id: batchId },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to restore import');
+
+      return data as { holdings_count: number; source: string; message: string };
+    },
+    onSuccess: (data) => {
+      toast.success(data.message);
+      queryClient.invalidateQueries({ queryKey: ['import-batches'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to restore import: ' + error.message);
+    },
+  });
+
+  return {
+    batches: batches ?? [],
+    isLoading,
+    refetch,
+    rollback: rollbackMutation.mutate,
+    isRollingBack: rollbackMutation.isPending,
+  };
+}
@@ -0,0 +1,104 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { emptyColumnMap } from '@/lib/columnMapping';
+import { ColumnMap, ImportTemplate, NewImportTemplate } from '@/types/columnMapping';
+
+type ImportTemplateRow = Tables<'import_templates'>;
+
+function mapTemplateRow(row: ImportTemplateRow): ImportTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    headerSignature: row.header_signature,
+    sheetName: row.sheet_name,
+    // Fields added after the template was saved stay unmapped
+    columns: { ...emptyColumnMap(), ...(row.column_map as Partial<ColumnMap>) },
+    source: row.source,
+    broker: row.broker,
+    defaultType: row.default_type,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function useImportTemplates() {
+  const queryClient = useQueryClient();
+
+  const { data: templates, isLoading } = useQuery({
+    queryKey: ['import-templates'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('import_templates')
+        .select('*')
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      return (data || []).map(mapTemplateRow);
+    },
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (template: NewImportTemplate) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('Not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('import_templates')
+        .upsert({
+          user_id: user.id,
+          name: template.name.trim(),
+          header_signature: template.headerSignature,
+          sheet_name: template.sheetName,
+          column_map: template.columns as unknown as Json,
+          source: template.source.trim(),
+          broker: template.broker?.trim() || null,
+          default_type: template.defaultType,
+        }, { onConflict: 'user_id,name' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Template saved');
+      queryClient.invalidateQueries({ queryKey: ['import-templates'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to save template: ' + error.message);
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('import_templates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Template removed');
+      queryClient.invalidateQueries({ queryKey: ['import-templates'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to remove template: ' + error.message);
+    },
+  });
+
+  return {
+    templates: templates || [],
+    isLoading,
+
+    saveTemplate: saveTemplateMutation.mutate,
+    isSaving: saveTemplateMutation.isPending,
+
+    deleteTemplate: deleteTemplateMutation.mutate,
+    isDeleting: deleteTemplateMutation.isPending,
+  };
+}
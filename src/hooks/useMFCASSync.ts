@@ -1,35 +1,24 @@
-import { useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { MFCASSync, MFHoldingSummary } from '@/types/mutualFund';
 
-interface RequestOTPParams {
-  pan: string;
-  phone?: string;
-  email?: string;
-  otp_method: 'phone' | 'email';
-  time_period?: string;
-  updated_till?: string;
+interface UploadCASParams {
+  file: File;
+  password: string;
   nickname?: string;
 }
 
-interface VerifyOTPParams {
-  pan: string;
-  otp: string;
-  otp_reference: string;
-}
-
-interface FetchCASParams {
-  pan: string;
-  otp_reference: string;
-  time_period?: string;
-  updated_till?: string;
+export interface UploadCASResult {
+  message: string;
+  holdings_count: number;
+  transactions_count: number;
+  ledger_count: number;
+  period: { from: string; to: string } | null;
 }
 
 export function useMFCASSync() {
   const queryClient = useQueryClient();
-  const [currentSyncId, setCurrentSyncId] = useState<string | null>(null);
 
   // Fetch latest sync status
   const { data: latestSync, isLoading: isLoadingSync } = useQuery({
@@ -67,99 +56,45 @@ export function useMFCASSync() {
     },
   });
 
-  // Request OTP mutation
-  const requestOTPMutation = useMutation({
-    mutationFn: async (params: RequestOTPParams) => {
+  // Upload a CAMS/KFintech detailed CAS PDF
+  const uploadCASMutation = useMutation({
+    mutationFn: async ({ file, password, nickname }: UploadCASParams) => {
       const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
-        throw new Error('Not authenticated');
-      }
-
-      const response = await supabase.functions.invoke('mf-cas-sync', {
-        body: {
-          action: 'request_otp',
-          ...params,
-        },
-      });
-
-      if (response.error) {
-        throw response.error;
-      }
-
-      return response.data;
-    },
-    onSuccess: (data) => {
-      setCurrentSyncId(data.sync_id);
-      toast.success('OTP sent successfully! Please check your ' + (data.otp_method === 'phone' ? 'phone' : 'email'));
-      queryClient.invalidateQueries({ queryKey: ['mf-cas-sync-latest'] });
-    },
-    onError: (error: Error) => {
-      toast.error('Failed to request OTP: ' + error.message);
-    },
-  });
 
-  // Verify OTP mutation
-  const verifyOTPMutation = useMutation({
-    mutationFn: async (params: VerifyOTPParams) => {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
+      if (!session?.access_token) {
         throw new Error('Not authenticated');
       }
 
-      const response = await supabase.functions.invoke('mf-cas-sync', {
-        body: {
-          action: 'verify_otp',
-          ...params,
-        },
-      });
-
-      if (response.error) {
-        throw response.error;
-      }
-
-      return response.data;
-    },
-    onSuccess: () => {
-      toast.success('OTP verified successfully!');
-      queryClient.invalidateQueries({ queryKey: ['mf-cas-sync-latest'] });
-    },
-    onError: (error: Error) => {
-      toast.error('Invalid OTP: ' + error.message);
-    },
-  });
-
-  // Fetch CAS data mutation
-  const fetchCASMutation = useMutation({
-    mutationFn: async (params: FetchCASParams) => {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
-        throw new Error('Not authenticated');
-      }
-
-      const response = await supabase.functions.invoke('mf-cas-sync', {
-        body: {
-          action: 'fetch_cas',
-          ...params,
-        },
-      });
-
-      if (response.error) {
-        throw response.error;
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('password', password);
+      if (nickname) formData.append('nickname', nickname);
+
+      // FormData needs fetch: functions.invoke would JSON-encode the body
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/mf-cas-sync`,
+        {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${session.access_token}` },
+          body: formData,
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `HTTP error: ${response.status}`);
       }
 
-      return response.data;
+      return data as UploadCASResult;
     },
     onSuccess: (data) => {
-      toast.success(`Successfully synced ${data.holdings_count} mutual fund holdings!`);
+      toast.success(data.message);
       queryClient.invalidateQueries({ queryKey: ['mf-cas-sync-latest'] });
       queryClient.invalidateQueries({ queryKey: ['mf-holdings-summary'] });
-      queryClient.invalidateQueries({ queryKey: ['holdings'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
     },
     onError: (error: Error) => {
-      toast.error('Failed to fetch CAS data: ' + error.message);
+      toast.error('Failed to import CAS: ' + error.message);
     },
   });
 
@@ -167,24 +102,15 @@ export function useMFCASSync() {
     // Sync status
     latestSync,
     isLoadingSync,
-    currentSyncId,
 
     // Holdings
     mfHoldings: mfHoldings || [],
     isLoadingHoldings,
     refetchHoldings,
 
-    // Mutations
-    requestOTP: requestOTPMutation.mutate,
-    isRequestingOTP: requestOTPMutation.isPending,
-    
-    verifyOTP: verifyOTPMutation.mutate,
-    isVerifyingOTP: verifyOTPMutation.isPending,
-    
-    fetchCAS: fetchCASMutation.mutate,
-    isFetchingCAS: fetchCASMutation.isPending,
-
-    // Combined loading state
-    isSyncing: requestOTPMutation.isPending || verifyOTPMutation.isPending || fetchCASMutation.isPending,
+    // Upload
+    uploadCAS: uploadCASMutation.mutate,
+    isUploadingCAS: uploadCASMutation.isPending,
+    lastUpload: uploadCASMutation.data,
   };
 }
@@ -1,9 +1,21 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Holding, EnrichedHolding } from '@/types/portfolio';
+import { ImportPreview } from '@/types/importPreview';
+import { SpreadsheetMapping } from '@/types/columnMapping';
+import { ManualHoldingInput } from '@/types/manualHolding';
 import { enrichHolding } from '@/lib/portfolioUtils';
+import { MANUAL_SOURCE, buildManualHoldingRow, manualSymbol } from '@/lib/manualHoldings';
+import { applyDepositValuations } from '@/lib/deposits';
+import { mapDepositRow } from '@/hooks/useDeposits';
 import { toast } from 'sonner';
 
+export interface UploadResult {
+  success: boolean;
+  holdings_count?: number;
+  error?: string;
+}
+
 interface SyncStatus {
   source: string;
   status: string;
@@ -12,6 +24,20 @@ interface SyncStatus {
   created_at: string;
 }
 
+// Form fields parse-spreadsheet reads alongside the file
+function spreadsheetFields(mapping: SpreadsheetMapping): Record<string, string> {
+  return {
+    mapping: JSON.stringify({
+      sheetName: mapping.sheetName,
+      headerRow: mapping.headerRow,
+      columns: mapping.columns,
+    }),
+    source: mapping.source,
+    broker: mapping.broker,
+    default_type: mapping.defaultType,
+  };
+}
+
 export function usePortfolioData() {
   const [holdings, setHoldings] = useState<EnrichedHolding[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -36,6 +62,11 @@ export function usePortfolioData() {
 
       const quotesMap = new Map(quotes?.map(q => [q.symbol, q.ltp]) || []);
 
+      // Deposits are valued from their terms, accrued to today
+      const { data: deposits } = await supabase
+        .from('deposits')
+        .select('*');
+
       // Transform database holdings to our format
       const transformed: Holding[] = (data || []).map(h => {
         const broker = (h as any).broker as string | undefined;
@@ -51,13 +82,16 @@ export function usePortfolioData() {
           avgPrice: Number(h.avg_price),
           ltp: quotesMap.get(h.symbol) || Number(h.ltp),
           exchange: h.exchange,
-          source: broker || source,
+          // Manual rows keep their source so they stay editable; broker is only where they are held
+          source: source === MANUAL_SOURCE ? source : broker || source,
           isin: h.isin || undefined,
           xirr: h.xirr !== null ? Number(h.xirr) : undefined,
+          broker: broker || undefined,
         };
       });
 
-      setHoldings(transformed.map(enrichHolding));
+      const valued = applyDepositValuations(transformed, (deposits || []).map(mapDepositRow));
+      setHoldings(valued.map(h => enrichHolding(h)));
       setIsLoading(false);
     } catch (error) {
       console.error('Error fetching holdings:', error);
@@ -134,7 +168,39 @@ export function usePortfolioData() {
     return false;
   }, [fetchHoldings, fetchSyncStatus]);
 
-  const uploadINDMoneyExcel = useCallback(async (file: File): Promise<{ success: boolean; holdings_count?: number; error?: string }> => {
+  // API brokers other than Zerodha sync through the generic broker-sync function
+  const syncBroker = useCallback(async (brokerId: string, label: string) => {
+    setIsSyncing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('broker-sync', {
+        body: { broker: brokerId },
+      });
+
+      if (error) throw error;
+
+      if (data.success) {
+        toast.success(data.message);
+        await fetchHoldings();
+      } else {
+        toast.error(data.error || `Failed to sync ${label}`);
+      }
+    } catch (error) {
+      console.error(`${label} sync error:`, error);
+      toast.error(error instanceof Error ? error.message : `Failed to sync ${label}`);
+    } finally {
+      // Failures are logged too, so refresh either way
+      await fetchSyncStatus();
+      setIsSyncing(false);
+    }
+  }, [fetchHoldings, fetchSyncStatus]);
+
+  // Statement importers all take a multipart file upload and reply with holdings_count
+  const uploadStatement = useCallback(async (
+    functionName: string,
+    label: string,
+    file: File,
+    fields: Record<string, string> = {}
+  ): Promise<UploadResult> => {
     setIsSyncing(true);
     try {
       // Get the current session to include the auth token
@@ -146,10 +212,11 @@ export function usePortfolioData() {
 
       const formData = new FormData();
       formData.append('file', file);
+      Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
 
       // Use fetch directly to have full control over headers with FormData
       const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/parse-indmoney`,
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${functionName}`,
         {
           method: 'POST',
           headers: {
@@ -165,24 +232,160 @@ export function usePortfolioData() {
         throw new Error(data.error || `HTTP error: ${response.status}`);
       }
       
-      if (data.success) {
+      if (data.success && data.skipped_duplicate) {
+        toast.info(data.message);
+        return { success: true, holdings_count: data.holdings_count };
+      } else if (data.success) {
         toast.success(data.message);
         await fetchHoldings();
         await fetchSyncStatus();
         return { success: true, holdings_count: data.holdings_count };
       } else {
-        toast.error(data.error || 'Failed to parse INDMoney file');
-        return { success: false, error: data.error || 'Failed to parse INDMoney file' };
+        toast.error(data.error || `Failed to parse ${label} file`);
+        return { success: false, error: data.error || `Failed to parse ${label} file` };
       }
     } catch (error: any) {
-      console.error('INDMoney upload error:', error);
-      toast.error(error.message || 'Failed to upload INDMoney file');
-      return { success: false, error: error.message || 'Failed to upload INDMoney file' };
+      console.error(`${label} upload error:`, error);
+      toast.error(error.message || `Failed to upload ${label} file`);
+      return { success: false, error: error.message || `Failed to upload ${label} file` };
     } finally {
       setIsSyncing(false);
     }
   }, [fetchHoldings, fetchSyncStatus]);
 
+  // Dry run of a spreadsheet importer: parses and diffs without writing
+  const previewStatement = useCallback(async (
+    functionName: string,
+    label: string,
+    file: File,
+    fields: Record<string, string> = {}
+  ): Promise<ImportPreview> => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('You must be logged in to upload files');
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+    formData.append('dry_run', 'true');
+
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${functionName}`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: formData,
+      }
+    );
+
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Failed to parse ${label} file`);
+    }
+
+    return data as ImportPreview;
+  }, []);
+
+  const previewINDMoneyExcel = useCallback(
+    (file: File) => previewStatement('parse-indmoney', 'INDMoney', file),
+    [previewStatement]
+  );
+
+  const previewGrowwStatement = useCallback(
+    (file: File) => previewStatement('parse-groww', 'Groww', file),
+    [previewStatement]
+  );
+
+  const uploadINDMoneyExcel = useCallback(
+    (file: File) => uploadStatement('parse-indmoney', 'INDMoney', file),
+    [uploadStatement]
+  );
+
+  const uploadGrowwStatement = useCallback(
+    (file: File) => uploadStatement('parse-groww', 'Groww', file),
+    [uploadStatement]
+  );
+
+  const previewSpreadsheet = useCallback(
+    (file: File, mapping: SpreadsheetMapping) =>
+      previewStatement('parse-spreadsheet', mapping.source, file, spreadsheetFields(mapping)),
+    [previewStatement]
+  );
+
+  const uploadSpreadsheet = useCallback(
+    (file: File, mapping: SpreadsheetMapping) =>
+      uploadStatement('parse-spreadsheet', mapping.source, file, spreadsheetFields(mapping)),
+    [uploadStatement]
+  );
+
+  const uploadDepositoryCAS = useCallback(
+    (file: File, password?: string) => uploadStatement('parse-depository-cas', 'CAS', file, { password: password || '' }),
+    [uploadStatement]
+  );
+
+  // Manual holdings are written directly; the source filter keeps imported rows out of reach
+  const saveManualHolding = useCallback(async (input: ManualHoldingInput, id?: string): Promise<boolean> => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('You must be logged in to add holdings');
+      }
+
+      if (id) {
+        const existing = holdings.find(h => h.id === id);
+        if (!existing) throw new Error('Holding not found');
+
+        const { error } = await supabase
+          .from('holdings')
+          .update(buildManualHoldingRow(input, existing.symbol))
+          .eq('id', id)
+          .eq('source', MANUAL_SOURCE);
+
+        if (error) throw error;
+        toast.success(`${input.name.trim()} updated`);
+      } else {
+        const symbol = manualSymbol(input.name, holdings.map(h => h.symbol));
+        const { error } = await supabase
+          .from('holdings')
+          .insert({ ...buildManualHoldingRow(input, symbol), user_id: user.id });
+
+        if (error) throw error;
+        toast.success(`${input.name.trim()} added`);
+      }
+
+      await fetchHoldings();
+      return true;
+    } catch (error) {
+      console.error('Manual holding save error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save holding');
+      return false;
+    }
+  }, [holdings, fetchHoldings]);
+
+  const deleteManualHolding = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error } = await supabase
+        .from('holdings')
+        .delete()
+        .eq('id', id)
+        .eq('source', MANUAL_SOURCE);
+
+      if (error) throw error;
+      toast.success('Holding removed');
+      await fetchHoldings();
+      return true;
+    } catch (error) {
+      console.error('Manual holding delete error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove holding');
+      return false;
+    }
+  }, [fetchHoldings]);
+
   useEffect(() => {
     fetchHoldings();
     fetchSyncStatus();
@@ -196,7 +399,16 @@ export function usePortfolioData() {
     syncStatus,
     syncZerodha,
     syncZerodhaWithRetry,
+    syncBroker,
     uploadINDMoneyExcel,
+    uploadGrowwStatement,
+    uploadDepositoryCAS,
+    previewINDMoneyExcel,
+    previewGrowwStatement,
+    uploadSpreadsheet,
+    previewSpreadsheet,
+    saveManualHolding,
+    deleteManualHolding,
     refetch: fetchHoldings,
   };
 }
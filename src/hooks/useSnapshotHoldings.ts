@@ -0,0 +1,110 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Tables } from '@/integrations/supabase/types';
+import { SnapshotHolding } from '@/types/performance';
+import { Source } from '@/types/portfolio';
+
+type SnapshotHoldingRow = Tables<'snapshot_holdings'>;
+
+export function mapSnapshotHoldingRow(row: SnapshotHoldingRow): SnapshotHolding {
+  return {
+    id: row.id,
+    snapshotDate: row.snapshot_date,
+    symbol: row.symbol,
+    name: row.name || undefined,
+    isin: row.isin || undefined,
+    type: row.type || undefined,
+    sector: row.sector || undefined,
+    source: row.source as Source,
+    broker: row.broker || undefined,
+    quantity: Number(row.quantity),
+    avgPrice: Number(row.avg_price),
+    ltp: row.ltp !== null ? Number(row.ltp) : undefined,
+    investment: Number(row.investment),
+    currentValue: row.current_value !== null ? Number(row.current_value) : undefined,
+    pnl: row.pnl !== null ? Number(row.pnl) : undefined,
+    reconstructed: row.reconstructed,
+  };
+}
+
+/**
+ * Every captured snapshot date for the current user, oldest first
+ */
+export function useSnapshotDates() {
+  const { data: snapshots, isLoading } = useQuery({
+    queryKey: ['snapshot-dates'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('portfolio_snapshots')
+        .select('id, snapshot_date')
+        .order('snapshot_date', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    },
+  });
+
+  return {
+    snapshots: snapshots || [],
+    isLoading,
+  };
+}
+
+/**
+ * Holdings as captured in one snapshot, plus a backfill that rebuilds rows for
+ * snapshots taken before per-holding capture existed
+ */
+export function useSnapshotHoldings(snapshotId?: string) {
+  const queryClient = useQueryClient();
+
+  const { data: holdings, isLoading } = useQuery({
+    queryKey: ['snapshot-holdings', snapshotId],
+    enabled: !!snapshotId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('snapshot_holdings')
+        .select('*')
+        .eq('snapshot_id', snapshotId as string)
+        .order('current_value', { ascending: false, nullsFirst: false })
+        .order('investment', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      return (data || []).map(mapSnapshotHoldingRow);
+    },
+  });
+
+  const backfillMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('capture-snapshot', {
+        body: { backfill: true },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Backfill failed');
+
+      return data as { message: string };
+    },
+    onSuccess: (data) => {
+      toast.success(data.message);
+      queryClient.invalidateQueries({ queryKey: ['snapshot-holdings'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to backfill holdings: ' + error.message);
+    },
+  });
+
+  return {
+    holdings: holdings || [],
+    isLoading,
+
+    backfill: backfillMutation.mutate,
+    isBackfilling: backfillMutation.isPending,
+  };
+}
@@ -0,0 +1,99 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Tables } from '@/integrations/supabase/types';
+import { AllocationDimension, NewTargetAllocation, TargetAllocation } from '@/types/rebalancing';
+
+type TargetAllocationRow = Tables<'target_allocations'>;
+
+function mapTargetRow(row: TargetAllocationRow): TargetAllocation {
+  return {
+    id: row.id,
+    dimension: row.dimension as AllocationDimension,
+    bucketKey: row.bucket_key,
+    targetPercent: Number(row.target_percent),
+    tolerancePercent: Number(row.tolerance_percent),
+    assetTypes: row.asset_types || [],
+    symbols: row.symbols || [],
+  };
+}
+
+export function useTargetAllocations() {
+  const queryClient = useQueryClient();
+
+  const { data: targets, isLoading } = useQuery({
+    queryKey: ['target-allocations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('target_allocations')
+        .select('*')
+        .order('target_percent', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      return (data || []).map(mapTargetRow);
+    },
+  });
+
+  const saveTargetMutation = useMutation({
+    mutationFn: async (target: NewTargetAllocation) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('Not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('target_allocations')
+        .upsert({
+          user_id: user.id,
+          dimension: target.dimension,
+          bucket_key: target.bucketKey.trim(),
+          target_percent: target.targetPercent,
+          tolerance_percent: target.tolerancePercent ?? 5,
+          asset_types: target.assetTypes ?? [],
+          symbols: (target.symbols ?? []).map(s => s.trim().toUpperCase()).filter(Boolean),
+        }, { onConflict: 'user_id,dimension,bucket_key' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Target saved');
+      queryClient.invalidateQueries({ queryKey: ['target-allocations'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to save target: ' + error.message);
+    },
+  });
+
+  const deleteTargetMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('target_allocations')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Target removed');
+      queryClient.invalidateQueries({ queryKey: ['target-allocations'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to remove target: ' + error.message);
+    },
+  });
+
+  return {
+    targets: targets || [],
+    isLoading,
+
+    saveTarget: saveTargetMutation.mutate,
+    isSaving: saveTargetMutation.isPending,
+
+    deleteTarget: deleteTargetMutation.mutate,
+    isDeleting: deleteTargetMutation.isPending,
+  };
+}
@@ -0,0 +1,172 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Tables } from '@/integrations/supabase/types';
+import { AssetType } from '@/types/portfolio';
+import { NewTransaction, Transaction, TransactionFilters, TransactionType } from '@/types/transaction';
+
+type TransactionRow = Tables<'transactions'>;
+
+// PostgREST returns at most this many rows per request
+const TRANSACTION_PAGE_SIZE = 1000;
+
+export function mapTransactionRow(row: TransactionRow): Transaction {
+  return {
+    id: row.id,
+    source: row.source,
+    broker: row.broker || undefined,
+    symbol: row.symbol,
+    isin: row.isin || undefined,
+    name: row.name || undefined,
+    assetType: (row.asset_type as AssetType) || undefined,
+    exchange: row.exchange || undefined,
+    type: row.transaction_type as TransactionType,
+    date: row.trade_date,
+    quantity: Number(row.quantity),
+    price: row.price !== null ? Number(row.price) : undefined,
+    amount: Number(row.amount),
+    charges: Number(row.charges),
+    ratio: row.ratio !== null ? Number(row.ratio) : undefined,
+    redemption: row.is_redemption,
+    externalId: row.external_id || undefined,
+    notes: row.notes || undefined,
+  };
+}
+
+export function useTransactions(filters: TransactionFilters = {}) {
+  const queryClient = useQueryClient();
+
+  const { data: transactions, isLoading, refetch } = useQuery({
+    queryKey: ['transactions', filters],
+    queryFn: async () => {
+      // Page through the ledger: a few years of tradebooks easily exceed one response
+      const rows: TransactionRow[] = [];
+      for (let page = 0; ; page++) {
+        let query = supabase
+          .from('transactions')
+          .select('*')
+          .order('trade_date', { ascending: true })
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true });
+
+        if (filters.source) query = query.eq('source', filters.source);
+        if (filters.symbol) query = query.eq('symbol', filters.symbol);
+        if (filters.isin) query = query.eq('isin', filters.isin);
+        if (filters.from) query = query.gte('trade_date', filters.from);
+        if (filters.to) query = query.lte('trade_date', filters.to);
+
+        const { data, error } = await query.range(page * TRANSACTION_PAGE_SIZE, (page + 1) * TRANSACTION_PAGE_SIZE - 1);
+
+        if (error) {
+          throw error;
+        }
+
+        rows.push(...(data || []));
+        if (!data || data.length < TRANSACTION_PAGE_SIZE) break;
+      }
+
+      return rows.map(mapTransactionRow);
+    },
+  });
+
+  const addTransactionMutation = useMutation({
+    mutationFn: async (txn: NewTransaction) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('Not authenticated');
+      }
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .insert({
+          user_id: user.id,
+          source: txn.source,
+          broker: txn.broker ?? null,
+          symbol: txn.symbol,
+          isin: txn.isin ?? null,
+          name: txn.name ?? null,
+          asset_type: txn.assetType ?? null,
+          exchange: txn.exchange ?? null,
+          transaction_type: txn.type,
+          trade_date: txn.date,
+          quantity: txn.quantity,
+          price: txn.price ?? null,
+          amount: txn.amount,
+          charges: txn.charges ?? 0,
+          ratio: txn.ratio ?? null,
+          is_redemption: txn.redemption ?? false,
+          external_id: txn.externalId ?? null,
+          notes: txn.notes ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return mapTransactionRow(data);
+    },
+    onSuccess: () => {
+      toast.success('Transaction recorded');
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to record transaction: ' + error.message);
+    },
+  });
+
+  const setRedemptionMutation = useMutation({
+    mutationFn: async ({ id, redemption }: { id: string; redemption: boolean }) => {
+      const { error } = await supabase
+        .from('transactions')
+        .update({ is_redemption: redemption })
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to update transaction: ' + error.message);
+    },
+  });
+
+  const deleteTransactionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('transactions')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to delete transaction: ' + error.message);
+    },
+  });
+
+  return {
+    transactions: transactions || [],
+    isLoading,
+    refetch,
+
+    addTransaction: addTransactionMutation.mutate,
+    isAddingTransaction: addTransactionMutation.isPending,
+
+    setRedemption: setRedemptionMutation.mutate,
+    isSettingRedemption: setRedemptionMutation.isPending,
+
+    deleteTransaction: deleteTransactionMutation.mutate,
+    isDeletingTransaction: deleteTransactionMutation.isPending,
+  };
+}
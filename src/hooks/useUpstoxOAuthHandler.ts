@@ -0,0 +1,11 @@
+import { BrokerOAuthConfig, UseBrokerOAuthHandlerOptions, useBrokerOAuthHandler } from './useBrokerOAuthHandler';
+
+const UPSTOX_OAUTH: BrokerOAuthConfig = {
+  name: 'Upstox',
+  param: 'upstox',
+  statusView: 'upstox_sessions_status',
+};
+
+export function useUpstoxOAuthHandler(options: UseBrokerOAuthHandlerOptions) {
+  return useBrokerOAuthHandler(UPSTOX_OAUTH, options);
+}
@@ -0,0 +1,90 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { functionError } from '@/integrations/supabase/functionError';
+import { toast } from 'sonner';
+import { Tables } from '@/integrations/supabase/types';
+
+export type UpstoxSession = Tables<'upstox_sessions_status'>;
+
+/**
+ * The user's Upstox session. Logging in goes through Upstox's OAuth page;
+ * upstox-callback stores the session and useUpstoxOAuthHandler picks up the
+ * redirect back.
+ */
+export function useUpstoxSession() {
+  const queryClient = useQueryClient();
+
+  const { data: session, isLoading, refetch } = useQuery({
+    queryKey: ['upstox-session'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('upstox_sessions_status')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    },
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('upstox-login-url');
+
+      if (error) {
+        throw await functionError(error, 'Failed to get login URL');
+      }
+      if (!data?.loginUrl) {
+        throw new Error(data?.error || 'Unexpected response from server.');
+      }
+
+      return data.loginUrl as string;
+    },
+    onSuccess: (loginUrl) => {
+      window.location.href = loginUrl;
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to connect Upstox', { description: error.message });
+    },
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('upstox-disconnect');
+
+      if (error) {
+        throw await functionError(error, 'Failed to disconnect');
+      }
+      if (!data?.success) {
+        throw new Error(data?.error || 'Failed to disconnect');
+      }
+    },
+    onSuccess: () => {
+      toast.success('Upstox disconnected', {
+        description: 'Your Upstox session has been terminated.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['upstox-session'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to disconnect', { description: error.message });
+    },
+  });
+
+  return {
+    session: session ?? null,
+    isLoading,
+    isSessionValid: Boolean(session?.is_valid),
+    refetch,
+    // Sends the browser to Upstox's login page
+    login: () => loginMutation.mutate(),
+    // Stays true through the redirect
+    isRedirecting: loginMutation.isPending || loginMutation.isSuccess,
+    disconnect: disconnectMutation.mutate,
+    isDisconnecting: disconnectMutation.isPending,
+  };
+}
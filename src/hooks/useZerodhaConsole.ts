@@ -0,0 +1,71 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export interface ConsoleImportFileSummary {
+  file: string;
+  kind: 'tradebook' | 'tax_pnl';
+  rows: number;
+  imported: number;
+  skipped: number;
+}
+
+export interface ConsoleImportResult {
+  message: string;
+  transactions_count: number;
+  files: ConsoleImportFileSummary[];
+  skipped_count: number;
+  uncovered_exits: { symbol: string; exitDate: string; quantity: number }[];
+  warnings: string[];
+}
+
+/**
+ * Upload Zerodha Console tradebooks and tax P&L statements into the ledger
+ */
+export function useZerodhaConsole() {
+  const queryClient = useQueryClient();
+
+  const importMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) {
+        throw new Error('Not authenticated');
+      }
+
+      const formData = new FormData();
+      files.forEach(file => formData.append('file', file));
+
+      // FormData needs fetch: functions.invoke would JSON-encode the body
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/import-zerodha-console`,
+        {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${session.access_token}` },
+          body: formData,
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `HTTP error: ${response.status}`);
+      }
+
+      return data as ConsoleImportResult;
+    },
+    onSuccess: (data) => {
+      toast.success(data.message);
+      data.warnings.forEach(warning => toast.warning(warning));
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to import Zerodha statements: ' + error.message);
+    },
+  });
+
+  return {
+    importStatements: importMutation.mutate,
+    isImporting: importMutation.isPending,
+    lastImport: importMutation.data,
+  };
+}
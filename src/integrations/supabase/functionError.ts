@@ -0,0 +1,14 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+/**
+ * The error an edge function replied with. Non-2xx replies keep their
+ * { error } body on the response in `context`; functions.invoke only
+ * reports the status.
+ */
+export async function functionError(error: Error, fallback: string): Promise<Error> {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error) return new Error(body.error);
+  }
+  return new Error(error.message || fallback);
+}
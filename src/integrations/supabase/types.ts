@@ -14,6 +14,137 @@ export type Database = {
   }
   public: {
     Tables: {
+      angel_sessions: {
+        Row: {
+          access_token: string
+          client_code: string
+          created_at: string
+          expires_at: string
+          id: string
+          refresh_token: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          access_token: string
+          client_code: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          refresh_token?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          access_token?: string
+          client_code?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          refresh_token?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      benchmark_prices: {
+        Row: {
+          close: number
+          created_at: string
+          id: string
+          name: string | null
+          price_date: string
+          source: string
+          symbol: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          close: number
+          created_at?: string
+          id?: string
+          name?: string | null
+          price_date: string
+          source?: string
+          symbol: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          close?: number
+          created_at?: string
+          id?: string
+          name?: string | null
+          price_date?: string
+          source?: string
+          symbol?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      deposits: {
+        Row: {
+          bank: string
+          compounding: string
+          created_at: string
+          holding_id: string
+          id: string
+          interest_rate: number
+          kind: string
+          maturity_date: string
+          name: string
+          payout: string
+          principal: number
+          start_date: string
+          tds_rate: number
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          bank: string
+          compounding?: string
+          created_at?: string
+          holding_id: string
+          id?: string
+          interest_rate: number
+          kind: string
+          maturity_date: string
+          name?: string
+          payout?: string
+          principal: number
+          start_date: string
+          tds_rate?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          bank?: string
+          compounding?: string
+          created_at?: string
+          holding_id?: string
+          id?: string
+          interest_rate?: number
+          kind?: string
+          maturity_date?: string
+          name?: string
+          payout?: string
+          principal?: number
+          start_date?: string
+          tds_rate?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deposits_holding_id_fkey"
+            columns: ["holding_id"]
+            isOneToOne: true
+            referencedRelation: "holdings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exchange_rates: {
         Row: {
           created_at: string
@@ -101,6 +232,182 @@ export type Database = {
         }
         Relationships: []
       }
+      import_batches: {
+        Row: {
+          created_at: string
+          file_hash: string | null
+          file_name: string | null
+          holdings: Json
+          holdings_count: number
+          id: string
+          restored_from: string | null
+          scope: string
+          skipped_count: number
+          source: string
+          status: string
+          total_rows: number | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          file_hash?: string | null
+          file_name?: string | null
+          holdings?: Json
+          holdings_count?: number
+          id?: string
+          restored_from?: string | null
+          scope?: string
+          skipped_count?: number
+          source: string
+          status?: string
+          total_rows?: number | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          file_hash?: string | null
+          file_name?: string | null
+          holdings?: Json
+          holdings_count?: number
+          id?: string
+          restored_from?: string | null
+          scope?: string
+          skipped_count?: number
+          source?: string
+          status?: string
+          total_rows?: number | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_batches_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_templates: {
+        Row: {
+          broker: string | null
+          column_map: Json
+          created_at: string
+          default_type: string
+          header_signature: string
+          id: string
+          name: string
+          sheet_name: string | null
+          source: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          broker?: string | null
+          column_map: Json
+          created_at?: string
+          default_type?: string
+          header_signature: string
+          id?: string
+          name: string
+          sheet_name?: string | null
+          source: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          broker?: string | null
+          column_map?: Json
+          created_at?: string
+          default_type?: string
+          header_signature?: string
+          id?: string
+          name?: string
+          sheet_name?: string | null
+          source?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      instruments: {
+        Row: {
+          created_at: string
+          exchange: string
+          exchange_token: number | null
+          expiry: string | null
+          instrument_token: number
+          instrument_type: string
+          lot_size: number | null
+          name: string | null
+          segment: string
+          strike: number | null
+          sync_run_id: string | null
+          tick_size: number | null
+          tradingsymbol: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          exchange: string
+          exchange_token?: number | null
+          expiry?: string | null
+          instrument_token: number
+          instrument_type: string
+          lot_size?: number | null
+          name?: string | null
+          segment: string
+          strike?: number | null
+          sync_run_id?: string | null
+          tick_size?: number | null
+          tradingsymbol: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          exchange?: string
+          exchange_token?: number | null
+          expiry?: string | null
+          instrument_token?: number
+          instrument_type?: string
+          lot_size?: number | null
+          name?: string | null
+          segment?: string
+          strike?: number | null
+          sync_run_id?: string | null
+          tick_size?: number | null
+          tradingsymbol?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      isin_industries: {
+        Row: {
+          company_name: string | null
+          created_at: string
+          industry: string
+          isin: string
+          symbol: string | null
+          updated_at: string
+        }
+        Insert: {
+          company_name?: string | null
+          created_at?: string
+          industry: string
+          isin: string
+          symbol?: string | null
+          updated_at?: string
+        }
+        Update: {
+          company_name?: string | null
+          created_at?: string
+          industry?: string
+          isin?: string
+          symbol?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       kite_sessions: {
         Row: {
           access_token: string
@@ -468,6 +775,7 @@ export type Database = {
           current_value: number
           holdings_count: number
           id: string
+          net_contribution: number | null
           pnl_percent: number
           snapshot_date: string
           total_investment: number
@@ -479,6 +787,7 @@ export type Database = {
           current_value?: number
           holdings_count?: number
           id?: string
+          net_contribution?: number | null
           pnl_percent?: number
           snapshot_date?: string
           total_investment?: number
@@ -490,6 +799,7 @@ export type Database = {
           current_value?: number
           holdings_count?: number
           id?: string
+          net_contribution?: number | null
           pnl_percent?: number
           snapshot_date?: string
           total_investment?: number
@@ -555,6 +865,83 @@ export type Database = {
         }
         Relationships: []
       }
+      snapshot_holdings: {
+        Row: {
+          avg_price: number
+          broker: string | null
+          created_at: string
+          current_value: number | null
+          exchange: string | null
+          id: string
+          investment: number
+          isin: string | null
+          ltp: number | null
+          name: string | null
+          pnl: number | null
+          quantity: number
+          reconstructed: boolean
+          sector: string | null
+          snapshot_date: string
+          snapshot_id: string
+          source: string
+          symbol: string
+          type: string | null
+          user_id: string | null
+        }
+        Insert: {
+          avg_price?: number
+          broker?: string | null
+          created_at?: string
+          current_value?: number | null
+          exchange?: string | null
+          id?: string
+          investment?: number
+          isin?: string | null
+          ltp?: number | null
+          name?: string | null
+          pnl?: number | null
+          quantity?: number
+          reconstructed?: boolean
+          sector?: string | null
+          snapshot_date: string
+          snapshot_id: string
+          source: string
+          symbol: string
+          type?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          avg_price?: number
+          broker?: string | null
+          created_at?: string
+          current_value?: number | null
+          exchange?: string | null
+          id?: string
+          investment?: number
+          isin?: string | null
+          ltp?: number | null
+          name?: string | null
+          pnl?: number | null
+          quantity?: number
+          reconstructed?: boolean
+          sector?: string | null
+          snapshot_date?: string
+          snapshot_id?: string
+          source?: string
+          symbol?: string
+          type?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "snapshot_holdings_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "portfolio_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       snapshot_source_details: {
         Row: {
           asset_type: string | null
@@ -635,8 +1022,176 @@ export type Database = {
         }
         Relationships: []
       }
+      target_allocations: {
+        Row: {
+          asset_types: string[]
+          bucket_key: string
+          created_at: string
+          dimension: string
+          id: string
+          symbols: string[]
+          target_percent: number
+          tolerance_percent: number
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          asset_types?: string[]
+          bucket_key: string
+          created_at?: string
+          dimension: string
+          id?: string
+          symbols?: string[]
+          target_percent: number
+          tolerance_percent?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          asset_types?: string[]
+          bucket_key?: string
+          created_at?: string
+          dimension?: string
+          id?: string
+          symbols?: string[]
+          target_percent?: number
+          tolerance_percent?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      transactions: {
+        Row: {
+          amount: number
+          asset_type: string | null
+          broker: string | null
+          charges: number
+          created_at: string
+          exchange: string | null
+          external_id: string | null
+          id: string
+          is_redemption: boolean
+          isin: string | null
+          name: string | null
+          notes: string | null
+          price: number | null
+          quantity: number
+          ratio: number | null
+          source: string
+          symbol: string
+          trade_date: string
+          transaction_type: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          amount?: number
+          asset_type?: string | null
+          broker?: string | null
+          charges?: number
+          created_at?: string
+          exchange?: string | null
+          external_id?: string | null
+          id?: string
+          is_redemption?: boolean
+          isin?: string | null
+          name?: string | null
+          notes?: string | null
+          price?: number | null
+          quantity?: number
+          ratio?: number | null
+          source: string
+          symbol: string
+          trade_date: string
+          transaction_type: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          amount?: number
+          asset_type?: string | null
+          broker?: string | null
+          charges?: number
+          created_at?: string
+          exchange?: string | null
+          external_id?: string | null
+          id?: string
+          is_redemption?: boolean
+          isin?: string | null
+          name?: string | null
+          notes?: string | null
+          price?: number | null
+          quantity?: number
+          ratio?: number | null
+          source?: string
+          symbol?: string
+          trade_date?: string
+          transaction_type?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      upstox_sessions: {
+        Row: {
+          access_token: string
+          created_at: string
+          expires_at: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          access_token: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          access_token?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
+      angel_sessions_status: {
+        Row: {
+          client_code: string | null
+          created_at: string | null
+          expires_at: string | null
+          id: string | null
+          is_valid: boolean | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          client_code?: string | null
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string | null
+          is_valid?: never
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          client_code?: string | null
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string | null
+          is_valid?: never
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       kite_sessions_status: {
         Row: {
           created_at: string | null
@@ -667,9 +1222,47 @@ export type Database = {
         }
         Relationships: []
       }
+      upstox_sessions_status: {
+        Row: {
+          created_at: string | null
+          expires_at: string | null
+          id: string | null
+          is_valid: boolean | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string | null
+          is_valid?: never
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string | null
+          is_valid?: never
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      replace_source_holdings: {
+        Args: {
+          p_batch?: Json
+          p_holdings: Json
+          p_scope_column?: string
+          p_scope_negate?: boolean
+          p_scope_value?: string
+          p_source: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
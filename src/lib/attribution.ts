@@ -0,0 +1,167 @@
+import { Attribution, AttributionContribution, AttributionSlice, SnapshotHolding } from '@/types/performance';
+import { getDiffKey } from './snapshotDiff';
+
+export const OTHER_CONTRIBUTION_KEY = '__other__';
+
+interface SourceDetailLike {
+  source: string;
+  asset_type: string | null;
+  current_value: number | null;
+  total_investment: number | null;
+}
+
+interface AttributionOptions {
+  // Keep the largest contributors and fold the rest into one "Other" bar
+  limit?: number;
+  otherLabel?: string;
+  // Portfolio-level totals the contributions must reconcile to, when the
+  // slices alone don't cover the whole portfolio (e.g. unpriced holdings)
+  totals?: {
+    start: { value: number; investment: number };
+    end: { value: number; investment: number };
+  };
+}
+
+interface PaiseGroup {
+  label: string;
+  value: number;
+  investment: number;
+}
+
+// Work in whole paise so the contributions add up exactly, not just to within float error
+function toPaise(value: number): number {
+  return Math.round(value * 100);
+}
+
+function groupSlices(slices: AttributionSlice[]): Map<string, PaiseGroup> {
+  const groups = new Map<string, PaiseGroup>();
+  slices.forEach(slice => {
+    const existing = groups.get(slice.key) || { label: slice.label, value: 0, investment: 0 };
+    existing.value += toPaise(slice.value);
+    existing.investment += toPaise(slice.investment);
+    groups.set(slice.key, existing);
+  });
+  return groups;
+}
+
+function sumGroups(groups: Map<string, PaiseGroup>): { value: number; investment: number } {
+  let value = 0;
+  let investment = 0;
+  groups.forEach(g => {
+    value += g.value;
+    investment += g.investment;
+  });
+  return { value, investment };
+}
+
+function toRupees(c: AttributionContribution): AttributionContribution {
+  return {
+    ...c,
+    startValue: c.startValue / 100,
+    endValue: c.endValue / 100,
+    netInvested: c.netInvested / 100,
+    gain: c.gain / 100,
+  };
+}
+
+/**
+ * Split the change between two snapshots into money added (change in cost
+ * basis) and a market gain per group. Whatever the listed groups don't
+ * explain, whether folded by `limit` or missing from the slices, lands in a
+ * single "Other" contribution so the parts always sum to the whole.
+ */
+export function attributeChange(
+  from: AttributionSlice[],
+  to: AttributionSlice[],
+  options: AttributionOptions = {}
+): Attribution {
+  const fromGroups = groupSlices(from);
+  const toGroups = groupSlices(to);
+
+  const start = options.totals
+    ? { value: toPaise(options.totals.start.value), investment: toPaise(options.totals.start.investment) }
+    : sumGroups(fromGroups);
+  const end = options.totals
+    ? { value: toPaise(options.totals.end.value), investment: toPaise(options.totals.end.investment) }
+    : sumGroups(toGroups);
+
+  const keys = new Set([...fromGroups.keys(), ...toGroups.keys()]);
+  const ranked: AttributionContribution[] = Array.from(keys)
+    .map(key => {
+      const before = fromGroups.get(key);
+      const after = toGroups.get(key);
+      const startValue = before?.value ?? 0;
+      const endValue = after?.value ?? 0;
+      const netInvested = (after?.investment ?? 0) - (before?.investment ?? 0);
+      return {
+        key,
+        label: (after || before)?.label ?? key,
+        startValue,
+        endValue,
+        netInvested,
+        gain: endValue - startValue - netInvested,
+      };
+    })
+    .sort((a, b) => Math.abs(b.gain) - Math.abs(a.gain));
+
+  const contributions = options.limit !== undefined ? ranked.slice(0, options.limit) : ranked;
+
+  const listed = contributions.reduce(
+    (acc, c) => ({
+      startValue: acc.startValue + c.startValue,
+      endValue: acc.endValue + c.endValue,
+      netInvested: acc.netInvested + c.netInvested,
+    }),
+    { startValue: 0, endValue: 0, netInvested: 0 }
+  );
+
+  const residual = {
+    startValue: start.value - listed.startValue,
+    endValue: end.value - listed.endValue,
+    netInvested: end.investment - start.investment - listed.netInvested,
+  };
+  if (residual.startValue !== 0 || residual.endValue !== 0 || residual.netInvested !== 0) {
+    contributions.push({
+      key: OTHER_CONTRIBUTION_KEY,
+      label: options.otherLabel || 'Other',
+      ...residual,
+      gain: residual.endValue - residual.startValue - residual.netInvested,
+    });
+  }
+
+  const netInvested = end.investment - start.investment;
+  return {
+    startValue: start.value / 100,
+    endValue: end.value / 100,
+    netInvested: netInvested / 100,
+    gain: (end.value - start.value - netInvested) / 100,
+    contributions: contributions.map(toRupees),
+  };
+}
+
+export function slicesFromSourceDetails(
+  details: SourceDetailLike[],
+  dimension: 'assetType' | 'source'
+): AttributionSlice[] {
+  return details.map(d => {
+    const key = dimension === 'source' ? d.source : d.asset_type || 'Unknown';
+    return {
+      key,
+      label: key,
+      value: Number(d.current_value) || 0,
+      investment: Number(d.total_investment) || 0,
+    };
+  });
+}
+
+// Holdings without a price can't be valued; they fall into the "Other" residual
+export function slicesFromHoldings(holdings: SnapshotHolding[]): AttributionSlice[] {
+  return holdings
+    .filter(h => h.currentValue !== undefined)
+    .map(h => ({
+      key: getDiffKey(h),
+      label: h.symbol,
+      value: h.currentValue as number,
+      investment: h.investment,
+    }));
+}
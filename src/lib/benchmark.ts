@@ -0,0 +1,192 @@
+import {
+  BenchmarkComparison,
+  BenchmarkPrice,
+  ContributionPoint,
+} from '@/types/performance';
+import { calculatePeriodReturn } from './performance';
+
+// Fewer intervals than this give a meaningless regression
+const MIN_INTERVALS_FOR_BETA = 3;
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12',
+};
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ',' && !inQuotes) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Normalize the date formats used by NSE/BSE index downloads and spreadsheets
+ * (2024-01-31, 31-01-2024, 31/01/2024, 31-Jan-2024, 31 Jan 2024) to ISO
+ */
+export function parseIndexDate(value: string): string | null {
+  const trimmed = value.trim();
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const numeric = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (numeric) return `${numeric[3]}-${numeric[2].padStart(2, '0')}-${numeric[1].padStart(2, '0')}`;
+
+  const named = trimmed.match(/^(\d{1,2})[-\s]([A-Za-z]{3})[A-Za-z]*[-\s](\d{4})$/);
+  if (named && MONTHS[named[2].toLowerCase()]) {
+    return `${named[3]}-${MONTHS[named[2].toLowerCase()]}-${named[1].padStart(2, '0')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a CSV of index closes. Needs a date column and a close column; other
+ * columns (open, high, low, volume) are ignored.
+ */
+export function parseBenchmarkCsv(csv: string): BenchmarkPrice[] {
+  const lines = csv.split(/\r?\n/).filter(l => l.trim().length > 0);
+  if (lines.length < 2) return [];
+
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  const dateIdx = header.findIndex(h => h.includes('date'));
+  let closeIdx = header.findIndex(h => h === 'close' || h.startsWith('close'));
+  if (closeIdx < 0) closeIdx = header.findIndex(h => h.includes('close') || h.includes('price'));
+
+  if (dateIdx < 0 || closeIdx < 0) {
+    throw new Error('CSV must have a Date column and a Close column');
+  }
+
+  const byDate = new Map<string, number>();
+  lines.slice(1).forEach(line => {
+    const cells = splitCsvLine(line);
+    const date = parseIndexDate(cells[dateIdx] || '');
+    const close = parseFloat((cells[closeIdx] || '').replace(/,/g, ''));
+    if (date && isFinite(close) && close > 0) {
+      byDate.set(date, close);
+    }
+  });
+
+  return Array.from(byDate.entries())
+    .map(([date, close]) => ({ date, close }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Latest close on or before `date` (markets are shut on weekends and holidays).
+ * Prices must be sorted by date.
+ */
+export function getCloseOn(prices: BenchmarkPrice[], date: string): number | undefined {
+  const target = date.slice(0, 10);
+  let low = 0;
+  let high = prices.length - 1;
+  let found: number | undefined;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (prices[mid].date <= target) {
+      found = prices[mid].close;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Value the portfolio would have had if its starting value and every later
+ * contribution had bought (or withdrawal sold) index units on the same date.
+ * Entries are null where the index has no close yet.
+ */
+export function simulateBenchmarkValues(
+  points: ContributionPoint[],
+  prices: BenchmarkPrice[]
+): (number | null)[] {
+  let units: number | null = null;
+
+  return points.map(point => {
+    const close = getCloseOn(prices, point.date);
+    if (close === undefined) return null;
+
+    if (units === null) {
+      // First priced point: the whole portfolio value goes in at once
+      units = point.value / close;
+    } else {
+      units += point.netContribution / close;
+    }
+
+    return units * close;
+  });
+}
+
+function variance(values: number[], mean: number): number {
+  return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+}
+
+/**
+ * Compare the portfolio's time-weighted return with the index over the same
+ * snapshot dates. Beta comes from regressing interval returns, so it (and
+ * alpha) needs a few intervals of overlap.
+ */
+export function compareWithBenchmark(
+  points: ContributionPoint[],
+  prices: BenchmarkPrice[],
+  symbol: string,
+  name: string
+): BenchmarkComparison | null {
+  const priced = points.filter(p => getCloseOn(prices, p.date) !== undefined);
+  if (priced.length < 2) return null;
+
+  const portfolioTwr = calculatePeriodReturn(priced).twr;
+  const startClose = getCloseOn(prices, priced[0].date) as number;
+  const endClose = getCloseOn(prices, priced[priced.length - 1].date) as number;
+  const benchmarkReturn = (endClose / startClose - 1) * 100;
+
+  const portfolioReturns: number[] = [];
+  const benchmarkReturns: number[] = [];
+  for (let i = 1; i < priced.length; i++) {
+    const previous = priced[i - 1];
+    if (previous.value <= 0) continue;
+    portfolioReturns.push((priced[i].value - priced[i].netContribution) / previous.value - 1);
+    benchmarkReturns.push(
+      (getCloseOn(prices, priced[i].date) as number) / (getCloseOn(prices, previous.date) as number) - 1
+    );
+  }
+
+  let beta: number | null = null;
+  if (benchmarkReturns.length >= MIN_INTERVALS_FOR_BETA) {
+    const meanP = portfolioReturns.reduce((a, b) => a + b, 0) / portfolioReturns.length;
+    const meanB = benchmarkReturns.reduce((a, b) => a + b, 0) / benchmarkReturns.length;
+    const varB = variance(benchmarkReturns, meanB);
+    if (varB > 0) {
+      const cov = benchmarkReturns.reduce((sum, b, i) => sum + (b - meanB) * (portfolioReturns[i] - meanP), 0)
+        / benchmarkReturns.length;
+      beta = cov / varB;
+    }
+  }
+
+  return {
+    symbol,
+    name,
+    portfolioTwr,
+    benchmarkReturn,
+    trackingDifference: portfolioTwr - benchmarkReturn,
+    alpha: beta !== null ? portfolioTwr - beta * benchmarkReturn : null,
+    beta,
+  };
+}
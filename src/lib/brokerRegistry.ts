@@ -0,0 +1,56 @@
+import { BrokerInfo } from '@/types/broker';
+
+/**
+ * Brokers in display order. Ids match the edge function connector registry;
+ * an available broker syncs through `broker-sync` with its id.
+ */
+export const BROKER_REGISTRY: BrokerInfo[] = [
+  {
+    id: 'zerodha',
+    name: 'Zerodha',
+    description: 'Kite Connect API',
+    source: 'Zerodha',
+    color: 'text-zerodha',
+    status: 'available',
+  },
+  {
+    id: 'upstox',
+    name: 'Upstox',
+    description: 'Upstox API v2',
+    source: 'Upstox',
+    color: 'text-upstox',
+    status: 'available',
+  },
+  {
+    id: 'angel',
+    name: 'Angel One',
+    description: 'Angel Broking SmartAPI',
+    source: 'Angel One',
+    color: 'text-angel',
+    status: 'available',
+  },
+  {
+    id: 'hdfc',
+    name: 'HDFC Securities',
+    description: 'HDFC Bank Integration',
+    source: 'HDFC Securities',
+    color: 'text-blue-400',
+    status: 'coming_soon',
+  },
+  {
+    id: 'icici',
+    name: 'ICICI Direct',
+    description: 'ICICIdirect API',
+    source: 'ICICI Direct',
+    color: 'text-orange-400',
+    status: 'coming_soon',
+  },
+];
+
+export function availableBrokers(): BrokerInfo[] {
+  return BROKER_REGISTRY.filter(broker => broker.status === 'available');
+}
+
+export function upcomingBrokers(): BrokerInfo[] {
+  return BROKER_REGISTRY.filter(broker => broker.status === 'coming_soon');
+}
@@ -0,0 +1,319 @@
+import { RealizedLot } from '@/types/transaction';
+import {
+  ClassifiedGain,
+  CapitalGainsSummary,
+  GainSection,
+  GainTerm,
+  TaxAssetClass,
+} from '@/types/capitalGains';
+import fmvTableCsv from '@/data/fmv-31-jan-2018.csv?raw';
+
+// Section 112A grandfathering applies to assets acquired on or before 31-Jan-2018
+export const GRANDFATHERING_CUTOFF = '2018-02-01';
+
+// Finance (No. 2) Act 2024 changed rates and holding periods for transfers from this date
+export const BUDGET_2024_EFFECTIVE = '2024-07-23';
+
+// Debt MF units bought from this date are always short-term (Section 50AA)
+export const DEBT_MF_50AA_EFFECTIVE = '2023-04-01';
+
+const DEBT_FUND_PATTERN = /debt|liquid|bond|gilt|money market|overnight|corporate|banking (and|&) psu|credit risk|duration|floater|treasury/i;
+const NON_EQUITY_FUND_PATTERN = /gold|silver|international|global|overseas|fof|fund of fund|nasdaq|s&p/i;
+
+export function getFinancialYear(date: string): string {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  const startYear = month >= 4 ? year : year - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Annual exemption on 112A gains: ₹1L until FY 2023-24, ₹1.25L from FY 2024-25
+ */
+export function getLTCGExemption(financialYear: string): number {
+  const startYear = Number(financialYear.slice(0, 4));
+  return startYear >= 2024 ? 125000 : 100000;
+}
+
+/**
+ * True when `to` falls strictly after `from` plus the given number of months,
+ * i.e. the asset was held for "more than N months"
+ */
+export function heldMoreThanMonths(from: string, to: string, months: number): boolean {
+  const start = new Date(`${from.slice(0, 10)}T00:00:00Z`);
+  const threshold = new Date(Date.UTC(
+    start.getUTCFullYear(),
+    start.getUTCMonth() + months,
+    start.getUTCDate()
+  ));
+  return new Date(`${to.slice(0, 10)}T00:00:00Z`) > threshold;
+}
+
+export function parseFmvTable(csv: string): Map<string, number> {
+  const table = new Map<string, number>();
+
+  csv.split(/\r?\n/).forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.toLowerCase().startsWith('isin,')) return;
+
+    const [isin, , fmv] = trimmed.split(',').map(c => c.trim());
+    const value = parseFloat(fmv);
+    if (isin && isFinite(value) && value > 0) {
+      table.set(isin.toUpperCase(), value);
+    }
+  });
+
+  return table;
+}
+
+export const FMV_31_JAN_2018 = parseFmvTable(fmvTableCsv);
+
+export function getTaxAssetClass(lot: Pick<RealizedLot, 'assetType' | 'name' | 'symbol'>): TaxAssetClass {
+  const type = String(lot.assetType || 'Equity');
+  const label = `${lot.name || ''} ${lot.symbol}`;
+
+  if (type === 'SGB') return 'sgb';
+  if (type === 'Debt MF') return 'debt';
+  if (type === 'Commodity MF') return 'other';
+
+  if (type.includes('MF') || type === 'Mutual Fund') {
+    if (DEBT_FUND_PATTERN.test(label)) return 'debt';
+    if (NON_EQUITY_FUND_PATTERN.test(label)) return 'other';
+    return 'equity';
+  }
+
+  if (type === 'ETF') {
+    if (/gold|silver|liquid|gilt|bond/i.test(label)) return 'other';
+    return 'equity';
+  }
+
+  if (type === 'Equity' || type === 'REIT' || type === 'Index') return 'equity';
+
+  return 'other';
+}
+
+function isListedOther(assetType?: string): boolean {
+  return ['ETF', 'Bond', 'Commodity', 'REIT'].includes(String(assetType));
+}
+
+function classifyTerm(lot: RealizedLot, assetClass: TaxAssetClass): { term: GainTerm; section: GainSection } {
+  const afterBudget2024 = lot.soldOn >= BUDGET_2024_EFFECTIVE;
+
+  switch (assetClass) {
+    case 'equity': {
+      const isLong = heldMoreThanMonths(lot.acquiredOn, lot.soldOn, 12);
+      return isLong ? { term: 'long', section: '112A' } : { term: 'short', section: '111A' };
+    }
+
+    case 'debt': {
+      if (lot.acquiredOn >= DEBT_MF_50AA_EFFECTIVE) {
+        return { term: 'short', section: 'slab' };
+      }
+      const isLong = heldMoreThanMonths(lot.acquiredOn, lot.soldOn, afterBudget2024 ? 24 : 36);
+      return isLong ? { term: 'long', section: '112' } : { term: 'short', section: 'slab' };
+    }
+
+    case 'sgb': {
+      // Redemption by RBI is not a transfer (Section 47(viic)); a sale on the
+      // exchange is taxable however long the bond was held
+      if (lot.redemption) {
+        return { term: 'long', section: 'exempt' };
+      }
+      const isLong = heldMoreThanMonths(lot.acquiredOn, lot.soldOn, 12);
+      return isLong ? { term: 'long', section: '112' } : { term: 'short', section: 'slab' };
+    }
+
+    default: {
+      const months = isListedOther(lot.assetType) ? 12 : afterBudget2024 ? 24 : 36;
+      const isLong = heldMoreThanMonths(lot.acquiredOn, lot.soldOn, months);
+      return isLong ? { term: 'long', section: '112' } : { term: 'short', section: 'slab' };
+    }
+  }
+}
+
+function getTaxRate(section: GainSection, soldOn: string): number | null {
+  const afterBudget2024 = soldOn >= BUDGET_2024_EFFECTIVE;
+
+  switch (section) {
+    case '111A':
+      return afterBudget2024 ? 0.20 : 0.15;
+    case '112A':
+      return afterBudget2024 ? 0.125 : 0.10;
+    case '112':
+      // Pre-budget rate is 20% with indexation; we don't index, so this overstates
+      return afterBudget2024 ? 0.125 : 0.20;
+    case 'exempt':
+      return 0;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Classify realized FIFO lots into STCG/LTCG buckets and apply Section 112A
+ * grandfathering: for equity acquired before 1-Feb-2018 the cost is the higher
+ * of actual cost and the lower of FMV on 31-Jan-2018 and sale value.
+ */
+export function classifyGains(
+  lots: RealizedLot[],
+  fmvTable: Map<string, number> = FMV_31_JAN_2018
+): ClassifiedGain[] {
+  return lots.map(lot => {
+    const assetClass = getTaxAssetClass(lot);
+    const { term, section } = classifyTerm(lot, assetClass);
+
+    const grossConsideration = lot.quantity * lot.salePricePerUnit;
+    const transferExpenses = Math.max(0, grossConsideration - lot.proceeds);
+
+    const acquiredBeforeGrandfathering = section === '112A' && lot.acquiredOn < GRANDFATHERING_CUTOFF;
+    const fmvPerUnit = acquiredBeforeGrandfathering && lot.isin
+      ? fmvTable.get(lot.isin.toUpperCase())
+      : undefined;
+
+    let taxCost = lot.costBasis;
+    if (acquiredBeforeGrandfathering && fmvPerUnit !== undefined) {
+      const totalFmv = fmvPerUnit * lot.quantity;
+      taxCost = Math.max(lot.costBasis, Math.min(totalFmv, grossConsideration));
+    }
+
+    const taxableGain = section === 'exempt' ? 0 : lot.proceeds - taxCost;
+
+    return {
+      ...lot,
+      financialYear: getFinancialYear(lot.soldOn),
+      assetClass,
+      term,
+      section,
+      grossConsideration,
+      transferExpenses,
+      acquiredBeforeGrandfathering,
+      fmvPerUnit,
+      fmvMissing: acquiredBeforeGrandfathering && fmvPerUnit === undefined,
+      taxCost,
+      taxableGain,
+      taxRate: getTaxRate(section, lot.soldOn),
+    };
+  });
+}
+
+/**
+ * Aggregate classified gains for one financial year. The 112A exemption is set
+ * off against the highest-rate gains first, which is what the ITR utility does.
+ */
+export function summarizeCapitalGains(gains: ClassifiedGain[], financialYear: string): CapitalGainsSummary {
+  const fyGains = gains.filter(g => g.financialYear === financialYear);
+  const sumSection = (section: GainSection) =>
+    fyGains.filter(g => g.section === section).reduce((sum, g) => sum + g.taxableGain, 0);
+
+  const stcg111A = sumSection('111A');
+  const ltcg112A = sumSection('112A');
+  const ltcg112 = sumSection('112');
+  const slabGains = sumSection('slab');
+  const exemptGains = fyGains
+    .filter(g => g.section === 'exempt')
+    .reduce((sum, g) => sum + (g.proceeds - g.costBasis), 0);
+
+  const ltcg112AExemption = Math.min(Math.max(ltcg112A, 0), getLTCGExemption(financialYear));
+  const ltcg112ATaxable = Math.max(ltcg112A - ltcg112AExemption, 0);
+
+  // Split net 112A gains by rate so the exemption can be applied to the costlier slice first
+  const byRate = new Map<number, number>();
+  fyGains.filter(g => g.section === '112A').forEach(g => {
+    const rate = g.taxRate ?? 0;
+    byRate.set(rate, (byRate.get(rate) || 0) + g.taxableGain);
+  });
+  let exemptionLeft = ltcg112AExemption;
+  let tax112A = 0;
+  Array.from(byRate.entries())
+    .sort((a, b) => b[0] - a[0])
+    .forEach(([rate, amount]) => {
+      const positive = Math.max(amount, 0);
+      const used = Math.min(positive, exemptionLeft);
+      exemptionLeft -= used;
+      tax112A += (positive - used) * rate;
+    });
+
+  const sectionTax = (section: GainSection) => Math.max(
+    fyGains
+      .filter(g => g.section === section)
+      .reduce((sum, g) => sum + g.taxableGain * (g.taxRate ?? 0), 0),
+    0
+  );
+
+  return {
+    financialYear,
+    stcg111A,
+    ltcg112A,
+    ltcg112AExemption,
+    ltcg112ATaxable,
+    ltcg112,
+    slabGains,
+    exemptGains,
+    estimatedTax: sectionTax('111A') + tax112A + sectionTax('112'),
+    fmvMissingCount: fyGains.filter(g => g.fmvMissing).length,
+  };
+}
+
+export function getFinancialYears(gains: ClassifiedGain[]): string[] {
+  return Array.from(new Set(gains.map(g => g.financialYear))).sort().reverse();
+}
+
+function csvCell(value: string | number): string {
+  const str = typeof value === 'number' ? (Math.round(value * 100) / 100).toString() : value;
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+export const SCHEDULE_112A_COLUMNS = [
+  'Share/Unit acquired (1a)',
+  'ISIN Code (2)',
+  'Name of the Share/Unit (3)',
+  'No. of Shares/Units (4)',
+  'Sale-price per Share/Unit (5)',
+  'Full Value of Consideration (Total Sale Value) (6) = 4 * 5',
+  'Cost of acquisition without indexation (7) = higher of 8 or 9',
+  'Cost of acquisition (8)',
+  'If the long term capital asset was acquired before 01.02.2018, Lower of 6 & 11 (9)',
+  'Fair Market Value per share/unit as on 31st January 2018 (10)',
+  'Total Fair Market Value of capital asset as per section 55(2)(ac) (11) = 4 * 10',
+  'Expenditure wholly and exclusively in connection with transfer (12)',
+  'Total deductions (13) = 7 + 12',
+  'Balance (14) = 6 - 13',
+];
+
+/**
+ * Build a CSV matching the ITR-2/ITR-3 Schedule 112A column layout for one
+ * financial year. Only Section 112A (STT-paid equity LTCG) lots are included.
+ */
+export function buildSchedule112ACsv(gains: ClassifiedGain[], financialYear: string): string {
+  const rows = gains
+    .filter(g => g.financialYear === financialYear && g.section === '112A')
+    .map(g => {
+      const totalFmv = g.fmvPerUnit !== undefined ? g.fmvPerUnit * g.quantity : 0;
+      const lowerOfSaleAndFmv = g.acquiredBeforeGrandfathering && g.fmvPerUnit !== undefined
+        ? Math.min(g.grossConsideration, totalFmv)
+        : 0;
+      const costWithoutIndexation = Math.max(g.costBasis, lowerOfSaleAndFmv);
+      const totalDeductions = costWithoutIndexation + g.transferExpenses;
+
+      return [
+        g.acquiredBeforeGrandfathering ? 'BE' : 'AE',
+        g.isin || '',
+        g.name || g.symbol,
+        g.quantity,
+        g.salePricePerUnit,
+        g.grossConsideration,
+        costWithoutIndexation,
+        g.costBasis,
+        lowerOfSaleAndFmv,
+        g.fmvPerUnit ?? 0,
+        totalFmv,
+        g.transferExpenses,
+        totalDeductions,
+        g.grossConsideration - totalDeductions,
+      ];
+    });
+
+  return [SCHEDULE_112A_COLUMNS, ...rows]
+    .map(row => row.map(csvCell).join(','))
+    .join('\n');
+}
@@ -0,0 +1,216 @@
+import { ColumnMap, ImportTemplate, MappableField } from '@/types/columnMapping';
+import { availableBrokers } from './brokerRegistry';
+import { isReservedSource } from './manualHoldings';
+
+// Headers sit below a few rows of account details in most broker exports
+const HEADER_SCAN_ROWS = 40;
+
+// A row needs this many recognised headers to count as the table header
+const MIN_HEADER_MATCHES = 2;
+
+export const MAPPABLE_FIELDS: { field: MappableField; label: string; required?: boolean }[] = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'quantity', label: 'Quantity', required: true },
+  { field: 'avgPrice', label: 'Average price' },
+  { field: 'investedAmount', label: 'Invested amount' },
+  { field: 'ltp', label: 'Current price (LTP)' },
+  { field: 'marketValue', label: 'Current value' },
+  { field: 'symbol', label: 'Symbol' },
+  { field: 'isin', label: 'ISIN' },
+  { field: 'type', label: 'Asset type' },
+  { field: 'broker', label: 'Broker' },
+  { field: 'xirr', label: 'XIRR (%)' },
+];
+
+// Normalised header text per field, most specific first. Single words only
+// match a whole header; longer phrases also match inside one ("Avg Cost Price").
+const HEADER_SYNONYMS: Record<MappableField, string[]> = {
+  name: [
+    'stock name', 'scheme name', 'fund name', 'security name', 'company name', 'scrip name', 'instrument name',
+    'name', 'instrument', 'security', 'scrip', 'company', 'investment', 'stock', 'scheme',
+  ],
+  symbol: ['trading symbol', 'tradingsymbol', 'nse symbol', 'bse code', 'scrip code', 'symbol', 'ticker'],
+  isin: ['isin code', 'isin no', 'isin'],
+  type: ['asset type', 'instrument type', 'asset class', 'security type', 'type'],
+  quantity: [
+    'total units', 'balance units', 'quantity available', 'holding quantity', 'available qty', 'net qty',
+    'qty', 'quantity', 'units', 'shares',
+  ],
+  avgPrice: [
+    'average buy price', 'avg buy price', 'average price', 'average cost', 'avg price', 'avg cost',
+    'buy average', 'buy avg', 'cost price', 'purchase price',
+  ],
+  investedAmount: [
+    'invested amount', 'invested value', 'amount invested', 'investment value', 'buy value', 'cost value',
+    'purchase value', 'total cost', 'invested', 'cost',
+  ],
+  ltp: ['last traded price', 'closing price', 'close price', 'current price', 'market price', 'last price', 'ltp', 'cmp', 'nav', 'price'],
+  marketValue: [
+    'current value', 'market value', 'closing value', 'present value', 'value at ltp', 'cur val',
+    'valuation', 'value',
+  ],
+  broker: ['depository participant', 'broker name', 'broker', 'platform', 'dp'],
+  xirr: ['xirr'],
+};
+
+export function emptyColumnMap(): ColumnMap {
+  return {
+    name: -1, symbol: -1, isin: -1, type: -1, quantity: -1, avgPrice: -1,
+    investedAmount: -1, ltp: -1, marketValue: -1, broker: -1, xirr: -1,
+  };
+}
+
+/**
+ * Lower-case a header and drop punctuation and bracketed units, so
+ * "Avg. Cost (₹)" and "avg cost" compare equal
+ */
+export function normalizeHeader(cell: unknown): string {
+  return String(cell ?? '')
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function containsPhrase(header: string, phrase: string): boolean {
+  return ` ${header} `.includes(` ${phrase} `);
+}
+
+/**
+ * Propose a column for each field from the header cells. Exact matches win
+ * over phrase matches, and a column is only ever used for one field.
+ */
+export function proposeColumnMap(headerRow: unknown[]): ColumnMap {
+  const map = emptyColumnMap();
+  const headers = headerRow.map(normalizeHeader);
+  const used = new Set<number>();
+  const fields = MAPPABLE_FIELDS.map(f => f.field);
+
+  const assign = (matches: (header: string, synonym: string) => boolean) => {
+    for (const field of fields) {
+      if (map[field] !== -1) continue;
+      for (const synonym of HEADER_SYNONYMS[field]) {
+        const idx = headers.findIndex((header, i) => !used.has(i) && header !== '' && matches(header, synonym));
+        if (idx !== -1) {
+          map[field] = idx;
+          used.add(idx);
+          break;
+        }
+      }
+    }
+  };
+
+  assign((header, synonym) => header === synonym);
+  assign((header, synonym) => synonym.includes(' ') && containsPhrase(header, synonym));
+
+  return map;
+}
+
+export function countMappedColumns(map: ColumnMap): number {
+  return Object.values(map).filter(idx => idx >= 0).length;
+}
+
+/**
+ * Index of the row that looks most like the holdings table header, or -1
+ */
+export function detectHeaderRow(rows: unknown[][]): number {
+  let best = -1;
+  let bestScore = MIN_HEADER_MATCHES - 1;
+
+  rows.slice(0, HEADER_SCAN_ROWS).forEach((row, i) => {
+    const score = countMappedColumns(proposeColumnMap(row || []));
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Identifies a file layout: the normalised header cells in order. Trailing
+ * blanks are dropped so column indices stay valid for any file that matches.
+ */
+export function headerSignature(headerRow: unknown[]): string {
+  const headers = headerRow.map(normalizeHeader);
+  while (headers.length > 0 && headers[headers.length - 1] === '') {
+    headers.pop();
+  }
+  return headers.join('|');
+}
+
+/**
+ * The most recently saved template whose header appears in the first rows of
+ * the sheet, with the row it was found at
+ */
+export function findMatchingTemplate(
+  rows: unknown[][],
+  templates: ImportTemplate[],
+  sheetName?: string
+): { template: ImportTemplate; headerRow: number } | null {
+  const signatures = rows.slice(0, HEADER_SCAN_ROWS).map(row => headerSignature(row || []));
+  const candidates = [...templates]
+    .filter(t => !t.sheetName || !sheetName || t.sheetName === sheetName)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+  for (const template of candidates) {
+    const headerRow = signatures.indexOf(template.headerSignature);
+    if (headerRow !== -1) {
+      return { template, headerRow };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * What the mapping still needs before rows can be imported
+ */
+export function validateColumnMap(map: ColumnMap): string[] {
+  const errors: string[] = [];
+
+  if (map.name < 0) errors.push('Choose the column with the holding name');
+  if (map.quantity < 0) errors.push('Choose the quantity column');
+  if (map.avgPrice < 0 && map.investedAmount < 0) {
+    errors.push('Choose an average price or invested amount column');
+  }
+
+  const assigned = Object.values(map).filter(idx => idx >= 0);
+  if (new Set(assigned).size !== assigned.length) {
+    errors.push('Each column can only be used for one field');
+  }
+
+  return errors;
+}
+
+// Spreadsheet-style column name: 0 -> A, 26 -> AA
+export function columnLetter(idx: number): string {
+  let letter = '';
+  for (let n = idx + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+// Sources the built-in statement imports write; broker syncs write their
+// registry source. Mirrors BUILT_IN_SOURCES in the edge functions.
+const STATEMENT_SOURCES = ['Groww', 'INDMoney', 'CAS', 'MF CAS'];
+
+/**
+ * Why holdings can't be imported under this source label, or null if they
+ * can. Importing replaces the source's holdings, so manual and built-in
+ * sources are off limits.
+ */
+export function sourceLabelError(source: string): string | null {
+  const label = source.trim();
+  if (isReservedSource(label)) {
+    return `"${label}" is reserved for holdings added by hand`;
+  }
+
+  const builtIn = [...availableBrokers().map(b => b.source), ...STATEMENT_SOURCES];
+  if (builtIn.some(s => s.toLowerCase() === label.toLowerCase())) {
+    return `"${label}" holdings come from its own import or sync`;
+  }
+  return null;
+}
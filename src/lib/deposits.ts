@@ -0,0 +1,250 @@
+import {
+  CompoundingFrequency,
+  Deposit,
+  DepositValuation,
+  MaturityBucket,
+  NewDeposit,
+} from '@/types/deposit';
+import { Holding } from '@/types/portfolio';
+import { MANUAL_EXCHANGE, MANUAL_SOURCE } from './manualHoldings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const DEPOSIT_TYPES = ['FD', 'RD'];
+
+export const PERIODS_PER_YEAR: Record<CompoundingFrequency, number> = {
+  monthly: 12,
+  quarterly: 4,
+  half_yearly: 2,
+  yearly: 1,
+};
+
+export const FREQUENCY_LABELS: Record<CompoundingFrequency, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  half_yearly: 'Half-yearly',
+  yearly: 'Yearly',
+};
+
+export function isDepositType(type: string): boolean {
+  return DEPOSIT_TYPES.includes(type);
+}
+
+function parseDate(date: string): number {
+  return Date.parse(date.slice(0, 10));
+}
+
+export function toISODate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Same day of the month `months` later, clamped to the last day of shorter months
+ */
+export function addMonths(date: string, months: number): string {
+  const d = new Date(parseDate(date));
+  const year = d.getUTCFullYear();
+  const month = d.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return toISODate(Date.UTC(year, month, Math.min(d.getUTCDate(), lastDay)));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function compounded(amount: number, ratePercent: number, periodsPerYear: number, from: number, to: number): number {
+  const years = Math.max(0, to - from) / DAY_MS / DAYS_PER_YEAR;
+  return amount * Math.pow(1 + ratePercent / 100 / periodsPerYear, periodsPerYear * years);
+}
+
+// RD instalment dates: one a month from the start, the last before maturity
+export function instalmentDates(deposit: Pick<Deposit, 'startDate' | 'maturityDate'>): string[] {
+  const maturity = parseDate(deposit.maturityDate);
+  const dates: string[] = [];
+  for (let k = 0; ; k++) {
+    const date = addMonths(deposit.startDate, k);
+    if (parseDate(date) >= maturity) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+interface Accrual {
+  invested: number;
+  interestAccrued: number;
+  interestPaidOut: number;
+}
+
+/**
+ * Principal and interest as of `time`. Cumulative deposits compound at their
+ * compounding frequency, with the current period accruing daily; payout FDs
+ * earn simple interest since the last payout.
+ */
+function accrueAt(deposit: NewDeposit, time: number): Accrual {
+  const start = parseDate(deposit.startDate);
+  const asOf = Math.max(start, Math.min(time, parseDate(deposit.maturityDate)));
+  const periods = PERIODS_PER_YEAR[deposit.compounding];
+
+  if (deposit.kind === 'RD') {
+    const paid = instalmentDates(deposit).filter(date => parseDate(date) <= asOf);
+    const gross = paid.reduce(
+      (sum, date) => sum + compounded(deposit.principal, deposit.interestRate, periods, parseDate(date), asOf),
+      0
+    );
+    const invested = deposit.principal * paid.length;
+    return { invested, interestAccrued: gross - invested, interestPaidOut: 0 };
+  }
+
+  if (deposit.payout === 'cumulative') {
+    const gross = compounded(deposit.principal, deposit.interestRate, periods, start, asOf);
+    return { invested: deposit.principal, interestAccrued: gross - deposit.principal, interestPaidOut: 0 };
+  }
+
+  const payoutsPerYear = PERIODS_PER_YEAR[deposit.payout];
+  const monthsPerPayout = 12 / payoutsPerYear;
+  let payouts = 0;
+  while (parseDate(addMonths(deposit.startDate, (payouts + 1) * monthsPerPayout)) <= asOf) {
+    payouts++;
+  }
+  const lastPayout = parseDate(addMonths(deposit.startDate, payouts * monthsPerPayout));
+  const annualInterest = deposit.principal * deposit.interestRate / 100;
+
+  return {
+    invested: deposit.principal,
+    interestAccrued: annualInterest * (asOf - lastPayout) / DAY_MS / DAYS_PER_YEAR,
+    interestPaidOut: annualInterest * payouts / payoutsPerYear,
+  };
+}
+
+export function valueDeposit(deposit: NewDeposit, asOf: Date = new Date()): DepositValuation {
+  const tdsShare = deposit.tdsRate / 100;
+  const now = accrueAt(deposit, asOf.getTime());
+  const maturity = parseDate(deposit.maturityDate);
+  const atMaturity = accrueAt(deposit, maturity);
+
+  return {
+    invested: round2(now.invested),
+    interestAccrued: round2(now.interestAccrued),
+    interestPaidOut: round2(now.interestPaidOut * (1 - tdsShare)),
+    tds: round2(now.interestAccrued * tdsShare),
+    currentValue: round2(now.invested + now.interestAccrued * (1 - tdsShare)),
+    maturityValue: round2(atMaturity.invested + atMaturity.interestAccrued * (1 - tdsShare)),
+    daysToMaturity: Math.ceil((maturity - asOf.getTime()) / DAY_MS),
+    matured: asOf.getTime() >= maturity,
+  };
+}
+
+export function validateDeposit(deposit: NewDeposit): string[] {
+  const errors: string[] = [];
+
+  if (!deposit.bank.trim()) errors.push('Bank is required');
+  if (!(deposit.principal > 0)) {
+    errors.push(deposit.kind === 'RD' ? 'Monthly instalment must be more than zero' : 'Principal must be more than zero');
+  }
+  if (!(deposit.interestRate > 0 && deposit.interestRate <= 25)) errors.push('Interest rate should be between 0 and 25%');
+  if (isNaN(parseDate(deposit.startDate)) || isNaN(parseDate(deposit.maturityDate))) {
+    errors.push('Enter the start and maturity dates');
+  } else if (parseDate(deposit.maturityDate) <= parseDate(deposit.startDate)) {
+    errors.push('Maturity date must be after the start date');
+  }
+  if (!(deposit.tdsRate >= 0 && deposit.tdsRate <= 100)) errors.push('TDS must be between 0 and 100%');
+  if (deposit.kind === 'RD' && deposit.payout !== 'cumulative') errors.push('Recurring deposits pay out at maturity');
+
+  return errors;
+}
+
+export function depositName(deposit: Pick<NewDeposit, 'name' | 'bank' | 'kind'>): string {
+  return deposit.name.trim() || `${deposit.bank.trim()} ${deposit.kind}`;
+}
+
+/**
+ * Holdings fields mirroring a deposit, valued as one unit at the accrued value
+ * on `asOf`. The symbol is chosen once, on insert.
+ */
+export function depositHoldingFields(deposit: NewDeposit, asOf: Date = new Date()) {
+  const valuation = valueDeposit(deposit, asOf);
+
+  return {
+    name: depositName(deposit),
+    type: deposit.kind,
+    sector: 'Other',
+    quantity: 1,
+    avg_price: valuation.invested,
+    ltp: valuation.currentValue,
+    exchange: MANUAL_EXCHANGE,
+    source: MANUAL_SOURCE,
+    isin: null,
+    broker: deposit.bank.trim(),
+  };
+}
+
+/**
+ * Replace the stored values of deposit-backed holdings with today's accrual
+ */
+export function applyDepositValuations(holdings: Holding[], deposits: Deposit[], asOf: Date = new Date()): Holding[] {
+  const byHolding = new Map(deposits.map(d => [d.holdingId, d]));
+
+  return holdings.map(holding => {
+    const deposit = byHolding.get(holding.id);
+    if (!deposit) return holding;
+
+    const valuation = valueDeposit(deposit, asOf);
+    return { ...holding, quantity: 1, avgPrice: valuation.invested, ltp: valuation.currentValue };
+  });
+}
+
+/**
+ * Deposits maturing within `withinDays`, plus any that matured and are still
+ * on the books, soonest first
+ */
+export function upcomingMaturities(
+  deposits: Deposit[],
+  withinDays = 30,
+  asOf: Date = new Date()
+): { deposit: Deposit; valuation: DepositValuation }[] {
+  return deposits
+    .map(deposit => ({ deposit, valuation: valueDeposit(deposit, asOf) }))
+    .filter(({ valuation }) => valuation.daysToMaturity <= withinDays)
+    .sort((a, b) => a.deposit.maturityDate.localeCompare(b.deposit.maturityDate));
+}
+
+/**
+ * Open deposits grouped by the calendar quarter they mature in
+ */
+export function buildMaturityLadder(deposits: Deposit[], asOf: Date = new Date()): MaturityBucket[] {
+  const buckets = new Map<string, MaturityBucket>();
+
+  for (const deposit of deposits) {
+    const valuation = valueDeposit(deposit, asOf);
+    if (valuation.matured) continue;
+
+    const date = new Date(parseDate(deposit.maturityDate));
+    const year = date.getUTCFullYear();
+    const firstMonth = Math.floor(date.getUTCMonth() / 3) * 3;
+    const start = toISODate(Date.UTC(year, firstMonth, 1));
+
+    if (!buckets.has(start)) {
+      buckets.set(start, {
+        label: `${MONTHS[firstMonth]}–${MONTHS[firstMonth + 2]} ${year}`,
+        start,
+        end: toISODate(Date.UTC(year, firstMonth + 3, 0)),
+        maturityValue: 0,
+        deposits: [],
+      });
+    }
+    const bucket = buckets.get(start)!;
+    bucket.maturityValue = round2(bucket.maturityValue + valuation.maturityValue);
+    bucket.deposits.push(deposit);
+  }
+
+  return [...buckets.values()]
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .map(bucket => ({
+      ...bucket,
+      deposits: bucket.deposits.sort((a, b) => a.maturityDate.localeCompare(b.maturityDate)),
+    }));
+}
@@ -0,0 +1,175 @@
+// Builds the bundled 31-Jan-2018 FMV table (src/data/fmv-31-jan-2018.csv) from
+// the exchanges' bhavcopies and AMFI's NAV file. See scripts/build-fmv-table.ts.
+
+export const FMV_DATE = '2018-01-31';
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const ISIN_PATTERN = /^IN[A-Z0-9]{10}$/;
+
+export interface FmvPrice {
+  isin: string;
+  symbol: string;
+  price: number;
+  // ISO trading date the price is from
+  date: string;
+}
+
+export interface FmvRow {
+  isin: string;
+  symbol: string;
+  fmv: number;
+}
+
+/**
+ * "31-JAN-2018", "31-Jan-18" or "31-Jan-2018" to an ISO date
+ */
+export function parseBhavcopyDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{1,2})-([A-Za-z]{3})-(\d{2}|\d{4})$/);
+  if (!match) return null;
+
+  const month = MONTHS.indexOf(match[2].toUpperCase());
+  if (month < 0) return null;
+
+  const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+  return `${year}-${String(month + 1).padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+}
+
+function readTable(text: string, delimiter: string): { header: string[]; rows: string[][] } {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  const header = (lines[0] || '').split(delimiter).map(h => h.trim().toUpperCase());
+  return { header, rows: lines.slice(1).map(line => line.split(delimiter).map(c => c.trim())) };
+}
+
+function requireColumns(header: string[], columns: string[], label: string): number[] {
+  const indexes = columns.map(c => header.indexOf(c));
+  const missing = columns.filter((_, i) => indexes[i] < 0);
+  if (missing.length > 0) {
+    throw new Error(`Not a ${label}: missing ${missing.join(', ')}`);
+  }
+  return indexes;
+}
+
+/**
+ * Day highs from an NSE equity bhavcopy (cmDDMMMYYYYbhav.csv)
+ */
+export function parseNseBhavcopy(csv: string): FmvPrice[] {
+  const { header, rows } = readTable(csv, ',');
+  const [symbolIdx, highIdx, dateIdx, isinIdx] = requireColumns(
+    header, ['SYMBOL', 'HIGH', 'TIMESTAMP', 'ISIN'], 'NSE bhavcopy'
+  );
+
+  return rows.flatMap(row => {
+    const isin = (row[isinIdx] || '').toUpperCase();
+    const price = parseFloat(row[highIdx]);
+    const date = parseBhavcopyDate(row[dateIdx] || '');
+    if (!ISIN_PATTERN.test(isin) || !(price > 0) || !date) return [];
+    return [{ isin, symbol: row[symbolIdx], price, date }];
+  });
+}
+
+/**
+ * Day highs from a BSE equity bhavcopy with ISINs (EQ_ISINCODE_DDMMYY.CSV)
+ */
+export function parseBseBhavcopy(csv: string): FmvPrice[] {
+  const { header, rows } = readTable(csv, ',');
+  const [nameIdx, highIdx, isinIdx, dateIdx] = requireColumns(
+    header, ['SC_NAME', 'HIGH', 'ISIN_CODE', 'TRADING_DATE'], 'BSE bhavcopy'
+  );
+
+  return rows.flatMap(row => {
+    const isin = (row[isinIdx] || '').toUpperCase();
+    const price = parseFloat(row[highIdx]);
+    const date = parseBhavcopyDate(row[dateIdx] || '');
+    if (!ISIN_PATTERN.test(isin) || !(price > 0) || !date) return [];
+    return [{ isin, symbol: row[nameIdx], price, date }];
+  });
+}
+
+/**
+ * NAVs from AMFI's semicolon-separated NAV file. Both the growth/payout and the
+ * reinvestment ISIN of a scheme get its NAV.
+ */
+export function parseAmfiNav(text: string): FmvPrice[] {
+  const prices: FmvPrice[] = [];
+
+  text.split(/\r?\n/).forEach(line => {
+    const cells = line.split(';').map(c => c.trim());
+    // Scheme Code;Scheme Name;ISIN Div Payout/ISIN Growth;ISIN Div Reinvestment;Net Asset Value;...;Date
+    if (cells.length < 6 || !/^\d+$/.test(cells[0])) return;
+
+    const price = parseFloat(cells[4]);
+    const date = parseBhavcopyDate(cells[cells.length - 1]);
+    if (!(price > 0) || !date) return;
+
+    [cells[2], cells[3]].forEach(isin => {
+      const normalized = (isin || '').toUpperCase();
+      if (ISIN_PATTERN.test(normalized)) {
+        prices.push({ isin: normalized, symbol: cells[1], price, date });
+      }
+    });
+  });
+
+  return prices;
+}
+
+/**
+ * Split and bonus factors as `isin,factor`, where factor is the number of
+ * units held today per unit held on 31-Jan-2018 (2 for a 1:1 bonus)
+ */
+export function parseAdjustments(csv: string): Map<string, number> {
+  const factors = new Map<string, number>();
+
+  csv.split(/\r?\n/).forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const [isin, factor] = trimmed.split(',').map(c => c.trim());
+    const value = parseFloat(factor);
+    if (ISIN_PATTERN.test((isin || '').toUpperCase()) && value > 0) {
+      factors.set(isin.toUpperCase(), (factors.get(isin.toUpperCase()) || 1) * value);
+    }
+  });
+
+  return factors;
+}
+
+/**
+ * FMV per unit under Section 55(2)(ac): the highest price quoted on any
+ * exchange on 31-Jan-2018 or, for a unit not traded that day, on the last
+ * day before it that it traded. Exchange prices win over NAVs, which only
+ * apply to unlisted units such as mutual funds.
+ */
+export function buildFmvTable(
+  exchangePrices: FmvPrice[],
+  navs: FmvPrice[] = [],
+  adjustments: Map<string, number> = new Map()
+): FmvRow[] {
+  const best = new Map<string, FmvPrice>();
+
+  exchangePrices
+    .filter(p => p.date <= FMV_DATE)
+    .forEach(p => {
+      const current = best.get(p.isin);
+      if (!current || p.date > current.date || (p.date === current.date && p.price > current.price)) {
+        best.set(p.isin, p);
+      }
+    });
+
+  navs
+    .filter(p => p.date === FMV_DATE && !best.has(p.isin))
+    .forEach(p => best.set(p.isin, p));
+
+  return Array.from(best.values())
+    .map(p => ({
+      isin: p.isin,
+      symbol: p.symbol,
+      fmv: Math.round((p.price / (adjustments.get(p.isin) || 1)) * 10000) / 10000,
+    }))
+    .sort((a, b) => a.isin.localeCompare(b.isin));
+}
+
+export function formatFmvTable(rows: FmvRow[], header: string[] = []): string {
+  const body = rows.map(r => `${r.isin},${r.symbol.replace(/,/g, ' ')},${r.fmv}`);
+  return [...header.map(line => `# ${line}`), 'isin,symbol,fmv', ...body].join('\n') + '\n';
+}
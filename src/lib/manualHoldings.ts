@@ -0,0 +1,170 @@
+import { AssetType, Holding, Sector } from '@/types/portfolio';
+import { ManualAssetKind, ManualHoldingInput } from '@/types/manualHolding';
+
+// Holdings the user entered by hand. No importer or sync replaces this source.
+export const MANUAL_SOURCE = 'Manual';
+
+// Manual rows never match a market quote
+export const MANUAL_EXCHANGE = 'OTC';
+
+export interface ManualAssetKindConfig {
+  label: string;
+  description: string;
+  type: AssetType;
+  defaultSector: Sector;
+  // 'unit': quantity times a per-unit price; 'amount': a single lump sum
+  valuation: 'unit' | 'amount';
+  nameLabel: string;
+  quantityLabel?: string;
+  priceLabel?: string;
+  // Who holds the asset, shown as the broker
+  custodianLabel: string;
+  custodianRequired: boolean;
+}
+
+export const MANUAL_ASSET_KINDS: Record<ManualAssetKind, ManualAssetKindConfig> = {
+  gold: {
+    label: 'Physical gold',
+    description: 'Coins, bars or jewellery valued by weight',
+    type: 'Commodity',
+    defaultSector: 'Commodity',
+    valuation: 'unit',
+    nameLabel: 'Description',
+    quantityLabel: 'Weight (grams)',
+    priceLabel: 'per gram',
+    custodianLabel: 'Held at',
+    custodianRequired: false,
+  },
+  unlisted: {
+    label: 'Unlisted or startup shares',
+    description: 'Pre-IPO shares, ESOPs or equity in a private company',
+    type: 'Unlisted',
+    defaultSector: 'Other',
+    valuation: 'unit',
+    nameLabel: 'Company',
+    quantityLabel: 'Shares',
+    priceLabel: 'per share',
+    custodianLabel: 'Held via',
+    custodianRequired: false,
+  },
+  p2p: {
+    label: 'P2P lending',
+    description: 'Loans made through a peer-to-peer platform',
+    type: 'P2P',
+    defaultSector: 'Finance',
+    valuation: 'amount',
+    nameLabel: 'Name',
+    custodianLabel: 'Platform',
+    custodianRequired: true,
+  },
+  other: {
+    label: 'Other asset',
+    description: 'Anything else you want counted in your net worth',
+    type: 'Other',
+    defaultSector: 'Other',
+    valuation: 'amount',
+    nameLabel: 'Name',
+    custodianLabel: 'Held at',
+    custodianRequired: false,
+  },
+};
+
+export function isManualHolding(holding: Pick<Holding, 'source'>): boolean {
+  return holding.source === MANUAL_SOURCE;
+}
+
+export function isReservedSource(source: string): boolean {
+  return source.trim().toLowerCase() === MANUAL_SOURCE.toLowerCase();
+}
+
+export function manualKindForType(type: string): ManualAssetKind {
+  const match = (Object.keys(MANUAL_ASSET_KINDS) as ManualAssetKind[]).find(
+    kind => MANUAL_ASSET_KINDS[kind].type === type
+  );
+  return match ?? 'other';
+}
+
+/**
+ * Form values for editing an existing manual holding. Amount-valued kinds
+ * show totals rather than quantity and price.
+ */
+export function manualHoldingToInput(holding: Holding): ManualHoldingInput {
+  const kind = manualKindForType(holding.type);
+  const amountValued = MANUAL_ASSET_KINDS[kind].valuation === 'amount';
+
+  return {
+    kind,
+    name: holding.name,
+    quantity: amountValued ? 1 : holding.quantity,
+    avgPrice: amountValued ? holding.quantity * holding.avgPrice : holding.avgPrice,
+    ltp: amountValued ? holding.quantity * holding.ltp : holding.ltp,
+    sector: holding.sector,
+    broker: holding.broker ?? '',
+    isin: holding.isin ?? '',
+  };
+}
+
+export function validateManualHolding(input: ManualHoldingInput): string[] {
+  const config = MANUAL_ASSET_KINDS[input.kind];
+  const errors: string[] = [];
+
+  if (input.name.trim().length < 2) errors.push(`${config.nameLabel} is required`);
+  if (config.valuation === 'unit' && !(input.quantity > 0)) {
+    errors.push(`${config.quantityLabel} must be more than zero`);
+  }
+  if (!(input.avgPrice >= 0) || !(input.ltp >= 0)) errors.push('Amounts cannot be negative');
+  if (input.avgPrice === 0 && input.ltp === 0) errors.push('Enter what you paid or what it is worth now');
+  if (config.custodianRequired && !input.broker.trim()) {
+    errors.push(`${config.custodianLabel} is required`);
+  }
+  if (input.isin.trim() && !/^[A-Z]{2}[A-Z0-9]{10}$/.test(input.isin.trim().toUpperCase())) {
+    errors.push('ISIN should be 12 characters, e.g. INE0ABC01234');
+  }
+
+  return errors;
+}
+
+/**
+ * Stable symbol for a new manual holding, unique among the user's symbols
+ */
+export function manualSymbol(name: string, taken: string[], prefix = 'MANUAL'): string {
+  const slug = name
+    .toUpperCase()
+    .replace(/[^A-Z0-9\s]/g, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 4)
+    .join('-')
+    .substring(0, 30) || 'ASSET';
+  const base = `${prefix}-${slug}`;
+  const existing = new Set(taken);
+
+  let symbol = base;
+  for (let n = 2; existing.has(symbol); n++) {
+    symbol = `${base}-${n}`;
+  }
+  return symbol;
+}
+
+/**
+ * Holdings row for an insert or update. The symbol is kept on edit so
+ * snapshots and the ledger keep matching the same position.
+ */
+export function buildManualHoldingRow(input: ManualHoldingInput, symbol: string) {
+  const config = MANUAL_ASSET_KINDS[input.kind];
+  const isin = input.isin.trim().toUpperCase();
+
+  return {
+    symbol,
+    name: input.name.trim(),
+    type: config.type,
+    sector: (input.sector || config.defaultSector) as Sector,
+    quantity: config.valuation === 'amount' ? 1 : input.quantity,
+    avg_price: input.avgPrice,
+    ltp: input.ltp,
+    exchange: MANUAL_EXCHANGE,
+    source: MANUAL_SOURCE,
+    isin: isin || null,
+    broker: input.broker.trim() || null,
+  };
+}
@@ -0,0 +1,108 @@
+import { Cashflow, Transaction } from '@/types/transaction';
+import { ContributionPoint, DateRange, PeriodReturn, SnapshotValue } from '@/types/performance';
+import { buildTaxLots } from './taxLots';
+
+export const RANGE_DAYS: Record<Exclude<DateRange, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+};
+
+export function filterSnapshotsByRange<T extends SnapshotValue>(
+  snapshots: T[],
+  range: DateRange,
+  now: Date = new Date()
+): T[] {
+  if (range === 'all') return snapshots;
+
+  const cutoff = new Date(now);
+  cutoff.setDate(cutoff.getDate() - RANGE_DAYS[range]);
+  return snapshots.filter(s => new Date(s.snapshot_date) >= cutoff);
+}
+
+/**
+ * Income that a change in invested amount cannot see: realized gains (a sale
+ * reduces cost basis by the cost, not by the proceeds withdrawn) and payouts
+ * such as dividends. Dated so it can be matched to snapshot intervals.
+ */
+export function buildLedgerIncome(transactions: Transaction[]): Cashflow[] {
+  const income: Cashflow[] = [];
+
+  buildTaxLots(transactions).forEach(position => {
+    position.realizedLots.forEach(lot => income.push({ date: lot.soldOn, amount: lot.gain }));
+  });
+
+  transactions
+    .filter(t => t.type === 'dividend' || t.type === 'interest')
+    .forEach(t => income.push({ date: t.date, amount: t.amount }));
+
+  return income;
+}
+
+/**
+ * Net contribution for every snapshot interval. The recorded contribution is
+ * the change in invested amount; ledger income in the same interval was paid
+ * out rather than reinvested, so it is treated as a withdrawal.
+ */
+export function buildContributionSeries(
+  snapshots: SnapshotValue[],
+  ledgerIncome: Cashflow[] = []
+): ContributionPoint[] {
+  const sorted = [...snapshots].sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date));
+  let cumulativeContribution = 0;
+
+  return sorted.map((snapshot, index) => {
+    const value = Number(snapshot.current_value);
+    const invested = Number(snapshot.total_investment);
+
+    let netContribution = 0;
+    if (index > 0) {
+      const previous = sorted[index - 1];
+      const recorded = snapshot.net_contribution ?? invested - Number(previous.total_investment);
+      const income = ledgerIncome
+        .filter(i => i.date > previous.snapshot_date.slice(0, 10) && i.date <= snapshot.snapshot_date.slice(0, 10))
+        .reduce((sum, i) => sum + i.amount, 0);
+      netContribution = Number(recorded) - income;
+    }
+
+    cumulativeContribution += netContribution;
+
+    return {
+      date: snapshot.snapshot_date,
+      value,
+      invested,
+      netContribution,
+      cumulativeContribution,
+    };
+  });
+}
+
+/**
+ * Period gain excluding contributions, and the time-weighted return chained
+ * across snapshot intervals. Contributions are assumed to land by the end of
+ * the day they are recorded, so each interval return is (V1 - flow) / V0.
+ */
+export function calculatePeriodReturn(points: ContributionPoint[]): PeriodReturn {
+  if (points.length === 0) {
+    return { startValue: 0, endValue: 0, netContributions: 0, gain: 0, twr: 0 };
+  }
+
+  const startValue = points[0].value;
+  const endValue = points[points.length - 1].value;
+  const netContributions = points.slice(1).reduce((sum, p) => sum + p.netContribution, 0);
+
+  let growth = 1;
+  for (let i = 1; i < points.length; i++) {
+    const previousValue = points[i - 1].value;
+    if (previousValue <= 0) continue;
+    growth *= (points[i].value - points[i].netContribution) / previousValue;
+  }
+
+  return {
+    startValue,
+    endValue,
+    netContributions,
+    gain: endValue - startValue - netContributions,
+    twr: (growth - 1) * 100,
+  };
+}
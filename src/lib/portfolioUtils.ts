@@ -7,12 +7,41 @@ import {
   SourceAllocation,
   Recommendation 
 } from '@/types/portfolio';
+import { PositionLots } from '@/types/transaction';
+import { getPositionKey } from './taxLots';
+import { calculateXirrPercent, calculateGroupXirr } from './xirr';
+
+// Tolerance when checking that ledger lots still explain the broker-reported quantity
+const LOT_QUANTITY_TOLERANCE = 0.001;
+
+/**
+ * True when the ledger's open lots add up to the quantity the broker reports,
+ * i.e. the lots can be trusted for cost basis and holding periods
+ */
+export function lotsReconcile(holding: Holding, position?: PositionLots): position is PositionLots {
+  return !!position &&
+    Math.abs(position.quantity - holding.quantity) <= LOT_QUANTITY_TOLERANCE * Math.max(1, holding.quantity);
+}
 
-export function enrichHolding(holding: Holding): EnrichedHolding {
+/**
+ * Enrich a holding with values and P&L. When FIFO lots from the transactions
+ * ledger are available and reconcile with the held quantity, unrealized P&L
+ * is measured against the lot cost basis instead of the broker average price.
+ */
+export function enrichHolding(holding: Holding, position?: PositionLots): EnrichedHolding {
   const investedValue = holding.quantity * holding.avgPrice;
   const currentValue = holding.quantity * holding.ltp;
   const pnl = currentValue - investedValue;
   const pnlPercent = investedValue > 0 ? (pnl / investedValue) * 100 : 0;
+
+  const reconciled = lotsReconcile(holding, position);
+  const unrealizedPnl = reconciled ? currentValue - position.costBasis : pnl;
+
+  // Only solve XIRR when the ledger holds the full history of the position
+  const ledgerXirr = reconciled && position.unmatchedSellQuantity === 0
+    ? calculateXirrPercent(position.cashflows, currentValue)
+    : undefined;
+  const xirr = ledgerXirr ?? holding.xirr;
   
   const recommendation = getRecommendation(pnlPercent, holding.sector);
 
@@ -22,7 +51,13 @@ export function enrichHolding(holding: Holding): EnrichedHolding {
     currentValue,
     pnl,
     pnlPercent,
-    recommendation
+    realizedPnl: position?.realizedPnl ?? 0,
+    unrealizedPnl,
+    dividendIncome: position?.dividendIncome ?? 0,
+    recommendation,
+    xirr,
+    xirrSource: ledgerXirr !== undefined ? 'ledger' : xirr !== undefined ? 'imported' : undefined,
+    cashflows: ledgerXirr !== undefined ? position.cashflows : undefined,
   };
 }
 
@@ -41,18 +76,43 @@ function getRecommendation(pnlPercent: number, sector: string): Recommendation {
   }
 }
 
-export function calculatePortfolioSummary(holdings: EnrichedHolding[]): PortfolioSummary {
+/**
+ * Summarize the portfolio. Pass every ledger position (including fully exited
+ * ones) so realized gains and dividends on closed positions are counted too.
+ */
+export function calculatePortfolioSummary(
+  holdings: EnrichedHolding[],
+  positions?: PositionLots[]
+): PortfolioSummary {
   const totalInvestment = holdings.reduce((sum, h) => sum + h.investedValue, 0);
   const currentValue = holdings.reduce((sum, h) => sum + h.currentValue, 0);
   const totalPnl = currentValue - totalInvestment;
   const pnlPercent = totalInvestment > 0 ? (totalPnl / totalInvestment) * 100 : 0;
+  const unrealizedPnl = holdings.reduce((sum, h) => sum + (h.unrealizedPnl ?? h.pnl), 0);
+
+  const realizedPnl = positions
+    ? positions.reduce((sum, p) => sum + p.realizedPnl, 0)
+    : holdings.reduce((sum, h) => sum + (h.realizedPnl || 0), 0);
+  const dividendIncome = positions
+    ? positions.reduce((sum, p) => sum + p.dividendIncome, 0)
+    : holdings.reduce((sum, h) => sum + (h.dividendIncome || 0), 0);
+
+  // Exited positions no longer appear as holdings but their flows still count
+  const heldKeys = new Set(holdings.map(h => getPositionKey(h)));
+  const exitedCashflows = (positions || [])
+    .filter(p => p.openLots.length === 0 && p.unmatchedSellQuantity === 0 && !heldKeys.has(p.key))
+    .flatMap(p => p.cashflows);
 
   return {
     totalInvestment,
     currentValue,
     totalPnl,
     pnlPercent,
-    holdingsCount: holdings.length
+    realizedPnl,
+    unrealizedPnl,
+    dividendIncome,
+    holdingsCount: holdings.length,
+    xirr: calculateGroupXirr(holdings, exitedCashflows)
   };
 }
 
@@ -105,7 +165,8 @@ export function calculateSourceAllocation(holdings: EnrichedHolding[]): SourceAl
     .map(([source, value]) => ({
       source: source as any,
       value,
-      percent: (value / totalValue) * 100
+      percent: (value / totalValue) * 100,
+      xirr: calculateGroupXirr(holdings.filter(h => h.source === source))
     }))
     .sort((a, b) => b.value - a.value);
 }
@@ -0,0 +1,333 @@
+import { EnrichedHolding } from '@/types/portfolio';
+import { PositionLots, RealizedLot } from '@/types/transaction';
+import {
+  AllocationDimension,
+  AllocationDrift,
+  DriftStatus,
+  RebalanceOptions,
+  RebalancePlan,
+  RebalanceTaxImpact,
+  RebalanceTrade,
+  TargetAllocation,
+} from '@/types/rebalancing';
+import { classifyGains } from './capitalGains';
+import { daysBetween, getPositionKey } from './taxLots';
+import { lotsReconcile } from './portfolioUtils';
+
+// Holdings that match no custom bucket
+export const UNASSIGNED_BUCKET = 'Unassigned';
+
+// Trades smaller than this aren't worth the brokerage and exit load
+const MIN_TRADE_AMOUNT = 100;
+
+// Gains taxed at slab rates are assumed to fall in the top bracket unless told otherwise
+const DEFAULT_SLAB_RATE = 0.30;
+
+export function getBucketKey(
+  holding: EnrichedHolding,
+  dimension: AllocationDimension,
+  targets: TargetAllocation[] = []
+): string {
+  if (dimension === 'type') return holding.type;
+  if (dimension === 'sector') return holding.sector;
+
+  // Custom buckets: an explicit symbol/ISIN wins over an asset-type rule
+  const ids = [holding.symbol, holding.isin].filter(Boolean).map(id => String(id).toUpperCase());
+  const bySymbol = targets.find(t => t.symbols.some(s => ids.includes(s.toUpperCase())));
+  if (bySymbol) return bySymbol.bucketKey;
+
+  const byType = targets.find(t => t.assetTypes.includes(holding.type));
+  return byType ? byType.bucketKey : UNASSIGNED_BUCKET;
+}
+
+function groupByBucket(
+  holdings: EnrichedHolding[],
+  dimension: AllocationDimension,
+  targets: TargetAllocation[]
+): Map<string, EnrichedHolding[]> {
+  const groups = new Map<string, EnrichedHolding[]>();
+  holdings.forEach(h => {
+    const key = getBucketKey(h, dimension, targets);
+    groups.set(key, [...(groups.get(key) || []), h]);
+  });
+  return groups;
+}
+
+function getDriftStatus(drift: number, tolerance: number): DriftStatus {
+  if (drift > tolerance) return 'over';
+  if (drift < -tolerance) return 'under';
+  return 'within';
+}
+
+/**
+ * Current weight of every bucket against its target. Buckets that hold value
+ * but have no target are reported as 'untargeted' and left alone by rebalancing.
+ */
+export function calculateDrift(
+  holdings: EnrichedHolding[],
+  targets: TargetAllocation[],
+  dimension: AllocationDimension
+): AllocationDrift[] {
+  const dimensionTargets = targets.filter(t => t.dimension === dimension);
+  const groups = groupByBucket(holdings, dimension, dimensionTargets);
+  const totalValue = holdings.reduce((sum, h) => sum + h.currentValue, 0);
+
+  const keys = new Set([...dimensionTargets.map(t => t.bucketKey), ...groups.keys()]);
+
+  return Array.from(keys)
+    .map(bucketKey => {
+      const target = dimensionTargets.find(t => t.bucketKey === bucketKey);
+      const currentValue = (groups.get(bucketKey) || []).reduce((sum, h) => sum + h.currentValue, 0);
+      const currentPercent = totalValue > 0 ? (currentValue / totalValue) * 100 : 0;
+      const targetPercent = target?.targetPercent ?? 0;
+      const tolerancePercent = target?.tolerancePercent ?? 0;
+      const drift = currentPercent - targetPercent;
+
+      return {
+        bucketKey,
+        currentValue,
+        currentPercent,
+        targetPercent,
+        tolerancePercent,
+        drift,
+        status: target ? getDriftStatus(drift, tolerancePercent) : 'untargeted' as DriftStatus,
+      };
+    })
+    .sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+}
+
+/**
+ * Estimate the capital gains from selling `amount` worth of a holding. Sales
+ * consume FIFO lots (as the depository does), so when the ledger reconciles we
+ * price each lot with its own cost and holding period. Otherwise the broker
+ * average price is used and the gain is assumed short-term.
+ */
+export function estimateSaleTax(
+  holding: EnrichedHolding,
+  position: PositionLots | undefined,
+  amount: number,
+  options: Pick<RebalanceOptions, 'asOf' | 'slabRate'> = {}
+): RebalanceTaxImpact {
+  const asOf = options.asOf || new Date().toISOString().slice(0, 10);
+  const slabRate = options.slabRate ?? DEFAULT_SLAB_RATE;
+  const reconciled = lotsReconcile(holding, position);
+
+  let remaining = holding.ltp > 0 ? Math.min(amount / holding.ltp, holding.quantity) : 0;
+  const openLots = reconciled
+    ? position.openLots
+    : [{ acquiredOn: asOf, quantity: holding.quantity, costPerUnit: holding.avgPrice }];
+
+  const sales: RealizedLot[] = [];
+  for (const lot of openLots) {
+    if (remaining <= 0) break;
+    const quantity = Math.min(lot.quantity, remaining);
+    remaining -= quantity;
+
+    const costBasis = quantity * lot.costPerUnit;
+    const proceeds = quantity * holding.ltp;
+    sales.push({
+      key: getPositionKey(holding),
+      symbol: holding.symbol,
+      isin: holding.isin,
+      name: holding.name,
+      source: holding.source,
+      assetType: holding.type,
+      acquiredOn: lot.acquiredOn,
+      soldOn: asOf,
+      quantity,
+      costPerUnit: lot.costPerUnit,
+      costBasis,
+      salePricePerUnit: holding.ltp,
+      proceeds,
+      gain: proceeds - costBasis,
+      holdingDays: daysBetween(lot.acquiredOn, asOf),
+    });
+  }
+
+  let shortTermGain = 0;
+  let longTermGain = 0;
+  let tax = 0;
+  classifyGains(sales).forEach(g => {
+    if (g.term === 'long') longTermGain += g.taxableGain;
+    else shortTermGain += g.taxableGain;
+    tax += g.taxableGain * (g.taxRate ?? slabRate);
+  });
+
+  return {
+    shortTermGain,
+    longTermGain,
+    // Losses within one sale offset its gains; they never produce a refund
+    estimatedTax: Math.max(0, tax),
+    fromAverageCost: !reconciled,
+  };
+}
+
+// Split `amount` across keys in proportion to their weights, never exceeding a weight
+function distribute(amount: number, weights: Map<string, number>): Map<string, number> {
+  const total = Array.from(weights.values()).reduce((sum, w) => sum + w, 0);
+  const scale = total > 0 ? Math.min(1, amount / total) : 0;
+  return new Map(Array.from(weights.entries()).map(([key, w]) => [key, w * scale]));
+}
+
+function addTo(map: Map<string, number>, key: string, amount: number) {
+  map.set(key, (map.get(key) || 0) + amount);
+}
+
+function planBuys(bucketKey: string, holdings: EnrichedHolding[], amount: number): RebalanceTrade[] {
+  const bucketValue = holdings.reduce((sum, h) => sum + h.currentValue, 0);
+  if (bucketValue <= 0) {
+    return [{ bucketKey, action: 'buy', amount }];
+  }
+
+  // Top up existing holdings in proportion to their weight in the bucket
+  return holdings
+    .map(h => {
+      const share = amount * (h.currentValue / bucketValue);
+      return {
+        bucketKey,
+        holdingId: h.id,
+        symbol: h.symbol,
+        name: h.name,
+        action: 'buy' as const,
+        amount: share,
+        quantity: h.ltp > 0 ? share / h.ltp : undefined,
+      };
+    })
+    .filter(t => t.amount >= MIN_TRADE_AMOUNT);
+}
+
+function planSells(
+  bucketKey: string,
+  holdings: EnrichedHolding[],
+  amount: number,
+  positions: Map<string, PositionLots> | undefined,
+  options: RebalanceOptions
+): RebalanceTrade[] {
+  // Sell where it costs the least tax per rupee raised; among tax-free sales,
+  // harvest losses first
+  const ranked = holdings
+    .filter(h => h.currentValue > 0 && h.ltp > 0)
+    .map(h => {
+      const probe = Math.min(amount, h.currentValue);
+      const impact = estimateSaleTax(h, positions?.get(getPositionKey(h)), probe, options);
+      return {
+        holding: h,
+        taxPerRupee: impact.estimatedTax / probe,
+        gainPerRupee: (impact.shortTermGain + impact.longTermGain) / probe,
+      };
+    })
+    .sort((a, b) => a.taxPerRupee - b.taxPerRupee || a.gainPerRupee - b.gainPerRupee);
+
+  const trades: RebalanceTrade[] = [];
+  let remaining = amount;
+  for (const { holding } of ranked) {
+    if (remaining < MIN_TRADE_AMOUNT) break;
+    const sell = Math.min(remaining, holding.currentValue);
+    remaining -= sell;
+
+    trades.push({
+      bucketKey,
+      holdingId: holding.id,
+      symbol: holding.symbol,
+      name: holding.name,
+      action: 'sell',
+      amount: sell,
+      quantity: sell / holding.ltp,
+      tax: estimateSaleTax(holding, positions?.get(getPositionKey(holding)), sell, options),
+    });
+  }
+
+  return trades;
+}
+
+/**
+ * Propose trades that bring every targeted bucket back inside its band.
+ *
+ * Buckets outside their band are sold down or bought up to target. Sales and
+ * new money form one cash pool: if it can't fund the underweight buckets, the
+ * overweight buckets still inside their bands are trimmed too, and any cash
+ * left after the out-of-band buckets are fixed tops up the remaining
+ * underweight ones. With `newMoneyOnly`, nothing is sold and new money goes
+ * to underweight buckets in proportion to their shortfall.
+ */
+export function proposeRebalance(
+  holdings: EnrichedHolding[],
+  targets: TargetAllocation[],
+  dimension: AllocationDimension,
+  positions?: Map<string, PositionLots>,
+  options: RebalanceOptions = {}
+): RebalancePlan {
+  const newMoney = Math.max(0, options.newMoney || 0);
+  const dimensionTargets = targets.filter(t => t.dimension === dimension);
+  const groups = groupByBucket(holdings, dimension, dimensionTargets);
+  const currentTotal = holdings.reduce((sum, h) => sum + h.currentValue, 0);
+  const total = currentTotal + newMoney;
+
+  const bucketValue = (key: string) =>
+    (groups.get(key) || []).reduce((sum, h) => sum + h.currentValue, 0);
+
+  // Weights are judged against the portfolio as it will be once new money is in
+  const outOfBandUnder = new Map<string, number>();
+  const inBandUnder = new Map<string, number>();
+  const outOfBandOver = new Map<string, number>();
+  const inBandOver = new Map<string, number>();
+
+  dimensionTargets.forEach(t => {
+    const value = bucketValue(t.bucketKey);
+    const targetValue = (total * t.targetPercent) / 100;
+    const drift = total > 0 ? ((value - targetValue) / total) * 100 : 0;
+    const gap = Math.abs(value - targetValue);
+    if (gap < MIN_TRADE_AMOUNT) return;
+
+    if (value < targetValue) {
+      (drift < -t.tolerancePercent ? outOfBandUnder : inBandUnder).set(t.bucketKey, gap);
+    } else {
+      (drift > t.tolerancePercent ? outOfBandOver : inBandOver).set(t.bucketKey, gap);
+    }
+  });
+
+  const buys = new Map<string, number>();
+  const sells = new Map<string, number>();
+  let cash = newMoney;
+
+  if (options.newMoneyOnly) {
+    const underweight = new Map([...outOfBandUnder, ...inBandUnder]);
+    distribute(cash, underweight).forEach((amount, key) => addTo(buys, key, amount));
+  } else {
+    outOfBandOver.forEach((amount, key) => addTo(sells, key, amount));
+    cash += Array.from(outOfBandOver.values()).reduce((sum, v) => sum + v, 0);
+
+    const needed = Array.from(outOfBandUnder.values()).reduce((sum, v) => sum + v, 0);
+    if (cash < needed) {
+      distribute(needed - cash, inBandOver).forEach((amount, key) => {
+        addTo(sells, key, amount);
+        cash += amount;
+      });
+    }
+
+    const fixOutOfBand = distribute(cash, outOfBandUnder);
+    fixOutOfBand.forEach((amount, key) => addTo(buys, key, amount));
+    const spent = Array.from(fixOutOfBand.values()).reduce((sum, v) => sum + v, 0);
+    distribute(cash - spent, inBandUnder).forEach((amount, key) => addTo(buys, key, amount));
+  }
+
+  const trades: RebalanceTrade[] = [];
+  sells.forEach((amount, key) => {
+    trades.push(...planSells(key, groups.get(key) || [], amount, positions, options));
+  });
+  buys.forEach((amount, key) => {
+    if (amount >= MIN_TRADE_AMOUNT) trades.push(...planBuys(key, groups.get(key) || [], amount));
+  });
+
+  const totalBuys = trades.filter(t => t.action === 'buy').reduce((sum, t) => sum + t.amount, 0);
+  const totalSells = trades.filter(t => t.action === 'sell').reduce((sum, t) => sum + t.amount, 0);
+
+  return {
+    drift: calculateDrift(holdings, targets, dimension),
+    trades,
+    totalBuys,
+    totalSells,
+    estimatedTax: trades.reduce((sum, t) => sum + (t.tax?.estimatedTax || 0), 0),
+    unallocated: Math.max(0, newMoney + totalSells - totalBuys),
+  };
+}
@@ -0,0 +1,70 @@
+import { Holding, Source } from '@/types/portfolio';
+import { LotReconciliation, LotReconciliationStatus, Transaction } from '@/types/transaction';
+import { lotsReconcile } from './portfolioUtils';
+import { buildTaxLots, getPositionKey } from './taxLots';
+
+// Ledger positions below this are closed, not a mismatch
+const OPEN_QUANTITY_EPSILON = 1e-6;
+
+const STATUS_ORDER: Record<LotReconciliationStatus, number> = {
+  mismatch: 0,
+  not_held: 1,
+  no_history: 2,
+  matched: 3,
+};
+
+/**
+ * Check one source's ledger against the holdings its broker reports. Only
+ * that source's transactions count, so a stock held at two brokers is
+ * reconciled separately at each.
+ */
+export function reconcileLots(
+  holdings: Holding[],
+  transactions: Transaction[],
+  source: Source
+): LotReconciliation[] {
+  const sourceHoldings = holdings.filter(h => h.source === source);
+  const positions = buildTaxLots(transactions.filter(t => t.source === source));
+  const seen = new Set<string>();
+
+  const results: LotReconciliation[] = sourceHoldings.map(holding => {
+    const key = getPositionKey(holding);
+    const position = positions.get(key);
+    seen.add(key);
+
+    const ledgerQuantity = position?.quantity ?? 0;
+    const status: LotReconciliationStatus = !position
+      ? 'no_history'
+      : lotsReconcile(holding, position) ? 'matched' : 'mismatch';
+
+    return {
+      key,
+      symbol: holding.symbol,
+      name: holding.name,
+      status,
+      liveQuantity: holding.quantity,
+      ledgerQuantity,
+      difference: ledgerQuantity - holding.quantity,
+      unmatchedSellQuantity: position?.unmatchedSellQuantity ?? 0,
+    };
+  });
+
+  // Open ledger positions the broker no longer reports: a sell or transfer is missing
+  positions.forEach((position, key) => {
+    if (seen.has(key) || position.quantity <= OPEN_QUANTITY_EPSILON) return;
+    results.push({
+      key,
+      symbol: position.symbol,
+      name: position.name,
+      status: 'not_held',
+      liveQuantity: 0,
+      ledgerQuantity: position.quantity,
+      difference: position.quantity,
+      unmatchedSellQuantity: position.unmatchedSellQuantity,
+    });
+  });
+
+  return results.sort((a, b) =>
+    STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || a.symbol.localeCompare(b.symbol)
+  );
+}
@@ -0,0 +1,158 @@
+import {
+  ContributionPoint,
+  Drawdown,
+  IntervalReturn,
+  RiskMetrics,
+  RollingReturn,
+} from '@/types/performance';
+import { daysBetween } from './taxLots';
+
+const DAYS_PER_YEAR = 365;
+
+// Fewer intervals than this make a standard deviation meaningless
+const MIN_OBSERVATIONS = 5;
+
+// A trailing window may reach back this many extra days when no snapshot falls
+// exactly a year earlier (weekends, missed captures)
+const ROLLING_WINDOW_SLACK_DAYS = 7;
+
+/**
+ * Return of each snapshot interval with the interval's deposits and
+ * withdrawals taken out, so adding money never looks like growth
+ */
+export function calculateIntervalReturns(points: ContributionPoint[]): IntervalReturn[] {
+  const returns: IntervalReturn[] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    if (previous.value <= 0) continue;
+
+    returns.push({
+      date: points[i].date,
+      value: (points[i].value - points[i].netContribution) / previous.value - 1,
+      days: Math.max(1, daysBetween(previous.date, points[i].date)),
+    });
+  }
+
+  return returns;
+}
+
+// Growth of ₹1 invested at the first snapshot, compounded through every interval
+function buildWealthIndex(points: ContributionPoint[]): { date: string; value: number }[] {
+  if (points.length === 0) return [];
+
+  const index = [{ date: points[0].date, value: 1 }];
+  calculateIntervalReturns(points).forEach(r => {
+    index.push({ date: r.date, value: index[index.length - 1].value * (1 + r.value) });
+  });
+  return index;
+}
+
+/**
+ * Deepest peak-to-trough fall of the cashflow-adjusted wealth index, so a
+ * large withdrawal is not mistaken for a loss
+ */
+export function calculateMaxDrawdown(points: ContributionPoint[]): Drawdown | null {
+  const index = buildWealthIndex(points);
+  if (index.length < 2) return null;
+
+  let peak = index[0];
+  let worst: Drawdown | null = null;
+
+  for (const point of index) {
+    if (point.value >= peak.value) {
+      if (worst && !worst.recoveryDate && worst.peakDate === peak.date) {
+        worst.recoveryDate = point.date;
+      }
+      peak = point;
+      continue;
+    }
+
+    const depth = (point.value / peak.value - 1) * 100;
+    if (!worst || depth < worst.depth) {
+      worst = { depth, peakDate: peak.date, troughDate: point.date };
+    }
+  }
+
+  return worst;
+}
+
+/**
+ * Trailing one-year time-weighted return at every snapshot that has a year of
+ * history behind it
+ */
+export function calculateRollingReturns(points: ContributionPoint[], windowDays = DAYS_PER_YEAR): RollingReturn[] {
+  const index = buildWealthIndex(points);
+  const rolling: RollingReturn[] = [];
+
+  let start = 0;
+  index.forEach(point => {
+    // Advance to the latest snapshot at least a window before this one
+    while (start + 1 < index.length && daysBetween(index[start + 1].date, point.date) >= windowDays) {
+      start++;
+    }
+
+    const span = daysBetween(index[start].date, point.date);
+    if (span >= windowDays && span <= windowDays + ROLLING_WINDOW_SLACK_DAYS) {
+      rolling.push({ date: point.date, value: (point.value / index[start].value - 1) * 100 });
+    }
+  });
+
+  return rolling;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function sampleStdDev(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * Volatility, Sharpe and Sortino from snapshot interval returns. Snapshots
+ * aren't taken on a fixed schedule, so intervals are annualized using the
+ * average gap between them. `riskFreeRate` is an annual rate in percent.
+ */
+export function calculateRiskMetrics(points: ContributionPoint[], riskFreeRate: number): RiskMetrics {
+  const returns = calculateIntervalReturns(points);
+  const maxDrawdown = calculateMaxDrawdown(points);
+
+  if (returns.length < MIN_OBSERVATIONS) {
+    return {
+      observations: returns.length,
+      annualizedReturn: null,
+      annualizedVolatility: null,
+      downsideDeviation: null,
+      sharpe: null,
+      sortino: null,
+      maxDrawdown,
+      riskFreeRate,
+    };
+  }
+
+  const periodsPerYear = DAYS_PER_YEAR / mean(returns.map(r => r.days));
+  const values = returns.map(r => r.value);
+  const periodicRiskFree = Math.pow(1 + riskFreeRate / 100, 1 / periodsPerYear) - 1;
+
+  const meanReturn = mean(values);
+  const stdDev = sampleStdDev(values);
+  const downside = Math.sqrt(mean(values.map(v => Math.min(0, v - periodicRiskFree) ** 2)));
+
+  const annualizedReturn = meanReturn * periodsPerYear;
+  const annualizedVolatility = stdDev * Math.sqrt(periodsPerYear);
+  const downsideDeviation = downside * Math.sqrt(periodsPerYear);
+  const annualizedExcess = (meanReturn - periodicRiskFree) * periodsPerYear;
+
+  return {
+    observations: returns.length,
+    annualizedReturn: annualizedReturn * 100,
+    annualizedVolatility: annualizedVolatility * 100,
+    downsideDeviation: downsideDeviation * 100,
+    sharpe: annualizedVolatility > 0 ? annualizedExcess / annualizedVolatility : null,
+    sortino: downsideDeviation > 0 ? annualizedExcess / downsideDeviation : null,
+    maxDrawdown,
+    riskFreeRate,
+  };
+}
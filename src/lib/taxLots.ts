@@ -0,0 +1,213 @@
+import {
+  Transaction,
+  TransactionType,
+  TaxLot,
+  RealizedLot,
+  PositionLots,
+  Cashflow,
+} from '@/types/transaction';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Quantities below this are treated as fully consumed (MF units carry 3-4 decimals)
+const QUANTITY_EPSILON = 1e-6;
+
+// Corporate actions apply to units held before the trading day starts, and same-day
+// buys must be available for same-day sells
+const TYPE_ORDER: Record<TransactionType, number> = {
+  split: 0,
+  bonus: 1,
+  buy: 2,
+  switch_in: 2,
+  sell: 3,
+  switch_out: 3,
+  dividend: 4,
+  interest: 4,
+};
+
+export function daysBetween(from: string, to: string): number {
+  const start = Date.parse(from.slice(0, 10));
+  const end = Date.parse(to.slice(0, 10));
+  return Math.max(0, Math.round((end - start) / DAY_MS));
+}
+
+/**
+ * Key used to line up ledger positions with holdings - the source plus the ISIN
+ * when we have it, otherwise the trading symbol. FIFO runs per account, so the
+ * same stock held at two brokers is two positions.
+ */
+export function getPositionKey(item: { source: string; isin?: string; symbol: string }): string {
+  return `${item.source}|${(item.isin || item.symbol).toUpperCase()}`;
+}
+
+function sortTransactions(transactions: Transaction[]): Transaction[] {
+  return [...transactions].sort((a, b) => {
+    if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+    return TYPE_ORDER[a.type] - TYPE_ORDER[b.type];
+  });
+}
+
+function unitPrice(txn: Transaction): number {
+  if (txn.quantity > 0 && txn.amount > 0) return txn.amount / txn.quantity;
+  return txn.price || 0;
+}
+
+interface MutableLot {
+  acquiredOn: string;
+  quantity: number;
+  costPerUnit: number;
+}
+
+/**
+ * Build FIFO tax lots for a single position from its ledger transactions.
+ * Buy charges are added to the cost of acquisition and sell charges are
+ * deducted from the sale consideration, as allowed under Section 48.
+ */
+export function buildPositionLots(
+  key: string,
+  transactions: Transaction[],
+  asOf: string = new Date().toISOString().slice(0, 10)
+): PositionLots {
+  const sorted = sortTransactions(transactions);
+  const first = sorted[0];
+  const queue: MutableLot[] = [];
+  const realizedLots: RealizedLot[] = [];
+  const cashflows: Cashflow[] = [];
+  let dividendIncome = 0;
+  let unmatchedSellQuantity = 0;
+
+  for (const txn of sorted) {
+    switch (txn.type) {
+      case 'buy':
+      case 'switch_in': {
+        if (txn.quantity <= 0) break;
+        const cost = (txn.amount > 0 ? txn.amount : txn.quantity * (txn.price || 0)) + (txn.charges || 0);
+        queue.push({ acquiredOn: txn.date, quantity: txn.quantity, costPerUnit: cost / txn.quantity });
+        cashflows.push({ date: txn.date, amount: -cost });
+        break;
+      }
+
+      case 'bonus': {
+        // Bonus units are acquired on allotment at nil cost
+        if (txn.quantity > 0) {
+          queue.push({ acquiredOn: txn.date, quantity: txn.quantity, costPerUnit: 0 });
+        }
+        break;
+      }
+
+      case 'split': {
+        const ratio = txn.ratio || 0;
+        if (ratio <= 0) break;
+        for (const lot of queue) {
+          lot.quantity *= ratio;
+          lot.costPerUnit /= ratio;
+        }
+        break;
+      }
+
+      case 'sell':
+      case 'switch_out': {
+        let remaining = txn.quantity;
+        if (remaining <= 0) break;
+        const pricePerUnit = unitPrice(txn);
+        const chargesPerUnit = (txn.charges || 0) / txn.quantity;
+        cashflows.push({ date: txn.date, amount: txn.quantity * (pricePerUnit - chargesPerUnit) });
+
+        while (remaining > QUANTITY_EPSILON && queue.length > 0) {
+          const lot = queue[0];
+          const matched = Math.min(lot.quantity, remaining);
+          const costBasis = matched * lot.costPerUnit;
+          const proceeds = matched * (pricePerUnit - chargesPerUnit);
+
+          realizedLots.push({
+            key,
+            saleId: txn.id,
+            symbol: txn.symbol,
+            isin: txn.isin,
+            name: txn.name,
+            source: txn.source,
+            assetType: txn.assetType,
+            acquiredOn: lot.acquiredOn,
+            soldOn: txn.date,
+            quantity: matched,
+            costPerUnit: lot.costPerUnit,
+            costBasis,
+            salePricePerUnit: pricePerUnit,
+            proceeds,
+            gain: proceeds - costBasis,
+            holdingDays: daysBetween(lot.acquiredOn, txn.date),
+            redemption: Boolean(txn.redemption),
+          });
+
+          lot.quantity -= matched;
+          remaining -= matched;
+          if (lot.quantity <= QUANTITY_EPSILON) queue.shift();
+        }
+
+        if (remaining > QUANTITY_EPSILON) {
+          unmatchedSellQuantity += remaining;
+        }
+        break;
+      }
+
+      case 'dividend':
+      case 'interest':
+        dividendIncome += txn.amount;
+        cashflows.push({ date: txn.date, amount: txn.amount });
+        break;
+    }
+  }
+
+  const openLots: TaxLot[] = queue.map(lot => ({
+    key,
+    symbol: first?.symbol ?? key,
+    isin: first?.isin,
+    source: first?.source ?? 'Unknown',
+    assetType: first?.assetType,
+    acquiredOn: lot.acquiredOn,
+    quantity: lot.quantity,
+    costPerUnit: lot.costPerUnit,
+    costBasis: lot.quantity * lot.costPerUnit,
+    holdingDays: daysBetween(lot.acquiredOn, asOf),
+  }));
+
+  return {
+    key,
+    symbol: first?.symbol ?? key,
+    isin: first?.isin,
+    name: first?.name,
+    assetType: first?.assetType,
+    openLots,
+    realizedLots,
+    quantity: openLots.reduce((sum, l) => sum + l.quantity, 0),
+    costBasis: openLots.reduce((sum, l) => sum + l.costBasis, 0),
+    realizedPnl: realizedLots.reduce((sum, l) => sum + l.gain, 0),
+    dividendIncome,
+    unmatchedSellQuantity,
+    cashflows,
+  };
+}
+
+/**
+ * Group ledger transactions by position and run the FIFO matcher on each
+ */
+export function buildTaxLots(
+  transactions: Transaction[],
+  asOf?: string
+): Map<string, PositionLots> {
+  const byKey = new Map<string, Transaction[]>();
+
+  transactions.forEach(txn => {
+    const key = getPositionKey(txn);
+    const existing = byKey.get(key) || [];
+    existing.push(txn);
+    byKey.set(key, existing);
+  });
+
+  const positions = new Map<string, PositionLots>();
+  byKey.forEach((txns, key) => {
+    positions.set(key, buildPositionLots(key, txns, asOf));
+  });
+
+  return positions;
+}
@@ -0,0 +1,151 @@
+import { Cashflow } from '@/types/transaction';
+import { EnrichedHolding } from '@/types/portfolio';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+const MAX_NEWTON_ITERATIONS = 50;
+const MAX_BISECTION_ITERATIONS = 200;
+const RATE_TOLERANCE = 1e-9;
+
+// A rate of -100% makes the discount factor blow up, so keep just above it
+const MIN_RATE = -0.999999;
+const MAX_RATE = 1e6;
+
+interface TimedFlow {
+  years: number;
+  amount: number;
+}
+
+function toTimedFlows(cashflows: Cashflow[]): TimedFlow[] {
+  const dated = cashflows
+    .filter(cf => cf.amount !== 0 && isFinite(cf.amount))
+    .map(cf => ({ time: Date.parse(cf.date.slice(0, 10)), amount: cf.amount }))
+    .filter(cf => !isNaN(cf.time));
+
+  if (dated.length === 0) return [];
+  const start = Math.min(...dated.map(cf => cf.time));
+
+  return dated.map(cf => ({
+    years: (cf.time - start) / DAY_MS / DAYS_PER_YEAR,
+    amount: cf.amount,
+  }));
+}
+
+function npv(rate: number, flows: TimedFlow[]): number {
+  return flows.reduce((sum, f) => sum + f.amount / Math.pow(1 + rate, f.years), 0);
+}
+
+function npvDerivative(rate: number, flows: TimedFlow[]): number {
+  return flows.reduce((sum, f) => sum - (f.years * f.amount) / Math.pow(1 + rate, f.years + 1), 0);
+}
+
+function solveNewton(flows: TimedFlow[], guess: number): number | null {
+  let rate = guess;
+
+  for (let i = 0; i < MAX_NEWTON_ITERATIONS; i++) {
+    const value = npv(rate, flows);
+    const derivative = npvDerivative(rate, flows);
+    if (!isFinite(value) || !isFinite(derivative) || derivative === 0) return null;
+
+    const next = rate - value / derivative;
+    if (!isFinite(next) || next <= MIN_RATE || next > MAX_RATE) return null;
+    if (Math.abs(next - rate) < RATE_TOLERANCE) return next;
+    rate = next;
+  }
+
+  return null;
+}
+
+function solveBisection(flows: TimedFlow[]): number | null {
+  let low = MIN_RATE;
+  let high = 1;
+  let lowValue = npv(low, flows);
+  let highValue = npv(high, flows);
+
+  // Widen the upper bound until the NPV changes sign
+  while (lowValue * highValue > 0 && high < MAX_RATE) {
+    high *= 10;
+    highValue = npv(high, flows);
+  }
+  if (!isFinite(lowValue) || !isFinite(highValue) || lowValue * highValue > 0) return null;
+
+  for (let i = 0; i < MAX_BISECTION_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid, flows);
+    if (midValue === 0 || (high - low) / 2 < RATE_TOLERANCE) return mid;
+
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Annualized internal rate of return for irregularly dated cashflows, as a
+ * decimal (0.12 = 12%). Uses Newton-Raphson from `guess` and falls back to
+ * bisection when Newton diverges. Returns null when the flows have no sign
+ * change or all fall on the same day, since no meaningful rate exists.
+ */
+export function xirr(cashflows: Cashflow[], guess = 0.1): number | null {
+  const flows = toTimedFlows(cashflows);
+  if (flows.length < 2) return null;
+  if (!flows.some(f => f.amount < 0) || !flows.some(f => f.amount > 0)) return null;
+  if (!flows.some(f => f.years > 0)) return null;
+
+  return solveNewton(flows, guess) ?? solveBisection(flows);
+}
+
+/**
+ * XIRR in percent for a set of historical cashflows plus the value still held
+ * on `asOf`, which is treated as a final redemption
+ */
+export function calculateXirrPercent(
+  cashflows: Cashflow[],
+  terminalValue: number,
+  asOf: string = new Date().toISOString().slice(0, 10)
+): number | undefined {
+  if (cashflows.length === 0) return undefined;
+
+  const rate = xirr([...cashflows, { date: asOf, amount: terminalValue }]);
+  return rate === null ? undefined : rate * 100;
+}
+
+/**
+ * XIRR for a group of holdings (an asset class, a source, the whole portfolio).
+ * Holdings whose ledger history reconciles are pooled into one cashflow series,
+ * together with `extraCashflows` such as fully exited positions. Holdings with
+ * only an imported XIRR are blended in weighted by current value. Returns
+ * undefined when neither kind of data is available.
+ */
+export function calculateGroupXirr(
+  holdings: EnrichedHolding[],
+  extraCashflows: Cashflow[] = [],
+  asOf: string = new Date().toISOString().slice(0, 10)
+): number | undefined {
+  const pooled = holdings.filter(h => h.xirrSource === 'ledger' && h.cashflows?.length);
+  const imported = holdings.filter(h => h.xirrSource !== 'ledger' && h.xirr !== undefined && h.currentValue > 0);
+
+  const pooledValue = pooled.reduce((sum, h) => sum + h.currentValue, 0);
+  const pooledXirr = calculateXirrPercent(
+    [...pooled.flatMap(h => h.cashflows || []), ...extraCashflows],
+    pooledValue,
+    asOf
+  );
+
+  if (imported.length === 0) return pooledXirr;
+
+  let weightedSum = imported.reduce((sum, h) => sum + (h.xirr as number) * h.currentValue, 0);
+  let totalWeight = imported.reduce((sum, h) => sum + h.currentValue, 0);
+  if (pooledXirr !== undefined && pooledValue > 0) {
+    weightedSum += pooledXirr * pooledValue;
+    totalWeight += pooledValue;
+  }
+
+  return totalWeight > 0 ? weightedSum / totalWeight : pooledXirr;
+}
@@ -0,0 +1,285 @@
+import { useState, useMemo, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Download, AlertTriangle, Receipt, Info } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { UserMenu } from '@/components/portfolio/UserMenu';
+import { useTransactions } from '@/hooks/useTransactions';
+import { buildTaxLots } from '@/lib/taxLots';
+import {
+  classifyGains,
+  summarizeCapitalGains,
+  getFinancialYears,
+  getFinancialYear,
+  buildSchedule112ACsv,
+} from '@/lib/capitalGains';
+import { formatCurrency, formatNumber } from '@/lib/portfolioUtils';
+import { GainSection } from '@/types/capitalGains';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+const SECTION_LABELS: Record<GainSection, string> = {
+  '111A': 'STCG 111A',
+  '112A': 'LTCG 112A',
+  '112': 'LTCG 112',
+  'slab': 'Slab rate',
+  'exempt': 'Exempt',
+};
+
+export default function CapitalGains() {
+  const { transactions, isLoading, setRedemption, isSettingRedemption } = useTransactions();
+  const [financialYear, setFinancialYear] = useState<string>(getFinancialYear(new Date().toISOString()));
+
+  const gains = useMemo(() => {
+    const positions = buildTaxLots(transactions);
+    const realized = Array.from(positions.values()).flatMap(p => p.realizedLots);
+    return classifyGains(realized).sort((a, b) => (a.soldOn < b.soldOn ? 1 : -1));
+  }, [transactions]);
+
+  const financialYears = useMemo(() => {
+    const years = getFinancialYears(gains);
+    return years.length > 0 ? years : [financialYear];
+  }, [gains, financialYear]);
+
+  // Default to the most recent year that actually has sales
+  useEffect(() => {
+    if (financialYears.length > 0 && !financialYears.includes(financialYear)) {
+      setFinancialYear(financialYears[0]);
+    }
+  }, [financialYears, financialYear]);
+
+  const summary = useMemo(() => summarizeCapitalGains(gains, financialYear), [gains, financialYear]);
+  const fyGains = useMemo(() => gains.filter(g => g.financialYear === financialYear), [gains, financialYear]);
+
+  const handleExport112A = () => {
+    const rows = fyGains.filter(g => g.section === '112A');
+    if (rows.length === 0) {
+      toast.info(`No Section 112A sales in FY ${financialYear}`);
+      return;
+    }
+
+    const csv = buildSchedule112ACsv(gains, financialYear);
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `schedule-112a-fy${financialYear}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const statCards = [
+    { label: 'STCG (111A)', value: summary.stcg111A },
+    { label: 'LTCG (112A)', value: summary.ltcg112A, hint: `Exemption ${formatCurrency(summary.ltcg112AExemption, true)} · Taxable ${formatCurrency(summary.ltcg112ATaxable, true)}` },
+    { label: 'Other LTCG (112)', value: summary.ltcg112 },
+    { label: 'Slab-rate gains', value: summary.slabGains, hint: 'Added to income, taxed at your slab' },
+  ];
+
+  return (
+    <TooltipProvider>
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8 max-w-6xl">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-8">
+            <div className="flex items-center gap-4">
+              <Link to="/">
+                <Button variant="ghost" size="icon">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">Capital Gains</h1>
+                <p className="text-muted-foreground text-sm">FIFO-matched realized gains classified for ITR filing</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Select value={financialYear} onValueChange={setFinancialYear}>
+                <SelectTrigger className="w-[130px]">
+                  <SelectValue placeholder="FY" />
+                </SelectTrigger>
+                <SelectContent>
+                  {financialYears.map(fy => (
+                    <SelectItem key={fy} value={fy}>FY {fy}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={handleExport112A} disabled={isLoading}>
+                <Download className="h-4 w-4 mr-2" />
+                Schedule 112A CSV
+              </Button>
+              <UserMenu />
+            </div>
+          </div>
+
+          {/* Summary Cards */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {statCards.map(card => (
+              <Card key={card.label} className="bg-card/50">
+                <CardContent className="p-4">
+                  <p className="text-muted-foreground text-sm">{card.label}</p>
+                  <p className={cn(
+                    "text-2xl font-bold font-mono-numbers",
+                    card.value >= 0 ? "text-profit" : "text-loss"
+                  )}>
+                    {formatCurrency(card.value, true)}
+                  </p>
+                  {card.hint && (
+                    <p className="text-xs text-muted-foreground mt-1">{card.hint}</p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 mb-6 text-sm">
+            <Badge variant="outline" className="gap-1">
+              <Receipt className="h-3 w-3" />
+              Estimated tax: {formatCurrency(summary.estimatedTax)}
+            </Badge>
+            {summary.exemptGains !== 0 && (
+              <Badge variant="outline">SGB redemption (exempt): {formatCurrency(summary.exemptGains, true)}</Badge>
+            )}
+            <span className="text-xs text-muted-foreground">
+              Excludes cess, surcharge, slab-rate gains and loss carry-forward
+            </span>
+          </div>
+
+          {summary.fmvMissingCount > 0 && (
+            <Card className="mb-6 border-yellow-500/30 bg-yellow-500/5">
+              <CardContent className="p-4 flex items-start gap-3">
+                <AlertTriangle className="h-5 w-5 text-yellow-500 shrink-0 mt-0.5" />
+                <p className="text-sm text-muted-foreground">
+                  {summary.fmvMissingCount} sale{summary.fmvMissingCount > 1 ? 's' : ''} of units bought before
+                  1 Feb 2018 have no 31-Jan-2018 FMV in the bundled table. Actual cost was used, so the
+                  grandfathering benefit is not applied for these rows.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Realized Lots */}
+          <Card className="bg-card/50">
+            <CardHeader>
+              <CardTitle className="text-lg">Realized Lots</CardTitle>
+              <CardDescription>Each row is one buy lot matched against a sale (first-in, first-out)</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {[1, 2, 3, 4].map(i => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : fyGains.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Receipt className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                  <p>No sales recorded in FY {financialYear}</p>
+                </div>
+              ) : (
+                <div className="rounded-md border border-border/50 overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/30 hover:bg-muted/30">
+                        <TableHead className="font-semibold">Security</TableHead>
+                        <TableHead className="font-semibold">Bought</TableHead>
+                        <TableHead className="font-semibold">Sold</TableHead>
+                        <TableHead className="text-right font-semibold">Qty</TableHead>
+                        <TableHead className="text-right font-semibold">Cost</TableHead>
+                        <TableHead className="text-right font-semibold">Sale Value</TableHead>
+                        <TableHead className="text-right font-semibold">Gain</TableHead>
+                        <TableHead className="text-center font-semibold">Section</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {fyGains.map((gain, index) => (
+                        <motion.tr
+                          key={`${gain.key}-${gain.acquiredOn}-${gain.soldOn}-${index}`}
+                          initial={{ opacity: 0 }}
+                          animate={{ opacity: 1 }}
+                          transition={{ delay: Math.min(index * 0.02, 0.4) }}
+                          className="border-b transition-colors table-row-hover"
+                        >
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="font-medium text-foreground">{gain.name || gain.symbol}</span>
+                              <span className="text-xs text-muted-foreground">
+                                {gain.isin || gain.symbol} · {gain.source}
+                              </span>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm">{gain.acquiredOn}</TableCell>
+                          <TableCell className="text-sm">
+                            {gain.soldOn}
+                            <span className="block text-xs text-muted-foreground">{gain.holdingDays} days</span>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{formatNumber(gain.quantity, 3)}</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {formatCurrency(gain.taxCost, true)}
+                            {gain.taxCost !== gain.costBasis && (
+                              <Tooltip>
+                                <TooltipTrigger>
+                                  <Info className="inline h-3 w-3 ml-1 text-muted-foreground" />
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p className="text-xs">
+                                    Grandfathered at FMV {formatCurrency(gain.fmvPerUnit || 0)} / unit
+                                    (actual cost {formatCurrency(gain.costBasis)})
+                                  </p>
+                                </TooltipContent>
+                              </Tooltip>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(gain.proceeds, true)}</TableCell>
+                          <TableCell className={cn(
+                            "text-right font-mono font-semibold",
+                            gain.taxableGain >= 0 ? "text-profit" : "text-loss"
+                          )}>
+                            {formatCurrency(gain.taxableGain, true)}
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <Badge variant="outline" className={cn(
+                              "text-xs",
+                              gain.term === 'long' ? "border-profit/30 text-profit" : "border-primary/30 text-primary"
+                            )}>
+                              {SECTION_LABELS[gain.section]}
+                            </Badge>
+                            {gain.fmvMissing && (
+                              <AlertTriangle className="inline h-3 w-3 ml-1 text-yellow-500" />
+                            )}
+                            {gain.assetClass === 'sgb' && gain.saleId && (
+                              <Button
+                                variant="link"
+                                size="sm"
+                                className="block h-auto p-0 mx-auto text-xs text-muted-foreground"
+                                disabled={isSettingRedemption}
+                                onClick={() => setRedemption({ id: gain.saleId, redemption: !gain.redemption })}
+                              >
+                                {gain.redemption ? 'Sold on exchange?' : 'Redeemed by RBI?'}
+                              </Button>
+                            )}
+                          </TableCell>
+                        </motion.tr>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -1,5 +1,5 @@
-import { useMemo, useState, useEffect, useCallback } from 'react';
-import { Wallet, TrendingUp, PiggyBank, BarChart3, Briefcase, Database, LineChart, LayoutGrid, MessageSquare, Building2 } from 'lucide-react';
+import { useMemo, useState, useEffect, useCallback, useRef } from 'react';
+import { Wallet, TrendingUp, PiggyBank, BarChart3, Briefcase, Database, LineChart, LayoutGrid, MessageSquare, Building2, Receipt } from 'lucide-react';
 import { DashboardHeader } from '@/components/portfolio/DashboardHeader';
 import { StatCard } from '@/components/portfolio/StatCard';
 import { HoldingsTable } from '@/components/portfolio/HoldingsTable';
@@ -8,18 +8,29 @@ import { AllocationChart } from '@/components/portfolio/AllocationChart';
 import { AmountAllocationChart } from '@/components/portfolio/AmountAllocationChart';
 import { DataSourcePanel } from '@/components/portfolio/DataSourcePanel';
 import { PortfolioAnalytics } from '@/components/portfolio/PortfolioAnalytics';
+import { RebalancingPanel } from '@/components/portfolio/RebalancingPanel';
 import { CacheStatusBadge } from '@/components/portfolio/CacheStatusBadge';
 import { EmptyState } from '@/components/portfolio/EmptyState';
 import { AIAssistantPanel } from '@/components/portfolio/AIAssistantPanel';
 import { AIInsightsCard } from '@/components/portfolio/AIInsightsCard';
 import { MFDashboard } from '@/components/mutualfund/MFDashboard';
+import { MaturityLadderCard } from '@/components/portfolio/MaturityLadderCard';
 import { usePortfolioData } from '@/hooks/usePortfolioData';
 import { usePortfolioCache } from '@/hooks/usePortfolioCache';
 import { useKiteSession } from '@/hooks/useKiteSession';
 import { useKiteOAuthHandler } from '@/hooks/useKiteOAuthHandler';
+import { useUpstoxOAuthHandler } from '@/hooks/useUpstoxOAuthHandler';
+import { useUpstoxSession } from '@/hooks/useUpstoxSession';
 import { useSyncHealth } from '@/hooks/useSyncHealth';
 import { useAutoRefresh } from '@/hooks/useAutoRefresh';
+import { useTransactions } from '@/hooks/useTransactions';
+import { useDeposits } from '@/hooks/useDeposits';
+import { upcomingMaturities } from '@/lib/deposits';
+import { buildTaxLots, getPositionKey } from '@/lib/taxLots';
 import { 
+  enrichHolding,
+  formatCurrency,
+  formatPercent,
   calculatePortfolioSummary,
   calculateSectorAllocation,
   calculateTypeAllocation,
@@ -38,7 +49,16 @@ const Index = () => {
     lastSync,
     syncStatus,
     syncZerodha,
+    syncBroker,
     uploadINDMoneyExcel,
+    uploadGrowwStatement,
+    uploadDepositoryCAS,
+    previewINDMoneyExcel,
+    previewGrowwStatement,
+    uploadSpreadsheet,
+    previewSpreadsheet,
+    saveManualHolding,
+    deleteManualHolding,
     refetch,
   } = usePortfolioData();
 
@@ -90,6 +110,15 @@ const Index = () => {
     refetchHoldings: refetch,
   });
 
+  const { refetch: refetchUpstoxSession } = useUpstoxSession();
+  const { progress: upstoxProgress } = useUpstoxOAuthHandler({
+    onSessionReady: () => syncBroker('upstox', 'Upstox'),
+    onSwitchToHoldings: () => setActiveTab('holdings'),
+    onSwitchToSources: () => setActiveTab('sources'),
+    refetchSession: refetchUpstoxSession,
+    refetchHoldings: refetch,
+  });
+
   // Redirect new users to Data Sources tab
   useEffect(() => {
     if (!isLoading && !hasCheckedInitialState) {
@@ -97,24 +126,51 @@ const Index = () => {
       // If no holdings and not coming back from OAuth, show Data Sources tab
       if (liveHoldings.length === 0) {
         const params = new URLSearchParams(window.location.search);
-        if (!params.get('kite_connected')) {
+        if (!params.get('kite_connected') && !params.get('upstox_connected')) {
           setActiveTab('sources');
         }
       }
     }
   }, [isLoading, liveHoldings.length, hasCheckedInitialState]);
 
-  // Use live holdings
+  // Ledger transactions drive FIFO lots for realized/unrealized P&L
+  const { transactions } = useTransactions();
+
+  const taxLots = useMemo(() => buildTaxLots(transactions), [transactions]);
+
+  // Deposits are valued inside the holdings; here only for the ladder and reminders
+  const { deposits } = useDeposits();
+
+  // Remind once per visit about deposits that need renewing or closing
+  const hasRemindedMaturities = useRef(false);
+  useEffect(() => {
+    if (hasRemindedMaturities.current || deposits.length === 0) return;
+    hasRemindedMaturities.current = true;
+    const due = upcomingMaturities(deposits, 7);
+    if (due.length > 0) {
+      toast.info(
+        due.length === 1
+          ? `${due[0].deposit.bank} ${due[0].deposit.kind} ${due[0].valuation.matured ? 'has matured' : 'matures this week'}`
+          : `${due.length} deposits have matured or mature this week`
+      );
+    }
+  }, [deposits]);
+
+  // Use live holdings, re-enriched with tax lots where the ledger covers them
   const enrichedHoldings = useMemo(() => {
-    return liveHoldings;
-  }, [liveHoldings]);
+    if (taxLots.size === 0) return liveHoldings;
+    return liveHoldings.map(h => enrichHolding(h, taxLots.get(getPositionKey(h))));
+  }, [liveHoldings, taxLots]);
 
   const isLive = liveHoldings.length > 0;
 
   // Calculate portfolio summary
   const summary = useMemo(() => 
-    calculatePortfolioSummary(enrichedHoldings),
-    [enrichedHoldings]
+    calculatePortfolioSummary(
+      enrichedHoldings,
+      taxLots.size > 0 ? Array.from(taxLots.values()) : undefined
+    ),
+    [enrichedHoldings, taxLots]
   );
 
   // Calculate allocations
@@ -148,14 +204,16 @@ const Index = () => {
     enabled: true,
   });
 
-  const isProfitable = summary.totalPnl >= 0;
+  const isProfitable = summary.unrealizedPnl >= 0;
+  const isRealizedProfitable = summary.realizedPnl >= 0;
 
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background">
         <div className="container mx-auto px-4 py-8 max-w-7xl space-y-6">
           <Skeleton className="h-16 w-full" />
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <Skeleton className="h-32" />
             <Skeleton className="h-32" />
             <Skeleton className="h-32" />
             <Skeleton className="h-32" />
@@ -179,7 +237,7 @@ const Index = () => {
         </div>
 
         {/* Summary Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <StatCard
             title="Total Investment"
             value={summary.totalInvestment}
@@ -191,18 +249,27 @@ const Index = () => {
           <StatCard
             title="Current Value"
             value={summary.currentValue}
+            subtitle={summary.xirr !== undefined ? `XIRR ${formatPercent(summary.xirr)}` : undefined}
             icon={TrendingUp}
             variant="neutral"
             delay={0.15}
           />
           <StatCard
-            title="Total P&L"
-            value={summary.totalPnl}
-            percentChange={summary.pnlPercent}
+            title="Unrealized P&L"
+            value={summary.unrealizedPnl}
+            percentChange={summary.totalInvestment > 0 ? (summary.unrealizedPnl / summary.totalInvestment) * 100 : 0}
             icon={isProfitable ? PiggyBank : BarChart3}
             variant={isProfitable ? 'profit' : 'loss'}
             delay={0.2}
           />
+          <StatCard
+            title="Realized P&L"
+            value={summary.realizedPnl}
+            subtitle={`Dividends ${formatCurrency(summary.dividendIncome, true)}`}
+            icon={Receipt}
+            variant={summary.realizedPnl === 0 ? 'neutral' : isRealizedProfitable ? 'profit' : 'loss'}
+            delay={0.25}
+          />
         </div>
 
         {/* Main Content Tabs */}
@@ -264,6 +331,12 @@ const Index = () => {
                 ) : (
                   <HoldingsTable holdings={enrichedHoldings} />
                 )}
+
+                {deposits.length > 0 && (
+                  <div className="mt-6">
+                    <MaturityLadderCard deposits={deposits} />
+                  </div>
+                )}
               </>
             )}
           </TabsContent>
@@ -340,6 +413,8 @@ const Index = () => {
                     </>
                   )}
                 </div>
+
+                <RebalancingPanel holdings={enrichedHoldings} positions={taxLots} />
               </>
             )}
           </TabsContent>
@@ -368,11 +443,23 @@ const Index = () => {
           <TabsContent value="sources" className="mt-6">
             <DataSourcePanel
               onSyncZerodha={syncZerodha}
+              onSyncBroker={syncBroker}
               onUploadINDMoney={uploadINDMoneyExcel}
+              onUploadGroww={uploadGrowwStatement}
+              onUploadCAS={uploadDepositoryCAS}
+              onPreviewINDMoney={previewINDMoneyExcel}
+              onPreviewGroww={previewGrowwStatement}
+              onUploadSpreadsheet={uploadSpreadsheet}
+              onPreviewSpreadsheet={previewSpreadsheet}
+              onSaveManualHolding={saveManualHolding}
+              onDeleteManualHolding={deleteManualHolding}
+              onDepositsChanged={refetch}
               isSyncing={isSyncing}
               syncStatus={syncStatus}
               lastSync={lastSync}
               syncProgress={oauthProgress}
+              upstoxProgress={upstoxProgress}
+              holdings={liveHoldings}
             />
           </TabsContent>
         </Tabs>
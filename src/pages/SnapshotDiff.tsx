@@ -0,0 +1,321 @@
+import { useState, useMemo, useEffect } from 'react';
+import { ArrowLeft, GitCompare, AlertTriangle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { UserMenu } from '@/components/portfolio/UserMenu';
+import { useSnapshotDates, useSnapshotHoldings } from '@/hooks/useSnapshotHoldings';
+import { buildSnapshotDiff } from '@/lib/snapshotDiff';
+import { formatCurrency, formatNumber } from '@/lib/portfolioUtils';
+import { MixDimension, PositionChange } from '@/types/snapshotDiff';
+import { cn } from '@/lib/utils';
+
+const CHANGE_LABELS: Record<PositionChange, string> = {
+  opened: 'Opened',
+  closed: 'Closed',
+  increased: 'Increased',
+  reduced: 'Reduced',
+  unchanged: 'Unchanged',
+};
+
+const CHANGE_STYLES: Record<PositionChange, string> = {
+  opened: 'border-profit/30 text-profit',
+  increased: 'border-profit/30 text-profit',
+  closed: 'border-loss/30 text-loss',
+  reduced: 'border-loss/30 text-loss',
+  unchanged: 'text-muted-foreground',
+};
+
+const MIX_LABELS: Record<MixDimension, string> = {
+  type: 'Asset Type',
+  sector: 'Sector',
+  source: 'Source',
+};
+
+// Default comparison window when the page opens
+const DEFAULT_LOOKBACK_DAYS = 7;
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function SignedCurrency({ value }: { value?: number }) {
+  if (value === undefined) return <span className="text-muted-foreground">-</span>;
+  return (
+    <span className={value >= 0 ? 'text-profit' : 'text-loss'}>
+      {value >= 0 ? '+' : ''}{formatCurrency(value, true)}
+    </span>
+  );
+}
+
+export default function SnapshotDiff() {
+  const { snapshots, isLoading: isLoadingDates } = useSnapshotDates();
+  const [fromId, setFromId] = useState<string>();
+  const [toId, setToId] = useState<string>();
+  const [changeFilter, setChangeFilter] = useState<PositionChange | 'all'>('all');
+
+  // Default to the latest snapshot against the one about a week earlier
+  useEffect(() => {
+    if (snapshots.length === 0 || (fromId && toId)) return;
+    const latest = snapshots[snapshots.length - 1];
+    const cutoff = new Date(latest.snapshot_date);
+    cutoff.setDate(cutoff.getDate() - DEFAULT_LOOKBACK_DAYS);
+    const earlier = [...snapshots].reverse().find(s => new Date(s.snapshot_date) <= cutoff) || snapshots[0];
+    setFromId(earlier.id);
+    setToId(latest.id);
+  }, [snapshots, fromId, toId]);
+
+  const fromSnapshot = snapshots.find(s => s.id === fromId);
+  const toSnapshot = snapshots.find(s => s.id === toId);
+  const { holdings: fromHoldings, isLoading: isLoadingFrom } = useSnapshotHoldings(fromId);
+  const { holdings: toHoldings, isLoading: isLoadingTo } = useSnapshotHoldings(toId);
+
+  const diff = useMemo(() => {
+    if (!fromSnapshot || !toSnapshot) return null;
+    return buildSnapshotDiff(fromSnapshot.snapshot_date, fromHoldings, toSnapshot.snapshot_date, toHoldings);
+  }, [fromSnapshot, toSnapshot, fromHoldings, toHoldings]);
+
+  const visibleHoldings = useMemo(
+    () => (diff?.holdings || []).filter(h => changeFilter === 'all' || h.change === changeFilter),
+    [diff, changeFilter]
+  );
+
+  const isLoading = isLoadingDates || isLoadingFrom || isLoadingTo;
+  const missingDetail = !isLoading && diff !== null && (fromHoldings.length === 0 || toHoldings.length === 0);
+
+  const renderDateSelect = (value: string | undefined, onChange: (id: string) => void, label: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[150px]">
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        {[...snapshots].reverse().map(s => (
+          <SelectItem key={s.id} value={s.id}>{formatDate(s.snapshot_date)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-4">
+            <Link to="/">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Snapshot Diff</h1>
+              <p className="text-muted-foreground text-sm">What changed in your portfolio between two captured dates</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            {renderDateSelect(fromId, setFromId, 'From')}
+            <span className="text-muted-foreground text-sm">→</span>
+            {renderDateSelect(toId, setToId, 'To')}
+            <UserMenu />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-24" />)}
+          </div>
+        ) : !diff ? (
+          <Card className="bg-card/50">
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Capture at least two snapshots to compare them
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {missingDetail && (
+              <div className="flex items-center gap-2 text-sm text-yellow-500">
+                <AlertTriangle className="h-4 w-4" />
+                One of these snapshots has no per-holding detail. Rebuild it from the Holdings on Date card in Analytics.
+              </div>
+            )}
+
+            {/* Summary Cards */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Card className="bg-card/50">
+                <CardContent className="p-4">
+                  <p className="text-muted-foreground text-sm">Value Change</p>
+                  <p className="text-2xl font-bold font-mono-numbers"><SignedCurrency value={diff.valueChange} /></p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatCurrency(diff.fromValue, true)} → {formatCurrency(diff.toValue, true)}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card className="bg-card/50">
+                <CardContent className="p-4">
+                  <p className="text-muted-foreground text-sm">Price Effect</p>
+                  <p className="text-2xl font-bold font-mono-numbers"><SignedCurrency value={diff.priceEffect} /></p>
+                  <p className="text-xs text-muted-foreground mt-1">Market moves on units already held</p>
+                </CardContent>
+              </Card>
+              <Card className="bg-card/50">
+                <CardContent className="p-4">
+                  <p className="text-muted-foreground text-sm">Quantity Effect</p>
+                  <p className="text-2xl font-bold font-mono-numbers"><SignedCurrency value={diff.quantityEffect} /></p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Buys and sells{diff.unpricedCount > 0 ? ` · ${diff.unpricedCount} unpriced` : ''}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card className="bg-card/50">
+                <CardContent className="p-4">
+                  <p className="text-muted-foreground text-sm">Positions</p>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {(['opened', 'closed', 'increased', 'reduced'] as PositionChange[]).map(change => (
+                      <Badge key={change} variant="outline" className={CHANGE_STYLES[change]}>
+                        {diff.counts[change]} {CHANGE_LABELS[change].toLowerCase()}
+                      </Badge>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Mix changes */}
+            <Card className="bg-card/50">
+              <CardHeader>
+                <CardTitle>Mix Changes</CardTitle>
+                <CardDescription>Change in portfolio weight, in percentage points</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="type">
+                  <TabsList>
+                    {(Object.keys(MIX_LABELS) as MixDimension[]).map(d => (
+                      <TabsTrigger key={d} value={d}>{MIX_LABELS[d]}</TabsTrigger>
+                    ))}
+                  </TabsList>
+                  {(Object.keys(MIX_LABELS) as MixDimension[]).map(d => (
+                    <TabsContent key={d} value={d} className="mt-4">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>{MIX_LABELS[d]}</TableHead>
+                            <TableHead className="text-right">{formatDate(diff.fromDate)}</TableHead>
+                            <TableHead className="text-right">{formatDate(diff.toDate)}</TableHead>
+                            <TableHead className="text-right">Change</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {diff.mix[d].map(row => (
+                            <TableRow key={row.key}>
+                              <TableCell className="font-medium">{row.key}</TableCell>
+                              <TableCell className="text-right font-mono-numbers">{formatNumber(row.fromPercent)}%</TableCell>
+                              <TableCell className="text-right font-mono-numbers">{formatNumber(row.toPercent)}%</TableCell>
+                              <TableCell className={cn(
+                                'text-right font-mono-numbers',
+                                row.change > 0 ? 'text-profit' : row.change < 0 ? 'text-loss' : 'text-muted-foreground'
+                              )}>
+                                {row.change > 0 ? '+' : ''}{formatNumber(row.change)} pp
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              </CardContent>
+            </Card>
+
+            {/* Holding changes */}
+            <Card className="bg-card/50">
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <GitCompare className="h-5 w-5 text-primary" />
+                      Holdings
+                    </CardTitle>
+                    <CardDescription className="mt-1">
+                      Price effect = old units × price move · Quantity effect = units traded × new price
+                    </CardDescription>
+                  </div>
+                  <Select value={changeFilter} onValueChange={value => setChangeFilter(value as PositionChange | 'all')}>
+                    <SelectTrigger className="w-[140px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All changes</SelectItem>
+                      {(Object.keys(CHANGE_LABELS) as PositionChange[]).map(change => (
+                        <SelectItem key={change} value={change}>{CHANGE_LABELS[change]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border border-border/50 overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/30 hover:bg-muted/30">
+                        <TableHead className="font-semibold">Holding</TableHead>
+                        <TableHead className="font-semibold">Change</TableHead>
+                        <TableHead className="text-right font-semibold">Qty</TableHead>
+                        <TableHead className="text-right font-semibold">Price</TableHead>
+                        <TableHead className="text-right font-semibold">Value Change</TableHead>
+                        <TableHead className="text-right font-semibold">Price Effect</TableHead>
+                        <TableHead className="text-right font-semibold">Qty Effect</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleHoldings.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                            No holdings match this filter
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        visibleHoldings.map(h => (
+                          <TableRow key={h.key}>
+                            <TableCell>
+                              <div className="font-medium">{h.symbol}</div>
+                              <div className="text-xs text-muted-foreground">{h.source}</div>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className={CHANGE_STYLES[h.change]}>
+                                {CHANGE_LABELS[h.change]}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right font-mono-numbers text-xs">
+                              {formatNumber(h.fromQuantity, 3)} → {formatNumber(h.toQuantity, 3)}
+                            </TableCell>
+                            <TableCell className="text-right font-mono-numbers text-xs">
+                              {h.fromPrice !== undefined ? formatCurrency(h.fromPrice) : '-'} → {h.toPrice !== undefined ? formatCurrency(h.toPrice) : '-'}
+                            </TableCell>
+                            <TableCell className="text-right font-mono-numbers"><SignedCurrency value={h.valueChange} /></TableCell>
+                            <TableCell className="text-right font-mono-numbers"><SignedCurrency value={h.priceEffect} /></TableCell>
+                            <TableCell className="text-right font-mono-numbers"><SignedCurrency value={h.quantityEffect} /></TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
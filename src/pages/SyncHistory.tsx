@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { UserMenu } from '@/components/portfolio/UserMenu';
+import { ImportHistoryCard } from '@/components/portfolio/ImportHistoryCard';
 import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
 
@@ -166,6 +167,8 @@ export default function SyncHistory() {
           </Card>
         </div>
 
+        <ImportHistoryCard onRestored={fetchLogs} />
+
         {/* Filter Tabs */}
         <div className="flex gap-2 mb-4">
           <Button
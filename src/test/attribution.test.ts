@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { attributeChange, OTHER_CONTRIBUTION_KEY, slicesFromSourceDetails } from "@/lib/attribution";
+import { AttributionSlice } from "@/types/performance";
+
+function slice(key: string, value: number, investment: number): AttributionSlice {
+  return { key, label: key, value, investment };
+}
+
+function totalGainPaise(gains: number[]): number {
+  return gains.reduce((sum, g) => sum + Math.round(g * 100), 0);
+}
+
+describe("attributeChange", () => {
+  it("separates money added from market gain per group", () => {
+    const attribution = attributeChange(
+      [slice("Equity", 1000, 800), slice("Mutual Fund", 500, 500)],
+      [slice("Equity", 1300, 900), slice("Mutual Fund", 480, 500)]
+    );
+    expect(attribution.netInvested).toBeCloseTo(100);
+    expect(attribution.gain).toBeCloseTo(180);
+    expect(attribution.contributions.find(c => c.key === "Equity")?.gain).toBeCloseTo(200);
+    expect(attribution.contributions.find(c => c.key === "Mutual Fund")?.gain).toBeCloseTo(-20);
+  });
+
+  it("sums contributions to the portfolio gain to the paisa", () => {
+    const attribution = attributeChange(
+      [slice("A", 100.1, 100), slice("B", 200.2, 200), slice("C", 0.3, 0.1)],
+      [slice("A", 110.7, 100), slice("B", 190.05, 210), slice("C", 0.29, 0.1)]
+    );
+    expect(totalGainPaise(attribution.contributions.map(c => c.gain))).toBe(Math.round(attribution.gain * 100));
+  });
+
+  it("folds small contributors and unexplained totals into Other", () => {
+    const attribution = attributeChange(
+      [slice("A", 100, 100), slice("B", 100, 100), slice("C", 100, 100)],
+      [slice("A", 150, 100), slice("B", 90, 100), slice("C", 101, 100)],
+      {
+        limit: 2,
+        otherLabel: "Other holdings",
+        // An unpriced holding worth 50 more at the end isn't in the slices
+        totals: { start: { value: 300, investment: 300 }, end: { value: 391, investment: 300 } },
+      }
+    );
+    const other = attribution.contributions.find(c => c.key === OTHER_CONTRIBUTION_KEY);
+    expect(attribution.contributions).toHaveLength(3);
+    expect(other?.label).toBe("Other holdings");
+    expect(other?.gain).toBeCloseTo(51);
+    expect(attribution.gain).toBeCloseTo(91);
+  });
+});
+
+describe("slicesFromSourceDetails", () => {
+  it("groups rows by source or asset type", () => {
+    const details = [
+      { source: "Zerodha", asset_type: "Equity", current_value: 100, total_investment: 90 },
+      { source: "Zerodha", asset_type: "ETF", current_value: 50, total_investment: 40 },
+    ];
+    const attribution = attributeChange(slicesFromSourceDetails(details, "source"), []);
+    expect(attribution.contributions[0]).toMatchObject({ key: "Zerodha", startValue: 150 });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseBenchmarkCsv,
+  getCloseOn,
+  simulateBenchmarkValues,
+  compareWithBenchmark,
+} from "@/lib/benchmark";
+import { buildContributionSeries } from "@/lib/performance";
+
+describe("parseBenchmarkCsv", () => {
+  it("reads NSE-style downloads with quoted numbers and named months", () => {
+    const prices = parseBenchmarkCsv(
+      'Date,Open,High,Low,Close\n"02-Jan-2024","21,700.00","21,755.60","21,555.65","21,665.80"\n01-Jan-2024,21727.75,21834.35,21680.85,21741.90\n'
+    );
+
+    expect(prices).toEqual([
+      { date: "2024-01-01", close: 21741.9 },
+      { date: "2024-01-02", close: 21665.8 },
+    ]);
+  });
+
+  it("rejects files without a close column", () => {
+    expect(() => parseBenchmarkCsv("Date,Open\n2024-01-01,1\n")).toThrow();
+  });
+});
+
+describe("benchmark simulation", () => {
+  const prices = [
+    { date: "2024-01-01", close: 100 },
+    { date: "2024-01-05", close: 110 },
+    { date: "2024-01-10", close: 121 },
+  ];
+
+  it("uses the last close on or before a date", () => {
+    expect(getCloseOn(prices, "2024-01-07")).toBe(110);
+    expect(getCloseOn(prices, "2023-12-31")).toBeUndefined();
+  });
+
+  it("invests the same cashflows into the index", () => {
+    const series = buildContributionSeries([
+      { snapshot_date: "2024-01-01", current_value: 1000, total_investment: 1000 },
+      { snapshot_date: "2024-01-05", current_value: 2100, total_investment: 2000 },
+      { snapshot_date: "2024-01-10", current_value: 2200, total_investment: 2000 },
+    ]);
+
+    const values = simulateBenchmarkValues(series, prices);
+    expect(values[1]).toBeCloseTo(2100);
+    expect(values[2]).toBeCloseTo(2310);
+
+    const comparison = compareWithBenchmark(series, prices, "NIFTY 50", "Nifty 50");
+    expect(comparison?.benchmarkReturn).toBeCloseTo(21);
+    expect(comparison?.trackingDifference).toBeCloseTo(comparison!.portfolioTwr - 21);
+    expect(comparison?.beta).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyGains,
+  summarizeCapitalGains,
+  getFinancialYear,
+  buildSchedule112ACsv,
+  SCHEDULE_112A_COLUMNS,
+} from "@/lib/capitalGains";
+import { RealizedLot } from "@/types/transaction";
+
+const lot = (overrides: Partial<RealizedLot>): RealizedLot => ({
+  key: "INE009A01021",
+  symbol: "INFY",
+  isin: "INE009A01021",
+  name: "Infosys",
+  source: "Zerodha",
+  assetType: "Equity",
+  acquiredOn: "2022-01-10",
+  soldOn: "2023-06-01",
+  quantity: 10,
+  costPerUnit: 100,
+  costBasis: 1000,
+  salePricePerUnit: 150,
+  proceeds: 1500,
+  gain: 500,
+  holdingDays: 507,
+  ...overrides,
+});
+
+describe("getFinancialYear", () => {
+  it("starts the year in April", () => {
+    expect(getFinancialYear("2024-03-31")).toBe("2023-24");
+    expect(getFinancialYear("2024-04-01")).toBe("2024-25");
+  });
+});
+
+describe("classifyGains", () => {
+  it("uses the 12-month rule for listed equity", () => {
+    const [shortTerm, longTerm] = classifyGains([
+      lot({ acquiredOn: "2023-01-10", soldOn: "2024-01-10" }),
+      lot({ acquiredOn: "2023-01-10", soldOn: "2024-01-11" }),
+    ]);
+
+    expect(shortTerm).toMatchObject({ term: "short", section: "111A", taxRate: 0.15 });
+    expect(longTerm).toMatchObject({ term: "long", section: "112A", taxRate: 0.10 });
+  });
+
+  it("applies the post-July-2024 rates", () => {
+    const [gain] = classifyGains([lot({ acquiredOn: "2024-01-01", soldOn: "2024-08-01" })]);
+    expect(gain.taxRate).toBe(0.20);
+  });
+
+  it("taxes debt funds bought after April 2023 at slab rates", () => {
+    const [gain] = classifyGains([
+      lot({ assetType: "Mutual Fund", name: "HDFC Liquid Fund", acquiredOn: "2023-05-01", soldOn: "2026-06-01" }),
+    ]);
+    expect(gain).toMatchObject({ assetClass: "debt", section: "slab", taxRate: null });
+  });
+
+  it("exempts SGBs only when RBI redeems them", () => {
+    const sgb = { assetType: "SGB" as const, name: "SGB 2016-17 Series I", acquiredOn: "2016-08-05", soldOn: "2024-08-05" };
+    const [redeemed, soldOnExchange] = classifyGains([
+      lot({ ...sgb, redemption: true }),
+      lot(sgb),
+    ]);
+
+    expect(redeemed).toMatchObject({ section: "exempt", taxableGain: 0 });
+    expect(soldOnExchange).toMatchObject({ term: "long", section: "112", taxableGain: 500, taxRate: 0.125 });
+  });
+
+  it("grandfathers cost at the 31-Jan-2018 FMV", () => {
+    const fmv = new Map([["INE009A01021", 120]]);
+    const [raised, capped, missing] = classifyGains([
+      lot({ acquiredOn: "2017-05-01" }),
+      lot({ acquiredOn: "2017-05-01", salePricePerUnit: 110, proceeds: 1100 }),
+      lot({ acquiredOn: "2017-05-01", isin: "INE467B01029" }),
+    ], fmv);
+
+    expect(raised.taxCost).toBe(1200);
+    expect(raised.taxableGain).toBe(300);
+    expect(capped.taxCost).toBe(1100);
+    expect(capped.taxableGain).toBe(0);
+    expect(missing).toMatchObject({ fmvMissing: true, taxCost: 1000 });
+  });
+});
+
+describe("summarizeCapitalGains", () => {
+  it("sets the 112A exemption off before estimating tax", () => {
+    const gains = classifyGains([
+      lot({ soldOn: "2024-09-01", costBasis: 100000, proceeds: 300000, salePricePerUnit: 30000 }),
+      lot({ acquiredOn: "2024-06-01", soldOn: "2024-09-01", costBasis: 1000, proceeds: 2000 }),
+    ]);
+    const summary = summarizeCapitalGains(gains, "2024-25");
+
+    expect(summary.ltcg112A).toBe(200000);
+    expect(summary.ltcg112AExemption).toBe(125000);
+    expect(summary.ltcg112ATaxable).toBe(75000);
+    expect(summary.stcg111A).toBe(1000);
+    expect(summary.estimatedTax).toBeCloseTo(75000 * 0.125 + 1000 * 0.20);
+  });
+});
+
+describe("buildSchedule112ACsv", () => {
+  it("exports only 112A rows for the year", () => {
+    const gains = classifyGains([
+      lot({ acquiredOn: "2017-05-01" }),
+      lot({ acquiredOn: "2023-01-01", soldOn: "2023-06-01" }),
+    ]);
+    const lines = buildSchedule112ACsv(gains, "2023-24").split("\n");
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0].startsWith(SCHEDULE_112A_COLUMNS[0])).toBe(true);
+    expect(lines[0]).toContain('"If the long term capital asset was acquired before 01.02.2018, Lower of 6 & 11 (9)"');
+    expect(lines[1].startsWith("BE,INE009A01021,Infosys,10,150,1500,1000,1000,0,0,0,0,1000,500")).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import {
+  columnLetter,
+  detectHeaderRow,
+  findMatchingTemplate,
+  headerSignature,
+  normalizeHeader,
+  proposeColumnMap,
+  sourceLabelError,
+  validateColumnMap,
+} from "@/lib/columnMapping";
+import { ImportTemplate } from "@/types/columnMapping";
+
+const HEADER = ["Instrument", "Qty.", "Avg. Cost (₹)", "LTP", "Cur. val", "P&L", "Net chg."];
+
+const ROWS: unknown[][] = [
+  ["Holdings statement as on 31-01-2026"],
+  ["Client ID", "AB1234"],
+  [],
+  HEADER,
+  ["INFY", 10, 1450.5, 1600, 16000, 1495, "1.2%"],
+];
+
+function template(overrides: Partial<ImportTemplate>): ImportTemplate {
+  return {
+    id: "t1",
+    name: "Kite holdings",
+    headerSignature: headerSignature(HEADER),
+    sheetName: null,
+    columns: proposeColumnMap(HEADER),
+    source: "Kite CSV",
+    broker: null,
+    defaultType: "Equity",
+    updatedAt: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("normalizeHeader", () => {
+  it("drops punctuation, bracketed units and case", () => {
+    expect(normalizeHeader("Avg. Cost (₹)")).toBe("avg cost");
+    expect(normalizeHeader("  XIRR (%) ")).toBe("xirr");
+    expect(normalizeHeader(undefined)).toBe("");
+  });
+});
+
+describe("proposeColumnMap", () => {
+  it("maps abbreviated headers the substring heuristics missed", () => {
+    const map = proposeColumnMap(HEADER);
+
+    expect(map.name).toBe(0);
+    expect(map.quantity).toBe(1);
+    expect(map.avgPrice).toBe(2);
+    expect(map.ltp).toBe(3);
+    expect(map.marketValue).toBe(4);
+    expect(map.isin).toBe(-1);
+  });
+
+  it("prefers exact headers and never reuses a column", () => {
+    const map = proposeColumnMap(["Scheme Name", "Units", "Invested Value", "Current Value", "XIRR (%)", "Total Buy Value"]);
+
+    expect(map.name).toBe(0);
+    expect(map.quantity).toBe(1);
+    expect(map.investedAmount).toBe(2);
+    expect(map.marketValue).toBe(3);
+    expect(map.xirr).toBe(4);
+    expect(new Set(Object.values(map).filter(i => i >= 0)).size).toBe(5);
+  });
+});
+
+describe("detectHeaderRow", () => {
+  it("skips the account details above the table", () => {
+    expect(detectHeaderRow(ROWS)).toBe(3);
+  });
+
+  it("returns -1 when nothing looks like a header", () => {
+    expect(detectHeaderRow([["Report"], ["foo", "bar"]])).toBe(-1);
+  });
+});
+
+describe("findMatchingTemplate", () => {
+  it("finds the header row of a saved layout", () => {
+    const match = findMatchingTemplate(ROWS, [template({})]);
+
+    expect(match?.template.id).toBe("t1");
+    expect(match?.headerRow).toBe(3);
+  });
+
+  it("ignores trailing blank header cells and picks the newest template", () => {
+    const rows = [[...HEADER, "", ""]];
+    const match = findMatchingTemplate(rows, [
+      template({ id: "old" }),
+      template({ id: "new", updatedAt: "2026-02-01T00:00:00Z" }),
+    ]);
+
+    expect(match?.template.id).toBe("new");
+  });
+
+  it("does not apply a template saved for another sheet", () => {
+    expect(findMatchingTemplate(ROWS, [template({ sheetName: "Equity" })], "Mutual Funds")).toBeNull();
+  });
+});
+
+describe("validateColumnMap", () => {
+  it("requires name, quantity and a cost column", () => {
+    const errors = validateColumnMap({ ...proposeColumnMap(HEADER), avgPrice: -1, name: -1 });
+
+    expect(errors).toContain("Choose the column with the holding name");
+    expect(errors).toContain("Choose an average price or invested amount column");
+  });
+
+  it("rejects a column used twice", () => {
+    expect(validateColumnMap({ ...proposeColumnMap(HEADER), symbol: 0 })).toContain(
+      "Each column can only be used for one field"
+    );
+  });
+});
+
+describe("sourceLabelError", () => {
+  it("keeps imports away from manual, broker and statement sources", () => {
+    expect(sourceLabelError(" manual ")).toBe('"manual" is reserved for holdings added by hand');
+    expect(sourceLabelError("zerodha")).toBe('"zerodha" holdings come from its own import or sync');
+    expect(sourceLabelError("Angel One")).not.toBeNull();
+    expect(sourceLabelError("Groww")).not.toBeNull();
+    expect(sourceLabelError("CAS")).not.toBeNull();
+  });
+
+  it("accepts any other label", () => {
+    expect(sourceLabelError("HDFC Bank")).toBeNull();
+  });
+});
+
+describe("columnLetter", () => {
+  it("names columns like a spreadsheet", () => {
+    expect(columnLetter(0)).toBe("A");
+    expect(columnLetter(25)).toBe("Z");
+    expect(columnLetter(26)).toBe("AA");
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+  addMonths,
+  applyDepositValuations,
+  buildMaturityLadder,
+  instalmentDates,
+  upcomingMaturities,
+  validateDeposit,
+  valueDeposit,
+} from "@/lib/deposits";
+import { Deposit } from "@/types/deposit";
+import { Holding } from "@/types/portfolio";
+
+function deposit(overrides: Partial<Deposit>): Deposit {
+  return {
+    id: "d1",
+    holdingId: "h1",
+    kind: "FD",
+    bank: "HDFC Bank",
+    name: "",
+    principal: 100000,
+    interestRate: 7,
+    compounding: "quarterly",
+    payout: "cumulative",
+    startDate: "2025-01-01",
+    maturityDate: "2026-01-01",
+    tdsRate: 0,
+    ...overrides,
+  };
+}
+
+const at = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe("addMonths", () => {
+  it("clamps to the end of shorter months", () => {
+    expect(addMonths("2025-01-31", 1)).toBe("2025-02-28");
+    expect(addMonths("2025-11-15", 3)).toBe("2026-02-15");
+  });
+});
+
+describe("valueDeposit", () => {
+  it("compounds a cumulative FD and deducts TDS from the interest", () => {
+    const gross = valueDeposit(deposit({}), at("2026-01-01"));
+    const net = valueDeposit(deposit({ tdsRate: 10 }), at("2026-01-01"));
+
+    expect(gross.currentValue).toBeCloseTo(107185.9, 1);
+    expect(net.tds).toBeCloseTo(718.59, 1);
+    expect(net.currentValue).toBeCloseTo(106467.31, 1);
+    expect(net.matured).toBe(true);
+  });
+
+  it("accrues daily between compounding dates", () => {
+    const before = valueDeposit(deposit({}), at("2025-02-10"));
+    const after = valueDeposit(deposit({}), at("2025-02-11"));
+
+    expect(after.currentValue).toBeGreaterThan(before.currentValue);
+    expect(before.daysToMaturity).toBe(325);
+  });
+
+  it("keeps only interest since the last payout in a payout FD", () => {
+    const value = valueDeposit(
+      deposit({ interestRate: 8, payout: "quarterly", maturityDate: "2027-01-01" }),
+      at("2025-05-01")
+    );
+
+    expect(value.interestPaidOut).toBe(2000);
+    expect(value.interestAccrued).toBeCloseTo(657.53, 2);
+    expect(value.currentValue).toBeCloseTo(100657.53, 2);
+    expect(value.maturityValue).toBe(100000);
+  });
+
+  it("counts RD instalments paid so far", () => {
+    const rd = deposit({ kind: "RD", principal: 1000, startDate: "2025-01-15", maturityDate: "2026-01-15" });
+    const value = valueDeposit(rd, at("2025-03-20"));
+
+    expect(instalmentDates(rd)).toHaveLength(12);
+    expect(value.invested).toBe(3000);
+    expect(value.currentValue).toBeGreaterThan(3000);
+    expect(value.maturityValue).toBeGreaterThan(12000);
+  });
+});
+
+describe("validateDeposit", () => {
+  it("rejects inconsistent terms", () => {
+    const errors = validateDeposit(deposit({ kind: "RD", payout: "monthly", maturityDate: "2024-12-01", bank: " " }));
+
+    expect(errors).toContain("Bank is required");
+    expect(errors).toContain("Maturity date must be after the start date");
+    expect(errors).toContain("Recurring deposits pay out at maturity");
+  });
+});
+
+describe("applyDepositValuations", () => {
+  it("revalues only deposit-backed holdings", () => {
+    const holdings = [
+      { id: "h1", avgPrice: 100000, ltp: 100000, quantity: 1 },
+      { id: "h2", avgPrice: 50, ltp: 60, quantity: 3 },
+    ] as Holding[];
+    const [fd, other] = applyDepositValuations(holdings, [deposit({})], at("2025-07-01"));
+
+    expect(fd.ltp).toBeGreaterThan(103000);
+    expect(other).toBe(holdings[1]);
+  });
+});
+
+describe("maturities", () => {
+  const deposits = [
+    deposit({ id: "a", maturityDate: "2026-06-30" }),
+    deposit({ id: "b", maturityDate: "2026-04-10" }),
+    deposit({ id: "c", maturityDate: "2026-01-01" }),
+    deposit({ id: "d", maturityDate: "2027-02-01" }),
+  ];
+
+  it("buckets open deposits by quarter", () => {
+    const ladder = buildMaturityLadder(deposits, at("2026-03-25"));
+
+    expect(ladder.map(b => b.label)).toEqual(["Apr–Jun 2026", "Jan–Mar 2027"]);
+    expect(ladder[0].deposits.map(d => d.id)).toEqual(["b", "a"]);
+  });
+
+  it("reminds about matured and soon-maturing deposits", () => {
+    const due = upcomingMaturities(deposits, 30, at("2026-03-25"));
+
+    expect(due.map(d => d.deposit.id)).toEqual(["c", "b"]);
+    expect(due[1].valuation.daysToMaturity).toBe(16);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildFmvTable,
+  formatFmvTable,
+  parseAdjustments,
+  parseAmfiNav,
+  parseBhavcopyDate,
+  parseBseBhavcopy,
+  parseNseBhavcopy,
+} from "@/lib/fmvTable";
+import { parseFmvTable, FMV_31_JAN_2018 } from "@/lib/capitalGains";
+
+const NSE = [
+  "SYMBOL,SERIES,OPEN,HIGH,LOW,CLOSE,LAST,PREVCLOSE,TOTTRDQTY,TOTTRDVAL,TIMESTAMP,TOTALTRADES,ISIN,",
+  "INFY,EQ,1150,1170.35,1140,1165,1166,1148,100,116500,31-JAN-2018,50,INE009A01021,",
+  "ILLIQUID,BE,10,12,9,11,11,10,5,55,30-JAN-2018,2,INE000X01011,",
+].join("\n");
+
+const BSE = [
+  "SC_CODE,SC_NAME,SC_GROUP,SC_TYPE,OPEN,HIGH,LOW,CLOSE,LAST,PREVCLOSE,NO_TRADES,NO_OF_SHRS,NET_TURNOV,TDCLOINDI,ISIN_CODE,TRADING_DATE,FILLER2,FILLER3",
+  "500209,INFOSYS LTD,A ,Q,1151,1172.00,1141,1164,1164,1149,40,1000,1164000,,INE009A01021,31-Jan-18,,",
+].join("\n");
+
+const NAV = [
+  "Scheme Code;Scheme Name;ISIN Div Payout/ISIN Growth;ISIN Div Reinvestment;Net Asset Value;Repurchase Price;Sale Price;Date",
+  "",
+  "Open Ended Schemes ( Equity Scheme - Large Cap Fund )",
+  "100033;Sample Bluechip Fund - Growth;INF209K01BR9;-;45.6789;;;31-Jan-2018",
+  "100034;Sample Bluechip Fund - Growth;INF209K01BS7;-;40.1;;;30-Jan-2018",
+].join("\n");
+
+describe("parseBhavcopyDate", () => {
+  it("reads NSE, BSE and AMFI date formats", () => {
+    expect(parseBhavcopyDate("31-JAN-2018")).toBe("2018-01-31");
+    expect(parseBhavcopyDate("31-Jan-18")).toBe("2018-01-31");
+    expect(parseBhavcopyDate("2018-01-31")).toBeNull();
+  });
+});
+
+describe("buildFmvTable", () => {
+  it("takes the highest price across exchanges on 31-Jan-2018", () => {
+    const rows = buildFmvTable([...parseNseBhavcopy(NSE), ...parseBseBhavcopy(BSE)]);
+    expect(rows.find(r => r.isin === "INE009A01021")?.fmv).toBe(1172);
+  });
+
+  it("falls back to the last earlier trading day", () => {
+    const rows = buildFmvTable(parseNseBhavcopy(NSE));
+    expect(rows.find(r => r.isin === "INE000X01011")?.fmv).toBe(12);
+  });
+
+  it("uses the 31-Jan-2018 NAV for fund units", () => {
+    const rows = buildFmvTable([], parseAmfiNav(NAV));
+    expect(rows).toEqual([{ isin: "INF209K01BR9", symbol: "Sample Bluechip Fund - Growth", fmv: 45.6789 }]);
+  });
+
+  it("adjusts for later splits and bonuses", () => {
+    const rows = buildFmvTable(parseNseBhavcopy(NSE), [], parseAdjustments("# isin,factor\nINE009A01021,2\nINE009A01021,2"));
+    expect(rows.find(r => r.isin === "INE009A01021")?.fmv).toBe(292.5875);
+  });
+
+  it("writes a table the capital gains report can load", () => {
+    const csv = formatFmvTable(buildFmvTable(parseNseBhavcopy(NSE)), ["Fixture"]);
+    expect(parseFmvTable(csv).get("INE009A01021")).toBe(1170.35);
+  });
+});
+
+describe("bundled FMV table", () => {
+  // Skipped until the table is generated from the 31-Jan-2018 price files
+  it.skipIf(FMV_31_JAN_2018.size === 0)("has Infosys", () => {
+    expect(FMV_31_JAN_2018.get("INE009A01021")).toBeGreaterThan(0);
+  });
+});
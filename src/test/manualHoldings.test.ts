@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildManualHoldingRow,
+  isReservedSource,
+  manualHoldingToInput,
+  manualSymbol,
+  validateManualHolding,
+} from "@/lib/manualHoldings";
+import { ManualHoldingInput } from "@/types/manualHolding";
+import { Holding } from "@/types/portfolio";
+
+function input(overrides: Partial<ManualHoldingInput>): ManualHoldingInput {
+  return {
+    kind: "gold",
+    name: "Gold coins",
+    quantity: 20,
+    avgPrice: 5200,
+    ltp: 7400,
+    sector: "Commodity",
+    broker: "",
+    isin: "",
+    ...overrides,
+  };
+}
+
+describe("manualSymbol", () => {
+  it("slugs the name and avoids symbols already held", () => {
+    expect(manualSymbol("Acme Robotics Pvt. Ltd.", [])).toBe("MANUAL-ACME-ROBOTICS-PVT-LTD");
+    expect(manualSymbol("Gold coins", ["MANUAL-GOLD-COINS", "MANUAL-GOLD-COINS-2"])).toBe("MANUAL-GOLD-COINS-3");
+    expect(manualSymbol("₹ ₹", [])).toBe("MANUAL-ASSET");
+  });
+});
+
+describe("validateManualHolding", () => {
+  it("accepts a complete entry", () => {
+    expect(validateManualHolding(input({}))).toEqual([]);
+  });
+
+  it("requires a weight for gold and a platform for P2P", () => {
+    expect(validateManualHolding(input({ quantity: 0 }))).toContain("Weight (grams) must be more than zero");
+    expect(validateManualHolding(input({ kind: "p2p", quantity: 1 }))).toContain("Platform is required");
+  });
+
+  it("rejects negative amounts and malformed ISINs", () => {
+    const errors = validateManualHolding(input({ kind: "unlisted", ltp: -1, isin: "INE12" }));
+
+    expect(errors).toContain("Amounts cannot be negative");
+    expect(errors).toContain("ISIN should be 12 characters, e.g. INE0ABC01234");
+  });
+});
+
+describe("buildManualHoldingRow", () => {
+  it("stores amount-valued kinds as a single unit", () => {
+    const row = buildManualHoldingRow(
+      input({ kind: "p2p", name: " Faircent loans ", quantity: 5, avgPrice: 100000, ltp: 108000, sector: "", broker: "Faircent" }),
+      "MANUAL-FAIRCENT-LOANS"
+    );
+
+    expect(row).toMatchObject({
+      name: "Faircent loans",
+      type: "P2P",
+      sector: "Finance",
+      quantity: 1,
+      avg_price: 100000,
+      source: "Manual",
+      broker: "Faircent",
+      isin: null,
+    });
+  });
+});
+
+describe("manualHoldingToInput", () => {
+  it("round-trips an amount-valued holding as totals", () => {
+    const holding: Holding = {
+      id: "h1",
+      symbol: "MANUAL-ART",
+      name: "Painting",
+      type: "Other",
+      sector: "Other",
+      quantity: 2,
+      avgPrice: 50000,
+      ltp: 60000,
+      exchange: "OTC",
+      source: "Manual",
+    };
+
+    expect(manualHoldingToInput(holding)).toMatchObject({ kind: "other", quantity: 1, avgPrice: 100000, ltp: 120000 });
+  });
+});
+
+describe("isReservedSource", () => {
+  it("matches the manual source regardless of case", () => {
+    expect(isReservedSource(" manual ")).toBe(true);
+    expect(isReservedSource("Manual import")).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { buildContributionSeries, calculatePeriodReturn, filterSnapshotsByRange } from "@/lib/performance";
+
+const snapshot = (snapshot_date: string, current_value: number, total_investment: number) => ({
+  snapshot_date,
+  current_value,
+  total_investment,
+});
+
+describe("calculatePeriodReturn", () => {
+  it("excludes fresh money from the period gain", () => {
+    const series = buildContributionSeries([
+      snapshot("2024-01-01", 100000, 100000),
+      snapshot("2024-01-02", 210000, 200000),
+    ]);
+    const result = calculatePeriodReturn(series);
+
+    expect(result.netContributions).toBe(100000);
+    expect(result.gain).toBe(10000);
+    expect(result.twr).toBeCloseTo(10);
+  });
+
+  it("chains interval returns so deposit timing does not distort TWR", () => {
+    const series = buildContributionSeries([
+      snapshot("2024-01-01", 100, 100),
+      snapshot("2024-01-02", 110, 100),
+      snapshot("2024-01-03", 1110, 1100),
+      snapshot("2024-01-04", 1221, 1100),
+    ]);
+
+    expect(calculatePeriodReturn(series).twr).toBeCloseTo(21);
+  });
+
+  it("treats ledger income in an interval as a withdrawal", () => {
+    // Sold units costing 50 for 80 and took the cash out
+    const series = buildContributionSeries(
+      [snapshot("2024-01-01", 200, 150), snapshot("2024-01-05", 120, 100)],
+      [{ date: "2024-01-03", amount: 30 }]
+    );
+
+    expect(series[1].netContribution).toBe(-80);
+    expect(calculatePeriodReturn(series).gain).toBe(0);
+  });
+
+  it("prefers the recorded net contribution", () => {
+    const series = buildContributionSeries([
+      snapshot("2024-01-01", 100, 100),
+      { ...snapshot("2024-01-02", 150, 100), net_contribution: 40 },
+    ]);
+
+    expect(series[1].cumulativeContribution).toBe(40);
+  });
+
+  it("falls back to the invested change when the contribution is unknown", () => {
+    const series = buildContributionSeries([
+      snapshot("2024-01-01", 100, 100),
+      { ...snapshot("2024-01-02", 150, 130), net_contribution: null },
+    ]);
+
+    expect(series[1].netContribution).toBe(30);
+  });
+});
+
+describe("filterSnapshotsByRange", () => {
+  it("keeps snapshots inside the window", () => {
+    const snapshots = [snapshot("2024-01-01", 1, 1), snapshot("2024-03-25", 1, 1)];
+    expect(filterSnapshotsByRange(snapshots, "7d", new Date("2024-03-30"))).toHaveLength(1);
+    expect(filterSnapshotsByRange(snapshots, "all")).toHaveLength(2);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateDrift,
+  estimateSaleTax,
+  getBucketKey,
+  proposeRebalance,
+} from "@/lib/rebalancing";
+import { enrichHolding } from "@/lib/portfolioUtils";
+import { buildTaxLots, getPositionKey } from "@/lib/taxLots";
+import { Holding } from "@/types/portfolio";
+import { TargetAllocation } from "@/types/rebalancing";
+import { Transaction } from "@/types/transaction";
+
+function holding(overrides: Partial<Holding>): Holding {
+  return {
+    id: overrides.symbol || "H",
+    symbol: "H",
+    name: "Holding",
+    type: "Equity",
+    sector: "IT",
+    quantity: 10,
+    avgPrice: 100,
+    ltp: 100,
+    exchange: "NSE",
+    source: "Zerodha",
+    ...overrides,
+  };
+}
+
+function target(overrides: Partial<TargetAllocation>): TargetAllocation {
+  return {
+    id: overrides.bucketKey || "T",
+    dimension: "type",
+    bucketKey: "Equity",
+    targetPercent: 50,
+    tolerancePercent: 5,
+    assetTypes: [],
+    symbols: [],
+    ...overrides,
+  };
+}
+
+const holdings = [
+  holding({ symbol: "INFY", quantity: 70 }),
+  holding({ symbol: "GOLDBEES", type: "ETF", sector: "Commodity", quantity: 30 }),
+].map(h => enrichHolding(h));
+
+const targets = [
+  target({ bucketKey: "Equity", targetPercent: 60 }),
+  target({ bucketKey: "ETF", targetPercent: 40 }),
+];
+
+describe("calculateDrift", () => {
+  it("flags buckets outside their tolerance band", () => {
+    const drift = calculateDrift(holdings, targets, "type");
+    const equity = drift.find(d => d.bucketKey === "Equity");
+    const etf = drift.find(d => d.bucketKey === "ETF");
+
+    expect(equity?.drift).toBeCloseTo(10);
+    expect(equity?.status).toBe("over");
+    expect(etf?.status).toBe("under");
+  });
+
+  it("matches custom buckets by symbol before asset type", () => {
+    const buckets = [
+      target({ dimension: "bucket", bucketKey: "Growth", assetTypes: ["Equity", "ETF"] }),
+      target({ dimension: "bucket", bucketKey: "Gold", symbols: ["goldbees"] }),
+    ];
+
+    expect(getBucketKey(holdings[0], "bucket", buckets)).toBe("Growth");
+    expect(getBucketKey(holdings[1], "bucket", buckets)).toBe("Gold");
+  });
+});
+
+describe("proposeRebalance", () => {
+  it("sells the overweight bucket to fund the underweight one", () => {
+    const plan = proposeRebalance(holdings, targets, "type");
+
+    expect(plan.trades).toHaveLength(2);
+    expect(plan.trades.find(t => t.action === "sell")?.symbol).toBe("INFY");
+    expect(plan.totalSells).toBeCloseTo(1000);
+    expect(plan.totalBuys).toBeCloseTo(1000);
+  });
+
+  it("only deploys new money when asked not to sell", () => {
+    const plan = proposeRebalance(holdings, targets, "type", undefined, {
+      newMoney: 2000,
+      newMoneyOnly: true,
+    });
+
+    expect(plan.trades.every(t => t.action === "buy")).toBe(true);
+    // 12,000 total: ETF needs 4,800 - 3,000 = 1,800; equity needs 7,200 - 7,000 = 200
+    expect(plan.trades.find(t => t.symbol === "GOLDBEES")?.amount).toBeCloseTo(1800);
+    expect(plan.trades.find(t => t.symbol === "INFY")?.amount).toBeCloseTo(200);
+    expect(plan.unallocated).toBeCloseTo(0);
+  });
+
+  it("sells the holding with the smallest tax bill first", () => {
+    const txns: Transaction[] = [
+      { id: "1", source: "Zerodha", symbol: "TCS", type: "buy", date: "2025-01-01", quantity: 40, price: 50, amount: 2000, charges: 0 },
+      { id: "2", source: "Zerodha", symbol: "WIPRO", type: "buy", date: "2025-01-01", quantity: 40, price: 120, amount: 4800, charges: 0 },
+    ];
+    const lots = buildTaxLots(txns);
+    const equity = [
+      holding({ symbol: "TCS", quantity: 40 }),
+      holding({ symbol: "WIPRO", quantity: 40 }),
+    ].map(h => enrichHolding(h, lots.get(getPositionKey(h))));
+    const gold = enrichHolding(holding({ symbol: "GOLDBEES", type: "ETF", quantity: 20 }));
+
+    const plan = proposeRebalance([...equity, gold], targets, "type", lots, { asOf: "2025-06-01" });
+    const sells = plan.trades.filter(t => t.action === "sell");
+
+    // WIPRO is at a loss, so it goes first and no tax is due
+    expect(sells[0].symbol).toBe("WIPRO");
+    expect(sells[0].tax?.estimatedTax).toBe(0);
+    expect(sells[0].tax?.fromAverageCost).toBe(false);
+  });
+});
+
+describe("estimateSaleTax", () => {
+  it("taxes short-term equity gains at 20% after July 2024", () => {
+    const lots = buildTaxLots([
+      { id: "1", source: "Zerodha", symbol: "INFY", type: "buy", date: "2025-01-01", quantity: 10, price: 50, amount: 500, charges: 0 },
+    ]);
+    const position = lots.get("Zerodha|INFY");
+    const infy = enrichHolding(holding({ symbol: "INFY" }), position);
+
+    const impact = estimateSaleTax(infy, position, 500, { asOf: "2025-06-01" });
+    expect(impact.shortTermGain).toBeCloseTo(250);
+    expect(impact.estimatedTax).toBeCloseTo(50);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { reconcileLots } from "@/lib/reconciliation";
+import { Holding } from "@/types/portfolio";
+import { Transaction } from "@/types/transaction";
+
+function holding(overrides: Partial<Holding>): Holding {
+  return {
+    id: overrides.symbol || "H",
+    symbol: "H",
+    name: "Holding",
+    type: "Equity",
+    sector: "IT",
+    quantity: 10,
+    avgPrice: 100,
+    ltp: 100,
+    exchange: "NSE",
+    source: "Zerodha",
+    ...overrides,
+  };
+}
+
+const txn = (overrides: Partial<Transaction>): Transaction => ({
+  id: Math.random().toString(36).slice(2),
+  source: "Zerodha",
+  symbol: "INFY",
+  type: "buy",
+  date: "2023-01-01",
+  quantity: 0,
+  amount: 0,
+  charges: 0,
+  ...overrides,
+});
+
+describe("reconcileLots", () => {
+  it("classifies each live holding against the ledger", () => {
+    const result = reconcileLots(
+      [
+        holding({ symbol: "INFY", quantity: 10 }),
+        holding({ symbol: "TCS", quantity: 5 }),
+        holding({ symbol: "HDFCBANK", quantity: 20 }),
+      ],
+      [
+        txn({ symbol: "INFY", quantity: 15, amount: 15000 }),
+        txn({ symbol: "INFY", type: "sell", date: "2023-06-01", quantity: 5, amount: 6000 }),
+        txn({ symbol: "TCS", quantity: 3, amount: 9000 }),
+      ],
+      "Zerodha"
+    );
+
+    expect(result.map(r => [r.symbol, r.status])).toEqual([
+      ["TCS", "mismatch"],
+      ["HDFCBANK", "no_history"],
+      ["INFY", "matched"],
+    ]);
+    expect(result[0].ledgerQuantity).toBe(3);
+    expect(result[0].difference).toBe(-2);
+  });
+
+  it("flags open ledger positions the broker no longer reports", () => {
+    const result = reconcileLots(
+      [],
+      [
+        txn({ symbol: "WIPRO", quantity: 8, amount: 3200 }),
+        txn({ symbol: "ITC", quantity: 4, amount: 1600 }),
+        txn({ symbol: "ITC", type: "sell", date: "2023-02-01", quantity: 4, amount: 1800 }),
+      ],
+      "Zerodha"
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ symbol: "WIPRO", status: "not_held", liveQuantity: 0, ledgerQuantity: 8 });
+  });
+
+  it("ignores holdings and transactions from other sources", () => {
+    const result = reconcileLots(
+      [holding({ symbol: "INFY", quantity: 10 }), holding({ symbol: "INFY", quantity: 7, source: "Groww" })],
+      [
+        txn({ symbol: "INFY", quantity: 10, amount: 10000 }),
+        txn({ symbol: "INFY", quantity: 7, amount: 7000, source: "Groww" }),
+      ],
+      "Zerodha"
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0].status).toBe("matched");
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateIntervalReturns,
+  calculateMaxDrawdown,
+  calculateRiskMetrics,
+  calculateRollingReturns,
+} from "@/lib/risk";
+import { buildContributionSeries } from "@/lib/performance";
+
+function dailySeries(values: number[], invested: number[] = values.map(() => 1000), start = "2024-01-01") {
+  const base = Date.parse(start);
+  return buildContributionSeries(
+    values.map((value, i) => ({
+      snapshot_date: new Date(base + i * 86400000).toISOString().slice(0, 10),
+      current_value: value,
+      total_investment: invested[i],
+    }))
+  );
+}
+
+describe("calculateIntervalReturns", () => {
+  it("removes deposits from interval returns", () => {
+    const returns = calculateIntervalReturns(dailySeries([1000, 2000], [1000, 2000]));
+    expect(returns[0].value).toBeCloseTo(0);
+  });
+});
+
+describe("calculateMaxDrawdown", () => {
+  it("reports peak, trough and recovery dates", () => {
+    const drawdown = calculateMaxDrawdown(dailySeries([1000, 1200, 900, 1100, 1300]));
+
+    expect(drawdown?.depth).toBeCloseTo(-25);
+    expect(drawdown?.peakDate).toBe("2024-01-02");
+    expect(drawdown?.troughDate).toBe("2024-01-03");
+    expect(drawdown?.recoveryDate).toBe("2024-01-05");
+  });
+
+  it("does not treat a withdrawal as a loss", () => {
+    const drawdown = calculateMaxDrawdown(dailySeries([1000, 1000, 500], [1000, 1000, 500]));
+    expect(drawdown).toBeNull();
+  });
+});
+
+describe("calculateRiskMetrics", () => {
+  it("needs enough intervals for volatility", () => {
+    const metrics = calculateRiskMetrics(dailySeries([1000, 1010, 1020]), 6.5);
+    expect(metrics.annualizedVolatility).toBeNull();
+    expect(metrics.sharpe).toBeNull();
+  });
+
+  it("annualizes daily volatility and computes Sharpe and Sortino", () => {
+    // Alternating +1% / -0.5% days
+    const values = [1000];
+    for (let i = 0; i < 20; i++) {
+      values.push(values[i] * (i % 2 === 0 ? 1.01 : 0.995));
+    }
+    const metrics = calculateRiskMetrics(dailySeries(values), 0);
+
+    const daily = [...Array(20)].map((_, i) => (i % 2 === 0 ? 0.01 : -0.005));
+    const mean = daily.reduce((a, b) => a + b, 0) / daily.length;
+    const std = Math.sqrt(daily.reduce((s, r) => s + (r - mean) ** 2, 0) / (daily.length - 1));
+
+    expect(metrics.annualizedVolatility).toBeCloseTo(std * Math.sqrt(365) * 100);
+    expect(metrics.sharpe).toBeCloseTo((mean * 365) / (std * Math.sqrt(365)));
+    expect(metrics.sortino).toBeGreaterThan(metrics.sharpe as number);
+  });
+});
+
+describe("calculateRollingReturns", () => {
+  it("starts once a year of history exists", () => {
+    const values = [...Array(400)].map((_, i) => 1000 + i);
+    const rolling = calculateRollingReturns(dailySeries(values));
+
+    expect(rolling).toHaveLength(35);
+    expect(rolling[0].date).toBe("2024-12-31");
+    expect(rolling[0].value).toBeCloseTo(36.5);
+  });
+});
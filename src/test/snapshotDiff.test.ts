@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { buildSnapshotDiff, calculateMixChanges, diffHoldings } from "@/lib/snapshotDiff";
+import { DiffableHolding } from "@/types/snapshotDiff";
+
+function holding(symbol: string, quantity: number, ltp?: number, overrides: Partial<DiffableHolding> = {}): DiffableHolding {
+  return { symbol, source: "Zerodha", type: "Equity", quantity, ltp, ...overrides };
+}
+
+describe("diffHoldings", () => {
+  it("splits value change into price and quantity effects", () => {
+    const [diff] = diffHoldings([holding("INFY", 10, 100)], [holding("INFY", 15, 120)]);
+    expect(diff.change).toBe("increased");
+    expect(diff.priceEffect).toBeCloseTo(200);
+    expect(diff.quantityEffect).toBeCloseTo(600);
+    expect(diff.valueChange).toBeCloseTo(800);
+  });
+
+  it("classifies opened and closed positions", () => {
+    const diffs = diffHoldings([holding("TCS", 5, 300)], [holding("HDFC", 2, 50)]);
+    const opened = diffs.find(d => d.symbol === "HDFC");
+    const closed = diffs.find(d => d.symbol === "TCS");
+    expect(opened?.change).toBe("opened");
+    expect(opened?.quantityEffect).toBeCloseTo(100);
+    expect(closed?.change).toBe("closed");
+    expect(closed?.quantityEffect).toBeCloseTo(-1500);
+  });
+
+  it("leaves effects undefined when a side has no price", () => {
+    const [diff] = diffHoldings([holding("INFY", 10)], [holding("INFY", 10, 120)]);
+    expect(diff.priceEffect).toBeUndefined();
+    expect(diff.quantityEffect).toBeUndefined();
+  });
+});
+
+describe("calculateMixChanges", () => {
+  it("reports weight shifts in percentage points", () => {
+    const mix = calculateMixChanges(
+      [holding("INFY", 1, 500), holding("LIQUID", 1, 500, { type: "Mutual Fund" })],
+      [holding("INFY", 1, 750), holding("LIQUID", 1, 250, { type: "Mutual Fund" })],
+      "type"
+    );
+    expect(mix.find(m => m.key === "Equity")?.change).toBeCloseTo(25);
+    expect(mix.find(m => m.key === "Mutual Fund")?.change).toBeCloseTo(-25);
+  });
+});
+
+describe("buildSnapshotDiff", () => {
+  it("reconciles effects to the total value change", () => {
+    const diff = buildSnapshotDiff(
+      "2024-01-01",
+      [holding("INFY", 10, 100), holding("TCS", 5, 300)],
+      "2024-01-08",
+      [holding("INFY", 8, 110), holding("HDFC", 2, 50)]
+    );
+    expect(diff.priceEffect + diff.quantityEffect).toBeCloseTo(diff.valueChange);
+    expect(diff.counts).toMatchObject({ opened: 1, closed: 1, reduced: 1 });
+  });
+});
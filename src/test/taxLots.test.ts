@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { buildPositionLots, buildTaxLots, getPositionKey } from "@/lib/taxLots";
+import { Transaction } from "@/types/transaction";
+
+const txn = (overrides: Partial<Transaction>): Transaction => ({
+  id: Math.random().toString(36).slice(2),
+  source: "Zerodha",
+  symbol: "INFY",
+  isin: "INE009A01021",
+  type: "buy",
+  date: "2023-01-01",
+  quantity: 0,
+  amount: 0,
+  charges: 0,
+  ...overrides,
+});
+
+describe("buildPositionLots", () => {
+  it("matches sells against the oldest lots first", () => {
+    const position = buildPositionLots("INE009A01021", [
+      txn({ type: "buy", date: "2022-01-10", quantity: 10, amount: 10000 }),
+      txn({ type: "buy", date: "2023-03-01", quantity: 10, amount: 15000 }),
+      txn({ type: "sell", date: "2023-06-01", quantity: 15, amount: 24000 }),
+    ], "2024-01-01");
+
+    expect(position.realizedLots).toHaveLength(2);
+    expect(position.realizedLots[0].acquiredOn).toBe("2022-01-10");
+    expect(position.realizedLots[0].quantity).toBe(10);
+    expect(position.realizedLots[0].gain).toBeCloseTo(6000);
+    expect(position.realizedLots[1].quantity).toBe(5);
+    expect(position.realizedLots[1].gain).toBeCloseTo(500);
+    expect(position.realizedPnl).toBeCloseTo(6500);
+
+    expect(position.quantity).toBe(5);
+    expect(position.costBasis).toBeCloseTo(7500);
+    expect(position.openLots[0].holdingDays).toBe(306);
+  });
+
+  it("adds buy charges to cost and deducts sell charges from proceeds", () => {
+    const position = buildPositionLots("X", [
+      txn({ type: "buy", quantity: 10, amount: 1000, charges: 10 }),
+      txn({ type: "sell", date: "2023-02-01", quantity: 10, amount: 1200, charges: 20 }),
+    ]);
+
+    expect(position.realizedLots[0].costBasis).toBeCloseTo(1010);
+    expect(position.realizedLots[0].proceeds).toBeCloseTo(1180);
+    expect(position.realizedPnl).toBeCloseTo(170);
+  });
+
+  it("applies splits and bonus issues to open lots", () => {
+    const position = buildPositionLots("X", [
+      txn({ type: "buy", quantity: 10, amount: 1000 }),
+      txn({ type: "split", date: "2023-02-01", ratio: 5 }),
+      txn({ type: "bonus", date: "2023-03-01", quantity: 50 }),
+    ]);
+
+    expect(position.quantity).toBe(100);
+    expect(position.costBasis).toBeCloseTo(1000);
+    expect(position.openLots[0].costPerUnit).toBeCloseTo(20);
+    expect(position.openLots[1]).toMatchObject({ acquiredOn: "2023-03-01", costPerUnit: 0 });
+  });
+
+  it("tracks dividends and sells with no matching buys", () => {
+    const position = buildPositionLots("X", [
+      txn({ type: "dividend", amount: 250 }),
+      txn({ type: "sell", quantity: 3, amount: 300 }),
+    ]);
+
+    expect(position.dividendIncome).toBe(250);
+    expect(position.unmatchedSellQuantity).toBe(3);
+    expect(position.realizedLots).toHaveLength(0);
+  });
+});
+
+describe("buildTaxLots", () => {
+  it("groups transactions by source and ISIN", () => {
+    const lots = buildTaxLots([
+      txn({ source: "Zerodha", quantity: 5, amount: 500 }),
+      txn({ source: "Zerodha", symbol: "INFY-BE", quantity: 5, amount: 600 }),
+      txn({ symbol: "TCS", isin: undefined, quantity: 1, amount: 3000 }),
+    ]);
+
+    expect(lots.size).toBe(2);
+    expect(lots.get("Zerodha|INE009A01021")?.quantity).toBe(10);
+    expect(lots.get("Zerodha|TCS")?.costBasis).toBe(3000);
+  });
+
+  it("runs FIFO per account, so a sale never consumes another broker's lots", () => {
+    const lots = buildTaxLots([
+      txn({ source: "Zerodha", date: "2020-01-01", quantity: 5, amount: 500 }),
+      txn({ source: "INDMoney", date: "2024-01-01", quantity: 5, amount: 1000 }),
+      txn({ source: "INDMoney", type: "sell", date: "2024-06-01", quantity: 5, amount: 1100 }),
+    ]);
+
+    const zerodha = lots.get(getPositionKey({ source: "Zerodha", isin: "INE009A01021", symbol: "INFY" }));
+    const indmoney = lots.get("INDMoney|INE009A01021");
+    expect(zerodha?.quantity).toBe(5);
+    expect(zerodha?.realizedLots).toHaveLength(0);
+    expect(indmoney?.quantity).toBe(0);
+    expect(indmoney?.realizedLots[0].acquiredOn).toBe("2024-01-01");
+    expect(indmoney?.realizedLots[0].gain).toBe(100);
+  });
+});
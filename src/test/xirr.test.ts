@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { xirr, calculateXirrPercent, calculateGroupXirr } from "@/lib/xirr";
+import { enrichHolding } from "@/lib/portfolioUtils";
+import { EnrichedHolding, Holding } from "@/types/portfolio";
+
+describe("xirr", () => {
+  it("matches the spreadsheet XIRR reference example", () => {
+    const rate = xirr([
+      { date: "2008-01-01", amount: -10000 },
+      { date: "2008-03-01", amount: 2750 },
+      { date: "2008-10-30", amount: 4250 },
+      { date: "2009-02-15", amount: 3250 },
+      { date: "2009-04-01", amount: 2750 },
+    ]);
+
+    expect(rate).toBeCloseTo(0.373362535, 6);
+  });
+
+  it("solves heavy losses that Newton cannot reach from the default guess", () => {
+    const rate = xirr([
+      { date: "2023-01-01", amount: -1000 },
+      { date: "2023-07-02", amount: 10 },
+    ]);
+
+    expect(rate).toBeCloseTo(Math.pow(0.01, 365 / 182) - 1, 6);
+  });
+
+  it("returns null when there is no sign change or no elapsed time", () => {
+    expect(xirr([{ date: "2023-01-01", amount: -100 }, { date: "2024-01-01", amount: -50 }])).toBeNull();
+    expect(xirr([{ date: "2023-01-01", amount: -100 }, { date: "2023-01-01", amount: 120 }])).toBeNull();
+    expect(calculateXirrPercent([], 1000)).toBeUndefined();
+  });
+});
+
+describe("calculateGroupXirr", () => {
+  const holding = (overrides: Partial<Holding>): Holding => ({
+    id: Math.random().toString(36).slice(2),
+    symbol: "INFY",
+    name: "Infosys",
+    type: "Equity",
+    sector: "IT",
+    quantity: 10,
+    avgPrice: 100,
+    ltp: 110,
+    exchange: "NSE",
+    source: "Zerodha",
+    ...overrides,
+  });
+
+  it("blends ledger and imported XIRR by current value", () => {
+    const ledger: EnrichedHolding = {
+      ...enrichHolding(holding({})),
+      xirr: 10,
+      xirrSource: "ledger",
+      cashflows: [{ date: "2023-01-01", amount: -1000 }],
+    };
+    const imported = enrichHolding(holding({ source: "INDMoney", ltp: 330, xirr: 20 }));
+
+    const pooled = calculateGroupXirr([ledger], [], "2024-01-01");
+    expect(pooled).toBeCloseTo(10, 6);
+
+    const blended = calculateGroupXirr([ledger, imported], [], "2024-01-01");
+    expect(blended).toBeCloseTo((10 * 1100 + 20 * 3300) / 4400, 6);
+  });
+
+  it("falls back to undefined without cashflows or imported values", () => {
+    expect(calculateGroupXirr([enrichHolding(holding({}))])).toBeUndefined();
+  });
+});
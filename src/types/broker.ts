@@ -0,0 +1,15 @@
+// API-based brokers shown on the Data Sources panel
+
+export type BrokerStatus = 'available' | 'coming_soon';
+
+export interface BrokerInfo {
+  // Connector id in supabase/functions/_shared/brokers/registry.ts
+  id: string;
+  name: string;
+  description: string;
+  // Label the broker's holdings are stored under
+  source: string;
+  // Tailwind text colour for the broker's icon
+  color: string;
+  status: BrokerStatus;
+}
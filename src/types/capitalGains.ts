@@ -0,0 +1,38 @@
+import { RealizedLot } from './transaction';
+
+export type GainTerm = 'short' | 'long';
+
+// Income-tax section under which a realized gain is taxed
+export type GainSection = '111A' | '112A' | '112' | 'slab' | 'exempt';
+
+export type TaxAssetClass = 'equity' | 'debt' | 'sgb' | 'other';
+
+export interface ClassifiedGain extends RealizedLot {
+  financialYear: string;
+  assetClass: TaxAssetClass;
+  term: GainTerm;
+  section: GainSection;
+  // Sale value before deducting transfer expenses such as brokerage
+  grossConsideration: number;
+  transferExpenses: number;
+  acquiredBeforeGrandfathering: boolean;
+  fmvPerUnit?: number;
+  fmvMissing: boolean;
+  // Cost of acquisition after Section 55(2)(ac) grandfathering
+  taxCost: number;
+  taxableGain: number;
+  taxRate: number | null;
+}
+
+export interface CapitalGainsSummary {
+  financialYear: string;
+  stcg111A: number;
+  ltcg112A: number;
+  ltcg112AExemption: number;
+  ltcg112ATaxable: number;
+  ltcg112: number;
+  slabGains: number;
+  exemptGains: number;
+  estimatedTax: number;
+  fmvMissingCount: number;
+}
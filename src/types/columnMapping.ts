@@ -0,0 +1,45 @@
+// Generic spreadsheet import: which column holds each holding field
+
+export type MappableField =
+  | 'name'
+  | 'symbol'
+  | 'isin'
+  | 'type'
+  | 'quantity'
+  | 'avgPrice'
+  | 'investedAmount'
+  | 'ltp'
+  | 'marketValue'
+  | 'broker'
+  | 'xirr';
+
+// Zero-based column index per field; -1 when the file has no such column
+export type ColumnMap = Record<MappableField, number>;
+
+export interface SpreadsheetMapping {
+  sheetName: string;
+  // Zero-based row index of the table header
+  headerRow: number;
+  columns: ColumnMap;
+  // Label stored in holdings.source; importing replaces that source's holdings
+  source: string;
+  // Used when the file has no broker column
+  broker: string;
+  // Used when the file has no asset type column
+  defaultType: string;
+}
+
+export interface ImportTemplate {
+  id: string;
+  name: string;
+  // See headerSignature in lib/columnMapping
+  headerSignature: string;
+  sheetName: string | null;
+  columns: ColumnMap;
+  source: string;
+  broker: string | null;
+  defaultType: string;
+  updatedAt: string;
+}
+
+export type NewImportTemplate = Omit<ImportTemplate, 'id' | 'updatedAt'>;
@@ -0,0 +1,54 @@
+// Bank fixed and recurring deposits, valued from their terms rather than a quote
+
+export type DepositKind = 'FD' | 'RD';
+
+export type CompoundingFrequency = 'monthly' | 'quarterly' | 'half_yearly' | 'yearly';
+
+// 'cumulative' reinvests interest until maturity; otherwise interest is paid out at this frequency
+export type InterestPayout = 'cumulative' | CompoundingFrequency;
+
+export interface Deposit {
+  id: string;
+  // Holdings row that carries the deposit into snapshots and allocations
+  holdingId: string;
+  kind: DepositKind;
+  bank: string;
+  name: string;
+  // Amount deposited for an FD, monthly instalment for an RD
+  principal: number;
+  // Annual rate in percent
+  interestRate: number;
+  compounding: CompoundingFrequency;
+  payout: InterestPayout;
+  // ISO dates (YYYY-MM-DD)
+  startDate: string;
+  maturityDate: string;
+  // Percent of interest withheld as TDS
+  tdsRate: number;
+}
+
+export type NewDeposit = Omit<Deposit, 'id' | 'holdingId'>;
+
+export interface DepositValuation {
+  // Principal deposited so far; grows with each RD instalment
+  invested: number;
+  // Interest earned and not yet paid out, before TDS
+  interestAccrued: number;
+  // Interest already paid out to the bank account, after TDS
+  interestPaidOut: number;
+  tds: number;
+  // invested plus accrued interest net of TDS
+  currentValue: number;
+  maturityValue: number;
+  daysToMaturity: number;
+  matured: boolean;
+}
+
+export interface MaturityBucket {
+  // e.g. 'Apr–Jun 2027'
+  label: string;
+  start: string;
+  end: string;
+  maturityValue: number;
+  deposits: Deposit[];
+}
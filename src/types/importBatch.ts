@@ -0,0 +1,19 @@
+// A recorded replace of one source's holdings (import_batches row without the holdings payload)
+
+// rolled_back: the batch a restore replaced
+export type ImportBatchStatus = 'active' | 'superseded' | 'rolled_back';
+
+export interface ImportBatch {
+  id: string;
+  source: string;
+  // "column=value" or "column!=value" for partial imports such as Groww funds; '' for the whole source
+  scope: string;
+  fileName: string | null;
+  fileHash: string | null;
+  status: ImportBatchStatus;
+  totalRows: number | null;
+  holdingsCount: number;
+  skippedCount: number;
+  restoredFrom: string | null;
+  createdAt: string;
+}
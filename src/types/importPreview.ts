@@ -0,0 +1,42 @@
+// Dry-run response of the spreadsheet importers (parse-indmoney, parse-groww)
+
+export type HoldingChangeStatus = 'added' | 'removed' | 'changed';
+
+export interface PreviewHoldingValues {
+  quantity: number;
+  avg_price: number;
+  ltp: number;
+}
+
+export interface PreviewHolding extends PreviewHoldingValues {
+  symbol: string;
+  name: string;
+  type: string;
+  broker: string | null;
+}
+
+export interface HoldingChange {
+  status: HoldingChangeStatus;
+  symbol: string;
+  name: string;
+  type: string;
+  broker: string | null;
+  before: PreviewHoldingValues | null;
+  after: PreviewHoldingValues | null;
+}
+
+export interface ImportPreview {
+  message: string;
+  holdings: PreviewHolding[];
+  skipped: { row: number; reason: string }[];
+  skipped_count: number;
+  diff: {
+    changes: HoldingChange[];
+    counts: Record<HoldingChangeStatus | 'unchanged', number>;
+  };
+  data_integrity: {
+    isValid: boolean;
+    errors: string[];
+    warnings: string[];
+  };
+}
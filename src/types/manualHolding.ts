@@ -0,0 +1,16 @@
+// Off-platform assets the user enters by hand (source 'Manual')
+
+export type ManualAssetKind = 'gold' | 'unlisted' | 'p2p' | 'other';
+
+export interface ManualHoldingInput {
+  kind: ManualAssetKind;
+  name: string;
+  // Grams for gold, shares for unlisted equity; always 1 for amount-valued kinds
+  quantity: number;
+  // Per unit for unit-valued kinds, the total amount otherwise
+  avgPrice: number;
+  ltp: number;
+  sector: string;
+  broker: string;
+  isin: string;
+}
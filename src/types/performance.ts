@@ -0,0 +1,140 @@
+import { Source } from './portfolio';
+
+export type DateRange = '7d' | '30d' | '90d' | 'all';
+
+// Minimal portfolio_snapshots shape needed for return calculations
+export interface SnapshotValue {
+  snapshot_date: string;
+  current_value: number;
+  total_investment: number;
+  net_contribution?: number | null;
+}
+
+export interface ContributionPoint {
+  date: string;
+  value: number;
+  invested: number;
+  // Money added (positive) or withdrawn (negative) since the previous point
+  netContribution: number;
+  // Running total of netContribution from the first point in the series
+  cumulativeContribution: number;
+}
+
+export interface PeriodReturn {
+  startValue: number;
+  endValue: number;
+  netContributions: number;
+  // Change in value that is not explained by deposits or withdrawals
+  gain: number;
+  // Time-weighted return in percent
+  twr: number;
+}
+
+export interface BenchmarkPrice {
+  date: string;
+  close: number;
+}
+
+export interface Benchmark {
+  symbol: string;
+  name: string;
+  prices: BenchmarkPrice[];
+}
+
+export interface BenchmarkComparison {
+  symbol: string;
+  name: string;
+  portfolioTwr: number;
+  // Price return of the index over the same dates, in percent
+  benchmarkReturn: number;
+  // Portfolio TWR minus benchmark return
+  trackingDifference: number;
+  // Return not explained by benchmark exposure (portfolio TWR - beta x benchmark return)
+  alpha: number | null;
+  beta: number | null;
+}
+
+export interface IntervalReturn {
+  date: string;
+  // Cashflow-adjusted return since the previous snapshot, as a decimal
+  value: number;
+  days: number;
+}
+
+export interface Drawdown {
+  // Fall from peak to trough, in percent (negative)
+  depth: number;
+  peakDate: string;
+  troughDate: string;
+  // First date the previous peak was regained, if it has been
+  recoveryDate?: string;
+}
+
+export interface RollingReturn {
+  date: string;
+  // Time-weighted return over the trailing year, in percent
+  value: number;
+}
+
+export interface RiskMetrics {
+  observations: number;
+  // Annualized figures in percent
+  annualizedReturn: number | null;
+  annualizedVolatility: number | null;
+  downsideDeviation: number | null;
+  sharpe: number | null;
+  sortino: number | null;
+  maxDrawdown: Drawdown | null;
+  riskFreeRate: number;
+}
+
+// One holding as it stood on a captured snapshot date
+export interface SnapshotHolding {
+  id: string;
+  snapshotDate: string;
+  symbol: string;
+  name?: string;
+  isin?: string;
+  type?: string;
+  sector?: string;
+  source: Source;
+  broker?: string;
+  quantity: number;
+  avgPrice: number;
+  // Missing on rows rebuilt from the ledger, which has no price for the date
+  ltp?: number;
+  investment: number;
+  currentValue?: number;
+  pnl?: number;
+  reconstructed: boolean;
+}
+
+export type AttributionDimension = 'assetType' | 'source' | 'holding';
+
+// One group's value and cost basis on one snapshot date
+export interface AttributionSlice {
+  key: string;
+  label: string;
+  value: number;
+  investment: number;
+}
+
+export interface AttributionContribution {
+  key: string;
+  label: string;
+  startValue: number;
+  endValue: number;
+  // Change in cost basis: money put in or taken out of this group
+  netInvested: number;
+  // Market contribution: value change less net invested
+  gain: number;
+}
+
+export interface Attribution {
+  startValue: number;
+  endValue: number;
+  netInvested: number;
+  gain: number;
+  // Gains across all contributions sum to `gain`, to the paisa
+  contributions: AttributionContribution[];
+}
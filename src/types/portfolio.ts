@@ -1,3 +1,5 @@
+import { Cashflow } from './transaction';
+
 export interface Holding {
   id: string;
   symbol: string;
@@ -19,7 +21,13 @@ export interface EnrichedHolding extends Holding {
   currentValue: number;
   pnl: number;
   pnlPercent: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  dividendIncome: number;
   recommendation: Recommendation;
+  // 'ledger' when xirr was solved from transaction history, 'imported' when it came from a file
+  xirrSource?: 'ledger' | 'imported';
+  cashflows?: Cashflow[];
 }
 
 export type AssetType = 
@@ -34,7 +42,12 @@ export type AssetType =
   | 'REIT'
   | 'NPS'
   | 'EPF'
-  | 'PPF';
+  | 'PPF'
+  | 'FD'
+  | 'RD'
+  | 'Unlisted'
+  | 'P2P'
+  | 'Other';
 
 export type Sector = 
   | 'IT'
@@ -71,7 +84,11 @@ export interface PortfolioSummary {
   currentValue: number;
   totalPnl: number;
   pnlPercent: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  dividendIncome: number;
   holdingsCount: number;
+  xirr?: number;
 }
 
 export interface SectorAllocation {
@@ -90,4 +107,5 @@ export interface SourceAllocation {
   source: Source;
   value: number;
   percent: number;
+  xirr?: number;
 }
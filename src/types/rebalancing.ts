@@ -0,0 +1,74 @@
+// What a target allocation is measured against
+export type AllocationDimension = 'type' | 'sector' | 'bucket';
+
+export interface TargetAllocation {
+  id: string;
+  dimension: AllocationDimension;
+  bucketKey: string;
+  targetPercent: number;
+  tolerancePercent: number;
+  // Custom bucket membership (dimension 'bucket' only)
+  assetTypes: string[];
+  symbols: string[];
+}
+
+export interface NewTargetAllocation {
+  dimension: AllocationDimension;
+  bucketKey: string;
+  targetPercent: number;
+  tolerancePercent?: number;
+  assetTypes?: string[];
+  symbols?: string[];
+}
+
+export type DriftStatus = 'within' | 'over' | 'under' | 'untargeted';
+
+export interface AllocationDrift {
+  bucketKey: string;
+  currentValue: number;
+  currentPercent: number;
+  targetPercent: number;
+  tolerancePercent: number;
+  // Current minus target, in percentage points
+  drift: number;
+  status: DriftStatus;
+}
+
+export interface RebalanceTaxImpact {
+  shortTermGain: number;
+  longTermGain: number;
+  estimatedTax: number;
+  // True when the sale was priced from average cost because the ledger doesn't cover the position
+  fromAverageCost: boolean;
+}
+
+export interface RebalanceTrade {
+  bucketKey: string;
+  // Undefined when the bucket holds nothing yet and a new position is needed
+  holdingId?: string;
+  symbol?: string;
+  name?: string;
+  action: 'buy' | 'sell';
+  amount: number;
+  quantity?: number;
+  tax?: RebalanceTaxImpact;
+}
+
+export interface RebalanceOptions {
+  newMoney?: number;
+  // Only deploy new money into underweight buckets; never sell
+  newMoneyOnly?: boolean;
+  // Rate applied to gains taxed at slab rates (debt funds, unlisted assets)
+  slabRate?: number;
+  asOf?: string;
+}
+
+export interface RebalancePlan {
+  drift: AllocationDrift[];
+  trades: RebalanceTrade[];
+  totalBuys: number;
+  totalSells: number;
+  estimatedTax: number;
+  // New money left over once every targeted bucket is back at target
+  unallocated: number;
+}
@@ -0,0 +1,60 @@
+export type PositionChange = 'opened' | 'closed' | 'increased' | 'reduced' | 'unchanged';
+
+export type MixDimension = 'type' | 'sector' | 'source';
+
+// Minimal snapshot_holdings shape needed to diff two dates
+export interface DiffableHolding {
+  symbol: string;
+  name?: string;
+  isin?: string;
+  type?: string;
+  sector?: string;
+  source: string;
+  quantity: number;
+  ltp?: number;
+  currentValue?: number;
+}
+
+export interface HoldingDiff {
+  key: string;
+  symbol: string;
+  name?: string;
+  source: string;
+  change: PositionChange;
+  fromQuantity: number;
+  toQuantity: number;
+  fromPrice?: number;
+  toPrice?: number;
+  fromValue?: number;
+  toValue?: number;
+  valueChange?: number;
+  // Old quantity x price move; undefined when either side has no price
+  priceEffect?: number;
+  // Quantity change x new price (old price for closed positions)
+  quantityEffect?: number;
+}
+
+export interface MixChange {
+  key: string;
+  fromValue: number;
+  toValue: number;
+  fromPercent: number;
+  toPercent: number;
+  // Change in weight, in percentage points
+  change: number;
+}
+
+export interface SnapshotDiff {
+  fromDate: string;
+  toDate: string;
+  fromValue: number;
+  toValue: number;
+  valueChange: number;
+  priceEffect: number;
+  quantityEffect: number;
+  // Holdings whose value change couldn't be split because a side has no price
+  unpricedCount: number;
+  counts: Record<PositionChange, number>;
+  holdings: HoldingDiff[];
+  mix: Record<MixDimension, MixChange[]>;
+}
@@ -0,0 +1,145 @@
+import { AssetType, Source } from './portfolio';
+
+export type TransactionType =
+  | 'buy'
+  | 'sell'
+  | 'dividend'
+  | 'bonus'
+  | 'split'
+  | 'switch_in'
+  | 'switch_out'
+  | 'interest';
+
+export interface Transaction {
+  id: string;
+  source: Source;
+  broker?: string;
+  symbol: string;
+  isin?: string;
+  name?: string;
+  assetType?: AssetType;
+  exchange?: string;
+  type: TransactionType;
+  date: string;
+  quantity: number;
+  price?: number;
+  amount: number;
+  charges: number;
+  ratio?: number;
+  // Sell redeemed by the issuer (e.g. RBI redeeming an SGB), not sold on the market
+  redemption?: boolean;
+  externalId?: string;
+  notes?: string;
+}
+
+export interface NewTransaction {
+  source: Source;
+  broker?: string;
+  symbol: string;
+  isin?: string;
+  name?: string;
+  assetType?: AssetType;
+  exchange?: string;
+  type: TransactionType;
+  date: string;
+  quantity: number;
+  price?: number;
+  amount: number;
+  charges?: number;
+  ratio?: number;
+  // Sell redeemed by the issuer (e.g. RBI redeeming an SGB), not sold on the market
+  redemption?: boolean;
+  externalId?: string;
+  notes?: string;
+}
+
+// Dated investor cashflow: negative for money put in, positive for money taken out
+export interface Cashflow {
+  date: string;
+  amount: number;
+}
+
+export interface TransactionFilters {
+  source?: Source;
+  symbol?: string;
+  isin?: string;
+  from?: string;
+  to?: string;
+}
+
+// Transaction types that add units to a position
+export const INFLOW_TYPES: TransactionType[] = ['buy', 'switch_in', 'bonus'];
+
+// Transaction types that remove units from a position
+export const OUTFLOW_TYPES: TransactionType[] = ['sell', 'switch_out'];
+
+// Transaction types that are pure cash income without unit changes
+export const INCOME_TYPES: TransactionType[] = ['dividend', 'interest'];
+
+export interface TaxLot {
+  key: string;
+  symbol: string;
+  isin?: string;
+  source: Source;
+  assetType?: AssetType;
+  acquiredOn: string;
+  quantity: number;
+  costPerUnit: number;
+  costBasis: number;
+  holdingDays: number;
+}
+
+export interface RealizedLot {
+  key: string;
+  // Ledger transaction of the sale; absent for hypothetical sales
+  saleId?: string;
+  symbol: string;
+  isin?: string;
+  name?: string;
+  source: Source;
+  assetType?: AssetType;
+  acquiredOn: string;
+  soldOn: string;
+  quantity: number;
+  costPerUnit: number;
+  costBasis: number;
+  salePricePerUnit: number;
+  proceeds: number;
+  gain: number;
+  holdingDays: number;
+  // Units redeemed by the issuer rather than sold on the market
+  redemption?: boolean;
+}
+
+export interface PositionLots {
+  key: string;
+  symbol: string;
+  isin?: string;
+  name?: string;
+  assetType?: AssetType;
+  openLots: TaxLot[];
+  realizedLots: RealizedLot[];
+  quantity: number;
+  costBasis: number;
+  realizedPnl: number;
+  dividendIncome: number;
+  // Units sold without a matching buy in the ledger (history starts mid-position)
+  unmatchedSellQuantity: number;
+  cashflows: Cashflow[];
+}
+
+export type LotReconciliationStatus = 'matched' | 'mismatch' | 'no_history' | 'not_held';
+
+// How a source's ledger lots line up with the quantity its broker reports
+export interface LotReconciliation {
+  key: string;
+  symbol: string;
+  name?: string;
+  status: LotReconciliationStatus;
+  liveQuantity: number;
+  ledgerQuantity: number;
+  // Ledger minus live; positive when the ledger holds more than the broker
+  difference: number;
+  // Sells the ledger couldn't match to a buy, i.e. history starts mid-position
+  unmatchedSellQuantity: number;
+}
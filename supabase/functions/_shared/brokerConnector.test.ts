@@ -0,0 +1,190 @@
+import { deepStrictEqual as assertEquals, rejects, strictEqual } from 'node:assert'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  BrokerConnector,
+  BrokerError,
+  BrokerHolding,
+  findSession,
+  normalizeHttpError,
+  syncBroker,
+} from './brokerConnector.ts'
+
+type Row = Record<string, unknown>
+
+// Just enough of the query builder for findSession and syncBroker: filters
+// narrow the table's rows, writes are recorded
+function fakeSupabase(tables: Record<string, Row[]> = {}) {
+  const writes: { table: string; op: string; value: unknown }[] = []
+  const rpcs: { fn: string; args: Row }[] = []
+
+  function from(table: string) {
+    let rows = [...(tables[table] ?? [])]
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => { rows = rows.filter(r => r[column] === value); return query },
+      is: (column: string, value: unknown) => { rows = rows.filter(r => (r[column] ?? null) === value); return query },
+      gt: (column: string, value: string) => { rows = rows.filter(r => String(r[column]) > value); return query },
+      in: (column: string, values: unknown[]) => { rows = rows.filter(r => values.includes(r[column])); return query },
+      order: (column: string, { ascending = true } = {}) => {
+        rows.sort((a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1))
+        return query
+      },
+      limit: (count: number) => { rows = rows.slice(0, count); return query },
+      range: () => query,
+      maybeSingle: () => Promise.resolve({ data: rows[0] ?? null, error: null }),
+      insert: (value: unknown) => { writes.push({ table, op: 'insert', value }); return query },
+      upsert: (value: unknown) => { writes.push({ table, op: 'upsert', value }); return query },
+      update: (value: unknown) => { writes.push({ table, op: 'update', value }); return query },
+      delete: () => query,
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: rows, error: null }),
+    }
+    return query
+  }
+
+  const client = {
+    from,
+    rpc: (fn: string, args: Row) => {
+      rpcs.push({ fn, args })
+      return Promise.resolve({ data: { deleted: 0, inserted: 0, batch_id: 'batch-1' }, error: null })
+    },
+  } as unknown as SupabaseClient
+
+  return { client, writes, rpcs }
+}
+
+interface TestHolding {
+  symbol: string
+  qty: number
+}
+
+function testConnector(overrides: Partial<BrokerConnector<TestHolding>> = {}): BrokerConnector<TestHolding> {
+  return {
+    id: 'test',
+    source: 'TestBroker',
+    sessionTable: 'test_sessions',
+    exchangeToken: () => Promise.reject(new Error('not used')),
+    fetchHoldings: () => Promise.resolve([{ symbol: 'INFY', qty: 5 }, { symbol: 'SGBJUN31', qty: 2 }]),
+    mapHolding: (h): BrokerHolding => ({
+      symbol: h.symbol,
+      name: h.symbol,
+      type: 'Equity',
+      sector: 'Other',
+      quantity: h.qty,
+      avg_price: 100,
+      ltp: 110,
+      exchange: 'NSE',
+      source: 'TestBroker',
+      isin: null,
+      instrument_token: 408065,
+    }),
+    normalizeError: status => normalizeHttpError('TestBroker', status),
+    ...overrides,
+  }
+}
+
+const SESSION = { id: 's-1', accessToken: 'token', expiresAt: '2099-01-01T00:00:00Z', userId: 'user-1' }
+
+Deno.test('normalizeHttpError maps broker statuses to actionable errors', () => {
+  const cases: [number, string][] = [
+    [403, 'session_expired'],
+    [401, 'auth_failed'],
+    [429, 'rate_limited'],
+    [500, 'unavailable'],
+    [502, 'unavailable'],
+  ]
+  for (const [status, code] of cases) {
+    const error = normalizeHttpError('Zerodha', status)
+    strictEqual(error instanceof BrokerError, true)
+    strictEqual(error.code, code)
+    strictEqual(error.status, status)
+  }
+  strictEqual(normalizeHttpError('Zerodha', 403).message, 'Session expired. Please reconnect your Zerodha account.')
+})
+
+Deno.test('findSession returns the user\'s unexpired session', async () => {
+  const { client } = fakeSupabase({
+    test_sessions: [
+      { id: 'old', user_id: 'user-1', access_token: 'a', expires_at: '2099-01-01T00:00:00Z', created_at: '2025-01-01' },
+      { id: 'new', user_id: 'user-1', access_token: 'b', expires_at: '2099-01-02T00:00:00Z', created_at: '2025-01-02' },
+    ],
+  })
+
+  assertEquals(await findSession(client, testConnector(), 'user-1'), {
+    id: 'new',
+    accessToken: 'b',
+    expiresAt: '2099-01-02T00:00:00Z',
+    userId: 'user-1',
+  })
+  strictEqual(await findSession(client, testConnector(), undefined), null)
+})
+
+const ORPHANED_SESSIONS = {
+  test_sessions: [
+    { id: 'expired', user_id: 'user-1', access_token: 'a', expires_at: '2020-01-01T00:00:00Z', created_at: '2020-01-01' },
+    { id: 'orphan', user_id: null, access_token: 'c', expires_at: '2099-01-01T00:00:00Z', created_at: '2025-01-03' },
+  ],
+}
+
+Deno.test('findSession ignores an expired session and leaves other users\' orphans alone', async () => {
+  const { client, writes } = fakeSupabase(ORPHANED_SESSIONS)
+
+  strictEqual(await findSession(client, testConnector(), 'user-1'), null)
+  strictEqual(writes.length, 0)
+})
+
+Deno.test('findSession claims an orphan only for connectors that opt in', async () => {
+  const { client, writes } = fakeSupabase(ORPHANED_SESSIONS)
+
+  const claimed = await findSession(client, testConnector({ claimsOrphanSessions: true }), 'user-1')
+  strictEqual(claimed?.id, 'orphan')
+  strictEqual(claimed?.userId, 'user-1')
+  assertEquals(writes, [{ table: 'test_sessions', op: 'update', value: { user_id: 'user-1' } }])
+})
+
+Deno.test('syncBroker replaces the source, records the batch, logs and caches quotes', async () => {
+  const { client, writes, rpcs } = fakeSupabase()
+  const connector = testConnector({
+    fetchQuotes: (_session, holdings) => Promise.resolve(holdings.map(h => ({
+      symbol: h.symbol, ltp: 111, change_percent: 0.5, volume: 1000, source: 'TestBroker',
+    }))),
+  })
+
+  strictEqual(await syncBroker(client, connector, SESSION), 2)
+
+  assertEquals(rpcs.map(r => r.fn), ['replace_source_holdings'])
+  const replaced = rpcs[0].args.p_holdings as Row[]
+  strictEqual(rpcs[0].args.p_source, 'TestBroker')
+  assertEquals(replaced.map(h => [h.symbol, h.quantity, h.user_id]), [['INFY', 5, 'user-1'], ['SGBJUN31', 2, 'user-1']])
+  // The instrument token is only for the lookup
+  strictEqual('instrument_token' in replaced[0], false)
+  // The batch is recorded in the same call; API syncs have no file
+  strictEqual((rpcs[0].args.p_batch as Row).file_hash, null)
+
+  assertEquals(
+    writes.map(w => [w.table, w.op]),
+    [['sync_logs', 'insert'], ['quotes_cache', 'upsert'], ['quotes_cache', 'upsert']]
+  )
+  strictEqual((writes[0].value as Row).status, 'success')
+  strictEqual((writes[0].value as Row).holdings_count, 2)
+})
+
+Deno.test('syncBroker keeps the holdings when quotes fail', async () => {
+  const { client, writes } = fakeSupabase()
+  const connector = testConnector({
+    fetchQuotes: () => Promise.reject(normalizeHttpError('TestBroker', 429)),
+  })
+
+  strictEqual(await syncBroker(client, connector, SESSION), 2)
+  assertEquals(writes.map(w => w.table), ['sync_logs'])
+})
+
+Deno.test('syncBroker with an expired session fails without touching holdings', async () => {
+  const { client, writes, rpcs } = fakeSupabase()
+  const connector = testConnector({
+    fetchHoldings: () => Promise.reject(normalizeHttpError('TestBroker', 403)),
+  })
+
+  await rejects(syncBroker(client, connector, SESSION), (error: BrokerError) => error.code === 'session_expired')
+  strictEqual(rpcs.length, 0)
+  strictEqual(writes.length, 0)
+})
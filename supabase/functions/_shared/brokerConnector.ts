@@ -0,0 +1,236 @@
+/**
+ * Shared contract for API-based brokers. A connector knows how to log a user in,
+ * fetch and map their holdings and quotes, and turn the broker's HTTP failures
+ * into messages users can act on. syncBroker does the rest the same way for
+ * every broker: replace the source's holdings and record the batch, log the sync
+ * and cache quotes.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { batchParam } from './importBatches.ts'
+import { enrichHoldings } from './instruments.ts'
+
+export interface BrokerSession {
+  id?: string
+  accessToken: string
+  expiresAt: string
+  userId: string | null
+}
+
+// A holding mapped into the holdings table's columns, minus user_id
+export interface BrokerHolding {
+  symbol: string
+  name: string
+  type: string
+  sector: string
+  quantity: number
+  avg_price: number
+  ltp: number
+  exchange: string
+  source: string
+  isin: string | null
+  // Kite instrument token, when the broker reports one; used to look the
+  // holding up in the instrument master and not stored
+  instrument_token?: number
+}
+
+export interface BrokerQuote {
+  symbol: string
+  ltp: number
+  change_percent: number | null
+  volume: number | null
+  source: string
+}
+
+export interface BrokerToken {
+  accessToken: string
+  expiresAt: string
+  // Only for brokers that can renew a session without a fresh login
+  refreshToken?: string
+}
+
+export type BrokerErrorCode = 'not_configured' | 'no_session' | 'session_expired' | 'auth_failed' | 'rate_limited' | 'unavailable'
+
+export class BrokerError extends Error {
+  constructor(
+    public code: BrokerErrorCode,
+    message: string,
+    public status?: number
+  ) {
+    super(message)
+    this.name = 'BrokerError'
+  }
+}
+
+export interface BrokerConnector<RawHolding = unknown> {
+  // Registry key, e.g. 'zerodha'
+  id: string
+  // Display name and the label written to holdings.source and sync_logs
+  source: string
+  // Table holding this broker's sessions (access_token, expires_at, user_id)
+  sessionTable: string
+  // Legacy Kite callbacks stored sessions without a user; only a broker with
+  // such sessions lets findSession hand them to the next user who syncs
+  claimsOrphanSessions?: boolean
+
+  // Trade login parameters (OAuth callback query, or credentials the user
+  // typed in) for an access token
+  exchangeToken(params: Record<string, string>): Promise<BrokerToken>
+
+  fetchHoldings(session: BrokerSession): Promise<RawHolding[]>
+  mapHolding(raw: RawHolding): BrokerHolding
+  // Optional: brokers whose holdings already carry live prices can skip it
+  fetchQuotes?(session: BrokerSession, holdings: BrokerHolding[]): Promise<BrokerQuote[]>
+
+  // Error for a failed broker API response
+  normalizeError(status: number, body: string): BrokerError
+}
+
+// Brokers that log users in by redirecting to their own login page
+export interface OAuthBrokerConnector<RawHolding = unknown> extends BrokerConnector<RawHolding> {
+  // Login page the user is sent to; `state` comes back on the callback
+  getAuthUrl(state: string): string
+}
+
+/**
+ * Default mapping of broker HTTP failures to messages that say what to do next
+ */
+export function normalizeHttpError(source: string, status: number): BrokerError {
+  if (status === 403) {
+    return new BrokerError('session_expired', `Session expired. Please reconnect your ${source} account.`, status)
+  }
+  if (status === 401) {
+    return new BrokerError('auth_failed', `Authentication failed. Please reconnect your ${source} account.`, status)
+  }
+  if (status === 429) {
+    return new BrokerError('rate_limited', 'Rate limit exceeded. Please try again in a few minutes.', status)
+  }
+  return new BrokerError('unavailable', `Failed to fetch data from ${source}. Please try again.`, status)
+}
+
+/**
+ * Asset type from the trading symbol, for brokers that don't report one.
+ * Only a fallback for instruments missing from the instrument master.
+ */
+export function guessAssetType(symbol: string, exchange: string): string {
+  const upperSymbol = symbol.toUpperCase()
+
+  if (upperSymbol.includes('BEES') || upperSymbol.includes('ETF')) return 'ETF'
+  if (upperSymbol.startsWith('SGB')) return 'SGB'
+  if (exchange === 'MCX') return 'Commodity'
+  if (upperSymbol.includes('NIFTY') || upperSymbol.includes('SENSEX')) return 'Index'
+
+  return 'Equity'
+}
+
+export function requireEnv(source: string, name: string): string {
+  const value = Deno.env.get(name)
+  if (!value) {
+    throw new BrokerError('not_configured', `${source} API credentials not configured (${name})`)
+  }
+  return value
+}
+
+/**
+ * Latest unexpired session for the user. For connectors that set
+ * `claimsOrphanSessions`, a session stored without a user (an OAuth callback
+ * that lost its state) is claimed by the first user to sync after it.
+ */
+export async function findSession(
+  supabase: SupabaseClient,
+  connector: BrokerConnector,
+  userId: string | undefined
+): Promise<BrokerSession | null> {
+  // Only the user's own session - no cross-user fallback
+  if (!userId) return null
+
+  const { data: userSession } = await supabase
+    .from(connector.sessionTable)
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (userSession && new Date(userSession.expires_at) > new Date()) {
+    return { id: userSession.id, accessToken: userSession.access_token, expiresAt: userSession.expires_at, userId }
+  }
+
+  if (!connector.claimsOrphanSessions) return null
+
+  const { data: orphanSession } = await supabase
+    .from(connector.sessionTable)
+    .select('*')
+    .is('user_id', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (!orphanSession) return null
+
+  const { error: updateError } = await supabase
+    .from(connector.sessionTable)
+    .update({ user_id: userId })
+    .eq('id', orphanSession.id)
+    .is('user_id', null) // Only if nobody claimed it in the meantime
+
+  if (updateError) {
+    console.error(`Failed to claim orphan ${connector.source} session:`, updateError)
+    return null
+  }
+
+  console.log(`Claimed orphan ${connector.source} session for user:`, userId)
+  return { id: orphanSession.id, accessToken: orphanSession.access_token, expiresAt: orphanSession.expires_at, userId }
+}
+
+/**
+ * Pull the user's holdings from the broker and swap them in for the
+ * connector's source. Names, types and sectors come from the instrument master
+ * where it knows the holding. Quotes are cached afterwards; a quote failure
+ * does not fail the sync.
+ */
+export async function syncBroker(
+  supabase: SupabaseClient,
+  connector: BrokerConnector,
+  session: BrokerSession
+): Promise<number> {
+  const raw = await connector.fetchHoldings(session)
+  let mapped = raw.map(h => connector.mapHolding(h))
+  try {
+    mapped = await enrichHoldings(supabase, mapped)
+  } catch (error) {
+    console.error(`${connector.source} instrument lookup failed:`, error)
+  }
+  const holdings = mapped.map(({ instrument_token, ...h }) => ({ ...h, user_id: session.userId }))
+
+  // One transaction with the import batch, so a failed insert never leaves a
+  // partial portfolio or a history that doesn't match it
+  const { error: replaceError } = await supabase.rpc('replace_source_holdings', {
+    p_source: connector.source,
+    p_user_id: session.userId,
+    p_holdings: holdings,
+    p_batch: batchParam({}),
+  })
+  if (replaceError) throw replaceError
+
+  await supabase.from('sync_logs').insert({
+    source: connector.source,
+    status: 'success',
+    holdings_count: holdings.length,
+    user_id: session.userId,
+  })
+
+  if (!connector.fetchQuotes) return holdings.length
+
+  try {
+    const quotes = await connector.fetchQuotes(session, mapped)
+    for (const quote of quotes) {
+      await supabase.from('quotes_cache').upsert(quote, { onConflict: 'symbol' })
+    }
+  } catch (error) {
+    console.error(`${connector.source} quotes fetch failed:`, error)
+  }
+
+  return holdings.length
+}
@@ -0,0 +1,142 @@
+import { deepStrictEqual as assertEquals, rejects, strictEqual } from 'node:assert'
+import { BrokerError } from '../brokerConnector.ts'
+import { createAngelConnector, mergeDeliveryPositions, nextMidnightIST } from './angel.ts'
+
+const angel = createAngelConnector({ apiKey: () => 'test-key', apiBaseUrl: 'https://smartapi.test' })
+
+const LOGIN_PATH = '/rest/auth/angelbroking/user/v1/loginByPassword'
+const CREDENTIALS = { clientcode: 'A123456', password: '1234', totp: '654321' }
+
+// Serve SmartAPI responses by path instead of the network while `run` runs
+async function withSmartApi(
+  routes: Record<string, () => Response>,
+  run: (requests: { path: string; init?: RequestInit }[]) => Promise<void>
+) {
+  const requests: { path: string; init?: RequestInit }[] = []
+  const realFetch = globalThis.fetch
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    const path = new URL(String(input)).pathname
+    requests.push({ path, init })
+    return Promise.resolve(routes[path]?.() ?? new Response('Not found', { status: 404 }))
+  }
+  try {
+    await run(requests)
+  } finally {
+    globalThis.fetch = realFetch
+  }
+}
+
+Deno.test('exchangeToken logs in with the TOTP and expires at midnight IST', async () => {
+  await withSmartApi(
+    { [LOGIN_PATH]: () => Response.json({ status: true, data: { jwtToken: 'jwt-1', refreshToken: 'refresh-1' } }) },
+    async requests => {
+      const token = await angel.exchangeToken(CREDENTIALS)
+
+      strictEqual(token.accessToken, 'jwt-1')
+      strictEqual(token.refreshToken, 'refresh-1')
+      strictEqual(token.expiresAt.endsWith('T18:30:00.000Z'), true)
+      assertEquals(JSON.parse(String(requests[0].init?.body)), CREDENTIALS)
+      strictEqual((requests[0].init?.headers as Record<string, string>)['X-PrivateKey'], 'test-key')
+    }
+  )
+})
+
+Deno.test('exchangeToken reports a wrong TOTP from a 200 with status false', async () => {
+  await withSmartApi(
+    {
+      [LOGIN_PATH]: () => Response.json({ status: false, message: 'Invalid totp', errorcode: 'AB1050', data: null }),
+    },
+    async () => {
+      await rejects(angel.exchangeToken(CREDENTIALS), (error: BrokerError) =>
+        error.code === 'auth_failed' && error.message === 'Invalid totp')
+    }
+  )
+  await rejects(angel.exchangeToken({ clientcode: 'A123456', password: '1234' }), (error: BrokerError) =>
+    error.code === 'auth_failed')
+})
+
+Deno.test('normalizeError maps SmartAPI error codes', () => {
+  for (const code of ['AG8001', 'AG8002', 'AG8003']) {
+    strictEqual(angel.normalizeError(200, JSON.stringify({ status: false, errorcode: code })).code, 'session_expired')
+  }
+  const login = angel.normalizeError(200, JSON.stringify({ status: false, errorCode: 'AB1007', message: 'Invalid client code' }))
+  strictEqual(login.code, 'auth_failed')
+  strictEqual(login.message, 'Invalid client code')
+
+  strictEqual(angel.normalizeError(429, 'Too many requests').code, 'rate_limited')
+  strictEqual(angel.normalizeError(403, '<html>Forbidden</html>').code, 'session_expired')
+  // A 200 that isn't a success is still a failure
+  strictEqual(angel.normalizeError(200, JSON.stringify({ status: false, errorcode: 'AG9999' })).code, 'unavailable')
+})
+
+Deno.test('mergeDeliveryPositions adds today\'s delivery buys to holdings', () => {
+  const rows = mergeDeliveryPositions(
+    [
+      { tradingsymbol: 'SBIN-EQ', exchange: 'NSE', isin: 'INE062A01020', quantity: 10, averageprice: 600, ltp: 800 },
+      { tradingsymbol: 'ITC-EQ', exchange: 'NSE', isin: 'INE154A01025', quantity: 20, averageprice: 400, ltp: 450 },
+    ],
+    [
+      // Bought more of a holding today
+      { tradingsymbol: 'SBIN-EQ', exchange: 'NSE', producttype: 'DELIVERY', netqty: '10', buyavgprice: '800', ltp: '810' },
+      // A new stock bought today
+      { tradingsymbol: 'TCS-EQ', exchange: 'NSE', symbolname: 'TCS', producttype: 'DELIVERY', netqty: '2', avgnetprice: '4000', ltp: '4010' },
+      // Sold today: Angel already took it off the holding
+      { tradingsymbol: 'ITC-EQ', exchange: 'NSE', producttype: 'DELIVERY', netqty: '-5', buyavgprice: '0', ltp: '450' },
+      // Intraday trades are not holdings
+      { tradingsymbol: 'INFY-EQ', exchange: 'NSE', producttype: 'INTRADAY', netqty: '5', buyavgprice: '1800', ltp: '1805' },
+    ]
+  )
+
+  assertEquals(rows, [
+    { tradingsymbol: 'SBIN-EQ', exchange: 'NSE', isin: 'INE062A01020', name: null, quantity: 20, averagePrice: 700, ltp: 810 },
+    { tradingsymbol: 'ITC-EQ', exchange: 'NSE', isin: 'INE154A01025', name: null, quantity: 20, averagePrice: 400, ltp: 450 },
+    { tradingsymbol: 'TCS-EQ', exchange: 'NSE', isin: null, name: 'TCS', quantity: 2, averagePrice: 4000, ltp: 4010 },
+  ])
+})
+
+Deno.test('fetchHoldings merges positions and mapHolding strips the series', async () => {
+  await withSmartApi(
+    {
+      '/rest/secure/angelbroking/portfolio/v1/getHolding': () => Response.json({
+        status: true,
+        data: [{ tradingsymbol: 'SBIN-EQ', exchange: 'NSE', isin: 'INE062A01020', quantity: 10, averageprice: 600, ltp: 800 }],
+      }),
+      // No positions today
+      '/rest/secure/angelbroking/order/v1/getPosition': () => Response.json({ status: true, data: null }),
+    },
+    async requests => {
+      const rows = await angel.fetchHoldings({ accessToken: 'jwt-1', expiresAt: '', userId: 'user-1' })
+      const holding = angel.mapHolding(rows[0])
+
+      strictEqual(holding.symbol, 'SBIN')
+      strictEqual(holding.name, 'SBIN')
+      strictEqual(holding.quantity, 10)
+      strictEqual(holding.source, 'Angel One')
+      strictEqual((requests[0].init?.headers as Record<string, string>)['Authorization'], 'Bearer jwt-1')
+    }
+  )
+})
+
+Deno.test('fetchHoldings with an expired token reports the session as expired', async () => {
+  await withSmartApi(
+    {
+      '/rest/secure/angelbroking/portfolio/v1/getHolding': () =>
+        Response.json({ status: false, message: 'Invalid Token', errorcode: 'AG8001', data: '' }),
+    },
+    async () => {
+      await rejects(angel.fetchHoldings({ accessToken: 'stale', expiresAt: '', userId: 'user-1' }), (error: BrokerError) =>
+        error.code === 'session_expired')
+    }
+  )
+})
+
+Deno.test('nextMidnightIST rolls over at midnight in India, not UTC', () => {
+  // 23:59:59 IST on the 15th
+  strictEqual(nextMidnightIST(new Date('2025-01-15T18:29:59Z')), '2025-01-15T18:30:00.000Z')
+  // Midnight IST on the 16th starts a new day
+  strictEqual(nextMidnightIST(new Date('2025-01-15T18:30:00Z')), '2025-01-16T18:30:00.000Z')
+  // 05:30 IST, still the 15th
+  strictEqual(nextMidnightIST(new Date('2025-01-15T00:00:00Z')), '2025-01-15T18:30:00.000Z')
+  // 00:30 IST on New Year's Day while it is still 31 December in UTC
+  strictEqual(nextMidnightIST(new Date('2024-12-31T19:00:00Z')), '2025-01-01T18:30:00.000Z')
+})
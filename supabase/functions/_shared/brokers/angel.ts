@@ -0,0 +1,259 @@
+/**
+ * Angel One SmartAPI connector
+ * Users log in with their client code, PIN and the TOTP from their
+ * authenticator app; none of these are stored. The base URL comes from
+ * ANGEL_API_BASE_URL when set, so the connector can be pointed at a local stub
+ * of the SmartAPI endpoints.
+ */
+
+import {
+  BrokerConnector,
+  BrokerError,
+  BrokerHolding,
+  BrokerSession,
+  guessAssetType,
+  normalizeHttpError,
+  requireEnv,
+} from '../brokerConnector.ts'
+
+interface AngelHolding {
+  tradingsymbol: string
+  exchange: string
+  isin: string
+  quantity: number
+  t1quantity?: number
+  averageprice: number
+  ltp: number
+  symboltoken?: string
+  close?: number
+  profitandloss?: number
+}
+
+// Positions come back with numbers as strings
+interface AngelPosition {
+  tradingsymbol: string
+  exchange: string
+  symboltoken?: string
+  symbolname?: string
+  producttype: string
+  netqty: string
+  buyavgprice?: string
+  avgnetprice?: string
+  ltp: string
+}
+
+// Holdings plus today's unsettled delivery buys, which only show up as positions
+interface AngelPortfolioRow {
+  tradingsymbol: string
+  exchange: string
+  isin: string | null
+  name: string | null
+  quantity: number
+  averagePrice: number
+  ltp: number
+}
+
+export interface AngelConfig {
+  apiKey: () => string
+  apiBaseUrl: string
+}
+
+export interface AngelConnector extends BrokerConnector<AngelPortfolioRow> {
+  // Ends the session on Angel's side; SmartAPI needs the client code for this
+  logout(session: BrokerSession, clientCode: string): Promise<void>
+}
+
+const SOURCE = 'Angel One'
+
+// SmartAPI error codes for a token that is missing, invalid or expired
+const SESSION_ERROR_CODES = new Set(['AG8001', 'AG8002', 'AG8003'])
+
+// Equity series suffixes on Angel trading symbols, e.g. SBIN-EQ
+const SERIES_SUFFIX = /-(EQ|BE|BZ|SM|ST|GB)$/
+
+function stripSeries(tradingsymbol: string): string {
+  return tradingsymbol.replace(SERIES_SUFFIX, '')
+}
+
+/**
+ * SmartAPI sessions end at midnight IST, whenever they were started
+ */
+export function nextMidnightIST(now = new Date()): string {
+  const istOffsetMs = 5.5 * 60 * 60 * 1000
+  const ist = new Date(now.getTime() + istOffsetMs)
+  const midnight = Date.UTC(ist.getUTCFullYear(), ist.getUTCMonth(), ist.getUTCDate() + 1)
+  return new Date(midnight - istOffsetMs).toISOString()
+}
+
+/**
+ * Fold today's delivery buys into the holdings list. Sells are left alone:
+ * Angel already takes them off the holding's quantity.
+ */
+export function mergeDeliveryPositions(holdings: AngelHolding[], positions: AngelPosition[]): AngelPortfolioRow[] {
+  const rows = new Map<string, AngelPortfolioRow>()
+
+  for (const h of holdings) {
+    rows.set(`${h.exchange}:${h.tradingsymbol}`, {
+      tradingsymbol: h.tradingsymbol,
+      exchange: h.exchange,
+      isin: h.isin || null,
+      name: null,
+      quantity: h.quantity,
+      averagePrice: h.averageprice,
+      ltp: h.ltp,
+    })
+  }
+
+  for (const p of positions) {
+    const quantity = Number(p.netqty)
+    if (p.producttype !== 'DELIVERY' || !(quantity > 0)) continue
+
+    const price = Number(p.buyavgprice ?? p.avgnetprice ?? 0)
+    const key = `${p.exchange}:${p.tradingsymbol}`
+    const existing = rows.get(key)
+
+    if (existing) {
+      const total = existing.quantity + quantity
+      existing.averagePrice = (existing.averagePrice * existing.quantity + price * quantity) / total
+      existing.quantity = total
+      existing.ltp = Number(p.ltp) || existing.ltp
+    } else {
+      rows.set(key, {
+        tradingsymbol: p.tradingsymbol,
+        exchange: p.exchange,
+        isin: null,
+        name: p.symbolname || null,
+        quantity,
+        averagePrice: price,
+        ltp: Number(p.ltp),
+      })
+    }
+  }
+
+  return [...rows.values()]
+}
+
+export function createAngelConnector(config: AngelConfig): AngelConnector {
+  function headers(accessToken?: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      'X-UserType': 'USER',
+      'X-SourceID': 'WEB',
+      // SmartAPI expects these on every call, including from a server
+      'X-ClientLocalIP': '127.0.0.1',
+      'X-ClientPublicIP': '127.0.0.1',
+      'X-MACAddress': '00:00:00:00:00:00',
+      'X-PrivateKey': config.apiKey(),
+      ...(accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {}),
+    }
+  }
+
+  // SmartAPI reports most failures as HTTP 200 with status: false
+  async function request<T>(path: string, init: RequestInit): Promise<T> {
+    const response = await fetch(`${config.apiBaseUrl}${path}`, init)
+    const text = await response.text()
+
+    let body: { status?: boolean; data?: T } | null = null
+    try {
+      body = JSON.parse(text)
+    } catch {
+      // Handled below as a failed response
+    }
+
+    if (!response.ok || !body || body.status === false) {
+      throw connector.normalizeError(response.status, text)
+    }
+    return body.data as T
+  }
+
+  const connector: AngelConnector = {
+    id: 'angel',
+    source: SOURCE,
+    sessionTable: 'angel_sessions',
+
+    async exchangeToken(params) {
+      const { clientcode, password, totp } = params
+      if (!clientcode || !password || !totp) {
+        throw new BrokerError('auth_failed', 'Client code, PIN and TOTP are required')
+      }
+
+      const data = await request<{ jwtToken?: string; refreshToken?: string }>(
+        '/rest/auth/angelbroking/user/v1/loginByPassword',
+        { method: 'POST', headers: headers(), body: JSON.stringify({ clientcode, password, totp }) }
+      )
+
+      if (!data?.jwtToken) {
+        throw new BrokerError('auth_failed', 'No access token received')
+      }
+
+      return { accessToken: data.jwtToken, refreshToken: data.refreshToken, expiresAt: nextMidnightIST() }
+    },
+
+    async fetchHoldings(session) {
+      const holdings = await request<AngelHolding[] | null>(
+        '/rest/secure/angelbroking/portfolio/v1/getHolding',
+        { method: 'GET', headers: headers(session.accessToken) }
+      )
+      const positions = await request<AngelPosition[] | null>(
+        '/rest/secure/angelbroking/order/v1/getPosition',
+        { method: 'GET', headers: headers(session.accessToken) }
+      )
+
+      return mergeDeliveryPositions(holdings || [], positions || [])
+    },
+
+    mapHolding(h): BrokerHolding {
+      const symbol = stripSeries(h.tradingsymbol)
+      return {
+        symbol,
+        name: h.name || symbol,
+        type: guessAssetType(symbol, h.exchange),
+        sector: 'Other',
+        quantity: h.quantity,
+        avg_price: h.averagePrice,
+        ltp: h.ltp,
+        exchange: h.exchange,
+        source: SOURCE,
+        isin: h.isin,
+      }
+    },
+
+    async logout(session, clientCode) {
+      await request<unknown>(
+        '/rest/secure/angelbroking/user/v1/logout',
+        { method: 'POST', headers: headers(session.accessToken), body: JSON.stringify({ clientcode: clientCode }) }
+      )
+    },
+
+    normalizeError(status, body) {
+      console.error('Angel One API error response:', body)
+
+      let errorCode: string | undefined
+      let message: string | undefined
+      try {
+        const parsed = JSON.parse(body)
+        errorCode = parsed?.errorcode || parsed?.errorCode
+        message = parsed?.message
+      } catch {
+        // Not JSON; fall back to the HTTP status
+      }
+
+      if (errorCode && SESSION_ERROR_CODES.has(errorCode)) {
+        return normalizeHttpError(SOURCE, 403)
+      }
+      if (errorCode?.startsWith('AB')) {
+        // Login errors: wrong client code, PIN or TOTP
+        return new BrokerError('auth_failed', message || 'Login failed. Check your client code, PIN and TOTP.', status)
+      }
+      return normalizeHttpError(SOURCE, status >= 400 ? status : 500)
+    },
+  }
+
+  return connector
+}
+
+export const angelConnector = createAngelConnector({
+  apiKey: () => requireEnv(SOURCE, 'ANGEL_API_KEY'),
+  apiBaseUrl: Deno.env.get('ANGEL_API_BASE_URL') || 'https://apiconnect.angelone.in',
+})
@@ -0,0 +1,124 @@
+import { deepStrictEqual as assertEquals, rejects, strictEqual } from 'node:assert'
+import { BrokerError } from '../brokerConnector.ts'
+import { createKiteConnector } from './kite.ts'
+
+const kite = createKiteConnector({
+  apiKey: () => 'test-key',
+  apiSecret: () => 'test-secret',
+  apiBaseUrl: 'https://kite.test',
+  loginBaseUrl: 'https://login.kite.test',
+})
+
+const SESSION = { accessToken: 'access-1', expiresAt: '2099-01-01T00:00:00Z', userId: 'user-1' }
+
+// Serve requests from `respond` instead of the network while `run` runs
+async function withFetch(
+  respond: (url: string, init?: RequestInit) => Response,
+  run: (requests: { url: string; init?: RequestInit }[]) => Promise<void>
+) {
+  const requests: { url: string; init?: RequestInit }[] = []
+  const realFetch = globalThis.fetch
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input)
+    requests.push({ url, init })
+    return Promise.resolve(respond(url, init))
+  }
+  try {
+    await run(requests)
+  } finally {
+    globalThis.fetch = realFetch
+  }
+}
+
+const HOLDINGS = {
+  status: 'success',
+  data: [
+    {
+      tradingsymbol: 'INFY',
+      exchange: 'NSE',
+      isin: 'INE009A01021',
+      quantity: 10,
+      average_price: 1450.5,
+      last_price: 1800,
+      pnl: 3495,
+      instrument_token: 408065,
+    },
+    {
+      tradingsymbol: 'NIFTYBEES',
+      exchange: 'NSE',
+      isin: '',
+      quantity: 100,
+      average_price: 240,
+      last_price: 260,
+      pnl: 2000,
+    },
+  ],
+}
+
+Deno.test('fetchHoldings calls the holdings API with the session token', async () => {
+  await withFetch(() => Response.json(HOLDINGS), async requests => {
+    const holdings = await kite.fetchHoldings(SESSION)
+
+    strictEqual(holdings.length, 2)
+    strictEqual(requests[0].url, 'https://kite.test/portfolio/holdings')
+    assertEquals(requests[0].init?.headers, { 'X-Kite-Version': '3', 'Authorization': 'token test-key:access-1' })
+  })
+})
+
+Deno.test('fetchHoldings turns a 403 into an expired session', async () => {
+  await withFetch(
+    () => new Response('{"status":"error","error_type":"TokenException"}', { status: 403 }),
+    async () => {
+      await rejects(kite.fetchHoldings(SESSION), (error: BrokerError) =>
+        error.code === 'session_expired' && error.message === 'Session expired. Please reconnect your Zerodha account.')
+    }
+  )
+})
+
+Deno.test('mapHolding keeps Kite\'s numbers and guesses the type from the symbol', () => {
+  const [infy, bees] = HOLDINGS.data.map(h => kite.mapHolding(h))
+
+  assertEquals(infy, {
+    symbol: 'INFY',
+    name: 'INFY',
+    type: 'Equity',
+    sector: 'Other',
+    quantity: 10,
+    avg_price: 1450.5,
+    ltp: 1800,
+    exchange: 'NSE',
+    source: 'Zerodha',
+    isin: 'INE009A01021',
+    instrument_token: 408065,
+  })
+  strictEqual(bees.type, 'ETF')
+  strictEqual(bees.isin, null)
+})
+
+Deno.test('fetchQuotes reads last prices keyed by exchange and symbol', async () => {
+  const quotes = { data: { 'NSE:INFY': { instrument_token: 408065, last_price: 1810, volume: 12000, net_change: 0.55 } } }
+
+  await withFetch(() => Response.json(quotes), async requests => {
+    const [infy] = HOLDINGS.data.map(h => kite.mapHolding(h))
+    assertEquals(await kite.fetchQuotes!(SESSION, [infy]), [
+      { symbol: 'INFY', ltp: 1810, change_percent: 0.55, volume: 12000, source: 'Zerodha' },
+    ])
+    strictEqual(requests[0].url, 'https://kite.test/quote?i=NSE:INFY')
+  })
+})
+
+Deno.test('exchangeToken sends the checksum and fails without an access token', async () => {
+  await withFetch(() => Response.json({ data: { access_token: 'access-2' } }), async requests => {
+    const token = await kite.exchangeToken({ request_token: 'request-1' })
+
+    strictEqual(token.accessToken, 'access-2')
+    const body = requests[0].init?.body as URLSearchParams
+    strictEqual(body.get('request_token'), 'request-1')
+    strictEqual(body.get('checksum')?.length, 64)
+  })
+
+  await withFetch(() => Response.json({ data: {} }), async () => {
+    await rejects(kite.exchangeToken({ request_token: 'request-1' }), (error: BrokerError) => error.code === 'auth_failed')
+  })
+  await rejects(kite.exchangeToken({}), (error: BrokerError) => error.code === 'auth_failed')
+})
@@ -0,0 +1,171 @@
+/**
+ * Zerodha Kite Connect v3 connector
+ * Base URLs come from KITE_API_BASE_URL / KITE_LOGIN_BASE_URL when set, so the
+ * connector can be pointed at a local stub of the Kite API.
+ */
+
+import {
+  BrokerError,
+  BrokerHolding,
+  BrokerQuote,
+  BrokerSession,
+  OAuthBrokerConnector,
+  guessAssetType,
+  normalizeHttpError,
+  requireEnv,
+} from '../brokerConnector.ts'
+
+interface KiteHolding {
+  tradingsymbol: string
+  exchange: string
+  isin: string
+  quantity: number
+  average_price: number
+  last_price: number
+  pnl: number
+  t1_quantity?: number
+  instrument_token?: number
+}
+
+interface KiteQuote {
+  instrument_token: number
+  last_price: number
+  volume?: number
+  net_change?: number
+}
+
+export interface KiteConfig {
+  apiKey: () => string
+  apiSecret: () => string
+  apiBaseUrl: string
+  loginBaseUrl: string
+}
+
+const SOURCE = 'Zerodha'
+
+async function sha256Hex(input: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input))
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function createKiteConnector(config: KiteConfig): OAuthBrokerConnector<KiteHolding> {
+  const connector: OAuthBrokerConnector<KiteHolding> = {
+    id: 'zerodha',
+    source: SOURCE,
+    sessionTable: 'kite_sessions',
+    // The original Kite callback stored sessions before it knew the user
+    claimsOrphanSessions: true,
+
+    getAuthUrl(state) {
+      return `${config.loginBaseUrl}/connect/login?v=3&api_key=${config.apiKey()}&state=${encodeURIComponent(state)}`
+    },
+
+    async exchangeToken(params) {
+      const requestToken = params.request_token
+      if (!requestToken) {
+        throw new BrokerError('auth_failed', 'No request token provided')
+      }
+
+      const apiKey = config.apiKey()
+      // checksum = SHA256(api_key + request_token + api_secret)
+      const checksum = await sha256Hex(apiKey + requestToken + config.apiSecret())
+
+      const response = await fetch(`${config.apiBaseUrl}/session/token`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'X-Kite-Version': '3',
+        },
+        body: new URLSearchParams({ api_key: apiKey, request_token: requestToken, checksum }),
+      })
+
+      if (!response.ok) {
+        console.error('Kite token exchange failed:', await response.text())
+        throw new BrokerError('auth_failed', 'Token exchange failed', response.status)
+      }
+
+      const tokenData = await response.json()
+      const accessToken = tokenData.data?.access_token
+      if (!accessToken) {
+        throw new BrokerError('auth_failed', 'No access token received')
+      }
+
+      // Kite tokens lapse around 6 AM the next day; 8 hours is a conservative expiry
+      const expiresAt = new Date(Date.now() + 8 * 60 * 60 * 1000).toISOString()
+      return { accessToken, expiresAt }
+    },
+
+    async fetchHoldings(session: BrokerSession) {
+      const response = await fetch(`${config.apiBaseUrl}/portfolio/holdings`, {
+        headers: kiteHeaders(session),
+      })
+
+      if (!response.ok) {
+        throw connector.normalizeError(response.status, await response.text())
+      }
+
+      const holdingsData = await response.json()
+      return (holdingsData.data || []) as KiteHolding[]
+    },
+
+    mapHolding(h): BrokerHolding {
+      return {
+        symbol: h.tradingsymbol,
+        // Kite sends no name or sector; syncBroker fills them in from the
+        // instrument master, and the type when the instrument is known
+        name: h.tradingsymbol,
+        type: guessAssetType(h.tradingsymbol, h.exchange),
+        sector: 'Other',
+        quantity: h.quantity,
+        avg_price: h.average_price,
+        ltp: h.last_price,
+        exchange: h.exchange,
+        source: SOURCE,
+        isin: h.isin || null,
+        instrument_token: h.instrument_token,
+      }
+    },
+
+    async fetchQuotes(session, holdings): Promise<BrokerQuote[]> {
+      const symbols = holdings.map(h => `${h.exchange}:${h.symbol}`).join(',')
+      if (!symbols) return []
+
+      const response = await fetch(`${config.apiBaseUrl}/quote?i=${symbols}`, {
+        headers: kiteHeaders(session),
+      })
+      if (!response.ok) {
+        throw connector.normalizeError(response.status, await response.text())
+      }
+
+      const quotesData = await response.json()
+      return Object.entries((quotesData.data || {}) as Record<string, KiteQuote>).map(([key, value]) => ({
+        symbol: key.split(':')[1],
+        ltp: value.last_price,
+        change_percent: value.net_change ?? null,
+        volume: value.volume ?? null,
+        source: SOURCE,
+      }))
+    },
+
+    normalizeError(status, body) {
+      console.error('Kite API error response:', body)
+      return normalizeHttpError(SOURCE, status)
+    },
+  }
+
+  function kiteHeaders(session: BrokerSession) {
+    return {
+      'X-Kite-Version': '3',
+      'Authorization': `token ${config.apiKey()}:${session.accessToken}`,
+    }
+  }
+
+  return connector
+}
+
+export const kiteConnector = createKiteConnector({
+  apiKey: () => requireEnv(SOURCE, 'KITE_API_KEY'),
+  apiSecret: () => requireEnv(SOURCE, 'KITE_API_SECRET'),
+  apiBaseUrl: Deno.env.get('KITE_API_BASE_URL') || 'https://api.kite.trade',
+  loginBaseUrl: Deno.env.get('KITE_LOGIN_BASE_URL') || 'https://kite.zerodha.com',
+})
@@ -0,0 +1,23 @@
+/**
+ * Connectors by id. Adding a broker means adding its module here; broker-sync
+ * and the Data Sources panel pick it up from the id.
+ */
+
+import type { BrokerConnector } from '../brokerConnector.ts'
+import { angelConnector } from './angel.ts'
+import { kiteConnector } from './kite.ts'
+import { upstoxConnector } from './upstox.ts'
+
+const CONNECTORS: Record<string, BrokerConnector> = {
+  [kiteConnector.id]: kiteConnector as BrokerConnector,
+  [angelConnector.id]: angelConnector as BrokerConnector,
+  [upstoxConnector.id]: upstoxConnector as BrokerConnector,
+}
+
+export function getConnector(id: string): BrokerConnector | null {
+  return CONNECTORS[id] ?? null
+}
+
+export function connectorIds(): string[] {
+  return Object.keys(CONNECTORS)
+}
@@ -0,0 +1,140 @@
+import { deepStrictEqual as assertEquals, rejects, strictEqual } from 'node:assert'
+import { BrokerError } from '../brokerConnector.ts'
+import { createUpstoxConnector, nextUpstoxExpiry } from './upstox.ts'
+
+const upstox = createUpstoxConnector({
+  apiKey: () => 'test-key',
+  apiSecret: () => 'test-secret',
+  redirectUri: () => 'https://app.test/functions/v1/upstox-callback',
+  apiBaseUrl: 'https://upstox.test',
+})
+
+const SESSION = { accessToken: 'access-1', expiresAt: '2099-01-01T00:00:00Z', userId: 'user-1' }
+
+// Serve Upstox responses by path instead of the network while `run` runs
+async function withUpstoxApi(
+  routes: Record<string, () => Response>,
+  run: (requests: { path: string; init?: RequestInit }[]) => Promise<void>
+) {
+  const requests: { path: string; init?: RequestInit }[] = []
+  const realFetch = globalThis.fetch
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    const path = new URL(String(input)).pathname
+    requests.push({ path, init })
+    return Promise.resolve(routes[path]?.() ?? new Response('Not found', { status: 404 }))
+  }
+  try {
+    await run(requests)
+  } finally {
+    globalThis.fetch = realFetch
+  }
+}
+
+const EXPIRED_TOKEN = () => new Response(
+  JSON.stringify({
+    status: 'error',
+    errors: [{ errorCode: 'UDAPI100050', message: 'Invalid token used to access API' }],
+  }),
+  { status: 401 }
+)
+
+Deno.test('exchangeToken trades the authorization code for a token that lapses at 3:30 AM IST', async () => {
+  await withUpstoxApi(
+    { '/v2/login/authorization/token': () => Response.json({ access_token: 'access-2', user_id: 'AB1234' }) },
+    async requests => {
+      const token = await upstox.exchangeToken({ code: 'code-1' })
+
+      strictEqual(token.accessToken, 'access-2')
+      strictEqual(token.expiresAt.endsWith('T22:00:00.000Z'), true)
+      const body = requests[0].init?.body as URLSearchParams
+      strictEqual(body.get('code'), 'code-1')
+      strictEqual(body.get('client_secret'), 'test-secret')
+      strictEqual(body.get('grant_type'), 'authorization_code')
+    }
+  )
+})
+
+Deno.test('exchangeToken fails on a rejected code or a missing token', async () => {
+  await withUpstoxApi(
+    { '/v2/login/authorization/token': () => new Response('{"status":"error"}', { status: 400 }) },
+    async () => {
+      await rejects(upstox.exchangeToken({ code: 'used' }), (error: BrokerError) =>
+        error.code === 'auth_failed' && error.status === 400)
+    }
+  )
+  await withUpstoxApi({ '/v2/login/authorization/token': () => Response.json({}) }, async () => {
+    await rejects(upstox.exchangeToken({ code: 'code-1' }), (error: BrokerError) => error.code === 'auth_failed')
+  })
+  await rejects(upstox.exchangeToken({}), (error: BrokerError) => error.code === 'auth_failed')
+})
+
+Deno.test('fetchHoldings reads long-term holdings and mapHolding takes the exchange from the token', async () => {
+  await withUpstoxApi(
+    {
+      '/v2/portfolio/long-term-holdings': () => Response.json({
+        status: 'success',
+        data: [
+          {
+            isin: 'INE002A01018',
+            company_name: 'RELIANCE INDUSTRIES LTD',
+            tradingsymbol: 'RELIANCE',
+            exchange: 'NSE',
+            quantity: 4,
+            average_price: 2400,
+            last_price: 2900,
+            instrument_token: 'BSE_EQ|500325',
+          },
+          // Suspended scrip without a trading symbol
+          { isin: 'INE000X01010', exchange: 'NSE', quantity: 1, average_price: 10, last_price: 0 },
+        ],
+      }),
+    },
+    async requests => {
+      const [reliance, suspended] = (await upstox.fetchHoldings(SESSION)).map(h => upstox.mapHolding(h))
+
+      assertEquals(reliance, {
+        symbol: 'RELIANCE',
+        name: 'RELIANCE INDUSTRIES LTD',
+        type: 'Equity',
+        sector: 'Other',
+        quantity: 4,
+        avg_price: 2400,
+        ltp: 2900,
+        exchange: 'BSE',
+        source: 'Upstox',
+        isin: 'INE002A01018',
+      })
+      strictEqual(suspended.symbol, 'INE000X01010')
+      strictEqual(suspended.exchange, 'NSE')
+      strictEqual((requests[0].init?.headers as Record<string, string>)['Authorization'], 'Bearer access-1')
+    }
+  )
+})
+
+Deno.test('fetchHoldings reports UDAPI100050 as an expired session', async () => {
+  await withUpstoxApi({ '/v2/portfolio/long-term-holdings': EXPIRED_TOKEN }, async () => {
+    await rejects(upstox.fetchHoldings(SESSION), (error: BrokerError) =>
+      error.code === 'session_expired' && error.message === 'Session expired. Please reconnect your Upstox account.')
+  })
+})
+
+Deno.test('normalizeError maps Upstox error codes and statuses', () => {
+  const body = (errorCode: string) => JSON.stringify({ status: 'error', errors: [{ errorCode }] })
+
+  strictEqual(upstox.normalizeError(403, body('UDAPI100050')).code, 'session_expired')
+  strictEqual(upstox.normalizeError(401, body('UDAPI100016')).code, 'session_expired')
+  strictEqual(upstox.normalizeError(401, 'Unauthorized').code, 'session_expired')
+  strictEqual(upstox.normalizeError(429, body('UDAPI10005')).code, 'rate_limited')
+  strictEqual(upstox.normalizeError(500, '<html>Server error</html>').code, 'unavailable')
+})
+
+Deno.test('nextUpstoxExpiry rolls over at 3:30 AM IST', () => {
+  // 03:29:59 IST on the 16th: the token issued overnight lapses a second later
+  strictEqual(nextUpstoxExpiry(new Date('2025-01-15T21:59:59Z')), '2025-01-15T22:00:00.000Z')
+  // 03:30 IST: a token issued now lasts until the next morning
+  strictEqual(nextUpstoxExpiry(new Date('2025-01-15T22:00:00Z')), '2025-01-16T22:00:00.000Z')
+  // 15:30 IST on the 15th
+  strictEqual(nextUpstoxExpiry(new Date('2025-01-15T10:00:00Z')), '2025-01-15T22:00:00.000Z')
+  // 00:30 IST on New Year's Day, still 31 December in UTC
+  strictEqual(nextUpstoxExpiry(new Date('2024-12-31T19:00:00Z')), '2024-12-31T22:00:00.000Z')
+})
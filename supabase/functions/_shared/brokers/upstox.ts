@@ -0,0 +1,192 @@
+/**
+ * Upstox API v2 connector
+ * OAuth login with an authorization code; the sync pulls long-term (demat)
+ * holdings. Base URLs come from UPSTOX_API_BASE_URL when set, so the connector
+ * can be pointed at a local stub of the Upstox API.
+ */
+
+import {
+  BrokerError,
+  BrokerHolding,
+  BrokerSession,
+  OAuthBrokerConnector,
+  guessAssetType,
+  normalizeHttpError,
+  requireEnv,
+} from '../brokerConnector.ts'
+
+interface UpstoxHolding {
+  isin: string
+  company_name?: string
+  tradingsymbol?: string
+  trading_symbol?: string
+  exchange: string
+  product?: string
+  quantity: number
+  t1_quantity?: number
+  average_price: number
+  last_price: number
+  close_price?: number
+  // e.g. NSE_EQ|INE002A01018
+  instrument_token?: string
+}
+
+export interface UpstoxConfig {
+  apiKey: () => string
+  apiSecret: () => string
+  redirectUri: () => string
+  apiBaseUrl: string
+}
+
+export interface UpstoxConnector extends OAuthBrokerConnector<UpstoxHolding> {
+  // Revokes the access token on Upstox's side
+  logout(session: BrokerSession): Promise<void>
+}
+
+const SOURCE = 'Upstox'
+
+// Upstox error codes for a missing, invalid or expired token
+const SESSION_ERROR_CODES = new Set(['UDAPI100050', 'UDAPI100016'])
+
+/**
+ * Upstox tokens lapse at 3:30 AM IST the morning after they are issued
+ */
+export function nextUpstoxExpiry(now = new Date()): string {
+  const istOffsetMs = 5.5 * 60 * 60 * 1000
+  const ist = new Date(now.getTime() + istOffsetMs)
+  const cutoffToday = Date.UTC(ist.getUTCFullYear(), ist.getUTCMonth(), ist.getUTCDate(), 3, 30)
+  const cutoff = ist.getTime() < cutoffToday ? cutoffToday : cutoffToday + 24 * 60 * 60 * 1000
+  return new Date(cutoff - istOffsetMs).toISOString()
+}
+
+// The exchange segment from the instrument token, e.g. NSE_EQ -> NSE
+function exchangeOf(h: UpstoxHolding): string {
+  const segment = h.instrument_token?.split('|')[0]
+  return segment?.split('_')[0] || h.exchange || 'NSE'
+}
+
+export function createUpstoxConnector(config: UpstoxConfig): UpstoxConnector {
+  function headers(session: BrokerSession) {
+    return {
+      'Accept': 'application/json',
+      'Authorization': `Bearer ${session.accessToken}`,
+    }
+  }
+
+  const connector: UpstoxConnector = {
+    id: 'upstox',
+    source: SOURCE,
+    sessionTable: 'upstox_sessions',
+
+    getAuthUrl(state) {
+      const params = new URLSearchParams({
+        response_type: 'code',
+        client_id: config.apiKey(),
+        redirect_uri: config.redirectUri(),
+        state,
+      })
+      return `${config.apiBaseUrl}/v2/login/authorization/dialog?${params}`
+    },
+
+    async exchangeToken(params) {
+      const code = params.code
+      if (!code) {
+        throw new BrokerError('auth_failed', 'No authorization code provided')
+      }
+
+      const response = await fetch(`${config.apiBaseUrl}/v2/login/authorization/token`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          code,
+          client_id: config.apiKey(),
+          client_secret: config.apiSecret(),
+          redirect_uri: config.redirectUri(),
+          grant_type: 'authorization_code',
+        }),
+      })
+
+      if (!response.ok) {
+        console.error('Upstox token exchange failed:', await response.text())
+        throw new BrokerError('auth_failed', 'Token exchange failed', response.status)
+      }
+
+      const tokenData = await response.json()
+      if (!tokenData.access_token) {
+        throw new BrokerError('auth_failed', 'No access token received')
+      }
+
+      return { accessToken: tokenData.access_token, expiresAt: nextUpstoxExpiry() }
+    },
+
+    async fetchHoldings(session) {
+      const response = await fetch(`${config.apiBaseUrl}/v2/portfolio/long-term-holdings`, {
+        headers: headers(session),
+      })
+
+      if (!response.ok) {
+        throw connector.normalizeError(response.status, await response.text())
+      }
+
+      const holdingsData = await response.json()
+      return (holdingsData.data || []) as UpstoxHolding[]
+    },
+
+    mapHolding(h): BrokerHolding {
+      const exchange = exchangeOf(h)
+      // Rows without a trading symbol (e.g. suspended scrips) fall back to the ISIN
+      const symbol = h.tradingsymbol || h.trading_symbol || h.isin
+      return {
+        symbol,
+        name: h.company_name || symbol,
+        type: guessAssetType(symbol, exchange),
+        sector: 'Other',
+        quantity: h.quantity,
+        avg_price: h.average_price,
+        ltp: h.last_price,
+        exchange,
+        source: SOURCE,
+        isin: h.isin || null,
+      }
+    },
+
+    async logout(session) {
+      const response = await fetch(`${config.apiBaseUrl}/v2/logout`, {
+        method: 'DELETE',
+        headers: headers(session),
+      })
+      if (!response.ok) {
+        throw connector.normalizeError(response.status, await response.text())
+      }
+    },
+
+    normalizeError(status, body) {
+      console.error('Upstox API error response:', body)
+
+      let errorCode: string | undefined
+      try {
+        errorCode = JSON.parse(body)?.errors?.[0]?.errorCode
+      } catch {
+        // Not JSON; fall back to the HTTP status
+      }
+
+      // Upstox answers an expired token with 401, which reads as a lapsed session
+      if ((errorCode && SESSION_ERROR_CODES.has(errorCode)) || status === 401) {
+        return normalizeHttpError(SOURCE, 403)
+      }
+      return normalizeHttpError(SOURCE, status)
+    },
+  }
+
+  return connector
+}
+
+export const upstoxConnector = createUpstoxConnector({
+  apiKey: () => requireEnv(SOURCE, 'UPSTOX_API_KEY'),
+  apiSecret: () => requireEnv(SOURCE, 'UPSTOX_API_SECRET'),
+  redirectUri: () => Deno.env.get('UPSTOX_REDIRECT_URI') || `${Deno.env.get('SUPABASE_URL')}/functions/v1/upstox-callback`,
+  apiBaseUrl: Deno.env.get('UPSTOX_API_BASE_URL') || 'https://api.upstox.com',
+})
@@ -0,0 +1,127 @@
+import { deepStrictEqual as assertEquals, strictEqual } from 'node:assert'
+import { detectDepository, parseCas, readValuedRow } from './depositoryCas.ts'
+
+// Lines as extractPdfLines rebuilds them: one table row per line, cells joined by spaces
+const NSDL_LINES = [
+  'NSDL Consolidated Account Statement',
+  'Statement for the period from 01-Jan-2025 to 31-Jan-2025',
+  'DP Name : ZERODHA BROKING LIMITED DP ID : IN303028 Client ID : 12345678',
+  'Equities (E)',
+  'ISIN Security Current Bal. Frozen Bal. Pledge Bal. Market Price Value',
+  'INE002A01018 RELIANCE INDUSTRIES LIMITED 10 0 0 1,250.50 12,505.00',
+  'INE009A01021 INFOSYS LIMITED 5 0 0 1,800.00 9,000.00',
+  'Sub Total 21,505.00',
+]
+
+const CDSL_LINES = [
+  'CDSL Consolidated Account Statement',
+  'DP Name : UPSTOX SECURITIES PRIVATE LIMITED',
+  'BO ID : 1208160012345678',
+  'ISIN Security Current Bal Market Price Value',
+  'INE040A01034 HDFC BANK LTD 20 1650.00 33000.00',
+  'INE467B01029 TATA CONSULTANCY SERVICES LTD 3 4000.00 12000.00',
+  'Page 1 of 3',
+  'CDSL Consolidated Account Statement',
+  // The table carries on over the page break, repeating its last row
+  'INE467B01029 TATA CONSULTANCY SERVICES LTD 3 4000.00 12000.00',
+  'INE154A01025 ITC LTD 100 450.00 45000.00',
+  'DP Name : ANGEL ONE LIMITED',
+  'BO ID : 1203320098765432',
+  'INE040A01034 HDFC BANK LTD 4 1650.00 6600.00',
+]
+
+const FOLIO_LINES = [
+  'Mutual Fund Folios (F)',
+  'ISIN UCC Scheme Name Folio No. No. of Units Average Cost Per Units Total Cost Current NAV Current Value',
+  'INF179K01BE2 MFHDFC0001 HDFC FLEXI CAP FUND - GROWTH 1234567/89 10.000 1500.00 15000.00 1800.00 18000.00',
+  'INF179K01BE2 MFHDFC0001 HDFC FLEXI CAP FUND - GROWTH 7654321/00 5.000 1600.00 8000.00 1800.00 9000.00',
+  'Page 2 of 3',
+  'INF179K01BE2 MFHDFC0001 HDFC FLEXI CAP FUND - GROWTH 7654321/00 5.000 1600.00 8000.00 1800.00 9000.00',
+]
+
+Deno.test('detectDepository tells NSDL and CDSL statements apart', () => {
+  strictEqual(detectDepository(NSDL_LINES), 'NSDL')
+  strictEqual(detectDepository(CDSL_LINES), 'CDSL')
+  strictEqual(detectDepository(['Holdings statement', 'INE002A01018 RELIANCE 10 100 1000']), null)
+})
+
+Deno.test('readValuedRow finds quantity, price and value by their product', () => {
+  assertEquals(readValuedRow([10, 0, 0, 1250.5, 12505]), { quantity: 10, price: 1250.5, value: 12505 })
+  assertEquals(
+    readValuedRow([10, 1500, 15000, 1800, 18000]),
+    { quantity: 10, price: 1800, value: 18000, avgCost: 1500 }
+  )
+  strictEqual(readValuedRow([2, 30, 100]), null)
+})
+
+Deno.test('parseCas reads an NSDL demat account', () => {
+  const result = parseCas(NSDL_LINES, 'NSDL', Date.now(), 'user-1')
+
+  assertEquals(result.accounts, [{ dpName: 'Zerodha Broking Limited', accountId: 'IN303028-12345678' }])
+  assertEquals(
+    result.holdings.map(h => [h.isin, h.name, h.quantity, h.ltp, h.broker]),
+    [
+      ['INE002A01018', 'RELIANCE INDUSTRIES LIMITED', 10, 1250.5, 'Zerodha Broking Limited (IN303028-12345678)'],
+      ['INE009A01021', 'INFOSYS LIMITED', 5, 1800, 'Zerodha Broking Limited (IN303028-12345678)'],
+    ]
+  )
+  strictEqual(result.holdings[0].user_id, 'user-1')
+  strictEqual(result.skipped.length, 0)
+})
+
+Deno.test('parseCas keeps CDSL accounts apart and skips rows repeated across a page break', () => {
+  const result = parseCas(CDSL_LINES, 'CDSL', Date.now())
+
+  assertEquals(result.accounts.map(a => a.accountId), ['1208160012345678', '1203320098765432'])
+  assertEquals(
+    result.holdings.map(h => [h.isin, h.quantity, h.broker]),
+    [
+      ['INE040A01034', 20, 'Upstox Securities Private Limited (1208160012345678)'],
+      ['INE467B01029', 3, 'Upstox Securities Private Limited (1208160012345678)'],
+      ['INE154A01025', 100, 'Upstox Securities Private Limited (1208160012345678)'],
+      ['INE040A01034', 4, 'Angel One Limited (1203320098765432)'],
+    ]
+  )
+})
+
+Deno.test('parseCas keeps two demat accounts at the same DP apart', () => {
+  const result = parseCas([
+    'CDSL Consolidated Account Statement',
+    'DP Name : ZERODHA BROKING LIMITED',
+    'BO ID : 1208160000000001',
+    'INE154A01025 ITC LTD 100 450.00 45000.00',
+    'DP Name : ZERODHA BROKING LIMITED',
+    'BO ID : 1208160000000002',
+    'INE154A01025 ITC LTD 100 450.00 45000.00',
+    'DP Name : ANGEL ONE LIMITED',
+    'BO ID : 1203320000000003',
+  ], 'CDSL', Date.now())
+
+  assertEquals(result.holdings.map(h => h.broker), [
+    'Zerodha Broking Limited (1208160000000001)',
+    'Zerodha Broking Limited (1208160000000002)',
+  ])
+  // The Angel account holds nothing
+  assertEquals(result.accounts.map(a => a.accountId), ['1208160000000001', '1208160000000002'])
+})
+
+Deno.test('parseCas keeps the same scheme in two folios', () => {
+  const result = parseCas([...CDSL_LINES.slice(0, 3), ...FOLIO_LINES], 'CDSL', Date.now())
+
+  assertEquals(
+    result.holdings.map(h => [h.isin, h.quantity, h.avg_price, h.ltp, h.exchange, h.broker]),
+    [
+      ['INF179K01BE2', 10, 1500, 1800, 'MF', 'MF Folio'],
+      ['INF179K01BE2', 5, 1600, 1800, 'MF', 'MF Folio'],
+    ]
+  )
+  strictEqual(result.holdings[0].name, 'HDFC FLEXI CAP FUND GROWTH')
+  strictEqual(result.holdings[0].type, 'Mutual Fund')
+})
+
+Deno.test('parseCas skips holdings outside any account block', () => {
+  const result = parseCas(['CDSL Consolidated Account Statement', 'INE154A01025 ITC LTD 100 450.00 45000.00'], 'CDSL', Date.now())
+
+  strictEqual(result.holdings.length, 0)
+  strictEqual(result.skipped[0].reason, 'Holding outside any demat account block')
+})
@@ -0,0 +1,264 @@
+/**
+ * Parser for NSDL and CDSL consolidated account statements (CAS). The statement
+ * covers every demat account and MF folio under the PAN. Layout:
+ * - One block per demat account, headed by "DP Name : ..." and either
+ *   "DP ID : IN300000 Client ID : 10000000" (NSDL) or "BO ID : 1200000000000000" (CDSL)
+ * - Holding rows: ISIN | [Symbol] | Security name | ... | Quantity | ... | Market price | Value
+ * - A "Mutual Fund Folios" block: ISIN | [UCC] | Scheme | Folio | Units | Avg cost | Total cost | NAV | Value | ...
+ * Column sets differ between the two depositories and across statement
+ * versions, so rows are read by value rather than position: quantity and
+ * price are the pair of numbers whose product is the row's value.
+ */
+
+import {
+  MAX_STRING_LENGTH,
+  MAX_PROCESSING_TIME,
+  ParsedHolding,
+  ParseResult,
+  SkippedRow,
+  parseNumber,
+  mapSector,
+  validateHolding,
+} from './holdingsImport.ts'
+
+export type Depository = 'NSDL' | 'CDSL'
+
+export interface DematAccount {
+  dpName: string
+  accountId: string
+}
+
+/**
+ * Broker label for a demat account's holdings. The account id keeps two
+ * accounts at the same DP apart after import.
+ */
+export function accountLabel(account: DematAccount): string {
+  return account.accountId ? `${account.dpName} (${account.accountId})` : account.dpName
+}
+
+export interface CasParseResult extends ParseResult {
+  depository: Depository
+  accounts: DematAccount[]
+}
+
+export interface ValuedRow {
+  quantity: number
+  price: number
+  value: number
+  avgCost?: number
+}
+
+export const CAS_SOURCE = 'CAS'
+const FOLIO_BROKER = 'MF Folio'
+
+const ISIN_PATTERN = /\b(IN[A-Z0-9]{10})\b/
+const NUMBER_PATTERN = /^\(?-?[\d,]+(\.\d+)?\)?$/
+const FOLIO_PATTERN = /^\d+\/\d+$/
+// UCC / scheme codes that sit between the ISIN and the scheme name, e.g. MFHDFC0001
+const CODE_PATTERN = /^(?=.*\d)(?=.*[A-Z])[A-Z0-9]{6,}$/
+
+const DP_NAME_PATTERN = /DP\s*Name\s*:?\s*(.+?)(?=\s+(?:DP\s*ID|Client\s*ID|BO\s*ID)\b|$)/i
+const BO_ID_PATTERN = /BO\s*ID\s*:?\s*(\d{16})/i
+const DP_CLIENT_PATTERN = /DP\s*ID\s*:?\s*(IN\d{6}|\d{8})\s*,?\s*Client\s*ID\s*:?\s*(\d{8})/i
+const FOLIO_SECTION_PATTERN = /mutual\s+fund\s+folios|mf\s+folios/i
+
+export function detectDepository(lines: string[]): Depository | null {
+  const head = lines.slice(0, 80).join(' ').toUpperCase()
+  if (!head.includes('CONSOLIDATED ACCOUNT STATEMENT') && !head.includes('CAS')) return null
+  if (head.includes('NSDL')) return 'NSDL'
+  if (head.includes('CDSL')) return 'CDSL'
+  return null
+}
+
+function titleCase(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\b([a-z])/g, c => c.toUpperCase())
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function productMatches(quantity: number, price: number, value: number): boolean {
+  return quantity > 0 && price > 0 && value > 0 &&
+    Math.abs(quantity * price - value) <= Math.max(1, value * 0.005)
+}
+
+/**
+ * Find quantity, price and value among a row's numbers. The value is the
+ * right-most product; an earlier product on the same quantity is the cost
+ * (units x average cost = total cost) on MF folio rows.
+ */
+export function readValuedRow(numbers: number[]): ValuedRow | null {
+  for (let k = numbers.length - 1; k >= 2; k--) {
+    for (let j = k - 1; j >= 1; j--) {
+      for (let i = j - 1; i >= 0; i--) {
+        if (!productMatches(numbers[i], numbers[j], numbers[k])) continue
+
+        const row: ValuedRow = { quantity: numbers[i], price: numbers[j], value: numbers[k] }
+        for (let a = i + 1; a < k && row.avgCost === undefined; a++) {
+          for (let c = a + 1; c < k; c++) {
+            if (a !== j && c !== j && productMatches(numbers[i], numbers[a], numbers[c])) {
+              row.avgCost = numbers[a]
+              break
+            }
+          }
+        }
+        return row
+      }
+    }
+  }
+  return null
+}
+
+function mapCasType(isin: string, name: string): string {
+  const lower = name.toLowerCase()
+  if (lower.includes('sgb') || lower.includes('sovereign gold') || lower.includes('goldbond')) return 'SGB'
+  if (lower.includes('etf') || lower.includes('bees')) return 'ETF'
+  if (lower.includes('reit') || lower.includes('invit') || lower.includes('investment trust')) return 'REIT'
+  if (isin.startsWith('INF')) {
+    if (lower.includes('gold') || lower.includes('silver') || lower.includes('commodit')) return 'Commodity MF'
+    if (lower.includes('debt') || lower.includes('liquid') || lower.includes('bond') || lower.includes('gilt')) return 'Debt MF'
+    return 'Mutual Fund'
+  }
+  // Government securities and T-bills carry a numeric third character
+  if (/^IN\d/.test(isin) || lower.includes('ncd') || lower.includes('debenture') || lower.includes('bond')) return 'Bond'
+  return 'Equity'
+}
+
+function readName(tokens: string[]): string {
+  const nameTokens: string[] = []
+  for (let t = 0; t < tokens.length; t++) {
+    const token = tokens[t]
+    if (NUMBER_PATTERN.test(token) || FOLIO_PATTERN.test(token)) break
+    if (t === 0 && CODE_PATTERN.test(token)) continue
+    if (token === '-' || token === '#') continue
+    nameTokens.push(token)
+  }
+  return nameTokens.join(' ').slice(0, MAX_STRING_LENGTH)
+}
+
+export function parseCas(lines: string[], depository: Depository, startTime: number, userId?: string): CasParseResult {
+  const holdings: ParsedHolding[] = []
+  const skipped: SkippedRow[] = []
+  const accounts: DematAccount[] = []
+  const seen = new Set<string>()
+  // Accounts that hold at least one of the holdings
+  const usedAccounts = new Set<DematAccount>()
+  const byType: Record<string, number> = {}
+
+  let account: DematAccount | null = null
+  let inFolios = false
+  let rowCount = 0
+
+  for (let i = 0; i < lines.length; i++) {
+    if (Date.now() - startTime > MAX_PROCESSING_TIME) {
+      throw new Error('Processing timeout - file too complex')
+    }
+
+    const line = lines[i]
+
+    const dpName = line.match(DP_NAME_PATTERN)
+    if (dpName) {
+      account = { dpName: titleCase(dpName[1]), accountId: '' }
+      accounts.push(account)
+      inFolios = false
+    }
+
+    if (account && !account.accountId) {
+      const boId = line.match(BO_ID_PATTERN)
+      const dpClient = line.match(DP_CLIENT_PATTERN)
+      if (boId) account.accountId = boId[1]
+      else if (dpClient) account.accountId = `${dpClient[1]}-${dpClient[2]}`
+    }
+
+    if (FOLIO_SECTION_PATTERN.test(line)) {
+      inFolios = true
+      account = null
+      continue
+    }
+
+    const isinMatch = line.match(ISIN_PATTERN)
+    if (!isinMatch) continue
+
+    const isin = isinMatch[1]
+    const tokens = line.slice(line.indexOf(isin) + isin.length).trim().split(' ')
+    const numbers = tokens.filter(t => NUMBER_PATTERN.test(t)).map(parseNumber)
+
+    // ISIN headings in the transaction section carry no balance columns
+    if (numbers.length < 3) continue
+    rowCount++
+
+    try {
+      const name = readName(tokens)
+      const valued = readValuedRow(numbers)
+      if (!valued) {
+        skipped.push({ row: i + 1, reason: 'Could not read quantity and value', data: { isin, name } })
+        continue
+      }
+
+      if (!inFolios && !account) {
+        skipped.push({ row: i + 1, reason: 'Holding outside any demat account block', data: { isin, name } })
+        continue
+      }
+
+      const broker = inFolios ? FOLIO_BROKER : accountLabel(account!)
+      // Holdings tables repeat their last rows when they run across a page. A
+      // scheme can sit in several folios, so folio rows are told apart by folio
+      // number, or by their figures when the folio can't be read.
+      const folio = inFolios ? tokens.find(t => FOLIO_PATTERN.test(t)) ?? numbers.join(',') : ''
+      const key = `${broker}|${account?.accountId ?? ''}|${folio}|${isin}`
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      const type = mapCasType(isin, name)
+      const holding: ParsedHolding = {
+        // The CAS carries no trading symbol; ISIN is the stable identifier
+        symbol: isin,
+        name: name || isin,
+        type,
+        sector: type === 'SGB' ? 'Commodity' : mapSector('', '', name),
+        quantity: valued.quantity,
+        // Demat rows carry no cost; fall back to the market price so no P&L is invented
+        avg_price: round2(valued.avgCost ?? valued.price),
+        ltp: round2(valued.price),
+        exchange: isin.startsWith('INF') && type !== 'ETF' ? 'MF' : 'NSE',
+        source: CAS_SOURCE,
+        isin,
+        user_id: userId,
+        broker,
+      }
+
+      const validation = validateHolding(holding)
+      if (!validation.isValid) {
+        skipped.push({ row: i + 1, reason: validation.errors.join('; '), data: { isin, name } })
+        continue
+      }
+
+      holdings.push(holding)
+      if (!inFolios) usedAccounts.add(account!)
+      byType[holding.type] = (byType[holding.type] || 0) + 1
+    } catch (rowError) {
+      skipped.push({
+        row: i + 1,
+        reason: `Parse error: ${rowError instanceof Error ? rowError.message : 'Unknown'}`,
+      })
+    }
+  }
+
+  return {
+    depository,
+    accounts: accounts.filter(a => usedAccounts.has(a)),
+    holdings,
+    skipped,
+    summary: {
+      total_rows: rowCount,
+      valid_holdings: holdings.length,
+      skipped_count: skipped.length,
+      by_type: byType,
+    },
+  }
+}
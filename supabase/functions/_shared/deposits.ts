@@ -0,0 +1,139 @@
+/**
+ * Fixed and recurring deposit valuation for edge functions (mirrors src/lib/deposits.ts)
+ * Deposits are stored with their terms in the deposits table and mirrored by a
+ * 'Manual' holdings row whose value has to be brought up to date before use.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DAYS_PER_YEAR = 365
+
+const PERIODS_PER_YEAR: Record<string, number> = {
+  monthly: 12,
+  quarterly: 4,
+  half_yearly: 2,
+  yearly: 1,
+}
+
+export interface DepositRow {
+  holding_id: string
+  kind: string
+  principal: number
+  interest_rate: number
+  compounding: string
+  payout: string
+  start_date: string
+  maturity_date: string
+  tds_rate: number
+}
+
+function parseDate(date: string): number {
+  return Date.parse(date.slice(0, 10))
+}
+
+function addMonths(date: string, months: number): number {
+  const d = new Date(parseDate(date))
+  const year = d.getUTCFullYear()
+  const month = d.getUTCMonth() + months
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return Date.UTC(year, month, Math.min(d.getUTCDate(), lastDay))
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function compounded(amount: number, ratePercent: number, periodsPerYear: number, from: number, to: number): number {
+  const years = Math.max(0, to - from) / DAY_MS / DAYS_PER_YEAR
+  return amount * Math.pow(1 + ratePercent / 100 / periodsPerYear, periodsPerYear * years)
+}
+
+/**
+ * Principal deposited and value net of TDS as of `time`
+ */
+export function valueDeposit(deposit: DepositRow, time: number = Date.now()): { invested: number; currentValue: number } {
+  const principal = Number(deposit.principal)
+  const rate = Number(deposit.interest_rate)
+  const start = parseDate(deposit.start_date)
+  const maturity = parseDate(deposit.maturity_date)
+  const asOf = Math.max(start, Math.min(time, maturity))
+  const periods = PERIODS_PER_YEAR[deposit.compounding] ?? 4
+
+  let invested = principal
+  let interest = 0
+
+  if (deposit.kind === 'RD') {
+    invested = 0
+    let gross = 0
+    for (let k = 0; addMonths(deposit.start_date, k) < maturity; k++) {
+      const paidOn = addMonths(deposit.start_date, k)
+      if (paidOn > asOf) break
+      invested += principal
+      gross += compounded(principal, rate, periods, paidOn, asOf)
+    }
+    interest = gross - invested
+  } else if (deposit.payout === 'cumulative') {
+    interest = compounded(principal, rate, periods, start, asOf) - principal
+  } else {
+    // Interest since the last payout; earlier interest already left the deposit
+    const monthsPerPayout = 12 / (PERIODS_PER_YEAR[deposit.payout] ?? 4)
+    let payouts = 0
+    while (addMonths(deposit.start_date, (payouts + 1) * monthsPerPayout) <= asOf) {
+      payouts++
+    }
+    const lastPayout = addMonths(deposit.start_date, payouts * monthsPerPayout)
+    interest = principal * rate / 100 * (asOf - lastPayout) / DAY_MS / DAYS_PER_YEAR
+  }
+
+  return {
+    invested: round2(invested),
+    currentValue: round2(invested + interest * (1 - Number(deposit.tds_rate) / 100)),
+  }
+}
+
+/**
+ * Write today's accrued value onto the user's deposit-backed holdings and
+ * patch the given rows in place so callers see the same numbers
+ */
+export async function refreshDepositHoldings(
+  supabase: SupabaseClient,
+  userId: string,
+  holdings: { id: string; quantity: number; avg_price: number; ltp: number }[]
+): Promise<number> {
+  const { data: deposits, error } = await supabase
+    .from('deposits')
+    .select('*')
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Failed to load deposits:', error)
+    return 0
+  }
+
+  const byHolding = new Map(holdings.map(h => [h.id, h]))
+  let refreshed = 0
+
+  for (const deposit of (deposits || []) as DepositRow[]) {
+    const holding = byHolding.get(deposit.holding_id)
+    if (!holding) continue
+
+    const { invested, currentValue } = valueDeposit(deposit)
+    holding.quantity = 1
+    holding.avg_price = invested
+    holding.ltp = currentValue
+
+    const { error: updateError } = await supabase
+      .from('holdings')
+      .update({ quantity: 1, avg_price: invested, ltp: currentValue })
+      .eq('id', deposit.holding_id)
+
+    if (updateError) {
+      console.error(`Failed to refresh deposit holding ${deposit.holding_id}:`, updateError)
+      continue
+    }
+    refreshed++
+  }
+
+  return refreshed
+}
@@ -0,0 +1,484 @@
+/**
+ * Shared validation and persistence for file-based holdings importers
+ * (INDMoney, Groww, depository CAS). Each parser maps its own columns into ParsedHolding and
+ * relies on these checks so every upload is held to the same limits.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { batchParam, ImportBatchDetails } from './importBatches.ts'
+
+// Constants for file validation
+export const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
+export const MAX_ROWS = 10000
+export const MAX_STRING_LENGTH = 500
+export const MAX_PROCESSING_TIME = 30000 // 30 seconds
+export const VALID_EXTENSIONS = ['.xlsx', '.xls', '.csv']
+export const VALID_MIME_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
+  'application/vnd.ms-excel', // .xls
+  'text/csv',
+  '', // Some browsers don't set MIME type for Excel files
+]
+
+// Holdings the user enters by hand; no import may replace them
+export const MANUAL_SOURCE = 'Manual'
+
+export function isReservedSource(source: string): boolean {
+  return source.trim().toLowerCase() === MANUAL_SOURCE.toLowerCase()
+}
+
+// Sources the built-in statement imports and broker connectors write. A
+// spreadsheet imported under one of these would replace their holdings.
+export const BUILT_IN_SOURCES = ['Zerodha', 'Upstox', 'Angel One', 'Groww', 'INDMoney', 'CAS', 'MF CAS']
+
+export function isBuiltInSource(source: string): boolean {
+  const key = source.trim().toLowerCase()
+  return BUILT_IN_SOURCES.some(s => s.toLowerCase() === key)
+}
+
+export const PDF_EXTENSIONS = ['.pdf']
+export const PDF_MIME_TYPES = ['application/pdf', '']
+
+export interface UploadFormat {
+  extensions: string[]
+  mimeTypes: string[]
+  // Used in the MIME type error, e.g. 'Excel or CSV'
+  label: string
+}
+
+const SPREADSHEET_FORMAT: UploadFormat = {
+  extensions: VALID_EXTENSIONS,
+  mimeTypes: VALID_MIME_TYPES,
+  label: 'Excel or CSV',
+}
+
+export const PDF_FORMAT: UploadFormat = {
+  extensions: PDF_EXTENSIONS,
+  mimeTypes: PDF_MIME_TYPES,
+  label: 'PDF',
+}
+
+export interface ParsedHolding {
+  symbol: string
+  name: string
+  type: string
+  sector: string
+  quantity: number
+  avg_price: number
+  ltp: number
+  exchange: string
+  source: string
+  isin?: string
+  user_id?: string
+  xirr?: number
+  broker: string
+}
+
+export interface ValidationResult {
+  isValid: boolean
+  errors: string[]
+  warnings: string[]
+}
+
+export interface SkippedRow {
+  row: number
+  reason: string
+  data?: unknown
+}
+
+export interface ParseResult {
+  holdings: ParsedHolding[]
+  skipped: SkippedRow[]
+  summary: {
+    total_rows: number
+    valid_holdings: number
+    skipped_count: number
+    by_type: Record<string, number>
+  }
+}
+
+/**
+ * Reject uploads that are empty, too large or not of the expected format
+ * (a spreadsheet unless told otherwise)
+ */
+export function validateUploadedFile(file: File | null, format: UploadFormat = SPREADSHEET_FORMAT): File {
+  if (!file) {
+    throw new Error('No file uploaded')
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error(`File too large. Maximum ${MAX_FILE_SIZE / 1024 / 1024}MB allowed, got ${(file.size / 1024 / 1024).toFixed(2)}MB`)
+  }
+  if (file.size === 0) {
+    throw new Error('File is empty')
+  }
+
+  const fileName = file.name.toLowerCase()
+  if (!format.extensions.some(ext => fileName.endsWith(ext))) {
+    throw new Error(`Invalid file type. Supported formats: ${format.extensions.join(', ')}`)
+  }
+
+  if (file.type && !format.mimeTypes.includes(file.type)) {
+    throw new Error(`Invalid MIME type: ${file.type}. Expected ${format.label} file.`)
+  }
+
+  return file
+}
+
+/**
+ * Parse number from various formats (handles commas, INR symbols, etc.)
+ * Enhanced with Infinity/NaN protection
+ */
+export function parseNumber(value: unknown): number {
+  if (typeof value === 'number') {
+    if (!isFinite(value)) return 0 // Reject Infinity/NaN
+    return value
+  }
+  if (!value || value === '-' || value === 'N/A') return 0
+
+  const str = String(value)
+    .replace(/[₹,\s]/g, '')
+    .replace(/^\((.+)\)$/, '-$1') // Handle (negative) format
+    .trim()
+
+  const num = parseFloat(str)
+  return (isNaN(num) || !isFinite(num)) ? 0 : num
+}
+
+export function parseOptionalPercent(value: unknown): number | null {
+  if (value === null || value === undefined) return null
+  const raw = String(value).trim()
+  if (!raw || raw === '-' || raw.toUpperCase() === 'N/A') return null
+
+  const cleaned = raw
+    .replace(/[₹,\s]/g, '')
+    .replace(/^\((.+)\)$/, '-$1')
+    .replace(/%/g, '')
+    .replace(/per\s*annum/gi, '')
+    .replace(/p\.?a\.?/gi, '')
+
+  const num = parseFloat(cleaned)
+  return (isNaN(num) || !isFinite(num)) ? null : num
+}
+
+/**
+ * Map to sector
+ */
+export function mapSector(assetClass: string, category: string, name: string): string {
+  const combined = `${assetClass} ${category} ${name}`.toLowerCase()
+
+  if (combined.includes('gold')) return 'Commodity'
+  if (combined.includes('silver')) return 'Commodity'
+  if (combined.includes('retirement') || combined.includes('pension')) return 'Retirement'
+  if (combined.includes('debt') || combined.includes('bond') || combined.includes('liquid')) return 'Debt'
+  if (combined.includes('hybrid') || combined.includes('balanced')) return 'Hybrid'
+  if (combined.includes('index') || combined.includes('nifty') || combined.includes('sensex')) return 'Index'
+  if (combined.includes('tech') || combined.includes('digital') || combined.includes('it')) return 'IT'
+  if (combined.includes('bank') || combined.includes('financial')) return 'Banking'
+  if (combined.includes('pharma') || combined.includes('health')) return 'Pharma'
+  if (combined.includes('auto')) return 'Auto'
+  if (combined.includes('flexi') || combined.includes('multi')) return 'Diversified'
+  if (combined.includes('large cap')) return 'Large Cap'
+  if (combined.includes('mid cap')) return 'Mid Cap'
+  if (combined.includes('small cap')) return 'Small Cap'
+  if (combined.includes('global') || combined.includes('mega cap')) return 'Global'
+
+  return 'Diversified'
+}
+
+/**
+ * Validate a single holding
+ */
+export function validateHolding(holding: ParsedHolding): ValidationResult {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  if (!holding.symbol || holding.symbol.length < 2) {
+    errors.push('Invalid symbol')
+  }
+
+  if (!holding.name || holding.name.length < 2) {
+    errors.push('Invalid name')
+  }
+
+  // Allow short broker names for retirement assets (EPF, PPF, NPS use asset type as broker)
+  const isRetirementType = ['EPF', 'PPF', 'NPS'].includes(holding.type)
+  if (!holding.broker && !isRetirementType) {
+    errors.push('Invalid or missing broker')
+  }
+
+  if (holding.quantity <= 0) {
+    errors.push('Quantity must be positive')
+  }
+
+  if (holding.avg_price < 0) {
+    errors.push('Average price cannot be negative')
+  }
+
+  if (holding.ltp < 0) {
+    errors.push('LTP cannot be negative')
+  }
+
+  // Warnings for suspicious values
+  if (holding.avg_price === 0 && holding.ltp === 0) {
+    warnings.push('Both avg price and LTP are zero')
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+  }
+}
+
+/**
+ * Verify overall data integrity
+ */
+export function verifyDataIntegrity(holdings: ParsedHolding[]): ValidationResult {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  if (holdings.length === 0) {
+    warnings.push('No holdings were parsed')
+  }
+
+  // Check for duplicates
+  const symbols = new Map<string, number>()
+  holdings.forEach(h => {
+    symbols.set(h.symbol, (symbols.get(h.symbol) || 0) + 1)
+  })
+
+  const duplicates = Array.from(symbols.entries()).filter(([_, count]) => count > 1)
+  if (duplicates.length > 0) {
+    warnings.push(`${duplicates.length} duplicate symbols found`)
+  }
+
+  // Calculate totals for sanity check
+  const totalInvested = holdings.reduce((sum, h) => sum + h.quantity * h.avg_price, 0)
+
+  if (totalInvested === 0 && holdings.length > 0) {
+    warnings.push('Total invested value is zero')
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+  }
+}
+
+// Narrows a replace to part of a source, e.g. only the MF rows of a broker
+// that exports stocks and funds as separate files
+export interface HoldingsScope {
+  column: string
+  value: string
+  negate?: boolean
+}
+
+export type HoldingChangeStatus = 'added' | 'removed' | 'changed'
+
+export interface HoldingValues {
+  quantity: number
+  avg_price: number
+  ltp: number
+}
+
+export interface HoldingChange {
+  status: HoldingChangeStatus
+  symbol: string
+  name: string
+  type: string
+  broker: string | null
+  before: HoldingValues | null
+  after: HoldingValues | null
+}
+
+export interface HoldingsDiff {
+  changes: HoldingChange[]
+  counts: Record<HoldingChangeStatus | 'unchanged', number>
+}
+
+type StoredHolding = HoldingValues & { symbol: string; name: string; type: string; broker: string | null }
+
+// Statements print prices to 2 decimals and units to 3-4
+const QUANTITY_TOLERANCE = 0.0001
+const PRICE_TOLERANCE = 0.01
+
+// Filters applied to the holdings select when diffing
+interface FilterableQuery<Q> {
+  eq(column: string, value: unknown): Q
+  neq(column: string, value: unknown): Q
+}
+
+function applyScope<Q extends FilterableQuery<Q>>(
+  query: Q,
+  source: string,
+  userId: string | undefined,
+  scope?: HoldingsScope
+): Q {
+  let scoped = query.eq('source', source)
+  if (scope) {
+    scoped = scope.negate ? scoped.neq(scope.column, scope.value) : scoped.eq(scope.column, scope.value)
+  }
+  // If user is authenticated, only touch their holdings
+  if (userId) {
+    scoped = scoped.eq('user_id', userId)
+  }
+  return scoped
+}
+
+function holdingKey(h: { symbol: string; broker?: string | null }): string {
+  return `${h.symbol.toUpperCase()}|${(h.broker || '').toUpperCase()}`
+}
+
+/**
+ * Compare a freshly parsed set with what a replace would delete. Matching is
+ * by symbol and broker, so the same fund held through two platforms stays two
+ * rows on both sides.
+ */
+export function diffSourceHoldings(existing: StoredHolding[], parsed: ParsedHolding[]): HoldingsDiff {
+  const before = new Map(existing.map(h => [holdingKey(h), h]))
+  const changes: HoldingChange[] = []
+  const counts = { added: 0, removed: 0, changed: 0, unchanged: 0 }
+
+  parsed.forEach(h => {
+    const key = holdingKey(h)
+    const old = before.get(key)
+    before.delete(key)
+
+    const after = { quantity: h.quantity, avg_price: h.avg_price, ltp: h.ltp }
+    if (!old) {
+      counts.added++
+      changes.push({ status: 'added', symbol: h.symbol, name: h.name, type: h.type, broker: h.broker, before: null, after })
+      return
+    }
+
+    const previous = { quantity: Number(old.quantity), avg_price: Number(old.avg_price), ltp: Number(old.ltp) }
+    const changed = Math.abs(previous.quantity - after.quantity) > QUANTITY_TOLERANCE ||
+      Math.abs(previous.avg_price - after.avg_price) > PRICE_TOLERANCE ||
+      Math.abs(previous.ltp - after.ltp) > PRICE_TOLERANCE
+    if (!changed) {
+      counts.unchanged++
+      return
+    }
+
+    counts.changed++
+    changes.push({ status: 'changed', symbol: h.symbol, name: h.name, type: h.type, broker: h.broker, before: previous, after })
+  })
+
+  before.forEach(old => {
+    counts.removed++
+    changes.push({
+      status: 'removed',
+      symbol: old.symbol,
+      name: old.name,
+      type: old.type,
+      broker: old.broker,
+      before: { quantity: Number(old.quantity), avg_price: Number(old.avg_price), ltp: Number(old.ltp) },
+      after: null,
+    })
+  })
+
+  return { changes, counts }
+}
+
+/**
+ * Dry run of replaceSourceHoldings: load the rows it would delete and diff
+ * them against the parsed set, writing nothing
+ */
+export async function previewSourceHoldings(
+  supabase: SupabaseClient,
+  source: string,
+  userId: string | undefined,
+  holdings: ParsedHolding[],
+  scope?: HoldingsScope
+): Promise<HoldingsDiff> {
+  const { data, error } = await applyScope(
+    supabase.from('holdings').select('symbol, name, type, quantity, avg_price, ltp, broker'),
+    source,
+    userId,
+    scope
+  )
+
+  if (error) {
+    throw new Error(`Failed to load current holdings: ${error.message}`)
+  }
+
+  return diffSourceHoldings((data || []) as StoredHolding[], holdings)
+}
+
+// Enough for a user to review; the counts always cover every row
+const MAX_PREVIEW_SKIPPED = 200
+
+export function isDryRun(formData: FormData): boolean {
+  return String(formData.get('dry_run') ?? '').toLowerCase() === 'true'
+}
+
+/**
+ * Response body for a dry run: what would be written, what was dropped and
+ * how it differs from the stored holdings
+ */
+export function buildImportPreview(parseResult: ParseResult, diff: HoldingsDiff, verification: ValidationResult) {
+  return {
+    dry_run: true,
+    holdings: parseResult.holdings.map(h => ({
+      symbol: h.symbol,
+      name: h.name,
+      type: h.type,
+      broker: h.broker,
+      quantity: h.quantity,
+      avg_price: h.avg_price,
+      ltp: h.ltp,
+    })),
+    skipped: parseResult.skipped.slice(0, MAX_PREVIEW_SKIPPED).map(skip => ({ row: skip.row, reason: skip.reason })),
+    diff,
+    summary: parseResult.summary,
+    skipped_count: parseResult.skipped.length,
+    data_integrity: verification,
+  }
+}
+
+/**
+ * Swap a source's holdings for a freshly parsed set and record it as the
+ * source's active import batch. The delete, insert and batch run in one
+ * transaction in replace_source_holdings, so a failure leaves the previous
+ * holdings and history untouched.
+ */
+export async function replaceSourceHoldings(
+  supabase: SupabaseClient,
+  source: string,
+  userId: string | undefined,
+  holdings: ParsedHolding[],
+  startTime: number,
+  batch: ImportBatchDetails,
+  scope?: HoldingsScope
+): Promise<number> {
+  if (isReservedSource(source)) {
+    throw new Error(`${MANUAL_SOURCE} holdings can only be changed by hand`)
+  }
+
+  // Nothing has been written yet, so bailing out here is safe
+  if (Date.now() - startTime > MAX_PROCESSING_TIME) {
+    throw new Error('Processing timeout - file too complex')
+  }
+
+  const { data, error } = await supabase.rpc('replace_source_holdings', {
+    p_source: source,
+    p_user_id: userId || null,
+    p_holdings: holdings,
+    p_scope_column: scope?.column ?? null,
+    p_scope_value: scope?.value ?? null,
+    p_scope_negate: scope?.negate ?? false,
+    p_batch: batchParam(batch),
+  })
+
+  if (error) {
+    console.error('Replace error:', error)
+    throw new Error(`Failed to replace holdings: ${error.message}`)
+  }
+
+  const result = data as { deleted: number; inserted: number }
+  console.log(`Replaced ${result.deleted} ${source} holdings with ${result.inserted} for user: ${userId || 'all'}`)
+
+  return result.inserted
+}
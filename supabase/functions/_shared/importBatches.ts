@@ -0,0 +1,105 @@
+/**
+ * Version history for holdings imports. Each replace of a source's holdings
+ * is recorded as a batch holding the exact rows written; restoring a batch
+ * replays those rows and becomes the new active batch.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { HoldingsScope } from './holdingsImport.ts'
+
+// What replace_source_holdings records about an import alongside the rows
+export interface ImportBatchDetails {
+  fileName?: string | null
+  fileHash?: string | null
+  totalRows?: number | null
+  skippedCount?: number
+  // The batch being restored, for a rollback
+  restoredFrom?: string | null
+}
+
+// An earlier batch with the same file hash
+export interface ImportedBatch {
+  id: string
+  status: 'active' | 'superseded'
+  holdings_count: number
+  created_at: string
+}
+
+/**
+ * SHA-256 of the uploaded bytes, hex encoded
+ */
+export async function hashFile(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+export function scopeKey(scope?: HoldingsScope): string {
+  if (!scope) return ''
+  return `${scope.column}${scope.negate ? '!=' : '='}${scope.value}`
+}
+
+export function parseScopeKey(key: string): HoldingsScope | undefined {
+  const match = key.match(/^([a-z_]+)(!?=)(.*)$/)
+  if (!match) return undefined
+  return { column: match[1], value: match[3], negate: match[2] === '!=' }
+}
+
+/**
+ * The latest batch of the source that imported the same file, unless the user
+ * rolled it back. Batches without a hash (API syncs) never match.
+ */
+export async function findImportedBatch(
+  supabase: SupabaseClient,
+  userId: string | undefined,
+  source: string,
+  fileHash: string,
+  scope?: HoldingsScope
+): Promise<ImportedBatch | null> {
+  let query = supabase
+    .from('import_batches')
+    .select('id, status, holdings_count, created_at')
+    .eq('source', source)
+    .eq('scope', scopeKey(scope))
+    .eq('file_hash', fileHash)
+    .in('status', ['active', 'superseded'])
+
+  query = userId ? query.eq('user_id', userId) : query.is('user_id', null)
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) {
+    console.error('Failed to look up earlier imports:', error)
+    return null
+  }
+  return data as ImportedBatch | null
+}
+
+/**
+ * Why an upload identical to an earlier import was skipped
+ */
+export function duplicateImportMessage(batch: ImportedBatch, noun = 'file'): string {
+  const date = new Date(batch.created_at).toLocaleDateString('en-IN')
+  return batch.status === 'active'
+    ? `This ${noun} was already imported on ${date}; nothing changed`
+    : `This ${noun} was already imported on ${date}; restore that import from Sync History to use it again`
+}
+
+/**
+ * The p_batch argument of replace_source_holdings. The batch becomes the
+ * source's active one; the previous active batch is kept as superseded, or as
+ * rolled back when this one restores an earlier batch, so it can be restored.
+ * Only the latest 50 batches per source and scope are kept.
+ */
+export function batchParam(batch: ImportBatchDetails) {
+  return {
+    file_name: batch.fileName ?? null,
+    file_hash: batch.fileHash ?? null,
+    total_rows: batch.totalRows ?? null,
+    skipped_count: batch.skippedCount ?? 0,
+    restored_from: batch.restoredFrom ?? null,
+  }
+}
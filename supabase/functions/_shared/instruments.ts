@@ -0,0 +1,334 @@
+/**
+ * Instrument master for broker syncs. Kite's instruments dump gives each
+ * instrument's name, segment and type; NSE's index constituent lists map
+ * ISINs to industries. Holdings are matched on Kite instrument token where the
+ * broker reports one, otherwise on exchange and symbol, and on ISIN for the
+ * industry.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { BrokerHolding } from './brokerConnector.ts'
+
+export interface Instrument {
+  instrument_token: number
+  exchange_token: number | null
+  tradingsymbol: string
+  name: string | null
+  instrument_type: string
+  segment: string
+  exchange: string
+  lot_size: number | null
+  tick_size: number | null
+  expiry: string | null
+  strike: number | null
+}
+
+export interface IsinIndustry {
+  isin: string
+  symbol: string | null
+  company_name: string | null
+  industry: string
+}
+
+// Holdings only ever come from the cash segments; derivatives are ~80% of the dump
+export const INSTRUMENT_SEGMENTS = new Set(['NSE', 'BSE', 'INDICES'])
+
+const UPSERT_BATCH_SIZE = 1000
+const LOOKUP_BATCH_SIZE = 200
+
+// NSE industry -> the app's sectors
+const INDUSTRY_SECTORS: Record<string, string> = {
+  'information technology': 'IT',
+  'financial services': 'Finance',
+  'healthcare': 'Pharma',
+  'fast moving consumer goods': 'FMCG',
+  'automobile and auto components': 'Auto',
+  'oil gas & consumable fuels': 'Energy',
+  'metals & mining': 'Metals',
+  'power': 'Power',
+  'capital goods': 'Infra',
+  'construction': 'Infra',
+  'construction materials': 'Infra',
+  'consumer durables': 'Consumer',
+  'consumer services': 'Consumer',
+  'textiles': 'Consumer',
+  'media entertainment & publication': 'Consumer',
+  'chemicals': 'Chemicals',
+  'telecommunication': 'Telecom',
+  'realty': 'Real Estate',
+  'diversified': 'Diversified',
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (char === ',' && !inQuotes) {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+function csvRows(csv: string): { header: string[]; rows: string[][] } {
+  const lines = csv.split(/\r?\n/).filter(l => l.trim().length > 0)
+  if (lines.length === 0) return { header: [], rows: [] }
+  return {
+    header: splitCsvLine(lines[0]).map(h => h.toLowerCase()),
+    rows: lines.slice(1).map(splitCsvLine),
+  }
+}
+
+function numberOrNull(value: string | undefined): number | null {
+  if (!value) return null
+  const parsed = Number(value)
+  return isFinite(parsed) ? parsed : null
+}
+
+/**
+ * Parse Kite's instruments CSV, keeping the cash and index segments
+ */
+export function parseKiteInstruments(csv: string): Instrument[] {
+  const { header, rows } = csvRows(csv)
+  const col = (name: string) => header.indexOf(name)
+  const tokenIdx = col('instrument_token')
+  const symbolIdx = col('tradingsymbol')
+  const segmentIdx = col('segment')
+
+  if (tokenIdx < 0 || symbolIdx < 0 || segmentIdx < 0) {
+    throw new Error('Not a Kite instruments dump: instrument_token, tradingsymbol and segment columns are required')
+  }
+
+  const cell = (row: string[], name: string) => {
+    const idx = col(name)
+    return idx >= 0 ? row[idx] ?? '' : ''
+  }
+
+  const instruments: Instrument[] = []
+  for (const row of rows) {
+    const segment = row[segmentIdx]
+    const token = numberOrNull(row[tokenIdx])
+    if (!token || !INSTRUMENT_SEGMENTS.has(segment)) continue
+
+    instruments.push({
+      instrument_token: token,
+      exchange_token: numberOrNull(cell(row, 'exchange_token')),
+      tradingsymbol: row[symbolIdx],
+      name: cell(row, 'name') || null,
+      instrument_type: cell(row, 'instrument_type') || 'EQ',
+      segment,
+      exchange: cell(row, 'exchange') || segment,
+      lot_size: numberOrNull(cell(row, 'lot_size')),
+      tick_size: numberOrNull(cell(row, 'tick_size')),
+      expiry: cell(row, 'expiry') || null,
+      strike: numberOrNull(cell(row, 'strike')),
+    })
+  }
+  return instruments
+}
+
+/**
+ * Parse an NSE index constituents CSV (Company Name, Industry, Symbol, Series,
+ * ISIN Code) or any CSV with ISIN and industry columns
+ */
+export function parseIndustryCsv(csv: string): IsinIndustry[] {
+  const { header, rows } = csvRows(csv)
+  const isinIdx = header.findIndex(h => h.includes('isin'))
+  const industryIdx = header.findIndex(h => h.includes('industry') || h.includes('sector'))
+  const nameIdx = header.findIndex(h => h.includes('company') || h === 'name')
+  const symbolIdx = header.findIndex(h => h.includes('symbol'))
+
+  if (isinIdx < 0 || industryIdx < 0) {
+    throw new Error('Industry CSV must have an ISIN column and an Industry column')
+  }
+
+  const byIsin = new Map<string, IsinIndustry>()
+  for (const row of rows) {
+    const isin = (row[isinIdx] || '').toUpperCase()
+    const industry = row[industryIdx]
+    if (!/^IN[A-Z0-9]{10}$/.test(isin) || !industry) continue
+
+    byIsin.set(isin, {
+      isin,
+      industry,
+      company_name: nameIdx >= 0 ? row[nameIdx] || null : null,
+      symbol: symbolIdx >= 0 ? row[symbolIdx] || null : null,
+    })
+  }
+  return [...byIsin.values()]
+}
+
+/**
+ * Asset type from the instrument's segment, type and name
+ */
+export function assetTypeForInstrument(instrument: Instrument): string {
+  const symbol = instrument.tradingsymbol.toUpperCase()
+  const name = (instrument.name || '').toUpperCase()
+
+  if (instrument.segment === 'INDICES') return 'Index'
+  if (instrument.instrument_type !== 'EQ') return 'Other'
+  if (symbol.startsWith('SGB') || name.includes('SOVEREIGN GOLD') || name.startsWith('SGB')) return 'SGB'
+  if (name.includes('ETF') || symbol.endsWith('BEES') || symbol.includes('ETF')) return 'ETF'
+  if (name.includes('REIT') || name.includes('INVIT')) return 'REIT'
+  // Government securities and bonds, e.g. 727GS2026 or "GOI LOAN"
+  if (/^\d+GS\d{4}/.test(symbol) || /\b(GOI|SDL|BOND|NCD)\b/.test(name)) return 'Bond'
+
+  return 'Equity'
+}
+
+/**
+ * Sector for a holding: its NSE industry for stocks, otherwise what the
+ * instrument tracks
+ */
+export function sectorFor(type: string, name: string, industry: string | null): string {
+  const upperName = name.toUpperCase()
+
+  if (industry) {
+    const key = industry.trim().toLowerCase()
+    // NSE puts banks under Financial Services
+    if (key === 'financial services' && /\bBANK\b/.test(upperName)) return 'Banking'
+    return INDUSTRY_SECTORS[key] ?? 'Other'
+  }
+
+  switch (type) {
+    case 'SGB':
+      return 'Commodity'
+    case 'Index':
+      return 'Index'
+    case 'REIT':
+      return 'Real Estate'
+    case 'ETF':
+      if (/GOLD|SILVER/.test(upperName)) return 'Commodity'
+      if (/NASDAQ|S&P 500|HANG SENG|NYSE|FANG|US /.test(upperName)) return 'International'
+      return 'Index'
+    default:
+      return 'Other'
+  }
+}
+
+function chunks<T>(items: T[], size: number): T[][] {
+  const result: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size))
+  }
+  return result
+}
+
+/**
+ * Replace the instrument master with a fresh dump. Instruments missing from
+ * the dump (delisted, or expired) are removed.
+ */
+export async function replaceInstruments(supabase: SupabaseClient, instruments: Instrument[]): Promise<number> {
+  if (instruments.length === 0) {
+    throw new Error('Instruments dump is empty')
+  }
+
+  // Rows this run upserted carry its id; everything else is stale
+  const runId = crypto.randomUUID()
+  for (const batch of chunks(instruments, UPSERT_BATCH_SIZE)) {
+    const rows = batch.map(instrument => ({ ...instrument, sync_run_id: runId }))
+    const { error } = await supabase.from('instruments').upsert(rows, { onConflict: 'instrument_token' })
+    if (error) throw error
+  }
+
+  const { error: pruneError } = await supabase
+    .from('instruments')
+    .delete()
+    .or(`sync_run_id.is.null,sync_run_id.neq.${runId}`)
+  if (pruneError) {
+    console.error('Failed to prune stale instruments:', pruneError)
+  }
+
+  return instruments.length
+}
+
+/**
+ * Add or update ISIN industries. Older rows stay, so several index lists can
+ * be loaded one after another.
+ */
+export async function upsertIndustries(supabase: SupabaseClient, industries: IsinIndustry[]): Promise<number> {
+  for (const batch of chunks(industries, UPSERT_BATCH_SIZE)) {
+    const { error } = await supabase.from('isin_industries').upsert(batch, { onConflict: 'isin' })
+    if (error) throw error
+  }
+  return industries.length
+}
+
+async function lookupInstruments(supabase: SupabaseClient, holdings: BrokerHolding[]) {
+  const byToken = new Map<number, Instrument>()
+  const bySymbol = new Map<string, Instrument>()
+
+  const tokens = [...new Set(holdings.map(h => h.instrument_token).filter((t): t is number => !!t))]
+  for (const batch of chunks(tokens, LOOKUP_BATCH_SIZE)) {
+    const { data, error } = await supabase.from('instruments').select('*').in('instrument_token', batch)
+    if (error) throw error
+    for (const instrument of (data || []) as Instrument[]) {
+      byToken.set(Number(instrument.instrument_token), instrument)
+    }
+  }
+
+  const symbols = [...new Set(holdings.filter(h => !h.instrument_token).map(h => h.symbol))]
+  for (const batch of chunks(symbols, LOOKUP_BATCH_SIZE)) {
+    const { data, error } = await supabase.from('instruments').select('*').in('tradingsymbol', batch)
+    if (error) throw error
+    for (const instrument of (data || []) as Instrument[]) {
+      bySymbol.set(`${instrument.exchange}:${instrument.tradingsymbol}`, instrument)
+    }
+  }
+
+  return (h: BrokerHolding) =>
+    (h.instrument_token ? byToken.get(h.instrument_token) : undefined) ?? bySymbol.get(`${h.exchange}:${h.symbol}`)
+}
+
+async function lookupIndustries(supabase: SupabaseClient, holdings: BrokerHolding[]) {
+  const byIsin = new Map<string, IsinIndustry>()
+
+  const isins = [...new Set(holdings.map(h => h.isin).filter((i): i is string => !!i))]
+  for (const batch of chunks(isins, LOOKUP_BATCH_SIZE)) {
+    const { data, error } = await supabase.from('isin_industries').select('*').in('isin', batch)
+    if (error) throw error
+    for (const row of (data || []) as IsinIndustry[]) {
+      byIsin.set(row.isin, row)
+    }
+  }
+
+  return byIsin
+}
+
+/**
+ * Fill in names, asset types and sectors from the instrument master. Holdings
+ * with no match keep what the broker mapping gave them; an empty master (not
+ * loaded yet) leaves every holding as it was.
+ */
+export async function enrichHoldings(supabase: SupabaseClient, holdings: BrokerHolding[]): Promise<BrokerHolding[]> {
+  if (holdings.length === 0) return holdings
+
+  const findInstrument = await lookupInstruments(supabase, holdings)
+  const industries = await lookupIndustries(supabase, holdings)
+
+  return holdings.map(h => {
+    const instrument = findInstrument(h)
+    const industry = h.isin ? industries.get(h.isin) : undefined
+    if (!instrument && !industry) return h
+
+    // Only replace names that are just the symbol; some brokers send real ones
+    const hasOwnName = h.name && h.name !== h.symbol
+    const name = hasOwnName ? h.name : industry?.company_name || instrument?.name || h.name
+    const type = instrument ? assetTypeForInstrument(instrument) : h.type
+
+    return {
+      ...h,
+      name,
+      type,
+      sector: sectorFor(type, name, industry?.industry ?? null),
+    }
+  })
+}
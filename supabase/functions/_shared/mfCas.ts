@@ -0,0 +1,296 @@
+/**
+ * Storage pipeline for RTA consolidated account statements (CAMS/KFintech).
+ * The parser turns the statement into CasData; processCASData writes folios,
+ * transactions and holdings summaries and mirrors trades into the ledger.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { writeTransactions, mapMFTransactionType, buildExternalId, LedgerTransaction } from './transactions.ts'
+import { xirr, Cashflow } from './xirr.ts'
+
+export type CasTransactionType =
+  | 'purchase'
+  | 'redemption'
+  | 'switch_in'
+  | 'switch_out'
+  | 'dividend'
+  | 'bonus'
+  | 'stamp_duty'
+  | 'stt'
+  | 'tds'
+  | 'other'
+
+// Tax lines carry only an amount and are charged on the trade they follow
+export const CAS_CHARGE_TYPES: CasTransactionType[] = ['stamp_duty', 'stt', 'tds']
+
+export interface CasTransaction {
+  date: string
+  type: CasTransactionType
+  description: string
+  amount: number
+  units?: number
+  nav?: number
+  balance_units?: number
+  dividend_rate?: number
+}
+
+export interface CasFolio {
+  folio_number: string
+  amc_name: string
+  amc_code?: string
+  scheme_name: string
+  // AMFI code when the statement prints it, otherwise the RTA product code
+  scheme_code: string
+  isin?: string
+  advisor?: string
+  registrar?: string
+  current_nav: number
+  closing_units?: number
+  cost_value?: number
+  transactions: CasTransaction[]
+}
+
+export interface CasData {
+  pan: string
+  period?: { from: string; to: string }
+  folios: CasFolio[]
+}
+
+export interface ProcessCasResult {
+  folios: number
+  transactions: number
+  ledger: number
+}
+
+const MF_TRANSACTION_BATCH_SIZE = 500
+
+/**
+ * Store a parsed CAS. A statement is authoritative for its period, so each
+ * folio's stored transactions in that window are replaced rather than
+ * appended; re-uploading the same PDF leaves the tables unchanged.
+ */
+export async function processCASData(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  pan: string,
+  casData: CasData
+): Promise<ProcessCasResult> {
+  const folios = casData.folios || []
+  const ledgerRows: LedgerTransaction[] = []
+  let folioCount = 0
+  let transactionCount = 0
+
+  for (const folio of folios) {
+    // Insert or update folio
+    const { data: folioRecord, error: folioError } = await supabaseClient
+      .from('mf_folios')
+      .upsert({
+        user_id: userId,
+        pan,
+        folio_number: folio.folio_number,
+        amc_name: folio.amc_name,
+        amc_code: folio.amc_code,
+        scheme_name: folio.scheme_name,
+        scheme_code: folio.scheme_code,
+        isin: folio.isin,
+        advisor: folio.advisor,
+        registrar: folio.registrar,
+      }, {
+        onConflict: 'user_id,folio_number,scheme_code',
+      })
+      .select()
+      .single()
+
+    if (folioError) {
+      console.error('Error inserting folio:', folioError)
+      continue
+    }
+    folioCount++
+
+    const transactions = folio.transactions || []
+    let deleteQuery = supabaseClient
+      .from('mf_transactions')
+      .delete()
+      .eq('folio_id', folioRecord.id)
+    if (casData.period) {
+      deleteQuery = deleteQuery
+        .gte('transaction_date', casData.period.from)
+        .lte('transaction_date', casData.period.to)
+    }
+    const { error: deleteError } = await deleteQuery
+    if (deleteError) {
+      console.error('Error clearing folio transactions:', deleteError)
+      continue
+    }
+
+    const rows = transactions.map(txn => ({
+      user_id: userId,
+      folio_id: folioRecord.id,
+      pan,
+      folio_number: folio.folio_number,
+      scheme_name: folio.scheme_name,
+      scheme_code: folio.scheme_code,
+      isin: folio.isin,
+      amc_name: folio.amc_name,
+      transaction_date: txn.date,
+      transaction_type: txn.type,
+      amount: txn.amount,
+      units: txn.units,
+      nav: txn.nav,
+      balance_units: txn.balance_units,
+      description: txn.description,
+      dividend_rate: txn.dividend_rate,
+    }))
+
+    for (let i = 0; i < rows.length; i += MF_TRANSACTION_BATCH_SIZE) {
+      const { error } = await supabaseClient
+        .from('mf_transactions')
+        .insert(rows.slice(i, i + MF_TRANSACTION_BATCH_SIZE))
+      if (error) {
+        console.error('Error inserting folio transactions:', error)
+        break
+      }
+      transactionCount += Math.min(MF_TRANSACTION_BATCH_SIZE, rows.length - i)
+    }
+
+    // Stamp duty and STT print as separate lines dated with their trade
+    const chargesByDate = new Map<string, number>()
+    transactions
+      .filter(txn => CAS_CHARGE_TYPES.includes(txn.type))
+      .forEach(txn => chargesByDate.set(txn.date, (chargesByDate.get(txn.date) || 0) + Math.abs(txn.amount || 0)))
+
+    // Mirror into the unified ledger so MF lots, XIRR and tax reports use the same pipeline
+    for (const txn of transactions) {
+      const ledgerType = mapMFTransactionType(txn.type)
+      if (!ledgerType) continue
+
+      const charges = ledgerType === 'dividend' ? 0 : chargesByDate.get(txn.date) || 0
+      chargesByDate.delete(txn.date)
+
+      ledgerRows.push({
+        user_id: userId,
+        source: 'MF CAS',
+        broker: folio.amc_name,
+        symbol: folio.isin || folio.scheme_code || folio.scheme_name,
+        isin: folio.isin,
+        name: folio.scheme_name,
+        asset_type: 'Mutual Fund',
+        exchange: 'MF',
+        transaction_type: ledgerType,
+        trade_date: txn.date,
+        quantity: Math.abs(txn.units || 0),
+        price: txn.nav,
+        amount: Math.abs(txn.amount || 0),
+        charges,
+        external_id: buildExternalId([folio.folio_number, folio.scheme_code, txn.date, txn.type, txn.units, txn.amount]),
+        notes: txn.description,
+      })
+    }
+
+    // Calculate and store holdings summary
+    const summary = calculateHoldingsSummary(transactions, folio.current_nav)
+    // The closing balance also covers units bought before the statement period
+    const totalUnits = folio.closing_units ?? summary.total_units
+    const investedValue = folio.cost_value ?? summary.invested_value
+    const currentValue = totalUnits * folio.current_nav
+
+    await supabaseClient
+      .from('mf_holdings_summary')
+      .upsert({
+        user_id: userId,
+        folio_id: folioRecord.id,
+        pan,
+        folio_number: folio.folio_number,
+        scheme_name: folio.scheme_name,
+        scheme_code: folio.scheme_code,
+        isin: folio.isin,
+        amc_name: folio.amc_name,
+        total_units: totalUnits,
+        current_nav: folio.current_nav,
+        current_value: currentValue,
+        invested_value: investedValue,
+        total_purchase_units: summary.total_purchase_units,
+        total_redemption_units: summary.total_redemption_units,
+        total_dividend_amount: summary.total_dividend_amount,
+        avg_nav: summary.avg_nav,
+        xirr: summary.xirr,
+        absolute_return: currentValue - investedValue,
+        absolute_return_percent: investedValue > 0 ? (currentValue - investedValue) / investedValue * 100 : null,
+        first_investment_date: summary.first_investment_date,
+        last_transaction_date: summary.last_transaction_date,
+      }, {
+        onConflict: 'user_id,folio_number,scheme_code',
+      })
+  }
+
+  let ledgerCount = 0
+  if (ledgerRows.length > 0) {
+    try {
+      ledgerCount = await writeTransactions(supabaseClient, ledgerRows)
+    } catch (ledgerError) {
+      console.error('Error writing transactions ledger:', ledgerError)
+    }
+  }
+
+  return { folios: folioCount, transactions: transactionCount, ledger: ledgerCount }
+}
+
+export function calculateHoldingsSummary(transactions: CasTransaction[], currentNav: number) {
+  let total_units = 0
+  let total_purchase_units = 0
+  let total_redemption_units = 0
+  let total_dividend_amount = 0
+  let invested_value = 0
+  let first_investment_date: string | null = null
+  let last_transaction_date: string | null = null
+  const cashflows: Cashflow[] = []
+
+  for (const txn of transactions) {
+    const txnDate = new Date(txn.date)
+
+    if (!first_investment_date || txnDate < new Date(first_investment_date)) {
+      first_investment_date = txn.date
+    }
+
+    if (!last_transaction_date || txnDate > new Date(last_transaction_date)) {
+      last_transaction_date = txn.date
+    }
+
+    if (txn.type === 'purchase' || txn.type === 'switch_in') {
+      total_purchase_units += txn.units || 0
+      invested_value += txn.amount || 0
+      cashflows.push({ date: txn.date, amount: -Math.abs(txn.amount || 0) })
+    } else if (txn.type === 'redemption' || txn.type === 'switch_out') {
+      total_redemption_units += Math.abs(txn.units || 0)
+      invested_value -= Math.abs(txn.amount || 0)
+      cashflows.push({ date: txn.date, amount: Math.abs(txn.amount || 0) })
+    } else if (txn.type === 'dividend') {
+      total_dividend_amount += txn.amount || 0
+      cashflows.push({ date: txn.date, amount: Math.abs(txn.amount || 0) })
+    }
+
+    // Tax lines carry no balance
+    if (txn.balance_units !== undefined) {
+      total_units = txn.balance_units
+    }
+  }
+
+  const avg_nav = total_purchase_units > 0 ? invested_value / total_purchase_units : 0
+
+  // Current value is treated as a redemption today; null when there is nothing to solve
+  cashflows.push({ date: new Date().toISOString().slice(0, 10), amount: total_units * (currentNav || 0) })
+  const rate = xirr(cashflows)
+  const xirrPercent = rate !== null ? Math.round(rate * 10000) / 100 : null
+
+  return {
+    total_units,
+    total_purchase_units,
+    total_redemption_units,
+    total_dividend_amount,
+    invested_value,
+    avg_nav,
+    xirr: xirrPercent,
+    first_investment_date,
+    last_transaction_date,
+  }
+}
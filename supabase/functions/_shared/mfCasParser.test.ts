@@ -0,0 +1,125 @@
+import { deepStrictEqual as assertEquals, strictEqual, throws } from 'node:assert'
+import { classifyTransaction, parseDetailedCas, parseTransactionLine } from './mfCasParser.ts'
+
+// Lines as extractPdfLines rebuilds them from a detailed CAMS/KFintech statement
+const STATEMENT = [
+  'Consolidated Account Statement',
+  '01-Apr-2023 To 31-Mar-2024',
+  'Email Id: investor@example.com',
+  'PAN: ABCDE1234F',
+  'HDFC Mutual Fund',
+  'Folio No: 1234567 / 89 PAN: ABCDE1234F KYC: OK PAN: OK',
+  'HFCDG-HDFC Flexi Cap Fund - Direct Plan - Growth (Advisor: DIRECT) - ISIN: INF179K01UT0 Registrar : CAMS',
+  'Opening Unit Balance: 0.000',
+  '01-Apr-2023 Purchase 9,999.50 7.084 1,411.563 7.084',
+  '01-Apr-2023 *** Stamp Duty *** 0.50',
+  '01-May-2023 Systematic Investment (1/120) 4,999.75 3.542 1,411.563 10.626',
+  '01-May-2023 *** Stamp Duty *** 0.25',
+  '15-Jun-2023 Redemption (2,822.00) (2.000) 1,411.000 8.626',
+  '15-Jun-2023 *** STT Paid *** 0.03',
+  '20-Jul-2023 Switch-Out - To HDFC Balanced Advantage Fund - Auto (1,411.00) (1.000) 1,411.000 7.626',
+  'Closing Unit Balance: 7.626 NAV on 31-Mar-2024: INR 1,800.000 Cost Value: 10,764.03 Market Value on 31-Mar-2024: INR 13,726.80',
+  'Axis Mutual Fund',
+  'Folio No: 91012345678 PAN: ABCDE1234F KYC: OK',
+  'Axis ELSS Tax Saver Fund - Direct Growth - ISIN: INF846K01EW2 (AMFI Code: 120503) Registrar : KFINTECH',
+  'Opening Unit Balance: 10.000',
+  '05-Jan-2024 Purchase 1,000.00 10.000 100.000 20.000',
+  '08-Jan-2024 Purchase - Rejected (1,000.00) (10.000) 100.000 10.000',
+  '10-Feb-2024 Switch-In - From Axis Dividend Yield Fund - IDCW Payout 111.11 1.000 111.110 11.000',
+  '12-Feb-2024 IDCW Paid 25.00',
+  'Closing Unit Balance: 11.000',
+  'NAV on 31-Mar-2024: INR 120.000 Cost Value: 1,111.11',
+]
+
+Deno.test('classifyTransaction reads the description, then the units', () => {
+  strictEqual(classifyTransaction('Purchase', 7.084), 'purchase')
+  strictEqual(classifyTransaction('Systematic Investment (1/120)', 3.542), 'purchase')
+  strictEqual(classifyTransaction('SIP Purchase-BSE', 3.542), 'purchase')
+  strictEqual(classifyTransaction('Redemption', -2), 'redemption')
+  strictEqual(classifyTransaction('Switch-Out - To HDFC Balanced Advantage Fund - Auto', -1), 'switch_out')
+  strictEqual(classifyTransaction('Switch-In - From Axis Dividend Yield Fund - IDCW Payout', 1), 'switch_in')
+  strictEqual(classifyTransaction('Switch Over Out', -1), 'switch_out')
+  strictEqual(classifyTransaction('Stamp Duty', undefined), 'stamp_duty')
+  strictEqual(classifyTransaction('STT Paid', undefined), 'stt')
+  strictEqual(classifyTransaction('TDS on Redemption', undefined), 'tds')
+  strictEqual(classifyTransaction('IDCW Reinvestment', 0.45), 'purchase')
+  strictEqual(classifyTransaction('IDCW Paid', undefined), 'dividend')
+  strictEqual(classifyTransaction('Purchase - Rejected', -10), 'redemption')
+  strictEqual(classifyTransaction('Address updated', undefined), 'other')
+})
+
+Deno.test('parseTransactionLine reads trades with amounts in brackets as negative', () => {
+  assertEquals(parseTransactionLine('15-Jun-2023', 'Redemption (2,822.00) (2.000) 1,411.000 8.626', 10.626), {
+    date: '2023-06-15',
+    type: 'redemption',
+    description: 'Redemption',
+    amount: -2822,
+    units: -2,
+    nav: 1411,
+    balance_units: 8.626,
+  })
+})
+
+Deno.test('parseTransactionLine reads tax lines as a lone amount', () => {
+  assertEquals(parseTransactionLine('01-Apr-2023', '*** Stamp Duty *** 0.50', 7.084), {
+    date: '2023-04-01',
+    type: 'stamp_duty',
+    description: 'Stamp Duty',
+    amount: 0.5,
+    balance_units: undefined,
+  })
+  // A payout leaves the unit balance where it was
+  strictEqual(parseTransactionLine('12-Feb-2024', 'IDCW Paid 25.00', 11)?.balance_units, 11)
+  strictEqual(parseTransactionLine('12-Feb-2024', 'Nominee updated', 11), null)
+})
+
+Deno.test('parseDetailedCas reads the investor, period and folios', () => {
+  const cas = parseDetailedCas(STATEMENT)
+
+  strictEqual(cas.pan, 'ABCDE1234F')
+  assertEquals(cas.period, { from: '2023-04-01', to: '2024-03-31' })
+  assertEquals(
+    cas.folios.map(f => [f.folio_number, f.amc_name, f.scheme_name, f.scheme_code, f.isin, f.registrar]),
+    [
+      ['1234567/89', 'HDFC Mutual Fund', 'HDFC Flexi Cap Fund - Direct Plan - Growth', 'HFCDG', 'INF179K01UT0', 'CAMS'],
+      ['91012345678', 'Axis Mutual Fund', 'Axis ELSS Tax Saver Fund - Direct Growth', '120503', 'INF846K01EW2', 'KFINTECH'],
+    ]
+  )
+})
+
+Deno.test('parseDetailedCas collects every transaction with its charges and the closing balance', () => {
+  const [hdfc, axis] = parseDetailedCas(STATEMENT).folios
+
+  assertEquals(
+    hdfc.transactions.map(t => [t.date, t.type, t.amount, t.units]),
+    [
+      ['2023-04-01', 'purchase', 9999.5, 7.084],
+      ['2023-04-01', 'stamp_duty', 0.5, undefined],
+      ['2023-05-01', 'purchase', 4999.75, 3.542],
+      ['2023-05-01', 'stamp_duty', 0.25, undefined],
+      ['2023-06-15', 'redemption', -2822, -2],
+      ['2023-06-15', 'stt', 0.03, undefined],
+      ['2023-07-20', 'switch_out', -1411, -1],
+    ]
+  )
+  strictEqual(hdfc.closing_units, 7.626)
+  strictEqual(hdfc.current_nav, 1800)
+  strictEqual(hdfc.cost_value, 10764.03)
+
+  assertEquals(
+    axis.transactions.map(t => [t.type, t.units, t.balance_units]),
+    [
+      ['purchase', 10, 20],
+      ['redemption', -10, 10],
+      ['switch_in', 1, 11],
+      ['dividend', undefined, 11],
+    ]
+  )
+  // NAV and cost wrapped onto the line after the closing balance
+  strictEqual(axis.current_nav, 120)
+  strictEqual(axis.cost_value, 1111.11)
+})
+
+Deno.test('parseDetailedCas rejects statements without a PAN', () => {
+  throws(() => parseDetailedCas(['HDFC Mutual Fund']), /Could not find a PAN/)
+})
@@ -0,0 +1,241 @@
+/**
+ * Parser for the detailed CAS PDF that CAMS and KFintech email on request
+ * (camsonline.com / mfs.kfintech.com, "Detailed" statement with transactions).
+ * Layout per scheme:
+ *   HDFC Mutual Fund
+ *   Folio No: 1234567 / 89   PAN: ABCDE1234F  KYC: OK  PAN: OK
+ *   HFCDG-HDFC Flexi Cap Fund - Direct Plan - Growth (Advisor: DIRECT) - ISIN: INF179K01UT0 Registrar : CAMS
+ *   Opening Unit Balance: 0.000
+ *   01-Feb-2023 Systematic Investment (1/120) 4,999.75 3.542 1,411.563 3.542
+ *   01-Feb-2023 *** Stamp Duty *** 0.25
+ *   Closing Unit Balance: 3.542  NAV on 31-Mar-2026: INR 1,800.000  Cost Value: 5,000.00  Market Value on 31-Mar-2026: INR 6,375.60
+ */
+
+import type { CasData, CasFolio, CasTransaction, CasTransactionType } from './mfCas.ts'
+import { parseNumber, MAX_STRING_LENGTH } from './holdingsImport.ts'
+
+const DATE = String.raw`\d{2}-[A-Za-z]{3}-\d{4}`
+const NUMBER = String.raw`\(?-?[\d,]*\.?\d+\)?`
+
+const PAN_PATTERN = /PAN\s*:\s*([A-Z]{5}\d{4}[A-Z])/
+const PERIOD_PATTERN = new RegExp(`(${DATE})\\s+to\\s+(${DATE})`, 'i')
+const AMC_PATTERN = /^([A-Za-z0-9&.' ]+Mutual\s*Fund)$/i
+const FOLIO_PATTERN = /Folio\s*No\s*:\s*([\w/ -]+?)(?=\s+(?:PAN|KYC|Nominee)\b|\s{2,}|$)/i
+const ISIN_PATTERN = /ISIN\s*:\s*(IN[A-Z0-9]{10})/
+const AMFI_PATTERN = /AMFI\s*(?:Code)?\s*:?\s*(\d{5,6})/i
+const ADVISOR_PATTERN = /\(\s*Advisor\s*:\s*([^)]*)\)/i
+const REGISTRAR_PATTERN = /Registrar\s*:\s*([A-Za-z]+)/i
+const CLOSING_PATTERN = /Closing\s+Unit\s+Balance\s*:\s*([\d,.]+)/i
+const NAV_PATTERN = new RegExp(`NAV\\s+on\\s+${DATE}\\s*:\\s*(?:INR|Rs\\.?)?\\s*([\\d,.]+)`, 'i')
+const COST_PATTERN = /(?:Total\s+)?Cost\s+Value\s*:\s*(?:INR|Rs\.?)?\s*([\d,.]+)/i
+const TRANSACTION_PATTERN = new RegExp(`^(${DATE})\\s+(.*)$`)
+const NUMBER_TOKEN = new RegExp(`^${NUMBER}$`)
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12',
+}
+
+function toIsoDate(value: string): string {
+  const [day, month, year] = value.split('-')
+  return `${year}-${MONTHS[month.toLowerCase()]}-${day}`
+}
+
+export function classifyTransaction(description: string, units: number | undefined): CasTransactionType {
+  const lower = description.toLowerCase()
+
+  if (lower.includes('stamp duty')) return 'stamp_duty'
+  if (/\bstt\b/.test(lower)) return 'stt'
+  if (/\btds\b/.test(lower)) return 'tds'
+  if (lower.includes('switch')) {
+    // Scheme names in the description ("...to Auto Fund", "...Payout") can't decide it
+    if (/switch[\s-]*(over[\s-]*)?out/.test(lower)) return 'switch_out'
+    if (/switch[\s-]*(over[\s-]*)?in\b/.test(lower)) return 'switch_in'
+    return units !== undefined && units < 0 ? 'switch_out' : 'switch_in'
+  }
+  // Reinvested IDCW buys units, so it is a purchase for lots and cost
+  if ((lower.includes('idcw') || lower.includes('dividend')) && lower.includes('reinvest')) return 'purchase'
+  if (lower.includes('idcw') || lower.includes('dividend')) return 'dividend'
+  if (lower.includes('bonus')) return 'bonus'
+  if (lower.includes('redemption') || lower.includes('redeem') || lower.includes('withdrawal')) return 'redemption'
+  if (lower.includes('purchase') || lower.includes('systematic') || lower.includes('sip')) {
+    // A rejected or reversed purchase repeats its description with the units
+    // in brackets; it takes the units back out
+    return units !== undefined && units < 0 ? 'redemption' : 'purchase'
+  }
+
+  if (units !== undefined) {
+    return units < 0 ? 'redemption' : 'purchase'
+  }
+  return 'other'
+}
+
+/**
+ * Split a transaction line into its description and trailing numbers:
+ * amount, units, NAV and unit balance for trades; a lone amount for tax lines
+ */
+export function parseTransactionLine(date: string, rest: string, runningBalance: number): CasTransaction | null {
+  const tokens = rest.split(' ')
+  const numbers: number[] = []
+  while (tokens.length > 0 && NUMBER_TOKEN.test(tokens[tokens.length - 1])) {
+    numbers.unshift(parseNumber(tokens.pop()))
+  }
+  const description = tokens.join(' ').replace(/\*+/g, '').trim().slice(0, MAX_STRING_LENGTH)
+
+  if (numbers.length === 0) return null
+
+  if (numbers.length >= 4) {
+    const [amount, units, nav, balance] = numbers.slice(-4)
+    return {
+      date: toIsoDate(date),
+      type: classifyTransaction(description, units),
+      description,
+      amount,
+      units,
+      nav,
+      balance_units: balance,
+    }
+  }
+
+  const type = classifyTransaction(description, undefined)
+  return {
+    date: toIsoDate(date),
+    type,
+    description,
+    amount: numbers[0],
+    // Payout and tax lines leave the balance where it was
+    balance_units: type === 'dividend' || type === 'other' ? runningBalance : undefined,
+  }
+}
+
+export function parseSchemeLine(line: string, folio: Partial<CasFolio>) {
+  const isin = line.match(ISIN_PATTERN)
+  const amfi = line.match(AMFI_PATTERN)
+  const advisor = line.match(ADVISOR_PATTERN)
+  const registrar = line.match(REGISTRAR_PATTERN)
+
+  let name = line
+    .split(/\(\s*Advisor|\s-\s*ISIN|ISIN\s*:|\(AMFI|Registrar\s*:/i)[0]
+    .trim()
+  // Leading RTA product code, e.g. "HFCDG-HDFC Flexi Cap Fund"
+  const codeMatch = name.match(/^([A-Z0-9]{2,10})-\s*(.+)$/)
+  const rtaCode = codeMatch ? codeMatch[1] : undefined
+  if (codeMatch) name = codeMatch[2]
+
+  folio.scheme_name = name.replace(/\s+-\s*$/, '').slice(0, MAX_STRING_LENGTH)
+  folio.isin = isin?.[1]
+  folio.scheme_code = amfi?.[1] ?? rtaCode ?? isin?.[1] ?? folio.scheme_name
+  folio.advisor = advisor?.[1]?.trim() || undefined
+  folio.registrar = registrar?.[1]?.toUpperCase() || undefined
+}
+
+/**
+ * Walk the statement top to bottom. A folio opens at "Folio No:", takes its
+ * scheme from the ISIN line, collects dated lines and closes at its
+ * closing balance.
+ */
+export function parseDetailedCas(lines: string[]): CasData {
+  const folios: CasFolio[] = []
+  let pan: string | null = null
+  let period: CasData['period']
+  let amcName = ''
+  let folioNumber = ''
+  let current: Partial<CasFolio> & { transactions: CasTransaction[] } | null = null
+  let runningBalance = 0
+
+  const closeCurrent = () => {
+    if (current?.scheme_name && current.folio_number) {
+      folios.push({
+        folio_number: current.folio_number,
+        amc_name: current.amc_name || 'Unknown AMC',
+        scheme_name: current.scheme_name,
+        scheme_code: current.scheme_code || current.scheme_name,
+        isin: current.isin,
+        advisor: current.advisor,
+        registrar: current.registrar,
+        current_nav: current.current_nav ?? 0,
+        closing_units: current.closing_units,
+        cost_value: current.cost_value,
+        transactions: current.transactions,
+      })
+    }
+    current = null
+  }
+
+  for (const line of lines) {
+    if (!pan) {
+      const panMatch = line.match(PAN_PATTERN)
+      if (panMatch) pan = panMatch[1]
+    }
+    if (!period) {
+      const periodMatch = line.match(PERIOD_PATTERN)
+      if (periodMatch) period = { from: toIsoDate(periodMatch[1]), to: toIsoDate(periodMatch[2]) }
+    }
+
+    const amcMatch = line.match(AMC_PATTERN)
+    if (amcMatch && !line.match(ISIN_PATTERN)) {
+      closeCurrent()
+      amcName = amcMatch[1].trim()
+      continue
+    }
+
+    const folioMatch = line.match(FOLIO_PATTERN)
+    if (folioMatch) {
+      closeCurrent()
+      folioNumber = folioMatch[1].replace(/\s+/g, '')
+      continue
+    }
+
+    if (ISIN_PATTERN.test(line) && folioNumber) {
+      // A folio can hold several schemes, each with its own ISIN line
+      closeCurrent()
+      current = { folio_number: folioNumber, amc_name: amcName, transactions: [] }
+      parseSchemeLine(line, current)
+      runningBalance = 0
+      continue
+    }
+
+    if (!current) continue
+
+    const opening = line.match(/Opening\s+Unit\s+Balance\s*:\s*([\d,.]+)/i)
+    if (opening) {
+      runningBalance = parseNumber(opening[1])
+      continue
+    }
+
+    const closing = line.match(CLOSING_PATTERN)
+    if (closing) {
+      current.closing_units = parseNumber(closing[1])
+      const nav = line.match(NAV_PATTERN)
+      const cost = line.match(COST_PATTERN)
+      if (nav) current.current_nav = parseNumber(nav[1])
+      if (cost) current.cost_value = parseNumber(cost[1])
+      continue
+    }
+
+    // NAV and cost sometimes wrap onto the line after the closing balance
+    if (current.closing_units !== undefined) {
+      const nav = line.match(NAV_PATTERN)
+      const cost = line.match(COST_PATTERN)
+      if (nav && current.current_nav === undefined) current.current_nav = parseNumber(nav[1])
+      if (cost && current.cost_value === undefined) current.cost_value = parseNumber(cost[1])
+      continue
+    }
+
+    const txnMatch = line.match(TRANSACTION_PATTERN)
+    if (txnMatch) {
+      const txn = parseTransactionLine(txnMatch[1], txnMatch[2], runningBalance)
+      if (txn) {
+        if (txn.balance_units !== undefined) runningBalance = txn.balance_units
+        current.transactions.push(txn)
+      }
+    }
+  }
+  closeCurrent()
+
+  if (!pan) {
+    throw new Error('Could not find a PAN in the statement. Is this a CAMS or KFintech CAS?')
+  }
+
+  return { pan, period, folios }
+}
@@ -0,0 +1,88 @@
+/**
+ * OAuth `state` that the callback can trust. The payload (user and app URL) is
+ * HMAC-signed, so a callback can't be replayed for another user or redirected
+ * to another site. Signed with OAUTH_STATE_SECRET, or the service role key
+ * when that isn't set.
+ */
+
+export interface OAuthStateData {
+  user_id: string
+  app_url: string
+  nonce: string
+  timestamp: number
+}
+
+// States older than this are rejected
+export const OAUTH_STATE_MAX_AGE_MS = 10 * 60 * 1000
+
+const DEFAULT_APP_URL = 'https://portfo-blend.lovable.app'
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0))
+}
+
+async function hmacKey(): Promise<CryptoKey> {
+  const secret = Deno.env.get('OAUTH_STATE_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (!secret) {
+    throw new Error('No secret configured for signing OAuth state')
+  }
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  )
+}
+
+/**
+ * App URL to send the user back to, from the request that started the login
+ */
+export function appUrlFromRequest(req: Request): string {
+  const requestOrigin = req.headers.get('origin') || req.headers.get('referer') || 'http://localhost:8080'
+  return requestOrigin.includes('localhost') ? 'http://localhost:8080' : DEFAULT_APP_URL
+}
+
+export function defaultAppUrl(): string {
+  return Deno.env.get('APP_URL') || DEFAULT_APP_URL
+}
+
+export async function signState(userId: string, appUrl: string): Promise<string> {
+  const data: OAuthStateData = {
+    user_id: userId,
+    app_url: appUrl,
+    nonce: crypto.randomUUID(),
+    timestamp: Date.now(),
+  }
+  const payload = new TextEncoder().encode(JSON.stringify(data))
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', await hmacKey(), payload))
+  return `${base64UrlEncode(payload)}.${base64UrlEncode(signature)}`
+}
+
+/**
+ * The state's payload, or null when it is malformed, tampered with or expired
+ */
+export async function verifyState(state: string | null): Promise<OAuthStateData | null> {
+  if (!state) return null
+
+  const [payloadPart, signaturePart] = state.split('.')
+  if (!payloadPart || !signaturePart) return null
+
+  try {
+    const payload = base64UrlDecode(payloadPart)
+    const valid = await crypto.subtle.verify('HMAC', await hmacKey(), base64UrlDecode(signaturePart), payload)
+    if (!valid) return null
+
+    const data = JSON.parse(new TextDecoder().decode(payload)) as OAuthStateData
+    if (!data.user_id || Date.now() - data.timestamp > OAUTH_STATE_MAX_AGE_MS) return null
+    return data
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Text extraction for statement PDFs (depository and RTA CAS). The PDF is
+ * decrypted and read inside the function; neither the file nor its password
+ * leaves the request.
+ */
+
+import * as pdfjs from 'https://esm.sh/pdfjs-dist@3.11.174/legacy/build/pdf.js'
+
+// Text items whose baselines are this close (in PDF units) share a line
+const LINE_Y_TOLERANCE = 2
+
+export const MAX_PDF_PAGES = 200
+
+interface PdfTextItem {
+  str: string
+  transform: number[]
+}
+
+/**
+ * Read every page and rebuild its text as lines, ordered top to bottom and
+ * left to right, with table cells on a line joined by spaces
+ */
+export async function extractPdfLines(data: ArrayBuffer, password?: string): Promise<string[]> {
+  let document
+  try {
+    document = await pdfjs.getDocument({
+      data: new Uint8Array(data),
+      password: password || undefined,
+      disableWorker: true,
+      isEvalSupported: false,
+      useSystemFonts: false,
+    }).promise
+  } catch (error) {
+    const name = error instanceof Error ? error.name : ''
+    if (name === 'PasswordException') {
+      throw new Error(password
+        ? 'Incorrect PDF password'
+        : 'This PDF is password protected. Enter the statement password and try again.')
+    }
+    throw new Error(`Failed to read PDF: ${error instanceof Error ? error.message : 'Invalid file'}`)
+  }
+
+  if (document.numPages > MAX_PDF_PAGES) {
+    throw new Error(`Too many pages. Maximum ${MAX_PDF_PAGES} allowed, found ${document.numPages}`)
+  }
+
+  const lines: string[] = []
+  for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+    const page = await document.getPage(pageNumber)
+    const content = await page.getTextContent()
+    lines.push(...groupIntoLines(content.items as PdfTextItem[]))
+  }
+
+  await document.destroy()
+  return lines
+}
+
+function groupIntoLines(items: PdfTextItem[]): string[] {
+  const rows: { y: number; cells: { x: number; text: string }[] }[] = []
+
+  items.forEach(item => {
+    const text = item.str?.trim()
+    if (!text) return
+
+    const x = item.transform[4]
+    const y = item.transform[5]
+    let row = rows.find(r => Math.abs(r.y - y) <= LINE_Y_TOLERANCE)
+    if (!row) {
+      row = { y, cells: [] }
+      rows.push(row)
+    }
+    row.cells.push({ x, text })
+  })
+
+  // PDF y grows upwards
+  return rows
+    .sort((a, b) => b.y - a.y)
+    .map(row => row.cells.sort((a, b) => a.x - b.x).map(c => c.text).join(' ').replace(/\s+/g, ' '))
+}
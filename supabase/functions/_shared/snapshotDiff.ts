@@ -0,0 +1,263 @@
+/**
+ * Holding-level diff between two snapshots for edge functions (mirrors src/lib/snapshotDiff.ts)
+ * Splits each holding's value change into price and quantity effects and
+ * reports how the asset type, sector and source mix moved
+ */
+
+export type PositionChange = 'opened' | 'closed' | 'increased' | 'reduced' | 'unchanged'
+
+export type MixDimension = 'type' | 'sector' | 'source'
+
+// Minimal snapshot_holdings shape needed to diff two dates
+export interface DiffableHolding {
+  symbol: string
+  name?: string
+  isin?: string
+  type?: string
+  sector?: string
+  source: string
+  quantity: number
+  ltp?: number
+  currentValue?: number
+}
+
+export interface HoldingDiff {
+  key: string
+  symbol: string
+  name?: string
+  source: string
+  change: PositionChange
+  fromQuantity: number
+  toQuantity: number
+  fromPrice?: number
+  toPrice?: number
+  fromValue?: number
+  toValue?: number
+  valueChange?: number
+  // Old quantity x price move; undefined when either side has no price
+  priceEffect?: number
+  // Quantity change x new price (old price for closed positions)
+  quantityEffect?: number
+}
+
+export interface MixChange {
+  key: string
+  fromValue: number
+  toValue: number
+  fromPercent: number
+  toPercent: number
+  // Change in weight, in percentage points
+  change: number
+}
+
+export interface SnapshotDiff {
+  fromDate: string
+  toDate: string
+  fromValue: number
+  toValue: number
+  valueChange: number
+  priceEffect: number
+  quantityEffect: number
+  // Holdings whose value change couldn't be split because a side has no price
+  unpricedCount: number
+  counts: Record<PositionChange, number>
+  holdings: HoldingDiff[]
+  mix: Record<MixDimension, MixChange[]>
+}
+
+// Quantity moves smaller than this are rounding, not trades (MF units carry 3-4 decimals)
+const QUANTITY_EPSILON = 1e-6
+
+const MIX_DIMENSIONS: MixDimension[] = ['type', 'sector', 'source']
+
+/**
+ * The same ISIN held through two brokers is two positions; without an ISIN,
+ * fall back to the symbol
+ */
+export function getDiffKey(holding: DiffableHolding): string {
+  return `${holding.source}|${(holding.isin || holding.symbol).toUpperCase()}`
+}
+
+function valueOf(holding: DiffableHolding): number | undefined {
+  if (holding.currentValue !== undefined) return holding.currentValue
+  return holding.ltp !== undefined ? holding.quantity * holding.ltp : undefined
+}
+
+function priceOf(holding?: DiffableHolding): number | undefined {
+  if (!holding) return undefined
+  if (holding.ltp !== undefined) return holding.ltp
+  return holding.currentValue !== undefined && holding.quantity > 0
+    ? holding.currentValue / holding.quantity
+    : undefined
+}
+
+// Merge duplicate rows for a key so quantities and values add up
+function indexHoldings(holdings: DiffableHolding[]): Map<string, DiffableHolding> {
+  const index = new Map<string, DiffableHolding>()
+
+  holdings.forEach(h => {
+    const key = getDiffKey(h)
+    const existing = index.get(key)
+    if (!existing) {
+      index.set(key, { ...h, currentValue: valueOf(h) })
+      return
+    }
+
+    const existingValue = valueOf(existing)
+    const value = valueOf(h)
+    const quantity = existing.quantity + h.quantity
+    const currentValue = existingValue !== undefined && value !== undefined ? existingValue + value : undefined
+    index.set(key, {
+      ...existing,
+      quantity,
+      currentValue,
+      ltp: currentValue !== undefined && quantity > 0 ? currentValue / quantity : undefined,
+    })
+  })
+
+  return index
+}
+
+function classifyChange(fromQuantity: number, toQuantity: number): PositionChange {
+  if (fromQuantity <= QUANTITY_EPSILON) return 'opened'
+  if (toQuantity <= QUANTITY_EPSILON) return 'closed'
+  if (toQuantity - fromQuantity > QUANTITY_EPSILON) return 'increased'
+  if (fromQuantity - toQuantity > QUANTITY_EPSILON) return 'reduced'
+  return 'unchanged'
+}
+
+/**
+ * Compare two snapshots holding by holding. The value change is split into a
+ * price effect (old quantity x price move) and a quantity effect (units bought
+ * or sold x new price), which add back up to the total change.
+ */
+export function diffHoldings(from: DiffableHolding[], to: DiffableHolding[]): HoldingDiff[] {
+  const fromIndex = indexHoldings(from)
+  const toIndex = indexHoldings(to)
+  const keys = new Set([...fromIndex.keys(), ...toIndex.keys()])
+
+  return Array.from(keys)
+    .map(key => {
+      const before = fromIndex.get(key)
+      const after = toIndex.get(key)
+      const reference = (after || before) as DiffableHolding
+
+      const fromQuantity = before?.quantity ?? 0
+      const toQuantity = after?.quantity ?? 0
+      const change = classifyChange(fromQuantity, toQuantity)
+
+      const fromValue = before ? before.currentValue : 0
+      const toValue = after ? after.currentValue : 0
+      const fromPrice = priceOf(before)
+      const toPrice = priceOf(after)
+
+      let priceEffect: number | undefined
+      let quantityEffect: number | undefined
+      if (change === 'opened' && toValue !== undefined) {
+        priceEffect = 0
+        quantityEffect = toValue
+      } else if (change === 'closed' && fromValue !== undefined) {
+        priceEffect = 0
+        quantityEffect = -fromValue
+      } else if (fromPrice !== undefined && toPrice !== undefined) {
+        priceEffect = fromQuantity * (toPrice - fromPrice)
+        quantityEffect = (toQuantity - fromQuantity) * toPrice
+      }
+
+      return {
+        key,
+        symbol: reference.symbol,
+        name: reference.name,
+        source: reference.source,
+        change,
+        fromQuantity,
+        toQuantity,
+        fromPrice,
+        toPrice,
+        fromValue,
+        toValue,
+        valueChange: fromValue !== undefined && toValue !== undefined ? toValue - fromValue : undefined,
+        priceEffect,
+        quantityEffect,
+      }
+    })
+    .sort((a, b) => Math.abs(b.valueChange ?? 0) - Math.abs(a.valueChange ?? 0))
+}
+
+function groupValues(holdings: DiffableHolding[], dimension: MixDimension): Map<string, number> {
+  const groups = new Map<string, number>()
+  holdings.forEach(h => {
+    const value = valueOf(h)
+    if (value === undefined) return
+    const key = h[dimension] || 'Unknown'
+    groups.set(key, (groups.get(key) || 0) + value)
+  })
+  return groups
+}
+
+/**
+ * Shift in portfolio weights by asset type, sector or source. Only priced
+ * holdings count, so ledger-rebuilt snapshots without prices don't skew the mix.
+ */
+export function calculateMixChanges(
+  from: DiffableHolding[],
+  to: DiffableHolding[],
+  dimension: MixDimension
+): MixChange[] {
+  const fromGroups = groupValues(from, dimension)
+  const toGroups = groupValues(to, dimension)
+  const fromTotal = Array.from(fromGroups.values()).reduce((sum, v) => sum + v, 0)
+  const toTotal = Array.from(toGroups.values()).reduce((sum, v) => sum + v, 0)
+  const keys = new Set([...fromGroups.keys(), ...toGroups.keys()])
+
+  return Array.from(keys)
+    .map(key => {
+      const fromValue = fromGroups.get(key) || 0
+      const toValue = toGroups.get(key) || 0
+      const fromPercent = fromTotal > 0 ? (fromValue / fromTotal) * 100 : 0
+      const toPercent = toTotal > 0 ? (toValue / toTotal) * 100 : 0
+      return { key, fromValue, toValue, fromPercent, toPercent, change: toPercent - fromPercent }
+    })
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+}
+
+export function buildSnapshotDiff(
+  fromDate: string,
+  from: DiffableHolding[],
+  toDate: string,
+  to: DiffableHolding[]
+): SnapshotDiff {
+  const holdings = diffHoldings(from, to)
+
+  const counts: Record<PositionChange, number> = {
+    opened: 0,
+    closed: 0,
+    increased: 0,
+    reduced: 0,
+    unchanged: 0,
+  }
+  holdings.forEach(h => counts[h.change]++)
+
+  const sumValues = (list: DiffableHolding[]) => list.reduce((sum, h) => sum + (valueOf(h) ?? 0), 0)
+  const fromValue = sumValues(from)
+  const toValue = sumValues(to)
+
+  const mix = {} as Record<MixDimension, MixChange[]>
+  MIX_DIMENSIONS.forEach(dimension => {
+    mix[dimension] = calculateMixChanges(from, to, dimension)
+  })
+
+  return {
+    fromDate,
+    toDate,
+    fromValue,
+    toValue,
+    valueChange: toValue - fromValue,
+    priceEffect: holdings.reduce((sum, h) => sum + (h.priceEffect ?? 0), 0),
+    quantityEffect: holdings.reduce((sum, h) => sum + (h.quantityEffect ?? 0), 0),
+    unpricedCount: holdings.filter(h => h.priceEffect === undefined).length,
+    counts,
+    holdings,
+    mix,
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Shared writer for the unified transactions ledger
+ * Edge functions normalize their source-specific trades into LedgerTransaction
+ * rows and upsert them here so re-imports never duplicate entries
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type LedgerTransactionType =
+  | 'buy'
+  | 'sell'
+  | 'dividend'
+  | 'bonus'
+  | 'split'
+  | 'switch_in'
+  | 'switch_out'
+  | 'interest'
+
+export interface LedgerTransaction {
+  user_id: string
+  source: string
+  broker?: string | null
+  symbol: string
+  isin?: string | null
+  name?: string | null
+  asset_type?: string | null
+  exchange?: string | null
+  transaction_type: LedgerTransactionType
+  trade_date: string
+  quantity: number
+  price?: number | null
+  amount: number
+  charges?: number
+  ratio?: number | null
+  external_id: string
+  notes?: string | null
+}
+
+const LEDGER_BATCH_SIZE = 500
+
+/**
+ * Upsert ledger rows in batches, de-duplicating on (user_id, source, external_id)
+ * Returns the number of rows written
+ */
+export async function writeTransactions(
+  supabase: SupabaseClient,
+  transactions: LedgerTransaction[]
+): Promise<number> {
+  // Collapse duplicates within the same payload - Postgres rejects an upsert
+  // that touches the same conflict key twice
+  const unique = new Map<string, LedgerTransaction>()
+  for (const txn of transactions) {
+    unique.set(`${txn.user_id}|${txn.source}|${txn.external_id}`, txn)
+  }
+  const rows = Array.from(unique.values())
+
+  let written = 0
+  for (let i = 0; i < rows.length; i += LEDGER_BATCH_SIZE) {
+    const batch = rows.slice(i, i + LEDGER_BATCH_SIZE)
+    const { error } = await supabase
+      .from('transactions')
+      .upsert(batch, { onConflict: 'user_id,source,external_id' })
+
+    if (error) {
+      throw new Error(`Failed to write transactions: ${error.message}`)
+    }
+    written += batch.length
+  }
+
+  return written
+}
+
+/**
+ * Map a CAS/RTA mutual fund transaction type onto the ledger vocabulary
+ * Returns null for informational lines (stamp duty, STT, address changes)
+ */
+export function mapMFTransactionType(type: string): LedgerTransactionType | null {
+  const normalized = String(type || '').toLowerCase().trim()
+
+  if (normalized === 'purchase' || normalized === 'sip' || normalized.includes('purchase')) return 'buy'
+  if (normalized === 'redemption' || normalized.includes('redeem')) return 'sell'
+  if (normalized === 'switch_in' || normalized === 'switch in') return 'switch_in'
+  if (normalized === 'switch_out' || normalized === 'switch out') return 'switch_out'
+  if (normalized.includes('dividend') || normalized === 'idcw') return 'dividend'
+  if (normalized.includes('bonus')) return 'bonus'
+
+  return null
+}
+
+/**
+ * Build a deterministic identifier for sources that don't supply one, so that
+ * importing the same statement twice produces the same external_id
+ */
+export function buildExternalId(parts: (string | number | null | undefined)[]): string {
+  return parts.map(p => (p === null || p === undefined ? '' : String(p).trim())).join(':')
+}
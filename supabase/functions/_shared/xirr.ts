@@ -0,0 +1,104 @@
+/**
+ * XIRR solver for edge functions (mirrors src/lib/xirr.ts)
+ * Newton-Raphson with a bisection fallback over dated cashflows where money
+ * invested is negative and money received (including current value) is positive
+ */
+
+export interface Cashflow {
+  date: string
+  amount: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DAYS_PER_YEAR = 365
+const MAX_NEWTON_ITERATIONS = 50
+const MAX_BISECTION_ITERATIONS = 200
+const RATE_TOLERANCE = 1e-9
+const MIN_RATE = -0.999999
+const MAX_RATE = 1e6
+
+interface TimedFlow {
+  years: number
+  amount: number
+}
+
+function toTimedFlows(cashflows: Cashflow[]): TimedFlow[] {
+  const dated = cashflows
+    .filter(cf => cf.amount !== 0 && isFinite(cf.amount))
+    .map(cf => ({ time: Date.parse(cf.date.slice(0, 10)), amount: cf.amount }))
+    .filter(cf => !isNaN(cf.time))
+
+  if (dated.length === 0) return []
+  const start = Math.min(...dated.map(cf => cf.time))
+
+  return dated.map(cf => ({
+    years: (cf.time - start) / DAY_MS / DAYS_PER_YEAR,
+    amount: cf.amount,
+  }))
+}
+
+function npv(rate: number, flows: TimedFlow[]): number {
+  return flows.reduce((sum, f) => sum + f.amount / Math.pow(1 + rate, f.years), 0)
+}
+
+function npvDerivative(rate: number, flows: TimedFlow[]): number {
+  return flows.reduce((sum, f) => sum - (f.years * f.amount) / Math.pow(1 + rate, f.years + 1), 0)
+}
+
+function solveNewton(flows: TimedFlow[], guess: number): number | null {
+  let rate = guess
+
+  for (let i = 0; i < MAX_NEWTON_ITERATIONS; i++) {
+    const value = npv(rate, flows)
+    const derivative = npvDerivative(rate, flows)
+    if (!isFinite(value) || !isFinite(derivative) || derivative === 0) return null
+
+    const next = rate - value / derivative
+    if (!isFinite(next) || next <= MIN_RATE || next > MAX_RATE) return null
+    if (Math.abs(next - rate) < RATE_TOLERANCE) return next
+    rate = next
+  }
+
+  return null
+}
+
+function solveBisection(flows: TimedFlow[]): number | null {
+  let low = MIN_RATE
+  let high = 1
+  let lowValue = npv(low, flows)
+  let highValue = npv(high, flows)
+
+  while (lowValue * highValue > 0 && high < MAX_RATE) {
+    high *= 10
+    highValue = npv(high, flows)
+  }
+  if (!isFinite(lowValue) || !isFinite(highValue) || lowValue * highValue > 0) return null
+
+  for (let i = 0; i < MAX_BISECTION_ITERATIONS; i++) {
+    const mid = (low + high) / 2
+    const midValue = npv(mid, flows)
+    if (midValue === 0 || (high - low) / 2 < RATE_TOLERANCE) return mid
+
+    if (lowValue * midValue < 0) {
+      high = mid
+    } else {
+      low = mid
+      lowValue = midValue
+    }
+  }
+
+  return (low + high) / 2
+}
+
+/**
+ * Annualized rate as a decimal, or null when no meaningful rate exists
+ * (no sign change, or every flow on the same day)
+ */
+export function xirr(cashflows: Cashflow[], guess = 0.1): number | null {
+  const flows = toTimedFlows(cashflows)
+  if (flows.length < 2) return null
+  if (!flows.some(f => f.amount < 0) || !flows.some(f => f.amount > 0)) return null
+  if (!flows.some(f => f.years > 0)) return null
+
+  return solveNewton(flows, guess) ?? solveBisection(flows)
+}
@@ -0,0 +1,85 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
+import { BrokerError } from '../_shared/brokerConnector.ts'
+import { angelConnector } from '../_shared/brokers/angel.ts'
+
+/**
+ * Start an Angel One session: POST { client_code, pin, totp }.
+ * The PIN and TOTP go straight to SmartAPI and are never stored.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const authResult = await validateAuth(req)
+    if (!authResult.isValid || !authResult.userId) {
+      return unauthorizedResponse(authResult.error || 'Authentication failed')
+    }
+    const userId = authResult.userId
+
+    const body = await req.json().catch(() => ({}))
+    const clientCode = String(body?.client_code || '').trim().toUpperCase()
+    const pin = String(body?.pin || '')
+    const totp = String(body?.totp || '').trim()
+
+    if (!clientCode || !pin || !/^\d{6}$/.test(totp)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Client code, PIN and a 6-digit TOTP are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { accessToken, refreshToken, expiresAt } = await angelConnector.exchangeToken({
+      clientcode: clientCode,
+      password: pin,
+      totp,
+    })
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    // One session per user: drop the old one before storing the new one
+    const { error: deleteError } = await supabase.from('angel_sessions').delete().eq('user_id', userId)
+    if (deleteError) {
+      console.error('[angel-login] Delete user sessions error:', deleteError)
+    }
+
+    const { error: insertError } = await supabase.from('angel_sessions').insert({
+      user_id: userId,
+      client_code: clientCode,
+      access_token: accessToken,
+      refresh_token: refreshToken ?? null,
+      expires_at: expiresAt,
+    })
+
+    if (insertError) {
+      console.error('[angel-login] Failed to store session:', insertError)
+      throw new Error('Failed to store session')
+    }
+
+    await supabase.from('sync_logs').insert({
+      source: angelConnector.source,
+      status: 'connected',
+      user_id: userId,
+      holdings_count: 0,
+    })
+
+    return new Response(
+      JSON.stringify({ success: true, expires_at: expiresAt }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Angel One login error:', errorMessage)
+
+    // A rejected PIN or TOTP is the user's to fix, not a server fault
+    const status = error instanceof BrokerError && error.code === 'auth_failed' ? 401 : 500
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,149 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
+
+interface BenchmarkSyncRequest {
+  symbol: string
+  name?: string
+  instrument_token?: number
+  from?: string
+  to?: string
+}
+
+// Kite instrument tokens for the common index benchmarks
+const KNOWN_INDEX_TOKENS: Record<string, { token: number; name: string }> = {
+  'NIFTY 50': { token: 256265, name: 'Nifty 50' },
+  'NIFTY BANK': { token: 260105, name: 'Nifty Bank' },
+  'SENSEX': { token: 265, name: 'S&P BSE Sensex' },
+}
+
+// Kite caps daily candles at 2000 days per request
+const MAX_DAYS_PER_REQUEST = 2000
+const DEFAULT_HISTORY_YEARS = 5
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const authResult = await validateAuth(req)
+    if (!authResult.isValid || !authResult.userId) {
+      return unauthorizedResponse(authResult.error || 'Authentication failed')
+    }
+    const userId = authResult.userId
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const apiKey = Deno.env.get('KITE_API_KEY')
+    if (!apiKey) {
+      throw new Error('Kite API key not configured')
+    }
+
+    const body: BenchmarkSyncRequest = await req.json()
+    const symbol = body.symbol?.trim().toUpperCase()
+    if (!symbol) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Benchmark symbol is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const known = KNOWN_INDEX_TOKENS[symbol]
+    const instrumentToken = body.instrument_token || known?.token
+    if (!instrumentToken) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Unknown index ${symbol}. Provide its Kite instrument_token.` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Historical data needs the user's own live Kite session
+    const { data: session } = await supabase
+      .from('kite_sessions')
+      .select('access_token, expires_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!session || new Date(session.expires_at) <= new Date()) {
+      throw new Error('No valid Kite session. Please connect your Zerodha account or import a CSV instead.')
+    }
+
+    const to = body.to ? new Date(body.to) : new Date()
+    const from = body.from
+      ? new Date(body.from)
+      : new Date(Date.UTC(to.getUTCFullYear() - DEFAULT_HISTORY_YEARS, to.getUTCMonth(), to.getUTCDate()))
+
+    const rows: { user_id: string; symbol: string; name: string; price_date: string; close: number; source: string }[] = []
+
+    for (let chunkStart = from; chunkStart <= to;) {
+      const chunkEnd = new Date(Math.min(to.getTime(), chunkStart.getTime() + (MAX_DAYS_PER_REQUEST - 1) * DAY_MS))
+      const url = `https://api.kite.trade/instruments/historical/${instrumentToken}/day?from=${toDateString(chunkStart)}&to=${toDateString(chunkEnd)}`
+
+      const response = await fetch(url, {
+        headers: {
+          'X-Kite-Version': '3',
+          'Authorization': `token ${apiKey}:${session.access_token}`,
+        },
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        if (response.status === 403) {
+          throw new Error('Session expired. Please reconnect your Zerodha account.')
+        }
+        throw new Error(`Kite historical API error: ${errorText}`)
+      }
+
+      const result = await response.json()
+      const candles: [string, number, number, number, number, number][] = result.data?.candles || []
+
+      for (const candle of candles) {
+        rows.push({
+          user_id: userId,
+          symbol,
+          name: body.name || known?.name || symbol,
+          price_date: String(candle[0]).slice(0, 10),
+          close: Number(candle[4]),
+          source: 'kite',
+        })
+      }
+
+      chunkStart = new Date(chunkEnd.getTime() + DAY_MS)
+    }
+
+    if (rows.length > 0) {
+      const { error: upsertError } = await supabase
+        .from('benchmark_prices')
+        .upsert(rows, { onConflict: 'user_id,symbol,price_date' })
+
+      if (upsertError) throw upsertError
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Loaded ${rows.length} closes for ${symbol}`,
+        symbol,
+        count: rows.length,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Benchmark sync error:', errorMessage)
+
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
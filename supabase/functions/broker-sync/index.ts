@@ -0,0 +1,83 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
+import { BrokerError, findSession, syncBroker } from '../_shared/brokerConnector.ts'
+import { getConnector } from '../_shared/brokers/registry.ts'
+
+/**
+ * Sync holdings from any registered broker: POST { broker: 'zerodha' }.
+ * Internal calls (service role or cron) pass user_id in the body as well.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  let source: string | null = null
+  let userId: string | undefined
+
+  try {
+    const authResult = await validateAuth(req)
+    if (!authResult.isValid) {
+      return unauthorizedResponse(authResult.error || 'Authentication failed')
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const connector = getConnector(String(body?.broker || ''))
+    if (!connector) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Unknown broker: ${body?.broker ?? '(none)'}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+    source = connector.source
+
+    userId = authResult.userId
+    if (authResult.isCronCall && !userId && body?.user_id) {
+      userId = body.user_id
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const session = await findSession(supabase, connector, userId)
+    if (!session) {
+      throw new BrokerError('no_session', `No valid ${connector.source} session. Please connect your ${connector.source} account.`)
+    }
+
+    const holdingsCount = await syncBroker(supabase, connector, session)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        holdings_count: holdingsCount,
+        message: `Synced ${holdingsCount} holdings from ${connector.source}`,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const code = error instanceof BrokerError ? error.code : undefined
+    console.error(`${source ?? 'Broker'} sync error:`, errorMessage)
+
+    if (source) {
+      try {
+        const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+        const { error: logError } = await supabase.from('sync_logs').insert({
+          source,
+          status: 'error',
+          error_message: errorMessage,
+          user_id: userId || null,
+        })
+        if (logError) console.error('[broker-sync] Failed to record sync error:', logError)
+      } catch (e) {
+        console.error('[broker-sync] Failed to record sync error:', e)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage, code }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -1,10 +1,14 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
+import { refreshDepositHoldings } from '../_shared/deposits.ts'
 
 interface CaptureOptions {
   sources?: string[]
   assetTypes?: string[]
   user_id?: string
+  // Rebuild snapshot_holdings for earlier snapshots from the ledger instead of capturing
+  backfill?: boolean
 }
 
 interface SourceStats {
@@ -17,6 +21,183 @@ interface SourceStats {
   lastSyncAt: Date | null
 }
 
+interface LedgerRow {
+  symbol: string
+  isin: string | null
+  name: string | null
+  asset_type: string | null
+  source: string
+  broker: string | null
+  exchange: string | null
+  transaction_type: string
+  trade_date: string
+  quantity: number
+  price: number | null
+  amount: number
+  charges: number
+  ratio: number | null
+}
+
+interface LedgerPosition {
+  symbol: string
+  isin: string | null
+  name: string | null
+  type: string | null
+  source: string
+  broker: string | null
+  exchange: string | null
+  quantity: number
+  cost: number
+}
+
+const PAGE_SIZE = 1000
+const INSERT_BATCH_SIZE = 500
+
+// Quantities below this are treated as fully sold (MF units carry 3-4 decimals)
+const QUANTITY_EPSILON = 1e-6
+
+// Corporate actions apply before same-day trades, and same-day buys before sells
+const TYPE_ORDER: Record<string, number> = {
+  split: 0,
+  bonus: 1,
+  buy: 2,
+  switch_in: 2,
+  sell: 3,
+  switch_out: 3,
+}
+
+async function insertInBatches(supabase: SupabaseClient, rows: Record<string, unknown>[]) {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('snapshot_holdings')
+      .insert(rows.slice(i, i + INSERT_BATCH_SIZE))
+
+    if (error) throw error
+  }
+}
+
+// Average-cost position update, matching how brokers report avg_price
+function applyTransaction(position: LedgerPosition, txn: LedgerRow) {
+  const quantity = Number(txn.quantity)
+
+  switch (txn.transaction_type) {
+    case 'buy':
+    case 'switch_in': {
+      const amount = Number(txn.amount)
+      position.cost += (amount > 0 ? amount : quantity * Number(txn.price || 0)) + Number(txn.charges || 0)
+      position.quantity += quantity
+      break
+    }
+    case 'bonus':
+      position.quantity += quantity
+      break
+    case 'split': {
+      const ratio = Number(txn.ratio || 0)
+      if (ratio > 0) position.quantity *= ratio
+      break
+    }
+    case 'sell':
+    case 'switch_out': {
+      if (position.quantity <= QUANTITY_EPSILON) break
+      const matched = Math.min(quantity, position.quantity)
+      position.cost -= (position.cost / position.quantity) * matched
+      position.quantity -= matched
+      break
+    }
+  }
+}
+
+/**
+ * Rebuild per-holding rows for snapshots captured before snapshot_holdings
+ * existed. Quantities and average cost come from replaying the transactions
+ * ledger up to each snapshot date; prices aren't known, so value and P&L stay null.
+ */
+async function backfillSnapshotHoldings(supabase: SupabaseClient, userId: string) {
+  const { data: snapshots, error: snapshotsError } = await supabase
+    .from('portfolio_snapshots')
+    .select('id, snapshot_date, snapshot_holdings(count)')
+    .eq('user_id', userId)
+    .order('snapshot_date', { ascending: true })
+
+  if (snapshotsError) throw snapshotsError
+
+  const missing = (snapshots || []).filter(s => {
+    const counts = s.snapshot_holdings as unknown as { count: number }[] | null
+    return !counts?.[0]?.count
+  })
+  if (missing.length === 0) {
+    return { snapshots: 0, rows: 0 }
+  }
+
+  const ledger: LedgerRow[] = []
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('symbol, isin, name, asset_type, source, broker, exchange, transaction_type, trade_date, quantity, price, amount, charges, ratio')
+      .eq('user_id', userId)
+      .order('trade_date', { ascending: true })
+      .order('created_at', { ascending: true })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+
+    if (error) throw error
+    ledger.push(...((data || []) as LedgerRow[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  ledger.sort((a, b) =>
+    a.trade_date.localeCompare(b.trade_date) ||
+    (TYPE_ORDER[a.transaction_type] ?? 4) - (TYPE_ORDER[b.transaction_type] ?? 4)
+  )
+
+  const positions = new Map<string, LedgerPosition>()
+  const rows: Record<string, unknown>[] = []
+  let next = 0
+  let filled = 0
+
+  for (const snapshot of missing) {
+    while (next < ledger.length && ledger[next].trade_date <= snapshot.snapshot_date) {
+      const txn = ledger[next++]
+      const key = `${txn.source}|${(txn.isin || txn.symbol).toUpperCase()}`
+      const position = positions.get(key) || {
+        symbol: txn.symbol,
+        isin: txn.isin,
+        name: txn.name,
+        type: txn.asset_type,
+        source: txn.source,
+        broker: txn.broker,
+        exchange: txn.exchange,
+        quantity: 0,
+        cost: 0,
+      }
+      applyTransaction(position, txn)
+      positions.set(key, position)
+    }
+
+    const held = Array.from(positions.values()).filter(p => p.quantity > QUANTITY_EPSILON)
+    if (held.length > 0) filled++
+
+    held.forEach(p => rows.push({
+      snapshot_id: snapshot.id,
+      user_id: userId,
+      snapshot_date: snapshot.snapshot_date,
+      symbol: p.symbol,
+      name: p.name,
+      isin: p.isin,
+      type: p.type,
+      source: p.source,
+      broker: p.broker,
+      exchange: p.exchange,
+      quantity: p.quantity,
+      avg_price: p.cost / p.quantity,
+      investment: p.cost,
+      reconstructed: true,
+    }))
+  }
+
+  await insertInBatches(supabase, rows)
+  return { snapshots: filled, rows: rows.length }
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
@@ -69,6 +250,21 @@ Deno.serve(async (req) => {
       )
     }
 
+    if (options.backfill) {
+      const result = await backfillSnapshotHoldings(supabase, userId)
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: result.rows > 0
+            ? `Rebuilt ${result.rows} holdings across ${result.snapshots} snapshots from your transactions`
+            : 'Nothing to backfill',
+          user_id: userId,
+          data: result,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     // Build holdings query with mandatory user filter
     let holdingsQuery = supabase.from('holdings').select('*').eq('user_id', userId)
     
@@ -91,6 +287,9 @@ Deno.serve(async (req) => {
       )
     }
 
+    // Deposits have no quote; bring their accrued interest up to today
+    await refreshDepositHoldings(supabase, userId, holdings)
+
     // Get latest quotes
     const { data: quotes } = await supabase
       .from('quotes_cache')
@@ -117,6 +316,7 @@ Deno.serve(async (req) => {
     let totalInvestment = 0
     let currentValue = 0
     const sourceStatsMap = new Map<string, SourceStats>()
+    const holdingRows: Record<string, unknown>[] = []
 
     for (const holding of holdings) {
       const qty = Number(holding.quantity)
@@ -130,6 +330,23 @@ Deno.serve(async (req) => {
       totalInvestment += holdingInvestment
       currentValue += holdingValue
 
+      holdingRows.push({
+        symbol: holding.symbol,
+        name: holding.name,
+        isin: holding.isin,
+        type: holding.type,
+        sector: holding.sector,
+        source: holding.source || 'Unknown',
+        broker: holding.broker,
+        exchange: holding.exchange,
+        quantity: qty,
+        avg_price: avgPrice,
+        ltp,
+        investment: holdingInvestment,
+        current_value: holdingValue,
+        pnl: holdingPnl,
+      })
+
       // Group by source + asset type
       const source = holding.source || 'Unknown'
       const assetType = holding.type || 'Unknown'
@@ -158,6 +375,25 @@ Deno.serve(async (req) => {
 
     // Upsert snapshot for today with user_id
     const today = new Date().toISOString().split('T')[0]
+
+    // Money added or withdrawn since the previous snapshot, so returns can exclude
+    // it. A capture filtered to some sources or asset types can't be compared with
+    // the whole portfolio before it, so its contribution is left unknown.
+    const isFiltered = (options.sources?.length ?? 0) > 0 || (options.assetTypes?.length ?? 0) > 0
+    let netContribution: number | null = null
+
+    if (!isFiltered) {
+      const { data: previousSnapshot } = await supabase
+        .from('portfolio_snapshots')
+        .select('total_investment')
+        .eq('user_id', userId)
+        .lt('snapshot_date', today)
+        .order('snapshot_date', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      netContribution = totalInvestment - Number(previousSnapshot?.total_investment ?? 0)
+    }
     
     const snapshotData = {
       snapshot_date: today,
@@ -166,6 +402,7 @@ Deno.serve(async (req) => {
       total_pnl: totalPnl,
       pnl_percent: pnlPercent,
       holdings_count: holdings.length,
+      net_contribution: netContribution,
       user_id: userId, // Always set user_id
     }
     
@@ -231,6 +468,23 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Replace per-holding rows so a recapture on the same day reflects the latest state
+    await supabase
+      .from('snapshot_holdings')
+      .delete()
+      .eq('snapshot_id', snapshot.id)
+
+    try {
+      await insertInBatches(supabase, holdingRows.map(row => ({
+        ...row,
+        snapshot_id: snapshot.id,
+        snapshot_date: today,
+        user_id: userId,
+      })))
+    } catch (holdingsInsertError) {
+      console.error('Error inserting snapshot holdings:', holdingsInsertError)
+    }
+
     // Aggregate source stats for response
     const sourceBreakdown = Array.from(sourceStatsMap.values()).reduce((acc, stats) => {
       const existing = acc.find(s => s.source === stats.source)
@@ -263,6 +517,7 @@ Deno.serve(async (req) => {
           total_pnl: totalPnl,
           pnl_percent: pnlPercent,
           holdings_count: holdings.length,
+          net_contribution: netContribution,
           source_breakdown: sourceBreakdown,
         }
       }),
@@ -0,0 +1,486 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import * as XLSX from 'https://esm.sh/xlsx@0.18.5'
+import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
+import { MAX_ROWS, MAX_PROCESSING_TIME, SkippedRow, validateUploadedFile, parseNumber } from '../_shared/holdingsImport.ts'
+import { writeTransactions, buildExternalId, LedgerTransaction } from '../_shared/transactions.ts'
+
+/**
+ * Zerodha Console exports:
+ * - Tradebook CSV (one per financial year): symbol, isin, trade_date, exchange, segment, series,
+ *   trade_type, auction, quantity, price, trade_id, order_id, order_execution_time
+ * - Tax P&L XLSX: a "Tradewise Exits" table (Symbol, ISIN, Entry Date, Exit Date, Quantity,
+ *   Buy Value, Sell Value, ...) and an equity dividends table (Symbol, ISIN, Ex-Date, Quantity,
+ *   Dividend Per Share, Net Dividend Amount)
+ *
+ * Tradebook fills become ledger buys/sells keyed by trade_id. The tax P&L has no trade ids,
+ * so its exits are only checked against the ledger; its dividends are imported.
+ */
+
+const SOURCE = 'Zerodha'
+const SYNC_LOG_SOURCE = 'Zerodha Console'
+const MAX_FILES = 10
+const LEDGER_PAGE_SIZE = 1000
+
+// Segments that hold delivery positions; F&O and currency trades never become holdings
+const HOLDING_SEGMENTS = ['EQ', 'MF']
+
+interface FileSummary {
+  file: string
+  kind: 'tradebook' | 'tax_pnl'
+  rows: number
+  imported: number
+  skipped: number
+}
+
+interface TaxPnlExit {
+  symbol: string
+  isin?: string
+  exitDate: string
+  quantity: number
+}
+
+interface ParsedFile {
+  summary: FileSummary
+  transactions: LedgerTransaction[]
+  exits: TaxPnlExit[]
+  skipped: SkippedRow[]
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const startTime = Date.now()
+  let supabase: ReturnType<typeof createClient> | null = null
+  let userId: string | undefined
+
+  try {
+    const authResult = await validateAuth(req)
+    if (!authResult.isValid) {
+      return unauthorizedResponse(authResult.error || 'Authentication failed')
+    }
+
+    // The ledger is per user; there is no shared import
+    userId = authResult.userId
+    if (!userId) {
+      return unauthorizedResponse('User ID not found in token')
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    supabase = createClient(supabaseUrl, supabaseKey)
+
+    const formData = await req.formData()
+    const files = formData.getAll('file').filter((f): f is File => f instanceof File)
+    if (files.length === 0) {
+      throw new Error('No file uploaded')
+    }
+    if (files.length > MAX_FILES) {
+      throw new Error(`Too many files. Upload at most ${MAX_FILES} statements at once`)
+    }
+
+    const parsed: ParsedFile[] = []
+    for (const file of files) {
+      validateUploadedFile(file)
+      parsed.push(await parseConsoleFile(file, userId, startTime))
+    }
+
+    const transactions = parsed.flatMap(p => p.transactions)
+    const written = await writeTransactions(supabase, transactions)
+
+    // Exits from the tax P&L should each have a matching sell in the tradebook
+    const exits = parsed.flatMap(p => p.exits)
+    const uncoveredExits = exits.length > 0 ? await findUncoveredExits(supabase, userId, exits) : []
+
+    const skipped = parsed.flatMap(p => p.skipped)
+    const warnings: string[] = []
+    if (uncoveredExits.length > 0) {
+      const years = Array.from(new Set(uncoveredExits.map(e => financialYear(e.exitDate)))).sort()
+      warnings.push(
+        `${uncoveredExits.length} exits in the tax P&L have no matching sell in the ledger. Upload the tradebook for FY ${years.join(', ')}.`
+      )
+    }
+
+    await supabase.from('sync_logs').insert({
+      source: SYNC_LOG_SOURCE,
+      status: 'success',
+      holdings_count: written,
+      user_id: userId,
+      error_message: skipped.length > 0 ? `${skipped.length} rows skipped` : null,
+    })
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Imported ${written} Zerodha transactions from ${files.length} file${files.length > 1 ? 's' : ''}`,
+        transactions_count: written,
+        files: parsed.map(p => p.summary),
+        skipped_count: skipped.length,
+        skipped: skipped.slice(0, 50),
+        uncovered_exits: uncoveredExits.slice(0, 50),
+        warnings,
+        processing_time_ms: Date.now() - startTime,
+        user_id: userId,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Zerodha Console import error:', errorMessage)
+
+    if (supabase) {
+      try {
+        await supabase.from('sync_logs').insert({
+          source: SYNC_LOG_SOURCE,
+          status: 'error',
+          error_message: errorMessage,
+          user_id: userId || null,
+        })
+      } catch (logError) {
+        console.error('Failed to log error:', logError)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage, processing_time_ms: Date.now() - startTime }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+async function parseConsoleFile(file: File, userId: string, startTime: number): Promise<ParsedFile> {
+  const isCsv = file.name.toLowerCase().endsWith('.csv')
+  let workbook: XLSX.WorkBook
+
+  try {
+    workbook = XLSX.read(await file.arrayBuffer(), {
+      type: 'array',
+      // Keep CSV cells as text so trade ids keep their leading zeros
+      raw: isCsv,
+      cellDates: true,
+      sheetRows: MAX_ROWS + 30,
+    })
+  } catch (parseError) {
+    throw new Error(`Failed to parse ${file.name}: ${parseError instanceof Error ? parseError.message : 'Invalid format'}`)
+  }
+
+  for (const sheetName of workbook.SheetNames) {
+    const rows = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, defval: '' }) as unknown[][]
+    const tradebookHeader = findHeader(rows, ['trade_id', 'trade_type'])
+    if (tradebookHeader !== -1) {
+      return parseTradebook(file.name, rows, tradebookHeader, userId, startTime)
+    }
+  }
+
+  // Tax P&L: exits and dividends may sit on separate sheets or in sections of one sheet
+  const transactions: LedgerTransaction[] = []
+  const exits: TaxPnlExit[] = []
+  const skipped: SkippedRow[] = []
+  let totalRows = 0
+
+  for (const sheetName of workbook.SheetNames) {
+    const rows = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, defval: '' }) as unknown[][]
+    totalRows += rows.length
+
+    const exitHeader = findHeader(rows, ['symbol', 'exit date'])
+    if (exitHeader !== -1) {
+      exits.push(...parseExits(rows, exitHeader))
+    }
+
+    const dividendHeader = findHeader(rows, ['symbol', 'dividend'])
+    if (dividendHeader !== -1) {
+      const dividends = parseDividends(rows, dividendHeader, userId, sheetName)
+      transactions.push(...dividends.transactions)
+      skipped.push(...dividends.skipped)
+    }
+  }
+
+  if (exits.length === 0 && transactions.length === 0) {
+    throw new Error(`${file.name} doesn't look like a Zerodha Console tradebook or tax P&L statement`)
+  }
+
+  return {
+    summary: { file: file.name, kind: 'tax_pnl', rows: totalRows, imported: transactions.length, skipped: skipped.length },
+    transactions,
+    exits,
+    skipped,
+  }
+}
+
+function normalizeCell(cell: unknown): string {
+  return String(cell ?? '').toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+// Index of the first row containing every label (as a substring), or -1
+function findHeader(rows: unknown[][], labels: string[], startAt = 0): number {
+  for (let i = startAt; i < Math.min(rows.length, startAt + 60); i++) {
+    const cells = (rows[i] || []).map(normalizeCell)
+    if (labels.every(label => cells.some(c => c.includes(label)))) return i
+  }
+  return -1
+}
+
+function columnIndex(header: unknown[], ...candidates: string[]): number {
+  const cells = header.map(normalizeCell)
+  for (const candidate of candidates) {
+    const idx = cells.findIndex(c => c === candidate)
+    if (idx !== -1) return idx
+  }
+  for (const candidate of candidates) {
+    const idx = cells.findIndex(c => c.includes(candidate))
+    if (idx !== -1) return idx
+  }
+  return -1
+}
+
+/**
+ * Console dates come as ISO strings in CSVs, Date cells in XLSX, and
+ * occasionally DD-MM-YYYY
+ */
+function toIsoDate(value: unknown): string | null {
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    const month = String(value.getMonth() + 1).padStart(2, '0')
+    const day = String(value.getDate()).padStart(2, '0')
+    return `${value.getFullYear()}-${month}-${day}`
+  }
+
+  const raw = String(value ?? '').trim()
+  const iso = raw.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`
+
+  const dmy = raw.match(/^(\d{2})[-/](\d{2})[-/](\d{4})/)
+  if (dmy) return `${dmy[3]}-${dmy[2]}-${dmy[1]}`
+
+  return null
+}
+
+function guessAssetType(symbol: string, segment: string): string {
+  const upperSymbol = symbol.toUpperCase()
+
+  if (segment === 'MF') return 'Mutual Fund'
+  if (upperSymbol.includes('BEES') || upperSymbol.includes('ETF')) return 'ETF'
+  if (upperSymbol.startsWith('SGB')) return 'SGB'
+
+  return 'Equity'
+}
+
+function financialYear(date: string): string {
+  const year = Number(date.slice(0, 4))
+  const start = Number(date.slice(5, 7)) >= 4 ? year : year - 1
+  return `${start}-${String(start + 1).slice(2)}`
+}
+
+function parseTradebook(
+  fileName: string,
+  rows: unknown[][],
+  headerRow: number,
+  userId: string,
+  startTime: number
+): ParsedFile {
+  const header = rows[headerRow]
+  const col = {
+    symbol: columnIndex(header, 'symbol', 'tradingsymbol'),
+    isin: columnIndex(header, 'isin'),
+    tradeDate: columnIndex(header, 'trade_date', 'trade date'),
+    exchange: columnIndex(header, 'exchange'),
+    segment: columnIndex(header, 'segment'),
+    tradeType: columnIndex(header, 'trade_type', 'trade type'),
+    quantity: columnIndex(header, 'quantity'),
+    price: columnIndex(header, 'price'),
+    tradeId: columnIndex(header, 'trade_id', 'trade id'),
+    orderId: columnIndex(header, 'order_id', 'order id'),
+  }
+
+  if (col.symbol === -1 || col.tradeDate === -1 || col.quantity === -1 || col.price === -1) {
+    throw new Error(`${fileName} is missing the symbol, trade_date, quantity or price column`)
+  }
+
+  const transactions: LedgerTransaction[] = []
+  const skipped: SkippedRow[] = []
+
+  for (let i = headerRow + 1; i < rows.length; i++) {
+    if (Date.now() - startTime > MAX_PROCESSING_TIME) {
+      throw new Error('Processing timeout - file too complex')
+    }
+
+    const row = rows[i]
+    const symbol = String(row?.[col.symbol] ?? '').trim().toUpperCase()
+    if (!symbol) continue
+
+    const segment = col.segment >= 0 ? String(row[col.segment] ?? '').trim().toUpperCase() : 'EQ'
+    if (segment && !HOLDING_SEGMENTS.includes(segment)) {
+      skipped.push({ row: i + 1, reason: `${segment} segment trades don't create holdings`, data: { symbol } })
+      continue
+    }
+
+    const tradeType = String(row[col.tradeType] ?? '').trim().toLowerCase()
+    const tradeDate = toIsoDate(row[col.tradeDate])
+    const quantity = Math.abs(parseNumber(row[col.quantity]))
+    const price = parseNumber(row[col.price])
+    const tradeId = col.tradeId >= 0 ? String(row[col.tradeId] ?? '').trim() : ''
+    const exchange = col.exchange >= 0 ? String(row[col.exchange] ?? '').trim().toUpperCase() : ''
+
+    if (tradeType !== 'buy' && tradeType !== 'sell') {
+      skipped.push({ row: i + 1, reason: `Unknown trade type "${tradeType}"`, data: { symbol } })
+      continue
+    }
+    if (!tradeDate || quantity <= 0 || price <= 0) {
+      skipped.push({ row: i + 1, reason: 'Missing trade date, quantity or price', data: { symbol } })
+      continue
+    }
+
+    const isin = col.isin >= 0 ? String(row[col.isin] ?? '').trim().toUpperCase() : ''
+    const orderId = col.orderId >= 0 ? String(row[col.orderId] ?? '').trim() : ''
+
+    transactions.push({
+      user_id: userId,
+      source: SOURCE,
+      broker: SOURCE,
+      symbol,
+      isin: isin || null,
+      asset_type: guessAssetType(symbol, segment),
+      exchange: exchange || null,
+      transaction_type: tradeType,
+      trade_date: tradeDate,
+      quantity,
+      price,
+      amount: Math.round(quantity * price * 100) / 100,
+      // Exchange trade ids restart per exchange and day, so qualify them; fall back to the
+      // fill itself when an old tradebook has no trade_id column
+      external_id: tradeId
+        ? buildExternalId(['trade', exchange, tradeDate, tradeId])
+        : buildExternalId(['fill', exchange, tradeDate, orderId, symbol, tradeType, quantity, price]),
+      notes: orderId ? `Order ${orderId}` : null,
+    })
+  }
+
+  return {
+    summary: { file: fileName, kind: 'tradebook', rows: rows.length - headerRow - 1, imported: transactions.length, skipped: skipped.length },
+    transactions,
+    exits: [],
+    skipped,
+  }
+}
+
+function parseExits(rows: unknown[][], headerRow: number): TaxPnlExit[] {
+  const header = rows[headerRow]
+  const col = {
+    symbol: columnIndex(header, 'symbol'),
+    isin: columnIndex(header, 'isin'),
+    exitDate: columnIndex(header, 'exit date'),
+    quantity: columnIndex(header, 'quantity'),
+  }
+  const exits: TaxPnlExit[] = []
+
+  for (let i = headerRow + 1; i < rows.length; i++) {
+    const row = rows[i]
+    const symbol = String(row?.[col.symbol] ?? '').trim().toUpperCase()
+    // A blank symbol ends the table; the next section has its own header
+    if (!symbol) break
+
+    const exitDate = toIsoDate(row[col.exitDate])
+    const quantity = Math.abs(parseNumber(row[col.quantity]))
+    if (!exitDate || quantity <= 0) continue
+
+    const isin = col.isin >= 0 ? String(row[col.isin] ?? '').trim().toUpperCase() : ''
+    exits.push({ symbol, isin: isin || undefined, exitDate, quantity })
+  }
+
+  return exits
+}
+
+function parseDividends(
+  rows: unknown[][],
+  headerRow: number,
+  userId: string,
+  sheetName: string
+): { transactions: LedgerTransaction[]; skipped: SkippedRow[] } {
+  const header = rows[headerRow]
+  const col = {
+    symbol: columnIndex(header, 'symbol'),
+    isin: columnIndex(header, 'isin'),
+    date: columnIndex(header, 'ex-date', 'ex date', 'date'),
+    quantity: columnIndex(header, 'quantity'),
+    perShare: columnIndex(header, 'dividend per share'),
+    amount: columnIndex(header, 'net dividend amount', 'net dividend', 'amount'),
+  }
+  const transactions: LedgerTransaction[] = []
+  const skipped: SkippedRow[] = []
+
+  for (let i = headerRow + 1; i < rows.length; i++) {
+    const row = rows[i]
+    const symbol = String(row?.[col.symbol] ?? '').trim().toUpperCase()
+    if (!symbol) break
+    if (symbol.startsWith('TOTAL')) continue
+
+    const date = toIsoDate(row[col.date])
+    const amount = parseNumber(row[col.amount])
+    if (!date || amount <= 0) {
+      skipped.push({ row: i + 1, reason: `Dividend without date or amount (${sheetName})`, data: { symbol } })
+      continue
+    }
+
+    const isin = col.isin >= 0 ? String(row[col.isin] ?? '').trim().toUpperCase() : ''
+    const perShare = col.perShare >= 0 ? parseNumber(row[col.perShare]) : 0
+    transactions.push({
+      user_id: userId,
+      source: SOURCE,
+      broker: SOURCE,
+      symbol,
+      isin: isin || null,
+      transaction_type: 'dividend',
+      trade_date: date,
+      quantity: col.quantity >= 0 ? Math.abs(parseNumber(row[col.quantity])) : 0,
+      price: perShare || null,
+      amount,
+      external_id: buildExternalId(['dividend', isin || symbol, date, amount]),
+    })
+  }
+
+  return { transactions, skipped }
+}
+
+/**
+ * Sells per position and date already in the ledger, compared against the
+ * tax P&L's exits. An exit whose quantity isn't covered means the tradebook
+ * for that period hasn't been uploaded.
+ */
+async function findUncoveredExits(
+  supabase: SupabaseClient,
+  userId: string,
+  exits: TaxPnlExit[]
+): Promise<TaxPnlExit[]> {
+  const sold = new Map<string, number>()
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('symbol, isin, trade_date, quantity')
+      .eq('user_id', userId)
+      .eq('source', SOURCE)
+      .eq('transaction_type', 'sell')
+      .range(page * LEDGER_PAGE_SIZE, (page + 1) * LEDGER_PAGE_SIZE - 1)
+
+    if (error) throw error
+
+    for (const row of data || []) {
+      const key = `${(row.isin || row.symbol).toUpperCase()}|${row.trade_date}`
+      sold.set(key, (sold.get(key) || 0) + Number(row.quantity))
+    }
+
+    if (!data || data.length < LEDGER_PAGE_SIZE) break
+  }
+
+  // Several exits (one per matched lot) can share a sell date; consume the sold quantity across them
+  return exits.filter(exit => {
+    const key = `${(exit.isin || exit.symbol).toUpperCase()}|${exit.exitDate}`
+    const available = sold.get(key) || 0
+    if (available + 1e-6 >= exit.quantity) {
+      sold.set(key, available - exit.quantity)
+      return false
+    }
+    return true
+  })
+}
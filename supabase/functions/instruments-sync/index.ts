@@ -0,0 +1,87 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
+import {
+  parseIndustryCsv,
+  parseKiteInstruments,
+  replaceInstruments,
+  upsertIndustries,
+} from '../_shared/instruments.ts'
+
+const DEFAULT_INDUSTRY_CSV_URL = 'https://nsearchives.nseindia.com/content/indices/ind_nifty500list.csv'
+
+async function download(url: string, headers: Record<string, string> = {}): Promise<string> {
+  const response = await fetch(url, { headers })
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: HTTP ${response.status}`)
+  }
+  return response.text()
+}
+
+// Refreshes the instrument master and ISIN industries that broker syncs use
+// for names, types and sectors. Run it daily (Kite publishes a new dump each
+// morning) from an external cron with the x-cron-secret header, as with
+// scheduled-snapshot. A multipart POST with `instruments` and/or `industries`
+// files loads those instead of downloading.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const authResult = await validateAuth(req)
+    if (!authResult.isValid) {
+      return unauthorizedResponse(authResult.error || 'Authentication failed')
+    }
+    // Shared reference data: only the cron job or another function may replace it
+    if (!authResult.isCronCall) {
+      return unauthorizedResponse('Instrument sync requires the cron secret or service role')
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    let instrumentsCsv: string | null = null
+    let industriesCsv: string | null = null
+
+    if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await req.formData()
+      const instrumentsFile = formData.get('instruments') as File | null
+      const industriesFile = formData.get('industries') as File | null
+      if (!instrumentsFile && !industriesFile) {
+        throw new Error('Upload an instruments file, an industries file, or both')
+      }
+      instrumentsCsv = instrumentsFile ? await instrumentsFile.text() : null
+      industriesCsv = industriesFile ? await industriesFile.text() : null
+    } else {
+      const kiteBaseUrl = Deno.env.get('KITE_API_BASE_URL') || 'https://api.kite.trade'
+      // The instruments dump is public; no API key needed
+      instrumentsCsv = await download(`${kiteBaseUrl}/instruments`, { 'X-Kite-Version': '3' })
+      // NSE rejects requests without a browser-like user agent
+      industriesCsv = await download(Deno.env.get('INDUSTRY_CSV_URL') || DEFAULT_INDUSTRY_CSV_URL, {
+        'User-Agent': 'Mozilla/5.0',
+      })
+    }
+
+    const instrumentsCount = instrumentsCsv
+      ? await replaceInstruments(supabase, parseKiteInstruments(instrumentsCsv))
+      : 0
+    const industriesCount = industriesCsv
+      ? await upsertIndustries(supabase, parseIndustryCsv(industriesCsv))
+      : 0
+
+    console.log(`Loaded ${instrumentsCount} instruments and ${industriesCount} ISIN industries`)
+
+    return new Response(
+      JSON.stringify({ success: true, instruments: instrumentsCount, industries: industriesCount }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Instruments sync error:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
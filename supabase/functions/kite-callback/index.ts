@@ -1,4 +1,6 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { BrokerError } from '../_shared/brokerConnector.ts'
+import { kiteConnector } from '../_shared/brokers/kite.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -65,50 +67,18 @@ Deno.serve(async (req) => {
       }
 
       try {
-        // Create checksum: SHA256(api_key + request_token + api_secret)
-        const checksumInput = apiKey + requestToken + apiSecret
-        const encoder = new TextEncoder()
-        const data = encoder.encode(checksumInput)
-        const hashBuffer = await crypto.subtle.digest('SHA-256', data)
-        const hashArray = Array.from(new Uint8Array(hashBuffer))
-        const checksum = hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
-
-        // Exchange request_token for access_token
-        const tokenResponse = await fetch('https://api.kite.trade/session/token', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-            'X-Kite-Version': '3',
-          },
-          body: new URLSearchParams({
-            api_key: apiKey,
-            request_token: requestToken,
-            checksum: checksum,
-          }),
-        })
-
-        if (!tokenResponse.ok) {
-          const errorText = await tokenResponse.text()
-          console.error('[kite-callback] Kite token exchange failed:', errorText)
+        let accessToken: string
+        let expiresAt: string
+        try {
+          ({ accessToken, expiresAt } = await kiteConnector.exchangeToken({ request_token: requestToken }))
+        } catch (exchangeError) {
+          if (!(exchangeError instanceof BrokerError)) throw exchangeError
+          console.error('[kite-callback] Kite token exchange failed:', exchangeError.message)
           return new Response(null, {
             status: 302,
             headers: {
               ...corsHeaders,
-              Location: `${appUrl}?kite_error=${encodeURIComponent('Token exchange failed')}`,
-            },
-          })
-        }
-
-        const tokenData = await tokenResponse.json()
-        const accessToken = tokenData.data?.access_token
-
-        if (!accessToken) {
-          console.error('[kite-callback] No access token in response')
-          return new Response(null, {
-            status: 302,
-            headers: {
-              ...corsHeaders,
-              Location: `${appUrl}?kite_error=${encodeURIComponent('No access token received')}`,
+              Location: `${appUrl}?kite_error=${encodeURIComponent(exchangeError.message)}`,
             },
           })
         }
@@ -118,10 +88,6 @@ Deno.serve(async (req) => {
         const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
         const supabase = createClient(supabaseUrl, supabaseKey)
 
-        // Token expires at end of day (3:30 AM next day IST typically)
-        const expiresAt = new Date()
-        expiresAt.setHours(expiresAt.getHours() + 8) // Conservative 8 hour expiry
-
         // Delete old sessions for this user and insert new one
         if (userId) {
           const { error: deleteError } = await supabase.from('kite_sessions').delete().eq('user_id', userId)
@@ -139,7 +105,7 @@ Deno.serve(async (req) => {
         
         const sessionData = {
           access_token: accessToken,
-          expires_at: expiresAt.toISOString(),
+          expires_at: expiresAt,
           user_id: userId,
         }
         
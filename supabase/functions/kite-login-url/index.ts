@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { kiteConnector } from '../_shared/brokers/kite.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -61,7 +62,7 @@ Deno.serve(async (req) => {
     }
     const state = btoa(JSON.stringify(stateData))
     
-    const loginUrl = `https://kite.zerodha.com/connect/login?v=3&api_key=${apiKey}&state=${encodeURIComponent(state)}`
+    const loginUrl = kiteConnector.getAuthUrl(state)
     
     return new Response(
       JSON.stringify({ loginUrl }), 
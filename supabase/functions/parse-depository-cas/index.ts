@@ -0,0 +1,174 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
+import {
+  MAX_ROWS,
+  PDF_FORMAT,
+  validateUploadedFile,
+  verifyDataIntegrity,
+  replaceSourceHoldings,
+} from '../_shared/holdingsImport.ts'
+import { extractPdfLines } from '../_shared/pdfText.ts'
+import { hashFile, findImportedBatch, duplicateImportMessage } from '../_shared/importBatches.ts'
+import { CAS_SOURCE as SOURCE, detectDepository, parseCas } from '../_shared/depositoryCas.ts'
+
+// NSDL and CDSL send a monthly CAS covering every demat account and MF folio
+// under the PAN. The PDF is password protected (usually the PAN, sometimes
+// PAN + date of birth) and is decrypted and parsed here.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const startTime = Date.now()
+  let supabase: ReturnType<typeof createClient> | null = null
+  let userId: string | undefined
+
+  try {
+    // Validate JWT authentication
+    const authResult = await validateAuth(req)
+    if (!authResult.isValid) {
+      return unauthorizedResponse(authResult.error || 'Authentication failed')
+    }
+
+    if (!authResult.userId && !authResult.isCronCall) {
+      return unauthorizedResponse('User ID not found in token')
+    }
+    userId = authResult.userId
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    supabase = createClient(supabaseUrl, supabaseKey)
+
+    const formData = await req.formData()
+    const file = validateUploadedFile(formData.get('file') as File | null, PDF_FORMAT)
+    const password = String(formData.get('password') ?? '').trim().slice(0, 50)
+
+    // Never log the password
+    console.log(`Processing file: ${file.name}, size: ${file.size} bytes, password supplied: ${password.length > 0}`)
+
+    const arrayBuffer = await file.arrayBuffer()
+    const fileHash = await hashFile(arrayBuffer)
+
+    // Identical bytes to an earlier import: skip before decrypting anything
+    const importedBatch = await findImportedBatch(supabase, authResult.userId, SOURCE, fileHash)
+    if (importedBatch) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          skipped_duplicate: true,
+          holdings_count: importedBatch.holdings_count,
+          message: duplicateImportMessage(importedBatch, 'statement'),
+          processing_time_ms: Date.now() - startTime,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const lines = await extractPdfLines(arrayBuffer, password)
+    if (lines.length === 0) {
+      throw new Error('The PDF contains no text. Scanned statements are not supported.')
+    }
+    if (lines.length > MAX_ROWS * 5) {
+      throw new Error('Statement is too large to process')
+    }
+
+    const depository = detectDepository(lines)
+    if (!depository) {
+      throw new Error('This is not an NSDL or CDSL consolidated account statement')
+    }
+
+    console.log(`Detected ${depository} CAS with ${lines.length} text lines`)
+
+    const parseResult = parseCas(lines, depository, startTime, authResult.userId)
+
+    console.log(`Parsing complete: ${parseResult.summary.valid_holdings} valid, ${parseResult.summary.skipped_count} skipped, ${parseResult.accounts.length} demat accounts`)
+
+    if (parseResult.skipped.length > 0) {
+      console.log('Skipped entries:')
+      parseResult.skipped.slice(0, 10).forEach(skip => {
+        console.log(`  Line ${skip.row}: ${skip.reason}`)
+      })
+      if (parseResult.skipped.length > 10) {
+        console.log(`  ... and ${parseResult.skipped.length - 10} more`)
+      }
+    }
+
+    if (parseResult.holdings.length === 0) {
+      throw new Error('No holdings found in the statement')
+    }
+
+    const verification = verifyDataIntegrity(parseResult.holdings)
+    if (!verification.isValid) {
+      console.warn('Data integrity warnings:', verification.warnings)
+    }
+
+    // The CAS is a full snapshot across brokers, so it replaces the previous one
+    const insertedCount = await replaceSourceHoldings(
+      supabase,
+      SOURCE,
+      authResult.userId,
+      parseResult.holdings,
+      startTime,
+      {
+        fileName: file.name,
+        fileHash,
+        totalRows: parseResult.summary.total_rows,
+        skippedCount: parseResult.skipped.length,
+      }
+    )
+
+    await supabase.from('sync_logs').insert({
+      source: SOURCE,
+      status: 'success',
+      holdings_count: insertedCount,
+      user_id: authResult.userId || null,
+      error_message: parseResult.skipped.length > 0
+        ? `${parseResult.skipped.length} entries skipped`
+        : null,
+    })
+
+    const response = {
+      success: true,
+      holdings_count: insertedCount,
+      depository,
+      accounts: parseResult.accounts,
+      message: `Imported ${insertedCount} holdings from the ${depository} CAS across ${parseResult.accounts.length} demat account${parseResult.accounts.length === 1 ? '' : 's'}`,
+      summary: parseResult.summary,
+      skipped_count: parseResult.skipped.length,
+      processing_time_ms: Date.now() - startTime,
+      data_integrity: verification,
+      user_id: authResult.userId,
+    }
+
+    return new Response(
+      JSON.stringify(response),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('CAS parse error:', errorMessage)
+
+    if (supabase) {
+      try {
+        const { error: logError } = await supabase.from('sync_logs').insert({
+          source: SOURCE,
+          status: 'error',
+          error_message: errorMessage,
+          user_id: userId || null,
+        })
+        if (logError) console.error('Failed to log error:', logError)
+      } catch (logError) {
+        console.error('Failed to log error:', logError)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage,
+        processing_time_ms: Date.now() - startTime
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
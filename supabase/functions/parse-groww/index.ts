@@ -0,0 +1,521 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import * as XLSX from 'https://esm.sh/xlsx@0.18.5'
+import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
+import {
+  MAX_ROWS,
+  MAX_STRING_LENGTH,
+  MAX_PROCESSING_TIME,
+  ParsedHolding,
+  ParseResult,
+  SkippedRow,
+  validateUploadedFile,
+  parseNumber,
+  parseOptionalPercent,
+  mapSector,
+  validateHolding,
+  verifyDataIntegrity,
+  replaceSourceHoldings,
+  previewSourceHoldings,
+  buildImportPreview,
+  isDryRun,
+} from '../_shared/holdingsImport.ts'
+import { hashFile, findImportedBatch, duplicateImportMessage } from '../_shared/importBatches.ts'
+
+/**
+ * Groww exports stocks and mutual funds as two separate statements:
+ * - Stocks: Stock Name | ISIN | Quantity | Average buy price | Buy value | Closing price | Closing value | Unrealised P&L
+ * - Mutual funds: Scheme Name | AMC | Category | Sub-category | Folio No. | Source | Units | Invested Value | Current Value | Returns | XIRR
+ * Both start with a few rows of account details and a summary block before the table.
+ * Some stock statements also carry a Symbol column; without one the symbol comes from the name.
+ */
+type StatementKind = 'stocks' | 'mutual_funds'
+
+interface StockColumnMap {
+  name: number
+  symbol: number
+  isin: number
+  quantity: number
+  avgPrice: number
+  buyValue: number
+  closingPrice: number
+  closingValue: number
+}
+
+interface FundColumnMap {
+  scheme: number
+  amc: number
+  category: number
+  subCategory: number
+  units: number
+  investedValue: number
+  currentValue: number
+  xirr: number
+}
+
+const SOURCE = 'Groww'
+
+// Account details and the summary block above the table
+const PREAMBLE_ROWS = 30
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const startTime = Date.now()
+  let supabase: ReturnType<typeof createClient> | null = null
+  let userId: string | undefined
+  let dryRun = false
+
+  try {
+    // Validate JWT authentication
+    const authResult = await validateAuth(req)
+    if (!authResult.isValid) {
+      return unauthorizedResponse(authResult.error || 'Authentication failed')
+    }
+
+    if (!authResult.userId && !authResult.isCronCall) {
+      return unauthorizedResponse('User ID not found in token')
+    }
+    userId = authResult.userId
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    supabase = createClient(supabaseUrl, supabaseKey)
+
+    const formData = await req.formData()
+    const file = validateUploadedFile(formData.get('file') as File | null)
+    dryRun = isDryRun(formData)
+
+    console.log(`Processing file: ${file.name}, size: ${file.size} bytes, type: ${file.type}`)
+
+    const arrayBuffer = await file.arrayBuffer()
+    const fileHash = await hashFile(arrayBuffer)
+    let workbook: XLSX.WorkBook
+
+    try {
+      workbook = XLSX.read(arrayBuffer, {
+        type: 'array',
+        cellDates: true,
+        cellNF: true,
+        cellStyles: false,
+        // One row past the limit, so an oversized file is rejected rather than truncated
+        sheetRows: MAX_ROWS + PREAMBLE_ROWS + 1
+      })
+    } catch (parseError) {
+      throw new Error(`Failed to parse file: ${parseError instanceof Error ? parseError.message : 'Invalid format'}`)
+    }
+
+    if (workbook.SheetNames.length === 0) {
+      throw new Error('File contains no sheets')
+    }
+
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]]
+    const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' }) as unknown[][]
+
+    if (jsonData.length > MAX_ROWS + PREAMBLE_ROWS) {
+      throw new Error(`Too many rows. Maximum ${MAX_ROWS} allowed`)
+    }
+    if (jsonData.length === 0) {
+      throw new Error('File contains no data rows')
+    }
+
+    const header = findHeaderRow(jsonData)
+    if (!header) {
+      throw new Error('Could not find the holdings table. Upload the Groww stocks holdings statement or the mutual funds holdings export.')
+    }
+
+    console.log(`Detected Groww ${header.kind} statement, header at row ${header.row + 1}`)
+
+    const parseResult = header.kind === 'stocks'
+      ? parseStockHoldings(jsonData, header.row, mapStockColumns(jsonData[header.row]), startTime, authResult.userId)
+      : parseFundHoldings(jsonData, header.row, mapFundColumns(jsonData[header.row]), startTime, authResult.userId)
+
+    console.log(`Parsing complete: ${parseResult.summary.valid_holdings} valid, ${parseResult.summary.skipped_count} skipped`)
+
+    if (parseResult.skipped.length > 0) {
+      console.log('Skipped entries:')
+      parseResult.skipped.slice(0, 10).forEach(skip => {
+        console.log(`  Row ${skip.row}: ${skip.reason}`)
+      })
+      if (parseResult.skipped.length > 10) {
+        console.log(`  ... and ${parseResult.skipped.length - 10} more`)
+      }
+    }
+
+    const verification = verifyDataIntegrity(parseResult.holdings)
+    if (!verification.isValid) {
+      console.warn('Data integrity warnings:', verification.warnings)
+    }
+
+    // Each statement only replaces its own half, so uploading the MF export
+    // doesn't wipe stocks imported earlier and vice versa
+    const scope = { column: 'exchange', value: 'MF', negate: header.kind === 'stocks' }
+    const kindLabel = header.kind === 'stocks' ? 'stock' : 'mutual fund'
+
+    const importedBatch = await findImportedBatch(supabase, authResult.userId, SOURCE, fileHash, scope)
+    if (importedBatch) {
+      verification.warnings.push(importedBatch.status === 'active'
+        ? 'This file is identical to the current import'
+        : 'This file is identical to an earlier import')
+    }
+
+    // Identical bytes to an earlier import: nothing to replace
+    if (!dryRun && importedBatch) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          skipped_duplicate: true,
+          holdings_count: importedBatch.holdings_count,
+          message: duplicateImportMessage(importedBatch),
+          processing_time_ms: Date.now() - startTime,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Preview only: show what the import would change and write nothing
+    if (dryRun) {
+      const diff = await previewSourceHoldings(supabase, SOURCE, authResult.userId, parseResult.holdings, scope)
+      return new Response(
+        JSON.stringify({
+          success: true,
+          statement: header.kind,
+          message: `Parsed ${parseResult.holdings.length} ${kindLabel} holdings from Groww`,
+          ...buildImportPreview(parseResult, diff, verification),
+          processing_time_ms: Date.now() - startTime,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const insertedCount = await replaceSourceHoldings(
+      supabase,
+      SOURCE,
+      authResult.userId,
+      parseResult.holdings,
+      startTime,
+      {
+        fileName: file.name,
+        fileHash,
+        totalRows: parseResult.summary.total_rows,
+        skippedCount: parseResult.skipped.length,
+      },
+      scope
+    )
+
+    await supabase.from('sync_logs').insert({
+      source: SOURCE,
+      status: 'success',
+      holdings_count: insertedCount,
+      user_id: authResult.userId || null,
+      error_message: parseResult.skipped.length > 0
+        ? `${parseResult.skipped.length} entries skipped`
+        : null,
+    })
+
+    const response = {
+      success: true,
+      holdings_count: insertedCount,
+      statement: header.kind,
+      message: `Imported ${insertedCount} ${kindLabel} holdings from Groww`,
+      summary: parseResult.summary,
+      skipped_count: parseResult.skipped.length,
+      processing_time_ms: Date.now() - startTime,
+      data_integrity: verification,
+      user_id: authResult.userId,
+    }
+
+    return new Response(
+      JSON.stringify(response),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Groww parse error:', errorMessage)
+
+    // A failed preview changed nothing
+    if (supabase && !dryRun) {
+      try {
+        const { error: logError } = await supabase.from('sync_logs').insert({
+          source: SOURCE,
+          status: 'error',
+          error_message: errorMessage,
+          user_id: userId || null,
+        })
+        if (logError) console.error('Failed to log error:', logError)
+      } catch (logError) {
+        console.error('Failed to log error:', logError)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage,
+        processing_time_ms: Date.now() - startTime
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+function normalizeCell(cell: unknown): string {
+  return String(cell).toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Find the table header below the account details and summary block, and
+ * tell which of the two statements this is
+ */
+function findHeaderRow(data: unknown[][]): { row: number; kind: StatementKind } | null {
+  for (let i = 0; i < Math.min(data.length, 40); i++) {
+    const cells = (data[i] || []).map(normalizeCell)
+    if (cells.some(c => c.includes('scheme name')) && cells.some(c => c.includes('units'))) {
+      return { row: i, kind: 'mutual_funds' }
+    }
+    if (cells.some(c => c === 'isin') && cells.some(c => c.includes('quantity'))) {
+      return { row: i, kind: 'stocks' }
+    }
+  }
+
+  console.error('Could not find header row. First 10 rows:', data.slice(0, 10))
+  return null
+}
+
+function mapStockColumns(headerRow: unknown[]): StockColumnMap {
+  const map: StockColumnMap = {
+    name: -1, symbol: -1, isin: -1, quantity: -1, avgPrice: -1, buyValue: -1, closingPrice: -1, closingValue: -1,
+  }
+
+  headerRow.forEach((cell, idx) => {
+    const cellStr = normalizeCell(cell)
+    if (cellStr.includes('stock name') || cellStr === 'name' || cellStr === 'company') map.name = idx
+    else if (cellStr.includes('symbol') || cellStr === 'ticker') map.symbol = idx
+    else if (cellStr === 'isin') map.isin = idx
+    else if (cellStr.includes('quantity') || cellStr === 'qty') map.quantity = idx
+    else if (cellStr.includes('average') || cellStr.includes('avg')) map.avgPrice = idx
+    else if (cellStr.includes('buy value') || cellStr.includes('invested')) map.buyValue = idx
+    else if (cellStr.includes('closing price') || cellStr === 'ltp' || cellStr.includes('market price')) map.closingPrice = idx
+    else if (cellStr.includes('closing value') || cellStr.includes('current value') || cellStr.includes('market value')) map.closingValue = idx
+  })
+
+  return map
+}
+
+function mapFundColumns(headerRow: unknown[]): FundColumnMap {
+  const map: FundColumnMap = {
+    scheme: -1, amc: -1, category: -1, subCategory: -1, units: -1, investedValue: -1, currentValue: -1, xirr: -1,
+  }
+
+  headerRow.forEach((cell, idx) => {
+    const cellStr = normalizeCell(cell)
+    if (cellStr.includes('scheme name')) map.scheme = idx
+    else if (cellStr === 'amc' || cellStr.includes('fund house')) map.amc = idx
+    else if (cellStr.includes('sub-category') || cellStr.includes('sub category')) map.subCategory = idx
+    else if (cellStr.includes('category')) map.category = idx
+    else if (cellStr.includes('units')) map.units = idx
+    else if (cellStr.includes('invested')) map.investedValue = idx
+    else if (cellStr.includes('current value')) map.currentValue = idx
+    else if (cellStr.includes('xirr')) map.xirr = idx
+  })
+
+  return map
+}
+
+function cellText(row: unknown[], idx: number, maxLength = MAX_STRING_LENGTH): string {
+  return idx >= 0 ? String(row[idx] ?? '').trim().slice(0, maxLength) : ''
+}
+
+function cellNumber(row: unknown[], idx: number): number {
+  return idx >= 0 ? parseNumber(row[idx]) : 0
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function mapStockType(name: string): string {
+  const lower = name.toLowerCase()
+  if (lower.includes('sgb') || lower.includes('sovereign gold')) return 'SGB'
+  if (lower.includes('etf') || lower.includes('bees')) return 'ETF'
+  if (lower.includes('reit') || lower.includes('invit')) return 'REIT'
+  return 'Equity'
+}
+
+function mapFundType(category: string, name: string): string {
+  const combined = `${category} ${name}`.toLowerCase()
+  if (combined.includes('gold') || combined.includes('silver') || combined.includes('commodit')) return 'Commodity MF'
+  if (combined.includes('debt') || combined.includes('liquid') || combined.includes('bond')) return 'Debt MF'
+  return 'Mutual Fund'
+}
+
+/**
+ * Groww's MF export has no scheme code, so derive a stable symbol from the name
+ */
+function generateFundSymbol(name: string): string {
+  const cleanName = name
+    .toUpperCase()
+    .replace(/[^A-Z0-9\s]/g, '')
+    .split(/\s+/)
+    .slice(0, 4)
+    .join('-')
+    .substring(0, 30)
+
+  return `MF-${cleanName}`
+}
+
+function buildResult(holdings: ParsedHolding[], skipped: SkippedRow[], totalRows: number): ParseResult {
+  const byType: Record<string, number> = {}
+  holdings.forEach(h => {
+    byType[h.type] = (byType[h.type] || 0) + 1
+  })
+
+  return {
+    holdings,
+    skipped,
+    summary: {
+      total_rows: totalRows,
+      valid_holdings: holdings.length,
+      skipped_count: skipped.length,
+      by_type: byType,
+    }
+  }
+}
+
+function pushIfValid(holding: ParsedHolding, rowNumber: number, holdings: ParsedHolding[], skipped: SkippedRow[]) {
+  const validation = validateHolding(holding)
+  if (!validation.isValid) {
+    skipped.push({ row: rowNumber, reason: validation.errors.join('; '), data: { name: holding.name } })
+    return
+  }
+  holdings.push(holding)
+}
+
+function parseStockHoldings(
+  data: unknown[][],
+  headerRow: number,
+  columnMap: StockColumnMap,
+  startTime: number,
+  userId?: string
+): ParseResult {
+  if (columnMap.name === -1 || columnMap.quantity === -1) {
+    throw new Error('Stocks statement is missing the Stock Name or Quantity column')
+  }
+
+  const holdings: ParsedHolding[] = []
+  const skipped: SkippedRow[] = []
+
+  for (let i = headerRow + 1; i < data.length; i++) {
+    if (Date.now() - startTime > MAX_PROCESSING_TIME) {
+      throw new Error('Processing timeout - file too complex')
+    }
+
+    const row = data[i]
+    if (!row || row.length === 0) continue
+
+    try {
+      const name = cellText(row, columnMap.name)
+      if (!name) continue
+
+      const isin = cellText(row, columnMap.isin, 20).toUpperCase()
+      const symbol = cellText(row, columnMap.symbol, 100).toUpperCase() || name.toUpperCase().replace(/[^A-Z0-9]/g, '')
+      const quantity = cellNumber(row, columnMap.quantity)
+      if (quantity <= 0) {
+        skipped.push({ row: i + 1, reason: 'No quantity', data: { name } })
+        continue
+      }
+
+      const buyValue = cellNumber(row, columnMap.buyValue)
+      const closingValue = cellNumber(row, columnMap.closingValue)
+      const avgPrice = cellNumber(row, columnMap.avgPrice) || (buyValue > 0 ? buyValue / quantity : 0)
+      const ltp = cellNumber(row, columnMap.closingPrice) || (closingValue > 0 ? closingValue / quantity : 0)
+      const type = mapStockType(name)
+
+      pushIfValid({
+        symbol: symbol.slice(0, 100),
+        name,
+        type,
+        sector: type === 'SGB' ? 'Commodity' : mapSector('', '', name),
+        quantity,
+        avg_price: round2(avgPrice),
+        ltp: round2(ltp),
+        exchange: 'NSE',
+        source: SOURCE,
+        isin: /^IN[A-Z0-9]{10}$/.test(isin) ? isin : undefined,
+        user_id: userId,
+        broker: SOURCE,
+      }, i + 1, holdings, skipped)
+    } catch (rowError) {
+      skipped.push({
+        row: i + 1,
+        reason: `Parse error: ${rowError instanceof Error ? rowError.message : 'Unknown'}`,
+      })
+    }
+  }
+
+  return buildResult(holdings, skipped, data.length - headerRow - 1)
+}
+
+function parseFundHoldings(
+  data: unknown[][],
+  headerRow: number,
+  columnMap: FundColumnMap,
+  startTime: number,
+  userId?: string
+): ParseResult {
+  if (columnMap.scheme === -1 || columnMap.units === -1) {
+    throw new Error('Mutual funds statement is missing the Scheme Name or Units column')
+  }
+
+  const holdings: ParsedHolding[] = []
+  const skipped: SkippedRow[] = []
+
+  for (let i = headerRow + 1; i < data.length; i++) {
+    if (Date.now() - startTime > MAX_PROCESSING_TIME) {
+      throw new Error('Processing timeout - file too complex')
+    }
+
+    const row = data[i]
+    if (!row || row.length === 0) continue
+
+    try {
+      const scheme = cellText(row, columnMap.scheme)
+      if (!scheme) continue
+
+      const units = cellNumber(row, columnMap.units)
+      const investedValue = cellNumber(row, columnMap.investedValue)
+      const currentValue = cellNumber(row, columnMap.currentValue)
+      if (units <= 0) {
+        skipped.push({ row: i + 1, reason: 'No units', data: { scheme } })
+        continue
+      }
+
+      const category = cellText(row, columnMap.category)
+      const subCategory = cellText(row, columnMap.subCategory)
+      const xirrValue = columnMap.xirr >= 0 ? parseOptionalPercent(row[columnMap.xirr]) : null
+
+      pushIfValid({
+        symbol: generateFundSymbol(scheme),
+        name: scheme,
+        type: mapFundType(category, scheme),
+        sector: mapSector(category, subCategory, scheme),
+        quantity: units,
+        avg_price: round2(investedValue / units),
+        ltp: round2(currentValue / units),
+        exchange: 'MF',
+        source: SOURCE,
+        user_id: userId,
+        xirr: xirrValue !== null ? round2(xirrValue) : undefined,
+        broker: SOURCE,
+      }, i + 1, holdings, skipped)
+    } catch (rowError) {
+      skipped.push({
+        row: i + 1,
+        reason: `Parse error: ${rowError instanceof Error ? rowError.message : 'Unknown'}`,
+      })
+    }
+  }
+
+  return buildResult(holdings, skipped, data.length - headerRow - 1)
+}
@@ -1,51 +1,25 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import * as XLSX from 'https://esm.sh/xlsx@0.18.5'
 import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
-
-// Constants for file validation
-const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
-const MAX_ROWS = 10000
-const MAX_STRING_LENGTH = 500
-const MAX_PROCESSING_TIME = 30000 // 30 seconds
-const VALID_MIME_TYPES = [
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
-  'application/vnd.ms-excel', // .xls
-  'text/csv',
-  '', // Some browsers don't set MIME type for Excel files
-]
-
-interface ParsedHolding {
-  symbol: string
-  name: string
-  type: string
-  sector: string
-  quantity: number
-  avg_price: number
-  ltp: number
-  exchange: string
-  source: string
-  isin?: string
-  user_id?: string
-  xirr?: number
-  broker: string
-}
-
-interface ValidationResult {
-  isValid: boolean
-  errors: string[]
-  warnings: string[]
-}
-
-interface ParseResult {
-  holdings: ParsedHolding[]
-  skipped: { row: number; reason: string; data?: any }[]
-  summary: {
-    total_rows: number
-    valid_holdings: number
-    skipped_count: number
-    by_type: Record<string, number>
-  }
-}
+import {
+  MAX_ROWS,
+  MAX_STRING_LENGTH,
+  MAX_PROCESSING_TIME,
+  ParsedHolding,
+  ParseResult,
+  SkippedRow,
+  validateUploadedFile,
+  parseNumber,
+  parseOptionalPercent,
+  mapSector,
+  validateHolding,
+  verifyDataIntegrity,
+  replaceSourceHoldings,
+  previewSourceHoldings,
+  buildImportPreview,
+  isDryRun,
+} from '../_shared/holdingsImport.ts'
+import { hashFile, findImportedBatch, duplicateImportMessage } from '../_shared/importBatches.ts'
 
 // Column mapping for INDMoney Holdings Report
 interface ColumnMap {
@@ -77,6 +51,8 @@ Deno.serve(async (req) => {
 
   const startTime = Date.now()
   let supabase: ReturnType<typeof createClient> | null = null
+  let userId: string | undefined
+  let dryRun = false
 
   try {
     // Validate JWT authentication
@@ -91,6 +67,7 @@ Deno.serve(async (req) => {
     if (!authResult.userId && !authResult.isCronCall) {
       return unauthorizedResponse('User ID not found in token')
     }
+    userId = authResult.userId
     
     // Initialize Supabase client with service role for database operations
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
@@ -99,38 +76,14 @@ Deno.serve(async (req) => {
 
     // Parse form data
     const formData = await req.formData()
-    const file = formData.get('file') as File
-
-    if (!file) {
-      throw new Error('No file uploaded')
-    }
-
-    // Step 1: Validate file size
-    if (file.size > MAX_FILE_SIZE) {
-      throw new Error(`File too large. Maximum ${MAX_FILE_SIZE / 1024 / 1024}MB allowed, got ${(file.size / 1024 / 1024).toFixed(2)}MB`)
-    }
-    if (file.size === 0) {
-      throw new Error('File is empty')
-    }
-
-    // Validate file type by extension
-    const fileName = file.name.toLowerCase()
-    const validExtensions = ['.xlsx', '.xls', '.csv']
-    const hasValidExtension = validExtensions.some(ext => fileName.endsWith(ext))
-    
-    if (!hasValidExtension) {
-      throw new Error(`Invalid file type. Supported formats: ${validExtensions.join(', ')}`)
-    }
-
-    // Step 2: Verify MIME type if provided
-    if (file.type && !VALID_MIME_TYPES.includes(file.type)) {
-      throw new Error(`Invalid MIME type: ${file.type}. Expected Excel or CSV file.`)
-    }
+    const file = validateUploadedFile(formData.get('file') as File | null)
+    dryRun = isDryRun(formData)
 
     console.log(`Processing file: ${file.name}, size: ${file.size} bytes, type: ${file.type}`)
 
     // Read and parse the file with row limit
     const arrayBuffer = await file.arrayBuffer()
+    const fileHash = await hashFile(arrayBuffer)
     let workbook: XLSX.WorkBook
 
     try {
@@ -213,47 +166,56 @@ Deno.serve(async (req) => {
       console.warn('Data integrity warnings:', verification.warnings)
     }
 
-    // Delete existing INDMoney holdings for this user and insert new ones
-    let deleteQuery = supabase
-      .from('holdings')
-      .delete()
-      .eq('source', 'INDMoney')
-    
-    // If user is authenticated, only delete their holdings
-    if (authResult.userId) {
-      deleteQuery = deleteQuery.eq('user_id', authResult.userId)
+    const importedBatch = await findImportedBatch(supabase, authResult.userId, 'INDMoney', fileHash)
+    if (importedBatch) {
+      verification.warnings.push(importedBatch.status === 'active'
+        ? 'This file is identical to the current import'
+        : 'This file is identical to an earlier import')
     }
-    
-    const { error: deleteError } = await deleteQuery
 
-    if (deleteError) {
-      console.error('Delete error:', deleteError)
-      throw new Error(`Failed to clear existing holdings: ${deleteError.message}`)
+    // Identical bytes to an earlier import: nothing to replace
+    if (!dryRun && importedBatch) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          skipped_duplicate: true,
+          holdings_count: importedBatch.holdings_count,
+          message: duplicateImportMessage(importedBatch),
+          processing_time_ms: Date.now() - startTime,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
     }
-    
-    console.log(`Deleted existing INDMoney holdings for user: ${authResult.userId || 'all'}`)
-
-    let insertedCount = 0
-    if (parseResult.holdings.length > 0) {
-      // Insert in batches of 100 for large datasets
-      const batchSize = 100
-      for (let i = 0; i < parseResult.holdings.length; i += batchSize) {
-        // Check timeout during batch processing
-        if (Date.now() - startTime > MAX_PROCESSING_TIME) {
-          throw new Error('Processing timeout - file too complex')
-        }
-        
-        const batch = parseResult.holdings.slice(i, i + batchSize)
-        const { error: insertError } = await supabase.from('holdings').insert(batch as any)
-        
-        if (insertError) {
-          console.error(`Insert error at batch ${i / batchSize}:`, insertError)
-          throw new Error(`Failed to insert holdings: ${insertError.message}`)
-        }
-        insertedCount += batch.length
-      }
+
+    // Preview only: show what the import would change and write nothing
+    if (dryRun) {
+      const diff = await previewSourceHoldings(supabase, 'INDMoney', authResult.userId, parseResult.holdings)
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: `Parsed ${parseResult.holdings.length} holdings from INDMoney Excel`,
+          ...buildImportPreview(parseResult, diff, verification),
+          processing_time_ms: Date.now() - startTime,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
     }
 
+    // Replace this user's INDMoney holdings in a single transaction
+    const insertedCount = await replaceSourceHoldings(
+      supabase,
+      'INDMoney',
+      authResult.userId,
+      parseResult.holdings,
+      startTime,
+      {
+        fileName: file.name,
+        fileHash,
+        totalRows: parseResult.summary.total_rows,
+        skippedCount: parseResult.skipped.length,
+      }
+    )
+
     const processingTime = Date.now() - startTime
 
     // Log the sync with detailed info
@@ -291,14 +253,16 @@ Deno.serve(async (req) => {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
     console.error('INDMoney parse error:', errorMessage)
 
-    // Log the error to sync_logs
-    if (supabase) {
+    // Log the error to sync_logs; a failed preview changed nothing
+    if (supabase && !dryRun) {
       try {
-        await supabase.from('sync_logs').insert({
+        const { error: logError } = await supabase.from('sync_logs').insert({
           source: 'INDMoney',
           status: 'error',
           error_message: errorMessage,
+          user_id: userId || null,
         } as any)
+        if (logError) console.error('Failed to log error:', logError)
       } catch (logError) {
         console.error('Failed to log error:', logError)
       }
@@ -418,42 +382,6 @@ function findHeaderRowAndColumns(data: any[][]): { headerRow: number; columnMap:
   return { headerRow: -1, columnMap: defaultMap }
 }
 
-/**
- * Parse number from various formats (handles commas, INR symbols, etc.)
- * Enhanced with Infinity/NaN protection
- */
-function parseNumber(value: any): number {
-  if (typeof value === 'number') {
-    if (!isFinite(value)) return 0 // Reject Infinity/NaN
-    return value
-  }
-  if (!value || value === '-' || value === 'N/A') return 0
-  
-  const str = String(value)
-    .replace(/[₹,\s]/g, '')
-    .replace(/^\((.+)\)$/, '-$1') // Handle (negative) format
-    .trim()
-  
-  const num = parseFloat(str)
-  return (isNaN(num) || !isFinite(num)) ? 0 : num
-}
-
-function parseOptionalPercent(value: any): number | null {
-  if (value === null || value === undefined) return null
-  const raw = String(value).trim()
-  if (!raw || raw === '-' || raw.toUpperCase() === 'N/A') return null
-
-  const cleaned = raw
-    .replace(/[₹,\s]/g, '')
-    .replace(/^\((.+)\)$/, '-$1')
-    .replace(/%/g, '')
-    .replace(/per\s*annum/gi, '')
-    .replace(/p\.?a\.?/gi, '')
-
-  const num = parseFloat(cleaned)
-  return (isNaN(num) || !isFinite(num)) ? null : num
-}
-
 /**
  * Parse holdings from the data with timeout protection and string length limits
  */
@@ -465,7 +393,7 @@ function parseHoldings(
   userId?: string
 ): ParseResult {
   const holdings: ParsedHolding[] = []
-  const skipped: { row: number; reason: string; data?: any }[] = []
+  const skipped: SkippedRow[] = []
   const byType: Record<string, number> = {}
 
   for (let i = headerRow + 1; i < data.length; i++) {
@@ -634,31 +562,6 @@ function mapAssetType(assetType: string, assetClass: string, name: string): stri
   }
 }
 
-/**
- * Map to sector
- */
-function mapSector(assetClass: string, category: string, name: string): string {
-  const combined = `${assetClass} ${category} ${name}`.toLowerCase()
-
-  if (combined.includes('gold')) return 'Commodity'
-  if (combined.includes('silver')) return 'Commodity'
-  if (combined.includes('retirement') || combined.includes('pension')) return 'Retirement'
-  if (combined.includes('debt') || combined.includes('bond') || combined.includes('liquid')) return 'Debt'
-  if (combined.includes('hybrid') || combined.includes('balanced')) return 'Hybrid'
-  if (combined.includes('index') || combined.includes('nifty') || combined.includes('sensex')) return 'Index'
-  if (combined.includes('tech') || combined.includes('digital') || combined.includes('it')) return 'IT'
-  if (combined.includes('bank') || combined.includes('financial')) return 'Banking'
-  if (combined.includes('pharma') || combined.includes('health')) return 'Pharma'
-  if (combined.includes('auto')) return 'Auto'
-  if (combined.includes('flexi') || combined.includes('multi')) return 'Diversified'
-  if (combined.includes('large cap')) return 'Large Cap'
-  if (combined.includes('mid cap')) return 'Mid Cap'
-  if (combined.includes('small cap')) return 'Small Cap'
-  if (combined.includes('global') || combined.includes('mega cap')) return 'Global'
-  
-  return 'Diversified'
-}
-
 /**
  * Map to exchange
  */
@@ -691,85 +594,3 @@ function generateSymbol(assetType: string, code: string, name: string): string {
 
   return `${prefix}-${cleanName}`
 }
-
-/**
- * Validate a single holding
- */
-function validateHolding(holding: ParsedHolding): ValidationResult {
-  const errors: string[] = []
-  const warnings: string[] = []
-
-  if (!holding.symbol || holding.symbol.length < 2) {
-    errors.push('Invalid symbol')
-  }
-
-  if (!holding.name || holding.name.length < 2) {
-    errors.push('Invalid name')
-  }
-
-  // Allow short broker names for retirement assets (EPF, PPF, NPS use asset type as broker)
-  const isRetirementType = ['EPF', 'PPF', 'NPS'].includes(holding.type)
-  if (!holding.broker && !isRetirementType) {
-    errors.push('Invalid or missing broker')
-  }
-
-  if (holding.quantity <= 0) {
-    errors.push('Quantity must be positive')
-  }
-
-  if (holding.avg_price < 0) {
-    errors.push('Average price cannot be negative')
-  }
-
-  if (holding.ltp < 0) {
-    errors.push('LTP cannot be negative')
-  }
-
-  // Warnings for suspicious values
-  if (holding.avg_price === 0 && holding.ltp === 0) {
-    warnings.push('Both avg price and LTP are zero')
-  }
-
-  return {
-    isValid: errors.length === 0,
-    errors,
-    warnings,
-  }
-}
-
-/**
- * Verify overall data integrity
- */
-function verifyDataIntegrity(holdings: ParsedHolding[]): ValidationResult {
-  const errors: string[] = []
-  const warnings: string[] = []
-
-  if (holdings.length === 0) {
-    warnings.push('No holdings were parsed')
-  }
-
-  // Check for duplicates
-  const symbols = new Map<string, number>()
-  holdings.forEach(h => {
-    symbols.set(h.symbol, (symbols.get(h.symbol) || 0) + 1)
-  })
-  
-  const duplicates = Array.from(symbols.entries()).filter(([_, count]) => count > 1)
-  if (duplicates.length > 0) {
-    warnings.push(`${duplicates.length} duplicate symbols found`)
-  }
-
-  // Calculate totals for sanity check
-  const totalInvested = holdings.reduce((sum, h) => sum + h.quantity * h.avg_price, 0)
-  const totalCurrent = holdings.reduce((sum, h) => sum + h.quantity * h.ltp, 0)
-
-  if (totalInvested === 0 && holdings.length > 0) {
-    warnings.push('Total invested value is zero')
-  }
-
-  return {
-    isValid: errors.length === 0,
-    errors,
-    warnings,
-  }
-}
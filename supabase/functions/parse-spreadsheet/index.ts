@@ -0,0 +1,418 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import * as XLSX from 'https://esm.sh/xlsx@0.18.5'
+import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
+import {
+  MAX_ROWS,
+  MAX_STRING_LENGTH,
+  MAX_PROCESSING_TIME,
+  ParsedHolding,
+  ParseResult,
+  SkippedRow,
+  validateUploadedFile,
+  parseNumber,
+  parseOptionalPercent,
+  mapSector,
+  validateHolding,
+  verifyDataIntegrity,
+  replaceSourceHoldings,
+  previewSourceHoldings,
+  buildImportPreview,
+  isDryRun,
+  isBuiltInSource,
+  isReservedSource,
+} from '../_shared/holdingsImport.ts'
+import { hashFile, findImportedBatch, duplicateImportMessage } from '../_shared/importBatches.ts'
+
+/**
+ * Generic importer for spreadsheets from any broker. The column mapping is
+ * chosen (or confirmed) by the user in the import wizard, so nothing here
+ * guesses at headers.
+ */
+const MAPPED_FIELDS = [
+  'name', 'symbol', 'isin', 'type', 'quantity', 'avgPrice',
+  'investedAmount', 'ltp', 'marketValue', 'broker', 'xirr',
+] as const
+
+type MappedField = typeof MAPPED_FIELDS[number]
+type ColumnMap = Record<MappedField, number>
+
+interface Mapping {
+  sheetName: string | null
+  headerRow: number
+  columns: ColumnMap
+}
+
+const VALID_TYPES = [
+  'Equity', 'ETF', 'SGB', 'Commodity', 'Index', 'US Stock', 'Mutual Fund',
+  'Bond', 'REIT', 'NPS', 'EPF', 'PPF',
+]
+
+// Sheets can have a preamble of account details above the table
+const MAX_PREAMBLE_ROWS = 40
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const startTime = Date.now()
+  let supabase: ReturnType<typeof createClient> | null = null
+  let dryRun = false
+  let source: string | null = null
+  let userId: string | undefined
+
+  try {
+    const authResult = await validateAuth(req)
+    if (!authResult.isValid) {
+      return unauthorizedResponse(authResult.error || 'Authentication failed')
+    }
+    if (!authResult.userId) {
+      return unauthorizedResponse('User ID not found in token')
+    }
+    userId = authResult.userId
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    supabase = createClient(supabaseUrl, supabaseKey)
+
+    const formData = await req.formData()
+    const file = validateUploadedFile(formData.get('file') as File | null)
+    dryRun = isDryRun(formData)
+
+    const mapping = parseMapping(formData.get('mapping'))
+    const sourceLabel = cleanLabel(formData.get('source'))
+    if (!sourceLabel) {
+      throw new Error('Choose a source label for these holdings')
+    }
+    if (isReservedSource(sourceLabel)) {
+      throw new Error(`"${sourceLabel}" is reserved for holdings added by hand; choose another source label`)
+    }
+    if (isBuiltInSource(sourceLabel)) {
+      throw new Error(`"${sourceLabel}" holdings come from its own import or sync; choose another source label`)
+    }
+    source = sourceLabel
+    const brokerLabel = cleanLabel(formData.get('broker')) || sourceLabel
+    const defaultTypeField = cleanLabel(formData.get('default_type'))
+    const defaultType = VALID_TYPES.includes(defaultTypeField) ? defaultTypeField : 'Equity'
+
+    console.log(`Processing file: ${file.name} as ${sourceLabel}, size: ${file.size} bytes`)
+
+    const arrayBuffer = await file.arrayBuffer()
+    const fileHash = await hashFile(arrayBuffer)
+    let workbook: XLSX.WorkBook
+
+    try {
+      workbook = XLSX.read(arrayBuffer, {
+        type: 'array',
+        cellDates: true,
+        cellNF: true,
+        cellStyles: false,
+        // One row past the limit, so an oversized file is rejected rather than truncated
+        sheetRows: MAX_ROWS + MAX_PREAMBLE_ROWS + 1
+      })
+    } catch (parseError) {
+      throw new Error(`Failed to parse file: ${parseError instanceof Error ? parseError.message : 'Invalid format'}`)
+    }
+
+    const sheetName = mapping.sheetName && workbook.SheetNames.includes(mapping.sheetName)
+      ? mapping.sheetName
+      : workbook.SheetNames[0]
+    if (!sheetName) {
+      throw new Error('File contains no sheets')
+    }
+
+    const worksheet = workbook.Sheets[sheetName]
+    const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' }) as unknown[][]
+
+    if (jsonData.length > MAX_ROWS + MAX_PREAMBLE_ROWS) {
+      throw new Error(`Too many rows. Maximum ${MAX_ROWS} allowed`)
+    }
+    if (mapping.headerRow >= jsonData.length - 1) {
+      throw new Error('The header row has no data rows below it')
+    }
+
+    const parseResult = parseMappedHoldings(
+      jsonData, mapping, { source: sourceLabel, broker: brokerLabel, defaultType }, startTime, userId
+    )
+
+    console.log(`Parsing complete: ${parseResult.summary.valid_holdings} valid, ${parseResult.summary.skipped_count} skipped`)
+
+    const verification = verifyDataIntegrity(parseResult.holdings)
+    if (!verification.isValid) {
+      console.warn('Data integrity warnings:', verification.warnings)
+    }
+
+    const importedBatch = await findImportedBatch(supabase, userId, sourceLabel, fileHash)
+    if (importedBatch) {
+      verification.warnings.push(importedBatch.status === 'active'
+        ? 'This file is identical to the current import'
+        : 'This file is identical to an earlier import')
+    }
+
+    // Identical bytes to an earlier import: nothing to replace
+    if (!dryRun && importedBatch) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          skipped_duplicate: true,
+          holdings_count: importedBatch.holdings_count,
+          message: duplicateImportMessage(importedBatch),
+          processing_time_ms: Date.now() - startTime,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Preview only: show what the import would change and write nothing
+    if (dryRun) {
+      const diff = await previewSourceHoldings(supabase, sourceLabel, userId, parseResult.holdings)
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: `Parsed ${parseResult.holdings.length} holdings for ${sourceLabel}`,
+          ...buildImportPreview(parseResult, diff, verification),
+          processing_time_ms: Date.now() - startTime,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const insertedCount = await replaceSourceHoldings(supabase, sourceLabel, userId, parseResult.holdings, startTime, {
+      fileName: file.name,
+      fileHash,
+      totalRows: parseResult.summary.total_rows,
+      skippedCount: parseResult.skipped.length,
+    })
+
+    await supabase.from('sync_logs').insert({
+      source: sourceLabel,
+      status: 'success',
+      holdings_count: insertedCount,
+      user_id: userId,
+      error_message: parseResult.skipped.length > 0
+        ? `${parseResult.skipped.length} entries skipped`
+        : null,
+    })
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        holdings_count: insertedCount,
+        message: `Imported ${insertedCount} holdings for ${sourceLabel}`,
+        summary: parseResult.summary,
+        skipped_count: parseResult.skipped.length,
+        processing_time_ms: Date.now() - startTime,
+        data_integrity: verification,
+        user_id: userId,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Spreadsheet parse error:', errorMessage)
+
+    // A failed preview changed nothing
+    if (supabase && source && !dryRun) {
+      try {
+        await supabase.from('sync_logs').insert({
+          source,
+          status: 'error',
+          error_message: errorMessage,
+          user_id: userId || null,
+        })
+      } catch (logError) {
+        console.error('Failed to log error:', logError)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage,
+        processing_time_ms: Date.now() - startTime
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+function cleanLabel(value: FormDataEntryValue | null): string {
+  return typeof value === 'string' ? value.trim().slice(0, 50) : ''
+}
+
+/**
+ * Validate the wizard's mapping: integer column indices, one column per
+ * field, and the columns every holding needs
+ */
+function parseMapping(value: FormDataEntryValue | null): Mapping {
+  if (typeof value !== 'string') {
+    throw new Error('Column mapping is required')
+  }
+
+  let raw: { sheetName?: unknown; headerRow?: unknown; columns?: Record<string, unknown> }
+  try {
+    raw = JSON.parse(value)
+  } catch {
+    throw new Error('Column mapping is not valid JSON')
+  }
+
+  const headerRow = Number(raw.headerRow)
+  if (!Number.isInteger(headerRow) || headerRow < 0 || headerRow >= MAX_PREAMBLE_ROWS) {
+    throw new Error('Invalid header row')
+  }
+
+  const columns = {} as ColumnMap
+  for (const field of MAPPED_FIELDS) {
+    const idx = Number(raw.columns?.[field] ?? -1)
+    if (!Number.isInteger(idx) || idx < -1 || idx > 500) {
+      throw new Error(`Invalid column for ${field}`)
+    }
+    columns[field] = idx
+  }
+
+  if (columns.name < 0 || columns.quantity < 0) {
+    throw new Error('The mapping needs a name and a quantity column')
+  }
+  if (columns.avgPrice < 0 && columns.investedAmount < 0) {
+    throw new Error('The mapping needs an average price or invested amount column')
+  }
+
+  const assigned = Object.values(columns).filter(idx => idx >= 0)
+  if (new Set(assigned).size !== assigned.length) {
+    throw new Error('Each column can only be mapped to one field')
+  }
+
+  return {
+    sheetName: typeof raw.sheetName === 'string' ? raw.sheetName : null,
+    headerRow,
+    columns,
+  }
+}
+
+function cellText(row: unknown[], idx: number, maxLength = MAX_STRING_LENGTH): string {
+  return idx >= 0 ? String(row[idx] ?? '').trim().slice(0, maxLength) : ''
+}
+
+function cellNumber(row: unknown[], idx: number): number {
+  return idx >= 0 ? parseNumber(row[idx]) : 0
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Map a free-text asset type column onto the app's types, falling back to
+ * the type the user chose for the file
+ */
+function mapType(raw: string, name: string, defaultType: string): string {
+  const exact = VALID_TYPES.find(t => t.toLowerCase() === raw.toLowerCase())
+  if (exact) return exact
+
+  const combined = `${raw} ${name}`.toLowerCase()
+  if (combined.includes('sovereign gold') || /\bsgb\b/.test(combined)) return 'SGB'
+  if (!raw) return defaultType
+  if (combined.includes('fund') || /\bmf\b/.test(combined)) return 'Mutual Fund'
+  if (combined.includes('etf')) return 'ETF'
+  if (combined.includes('reit') || combined.includes('invit')) return 'REIT'
+  if (combined.includes('bond') || combined.includes('debenture')) return 'Bond'
+  if (combined.includes('equity') || combined.includes('stock') || combined.includes('share')) return 'Equity'
+  return defaultType
+}
+
+function generateSymbol(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/[^A-Z0-9\s]/g, '')
+    .split(/\s+/)
+    .slice(0, 4)
+    .join('-')
+    .substring(0, 30)
+}
+
+function parseMappedHoldings(
+  data: unknown[][],
+  mapping: Mapping,
+  labels: { source: string; broker: string; defaultType: string },
+  startTime: number,
+  userId?: string
+): ParseResult {
+  const { columns } = mapping
+  const holdings: ParsedHolding[] = []
+  const skipped: SkippedRow[] = []
+  const byType: Record<string, number> = {}
+
+  for (let i = mapping.headerRow + 1; i < data.length; i++) {
+    if (Date.now() - startTime > MAX_PROCESSING_TIME) {
+      throw new Error('Processing timeout - file too complex')
+    }
+
+    const row = data[i]
+    if (!row || row.length === 0) continue
+
+    try {
+      const name = cellText(row, columns.name)
+      if (!name) continue
+
+      const quantity = cellNumber(row, columns.quantity)
+      if (quantity <= 0) {
+        // Totals and footnote rows have a label but no quantity
+        skipped.push({ row: i + 1, reason: 'No quantity', data: { name } })
+        continue
+      }
+
+      const investedAmount = cellNumber(row, columns.investedAmount)
+      const marketValue = cellNumber(row, columns.marketValue)
+      const avgPrice = cellNumber(row, columns.avgPrice) || (investedAmount > 0 ? investedAmount / quantity : 0)
+      const ltp = cellNumber(row, columns.ltp) || (marketValue > 0 ? marketValue / quantity : avgPrice)
+
+      const isin = cellText(row, columns.isin, 20).toUpperCase()
+      const validIsin = /^[A-Z]{2}[A-Z0-9]{10}$/.test(isin) ? isin : undefined
+      const symbol = cellText(row, columns.symbol, 100).toUpperCase() || validIsin || generateSymbol(name)
+      const type = mapType(cellText(row, columns.type, 100), name, labels.defaultType)
+      const isFund = type === 'Mutual Fund'
+      const xirr = columns.xirr >= 0 ? parseOptionalPercent(row[columns.xirr]) : null
+
+      const holding: ParsedHolding = {
+        symbol,
+        name,
+        type,
+        sector: type === 'SGB' ? 'Commodity' : mapSector('', '', name),
+        quantity,
+        avg_price: round2(avgPrice),
+        ltp: round2(ltp),
+        exchange: isFund ? 'MF' : type === 'US Stock' ? 'US' : 'NSE',
+        source: labels.source,
+        isin: validIsin,
+        user_id: userId,
+        ...(xirr !== null ? { xirr } : {}),
+        broker: cellText(row, columns.broker, 100) || labels.broker,
+      }
+
+      const validation = validateHolding(holding)
+      if (!validation.isValid) {
+        skipped.push({ row: i + 1, reason: validation.errors.join('; '), data: { name } })
+        continue
+      }
+
+      holdings.push(holding)
+      byType[type] = (byType[type] || 0) + 1
+    } catch (rowError) {
+      skipped.push({
+        row: i + 1,
+        reason: `Parse error: ${rowError instanceof Error ? rowError.message : 'Unknown'}`,
+      })
+    }
+  }
+
+  return {
+    holdings,
+    skipped,
+    summary: {
+      total_rows: data.length - mapping.headerRow - 1,
+      valid_holdings: holdings.length,
+      skipped_count: skipped.length,
+      by_type: byType,
+    }
+  }
+}
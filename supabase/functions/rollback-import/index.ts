@@ -0,0 +1,126 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
+import { ParsedHolding, replaceSourceHoldings } from '../_shared/holdingsImport.ts'
+import { parseScopeKey } from '../_shared/importBatches.ts'
+
+interface StoredBatch {
+  id: string
+  source: string
+  scope: string
+  file_name: string | null
+  file_hash: string | null
+  status: string
+  total_rows: number | null
+  skipped_count: number
+  holdings: ParsedHolding[]
+  created_at: string
+}
+
+/**
+ * Restore a source's holdings to an earlier import batch. The restored set is
+ * recorded as a new active batch, so the rollback itself can be undone.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const startTime = Date.now()
+  let supabase: ReturnType<typeof createClient> | null = null
+  let source: string | null = null
+  let userId: string | undefined
+
+  try {
+    const authResult = await validateAuth(req)
+    if (!authResult.isValid) {
+      return unauthorizedResponse(authResult.error || 'Authentication failed')
+    }
+    if (!authResult.userId) {
+      return unauthorizedResponse('User ID not found in token')
+    }
+    userId = authResult.userId
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    supabase = createClient(supabaseUrl, supabaseKey)
+
+    const body = await req.json().catch(() => ({}))
+    const batchId = typeof body.batch_id === 'string' ? body.batch_id : null
+    if (!batchId) {
+      throw new Error('batch_id is required')
+    }
+
+    const { data, error: batchError } = await supabase
+      .from('import_batches')
+      .select('id, source, scope, file_name, file_hash, status, total_rows, skipped_count, holdings, created_at')
+      .eq('id', batchId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (batchError) throw batchError
+    if (!data) {
+      throw new Error('Import not found')
+    }
+
+    const batch = data as StoredBatch
+    if (batch.status === 'active') {
+      throw new Error('This import is already the current one')
+    }
+    source = batch.source
+
+    const holdings = batch.holdings.map(h => ({ ...h, user_id: userId }))
+    const scope = parseScopeKey(batch.scope)
+
+    console.log(`Restoring ${holdings.length} ${batch.source} holdings from batch ${batch.id}`)
+
+    const insertedCount = await replaceSourceHoldings(supabase, batch.source, userId, holdings, startTime, {
+      fileName: batch.file_name,
+      fileHash: batch.file_hash,
+      totalRows: batch.total_rows,
+      skippedCount: batch.skipped_count,
+      restoredFrom: batch.id,
+    }, scope)
+
+    await supabase.from('sync_logs').insert({
+      source: batch.source,
+      status: 'success',
+      holdings_count: insertedCount,
+      user_id: userId,
+      error_message: null,
+    })
+
+    const restoredDate = new Date(batch.created_at).toLocaleDateString('en-IN')
+    return new Response(
+      JSON.stringify({
+        success: true,
+        holdings_count: insertedCount,
+        source: batch.source,
+        message: `Restored ${insertedCount} ${batch.source} holdings from the import of ${restoredDate}`,
+        processing_time_ms: Date.now() - startTime,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Rollback error:', errorMessage)
+
+    // Only a failed restore touched holdings; lookup errors changed nothing
+    if (supabase && source) {
+      try {
+        await supabase.from('sync_logs').insert({
+          source,
+          status: 'error',
+          error_message: `Rollback failed: ${errorMessage}`,
+          user_id: userId || null,
+        })
+      } catch (logError) {
+        console.error('Failed to log error:', logError)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,134 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
+import { buildSnapshotDiff, DiffableHolding } from '../_shared/snapshotDiff.ts'
+
+interface SnapshotDiffRequest {
+  // Dates resolve to the latest snapshot on or before them
+  from?: string
+  to?: string
+  user_id?: string
+}
+
+const PAGE_SIZE = 1000
+const DEFAULT_LOOKBACK_DAYS = 7
+const DAY_MS = 24 * 60 * 60 * 1000
+
+async function findSnapshot(supabase: SupabaseClient, userId: string, onOrBefore: string) {
+  const { data, error } = await supabase
+    .from('portfolio_snapshots')
+    .select('id, snapshot_date')
+    .eq('user_id', userId)
+    .lte('snapshot_date', onOrBefore)
+    .order('snapshot_date', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as { id: string; snapshot_date: string } | null
+}
+
+async function loadHoldings(supabase: SupabaseClient, snapshotId: string): Promise<DiffableHolding[]> {
+  const holdings: DiffableHolding[] = []
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('snapshot_holdings')
+      .select('symbol, name, isin, type, sector, source, quantity, ltp, current_value')
+      .eq('snapshot_id', snapshotId)
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+
+    if (error) throw error
+
+    for (const row of data || []) {
+      holdings.push({
+        symbol: row.symbol,
+        name: row.name ?? undefined,
+        isin: row.isin ?? undefined,
+        type: row.type ?? undefined,
+        sector: row.sector ?? undefined,
+        source: row.source,
+        quantity: Number(row.quantity),
+        ltp: row.ltp !== null ? Number(row.ltp) : undefined,
+        currentValue: row.current_value !== null ? Number(row.current_value) : undefined,
+      })
+    }
+
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return holdings
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const authResult = await validateAuth(req)
+    if (!authResult.isValid) {
+      return unauthorizedResponse(authResult.error || 'Authentication failed')
+    }
+
+    let body: SnapshotDiffRequest = {}
+    try {
+      body = (await req.json()) || {}
+    } catch {
+      // No body: diff the last week
+    }
+
+    // Scheduled digests run with the cron secret and name the user explicitly
+    const userId = authResult.isCronCall ? body.user_id : authResult.userId
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'User ID is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const to = body.to || new Date().toISOString().split('T')[0]
+    const from = body.from || new Date(Date.parse(to) - DEFAULT_LOOKBACK_DAYS * DAY_MS).toISOString().split('T')[0]
+
+    const [fromSnapshot, toSnapshot] = await Promise.all([
+      findSnapshot(supabase, userId, from),
+      findSnapshot(supabase, userId, to),
+    ])
+
+    if (!fromSnapshot || !toSnapshot) {
+      return new Response(
+        JSON.stringify({ success: false, error: `No snapshot on or before ${!fromSnapshot ? from : to}` }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const [fromHoldings, toHoldings] = await Promise.all([
+      loadHoldings(supabase, fromSnapshot.id),
+      loadHoldings(supabase, toSnapshot.id),
+    ])
+
+    const diff = buildSnapshotDiff(fromSnapshot.snapshot_date, fromHoldings, toSnapshot.snapshot_date, toHoldings)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Compared ${diff.fromDate} with ${diff.toDate}`,
+        user_id: userId,
+        data: diff,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Snapshot diff error:', errorMessage)
+
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,102 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/auth.ts'
+import { defaultAppUrl, verifyState } from '../_shared/oauthState.ts'
+import { upstoxConnector } from '../_shared/brokers/upstox.ts'
+
+function redirect(location: string) {
+  return new Response(null, {
+    status: 302,
+    headers: { ...corsHeaders, Location: location },
+  })
+}
+
+/**
+ * Upstox redirects here with ?code=...&state=... after the user logs in.
+ * Stores the session, syncs holdings, then sends the user back to the app.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  let appUrl = defaultAppUrl()
+
+  try {
+    if (req.method !== 'GET') {
+      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const url = new URL(req.url)
+    const code = url.searchParams.get('code')
+
+    // Unlike the Kite callback, an unverifiable state is rejected outright
+    const state = await verifyState(url.searchParams.get('state'))
+    if (!state) {
+      console.error('[upstox-callback] Invalid or expired OAuth state')
+      return redirect(`${appUrl}?upstox_error=${encodeURIComponent('Login link expired. Please try connecting again.')}`)
+    }
+    appUrl = state.app_url
+    const userId = state.user_id
+
+    if (!code) {
+      const reason = url.searchParams.get('error_description') || 'No authorization code provided'
+      return redirect(`${appUrl}?upstox_error=${encodeURIComponent(reason)}`)
+    }
+
+    const { accessToken, expiresAt } = await upstoxConnector.exchangeToken({ code })
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    // One session per user: drop the old one before storing the new one
+    const { error: deleteError } = await supabase.from('upstox_sessions').delete().eq('user_id', userId)
+    if (deleteError) {
+      console.error('[upstox-callback] Delete user sessions error:', deleteError)
+    }
+
+    const { error: insertError } = await supabase.from('upstox_sessions').insert({
+      user_id: userId,
+      access_token: accessToken,
+      expires_at: expiresAt,
+    })
+
+    if (insertError) {
+      console.error('[upstox-callback] Failed to store session:', insertError)
+      return redirect(`${appUrl}?upstox_error=${encodeURIComponent('Failed to store session')}`)
+    }
+
+    await supabase.from('sync_logs').insert({
+      source: upstoxConnector.source,
+      status: 'connected',
+      user_id: userId,
+      holdings_count: 0,
+    })
+
+    // Sync straight away so the app has holdings when the user lands
+    try {
+      const syncResponse = await fetch(`${supabaseUrl}/functions/v1/broker-sync`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${supabaseKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ broker: upstoxConnector.id, user_id: userId }),
+      })
+      if (!syncResponse.ok) {
+        console.error('[upstox-callback] Holdings sync trigger failed:', await syncResponse.text())
+      }
+    } catch (syncError) {
+      console.error('[upstox-callback] Failed to trigger holdings sync:', syncError)
+    }
+
+    return redirect(`${appUrl}?upstox_connected=true`)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[upstox-callback] Error:', errorMessage)
+    return redirect(`${appUrl}?upstox_error=${encodeURIComponent(errorMessage)}`)
+  }
+})
@@ -0,0 +1,83 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
+import { upstoxConnector } from '../_shared/brokers/upstox.ts'
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const authResult = await validateAuth(req)
+    if (!authResult.isValid || !authResult.userId) {
+      return unauthorizedResponse(authResult.error || 'Authentication failed')
+    }
+    const userId = authResult.userId
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const { data: session, error: sessionError } = await supabase
+      .from('upstox_sessions')
+      .select('id, access_token, expires_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (sessionError) {
+      console.error('Error fetching session:', sessionError)
+      throw new Error('Failed to fetch session')
+    }
+
+    if (!session) {
+      return new Response(
+        JSON.stringify({ success: true, message: 'No active session to disconnect' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Revoke the token on Upstox's side (best effort)
+    if (new Date(session.expires_at) > new Date()) {
+      try {
+        await upstoxConnector.logout(
+          { id: session.id, accessToken: session.access_token, expiresAt: session.expires_at, userId }
+        )
+      } catch (logoutError) {
+        // Log but don't fail - we'll still delete locally
+        console.error('Failed to log out of Upstox:', logoutError)
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from('upstox_sessions')
+      .delete()
+      .eq('user_id', userId)
+
+    if (deleteError) {
+      console.error('Failed to delete session:', deleteError)
+      throw new Error('Failed to delete session from database')
+    }
+
+    await supabase.from('sync_logs').insert({
+      source: upstoxConnector.source,
+      status: 'disconnected',
+      user_id: userId,
+      holdings_count: 0,
+    })
+
+    return new Response(
+      JSON.stringify({ success: true, message: 'Upstox session disconnected' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Upstox disconnect error:', errorMessage)
+
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
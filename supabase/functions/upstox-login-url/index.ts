@@ -0,0 +1,40 @@
+import { validateAuth, unauthorizedResponse, corsHeaders } from '../_shared/auth.ts'
+import { BrokerError } from '../_shared/brokerConnector.ts'
+import { appUrlFromRequest, signState } from '../_shared/oauthState.ts'
+import { upstoxConnector } from '../_shared/brokers/upstox.ts'
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const authResult = await validateAuth(req)
+    if (!authResult.isValid || !authResult.userId) {
+      return unauthorizedResponse(authResult.error || 'Authentication failed')
+    }
+
+    // Signed, so upstox-callback can trust the user and app URL it carries
+    const state = await signState(authResult.userId, appUrlFromRequest(req))
+    const loginUrl = upstoxConnector.getAuthUrl(state)
+
+    return new Response(
+      JSON.stringify({ loginUrl }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    if (error instanceof BrokerError && error.code === 'not_configured') {
+      console.error('Upstox API key not configured:', error.message)
+      return new Response(
+        JSON.stringify({ error: 'Upstox API key not configured. Please add UPSTOX_API_KEY to project secrets.' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.error('Error generating Upstox login URL:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to generate login URL' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
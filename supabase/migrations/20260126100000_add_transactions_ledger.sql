@@ -0,0 +1,65 @@
+-- Migration: Add source-agnostic transactions ledger
+-- Every buy/sell/corporate action from any source (Zerodha, INDMoney, MF CAS, manual)
+-- lands here so holdings, realized P&L and XIRR can be derived from history
+
+CREATE TABLE public.transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL,
+  broker TEXT,
+  symbol TEXT NOT NULL,
+  isin TEXT,
+  name TEXT,
+  asset_type TEXT,
+  exchange TEXT,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN (
+    'buy', 'sell', 'dividend', 'bonus', 'split', 'switch_in', 'switch_out', 'interest'
+  )),
+  trade_date DATE NOT NULL,
+  quantity NUMERIC NOT NULL DEFAULT 0,
+  price NUMERIC,
+  amount NUMERIC NOT NULL DEFAULT 0,
+  charges NUMERIC NOT NULL DEFAULT 0,
+  -- New units per old unit for splits (e.g. 5 for a 1:5 split)
+  ratio NUMERIC,
+  -- Source-specific identifier (trade_id, folio line hash) used for de-duplication
+  external_id TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, source, external_id)
+);
+
+ALTER TABLE public.transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own transactions ledger"
+  ON public.transactions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own transactions ledger"
+  ON public.transactions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own transactions ledger"
+  ON public.transactions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transactions ledger"
+  ON public.transactions FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access on transactions"
+  ON public.transactions FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role')
+  WITH CHECK (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE INDEX idx_transactions_user_id ON public.transactions(user_id);
+CREATE INDEX idx_transactions_symbol ON public.transactions(user_id, symbol);
+CREATE INDEX idx_transactions_isin ON public.transactions(isin);
+CREATE INDEX idx_transactions_date ON public.transactions(trade_date);
+CREATE INDEX idx_transactions_source ON public.transactions(source);
+
+CREATE TRIGGER update_transactions_updated_at
+  BEFORE UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,25 @@
+-- Migration: Track net contributions per portfolio snapshot
+-- net_contribution is the money added (positive) or withdrawn (negative) since the
+-- previous snapshot, so period returns can exclude deposits and withdrawals
+
+ALTER TABLE public.portfolio_snapshots
+  ADD COLUMN net_contribution NUMERIC NOT NULL DEFAULT 0;
+
+-- Backfill from invested-amount deltas; the first snapshot's contribution is its
+-- whole invested amount
+WITH deltas AS (
+  SELECT
+    id,
+    total_investment - COALESCE(
+      LAG(total_investment) OVER (PARTITION BY user_id ORDER BY snapshot_date),
+      0
+    ) AS delta
+  FROM public.portfolio_snapshots
+)
+UPDATE public.portfolio_snapshots ps
+SET net_contribution = deltas.delta
+FROM deltas
+WHERE ps.id = deltas.id;
+
+COMMENT ON COLUMN public.portfolio_snapshots.net_contribution IS
+  'Net money added since the previous snapshot, derived from the change in total_investment';
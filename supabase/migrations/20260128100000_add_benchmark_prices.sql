@@ -0,0 +1,48 @@
+-- Migration: Benchmark index closes for performance comparison
+-- Loaded from a CSV of index closes or from the Kite historical API, per user so
+-- custom indices stay private
+
+CREATE TABLE public.benchmark_prices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Benchmark identifier, e.g. 'NIFTY 50', 'SENSEX' or a custom name
+  symbol TEXT NOT NULL,
+  name TEXT,
+  price_date DATE NOT NULL,
+  close NUMERIC NOT NULL,
+  -- 'csv' or 'kite'
+  source TEXT NOT NULL DEFAULT 'csv',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, symbol, price_date)
+);
+
+ALTER TABLE public.benchmark_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own benchmark prices"
+  ON public.benchmark_prices FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own benchmark prices"
+  ON public.benchmark_prices FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own benchmark prices"
+  ON public.benchmark_prices FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own benchmark prices"
+  ON public.benchmark_prices FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access on benchmark_prices"
+  ON public.benchmark_prices FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role')
+  WITH CHECK (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE INDEX idx_benchmark_prices_user_symbol ON public.benchmark_prices(user_id, symbol, price_date);
+
+CREATE TRIGGER update_benchmark_prices_updated_at
+  BEFORE UPDATE ON public.benchmark_prices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
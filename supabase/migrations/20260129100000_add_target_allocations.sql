@@ -0,0 +1,49 @@
+-- Migration: User-defined target allocations for drift detection and rebalancing
+-- A target is a percentage of portfolio value for one asset type, sector or custom
+-- bucket, with a tolerance band either side before it counts as drifted
+
+CREATE TABLE public.target_allocations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  dimension TEXT NOT NULL CHECK (dimension IN ('type', 'sector', 'bucket')),
+  -- Asset type or sector name, or the custom bucket's label
+  bucket_key TEXT NOT NULL,
+  target_percent NUMERIC NOT NULL CHECK (target_percent >= 0 AND target_percent <= 100),
+  tolerance_percent NUMERIC NOT NULL DEFAULT 5 CHECK (tolerance_percent >= 0),
+  -- Custom bucket membership: holdings match by asset type or by symbol/ISIN
+  asset_types TEXT[] NOT NULL DEFAULT '{}',
+  symbols TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, dimension, bucket_key)
+);
+
+ALTER TABLE public.target_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own target allocations"
+  ON public.target_allocations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own target allocations"
+  ON public.target_allocations FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own target allocations"
+  ON public.target_allocations FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own target allocations"
+  ON public.target_allocations FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access on target_allocations"
+  ON public.target_allocations FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role')
+  WITH CHECK (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE INDEX idx_target_allocations_user_id ON public.target_allocations(user_id, dimension);
+
+CREATE TRIGGER update_target_allocations_updated_at
+  BEFORE UPDATE ON public.target_allocations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,43 @@
+-- Migration: Per-holding rows for each portfolio snapshot
+-- capture-snapshot writes one row per holding so the portfolio can be viewed as of
+-- any captured date. Snapshots taken before this table existed can be backfilled
+-- from the transactions ledger (quantities and cost only, no prices)
+
+CREATE TABLE public.snapshot_holdings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  snapshot_id UUID NOT NULL REFERENCES public.portfolio_snapshots(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL,
+  symbol TEXT NOT NULL,
+  name TEXT,
+  isin TEXT,
+  type TEXT,
+  sector TEXT,
+  source TEXT NOT NULL,
+  broker TEXT,
+  exchange TEXT,
+  quantity NUMERIC NOT NULL DEFAULT 0,
+  avg_price NUMERIC NOT NULL DEFAULT 0,
+  -- Null for backfilled rows: the ledger has no price for the snapshot date
+  ltp NUMERIC,
+  investment NUMERIC NOT NULL DEFAULT 0,
+  current_value NUMERIC,
+  pnl NUMERIC,
+  -- True when rebuilt from the ledger rather than captured live
+  reconstructed BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.snapshot_holdings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own snapshot holdings"
+  ON public.snapshot_holdings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access on snapshot_holdings"
+  ON public.snapshot_holdings FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role')
+  WITH CHECK (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE INDEX idx_snapshot_holdings_snapshot_id ON public.snapshot_holdings(snapshot_id);
+CREATE INDEX idx_snapshot_holdings_user_date ON public.snapshot_holdings(user_id, snapshot_date);
@@ -0,0 +1,39 @@
+-- Migration: Versioned holdings imports
+-- Every sync or upload that replaces a source's holdings records the set it wrote,
+-- so a bad file can be undone by restoring an earlier batch. The active batch per
+-- source (and scope, e.g. Groww stocks vs funds) mirrors what is in holdings.
+
+CREATE TABLE public.import_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL,
+  -- Part of the source the batch replaced, as "column=value" or "column!=value"; '' for all of it
+  scope TEXT NOT NULL DEFAULT '',
+  -- Null for API syncs
+  file_name TEXT,
+  file_hash TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'superseded')),
+  total_rows INTEGER,
+  holdings_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  holdings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Set when the batch was created by restoring an earlier one
+  restored_from UUID REFERENCES public.import_batches(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import batches"
+  ON public.import_batches FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access on import_batches"
+  ON public.import_batches FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role')
+  WITH CHECK (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE INDEX idx_import_batches_user_source ON public.import_batches(user_id, source, scope, created_at DESC);
+CREATE UNIQUE INDEX idx_import_batches_one_active
+  ON public.import_batches(user_id, source, scope)
+  WHERE status = 'active';
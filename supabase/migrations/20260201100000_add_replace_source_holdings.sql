@@ -0,0 +1,59 @@
+-- Migration: Atomic source replacement
+-- Importers used to delete a source's holdings and then insert the new set in
+-- batches from the edge function, so a failed batch or a timeout left a partial
+-- portfolio. This function does the delete and insert in one transaction.
+
+CREATE OR REPLACE FUNCTION public.replace_source_holdings(
+  p_source TEXT,
+  p_user_id UUID,
+  p_holdings JSONB,
+  -- Optional narrowing to part of the source, e.g. exchange = 'MF' for a funds-only file
+  p_scope_column TEXT DEFAULT NULL,
+  p_scope_value TEXT DEFAULT NULL,
+  p_scope_negate BOOLEAN DEFAULT false
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_deleted INTEGER;
+  v_inserted INTEGER;
+BEGIN
+  IF jsonb_typeof(p_holdings) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_holdings must be a JSON array';
+  END IF;
+
+  IF p_scope_column IS NULL THEN
+    DELETE FROM public.holdings
+    WHERE source = p_source
+      AND user_id IS NOT DISTINCT FROM p_user_id;
+  ELSE
+    -- Same semantics as PostgREST eq/neq: rows with a null scope column never match
+    EXECUTE format(
+      'DELETE FROM public.holdings
+       WHERE source = $1
+         AND user_id IS NOT DISTINCT FROM $2
+         AND CASE WHEN $4 THEN %1$I <> $3 ELSE %1$I = $3 END',
+      p_scope_column
+    ) USING p_source, p_user_id, p_scope_value, p_scope_negate;
+  END IF;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  INSERT INTO public.holdings (
+    user_id, symbol, name, type, sector, quantity, avg_price, ltp,
+    exchange, source, isin, broker, xirr
+  )
+  SELECT
+    p_user_id, h.symbol, h.name, h.type, h.sector, h.quantity, h.avg_price, h.ltp,
+    h.exchange, p_source, h.isin, h.broker, h.xirr
+  FROM jsonb_to_recordset(p_holdings) AS h(
+    symbol TEXT, name TEXT, type TEXT, sector TEXT, quantity NUMERIC, avg_price NUMERIC,
+    ltp NUMERIC, exchange TEXT, isin TEXT, broker TEXT, xirr NUMERIC
+  );
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  RETURN jsonb_build_object('deleted', v_deleted, 'inserted', v_inserted);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Edge functions call this with the service role; users must not replace arbitrary sources
+REVOKE EXECUTE ON FUNCTION public.replace_source_holdings(TEXT, UUID, JSONB, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_source_holdings(TEXT, UUID, JSONB, TEXT, TEXT, BOOLEAN) TO service_role;
@@ -0,0 +1,52 @@
+-- Migration: Saved column mappings for the generic spreadsheet importer
+-- A template records which column holds each holding field for one file layout.
+-- It is applied automatically when an upload has the same header signature.
+
+CREATE TABLE public.import_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Normalised header cells joined with '|'
+  header_signature TEXT NOT NULL,
+  -- Null when the template applies to any sheet
+  sheet_name TEXT,
+  -- Zero-based column index per field, -1 when absent
+  column_map JSONB NOT NULL,
+  -- Label written to holdings.source
+  source TEXT NOT NULL,
+  broker TEXT,
+  default_type TEXT NOT NULL DEFAULT 'Equity',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+ALTER TABLE public.import_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import templates"
+  ON public.import_templates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own import templates"
+  ON public.import_templates FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own import templates"
+  ON public.import_templates FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own import templates"
+  ON public.import_templates FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access on import_templates"
+  ON public.import_templates FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role')
+  WITH CHECK (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE INDEX idx_import_templates_signature ON public.import_templates(user_id, header_signature);
+
+CREATE TRIGGER update_import_templates_updated_at
+  BEFORE UPDATE ON public.import_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,58 @@
+-- Migration: Bank fixed and recurring deposits
+-- Each deposit is mirrored by a 'Manual' holdings row so it counts in snapshots
+-- and allocations. The row's value is recomputed from these terms as interest accrues.
+
+CREATE TABLE public.deposits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  holding_id UUID NOT NULL UNIQUE REFERENCES public.holdings(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('FD', 'RD')),
+  bank TEXT NOT NULL,
+  name TEXT NOT NULL DEFAULT '',
+  -- Amount deposited for an FD, monthly instalment for an RD
+  principal NUMERIC NOT NULL CHECK (principal > 0),
+  -- Annual rate in percent
+  interest_rate NUMERIC NOT NULL CHECK (interest_rate > 0 AND interest_rate <= 25),
+  compounding TEXT NOT NULL DEFAULT 'quarterly'
+    CHECK (compounding IN ('monthly', 'quarterly', 'half_yearly', 'yearly')),
+  payout TEXT NOT NULL DEFAULT 'cumulative'
+    CHECK (payout IN ('cumulative', 'monthly', 'quarterly', 'half_yearly', 'yearly')),
+  start_date DATE NOT NULL,
+  maturity_date DATE NOT NULL,
+  -- Percent of interest withheld as TDS
+  tds_rate NUMERIC NOT NULL DEFAULT 0 CHECK (tds_rate >= 0 AND tds_rate <= 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (maturity_date > start_date),
+  CHECK (kind = 'FD' OR payout = 'cumulative')
+);
+
+ALTER TABLE public.deposits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own deposits"
+  ON public.deposits FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own deposits"
+  ON public.deposits FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own deposits"
+  ON public.deposits FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own deposits"
+  ON public.deposits FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access on deposits"
+  ON public.deposits FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role')
+  WITH CHECK (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE INDEX idx_deposits_user_maturity ON public.deposits(user_id, maturity_date);
+
+CREATE TRIGGER update_deposits_updated_at
+  BEFORE UPDATE ON public.deposits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,50 @@
+-- Migration: Angel One SmartAPI sessions
+-- Same shape as kite_sessions. Angel logins happen through an authenticated call
+-- rather than an OAuth redirect, so every session belongs to a user from the start.
+
+CREATE TABLE public.angel_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Angel client code; SmartAPI needs it to log the session out
+  client_code TEXT NOT NULL,
+  access_token TEXT NOT NULL,
+  refresh_token TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.angel_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are written and read by edge functions only; users see the status view
+CREATE POLICY "Users can view their own angel sessions"
+  ON public.angel_sessions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access on angel_sessions"
+  ON public.angel_sessions FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role')
+  WITH CHECK (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE INDEX idx_angel_sessions_user_created ON public.angel_sessions(user_id, created_at DESC);
+
+CREATE TRIGGER update_angel_sessions_updated_at
+  BEFORE UPDATE ON public.angel_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Session status without the tokens, like kite_sessions_status
+CREATE VIEW public.angel_sessions_status
+WITH (security_invoker = true)
+AS
+SELECT
+  id,
+  user_id,
+  client_code,
+  created_at,
+  updated_at,
+  expires_at,
+  CASE WHEN expires_at > now() THEN true ELSE false END as is_valid
+FROM public.angel_sessions;
+
+GRANT SELECT ON public.angel_sessions_status TO authenticated;
@@ -0,0 +1,46 @@
+-- Migration: Upstox API v2 sessions
+-- Same shape as kite_sessions. The OAuth state is signed, so the callback always
+-- knows the user and there are no orphan sessions to claim.
+
+CREATE TABLE public.upstox_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  access_token TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.upstox_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are written and read by edge functions only; users see the status view
+CREATE POLICY "Users can view their own upstox sessions"
+  ON public.upstox_sessions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access on upstox_sessions"
+  ON public.upstox_sessions FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role')
+  WITH CHECK (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE INDEX idx_upstox_sessions_user_created ON public.upstox_sessions(user_id, created_at DESC);
+
+CREATE TRIGGER update_upstox_sessions_updated_at
+  BEFORE UPDATE ON public.upstox_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Session status without the token, like kite_sessions_status
+CREATE VIEW public.upstox_sessions_status
+WITH (security_invoker = true)
+AS
+SELECT
+  id,
+  user_id,
+  created_at,
+  updated_at,
+  expires_at,
+  CASE WHEN expires_at > now() THEN true ELSE false END as is_valid
+FROM public.upstox_sessions;
+
+GRANT SELECT ON public.upstox_sessions_status TO authenticated;
@@ -0,0 +1,69 @@
+-- Migration: Instrument master and ISIN industries
+-- instruments holds Kite's instruments dump (cash and index segments only), so
+-- broker syncs can fill in names and instrument types. isin_industries maps
+-- ISINs to NSE industries for sectors. Both are shared reference data, loaded
+-- by the instruments-sync edge function.
+
+CREATE TABLE public.instruments (
+  instrument_token BIGINT NOT NULL PRIMARY KEY,
+  exchange_token BIGINT,
+  tradingsymbol TEXT NOT NULL,
+  name TEXT,
+  -- EQ, FUT, CE, PE
+  instrument_type TEXT NOT NULL,
+  -- NSE, BSE, INDICES
+  segment TEXT NOT NULL,
+  exchange TEXT NOT NULL,
+  lot_size INTEGER,
+  tick_size NUMERIC,
+  expiry DATE,
+  strike NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.isin_industries (
+  isin TEXT NOT NULL PRIMARY KEY,
+  symbol TEXT,
+  company_name TEXT,
+  -- Industry as published by NSE, e.g. 'Financial Services'
+  industry TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.instruments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.isin_industries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view instruments"
+  ON public.instruments FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role full access on instruments"
+  ON public.instruments FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role')
+  WITH CHECK (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Authenticated users can view isin industries"
+  ON public.isin_industries FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role full access on isin_industries"
+  ON public.isin_industries FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role')
+  WITH CHECK (auth.jwt() ->> 'role' = 'service_role');
+
+-- Brokers without Kite tokens are matched on exchange and symbol
+CREATE INDEX idx_instruments_symbol ON public.instruments(tradingsymbol, exchange);
+
+CREATE TRIGGER update_instruments_updated_at
+  BEFORE UPDATE ON public.instruments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_isin_industries_updated_at
+  BEFORE UPDATE ON public.isin_industries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
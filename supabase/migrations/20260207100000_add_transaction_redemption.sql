@@ -0,0 +1,10 @@
+-- Migration: Flag sales that are redemptions by the issuer
+-- An SGB returned to RBI (at maturity or on an early-redemption date) is not a
+-- transfer under Section 47(viic), so its gain is exempt. A sale of the same
+-- bond on the exchange is taxable, so the two have to be told apart.
+
+ALTER TABLE public.transactions
+  ADD COLUMN is_redemption BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.transactions.is_redemption IS
+  'Sell redeemed by the issuer (e.g. RBI redeeming an SGB) rather than sold on the market';
@@ -0,0 +1,59 @@
+-- Migration: Atomic import batch recording
+-- recordImportBatch superseded the active batch and inserted the new one in two
+-- requests, so a failed insert left the source with no active batch. This function
+-- does both in one transaction. A restore marks the batch it replaces as rolled
+-- back, so re-uploading an undone file is not skipped as a duplicate.
+
+ALTER TABLE public.import_batches DROP CONSTRAINT IF EXISTS import_batches_status_check;
+ALTER TABLE public.import_batches
+  ADD CONSTRAINT import_batches_status_check CHECK (status IN ('active', 'superseded', 'rolled_back'));
+
+-- Duplicate uploads are looked up by hash across the source's history
+CREATE INDEX idx_import_batches_file_hash
+  ON public.import_batches(user_id, source, scope, file_hash)
+  WHERE file_hash IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.record_import_batch(
+  p_user_id UUID,
+  p_source TEXT,
+  p_scope TEXT,
+  p_holdings JSONB,
+  p_file_name TEXT DEFAULT NULL,
+  p_file_hash TEXT DEFAULT NULL,
+  p_total_rows INTEGER DEFAULT NULL,
+  p_skipped_count INTEGER DEFAULT 0,
+  -- Set when restoring an earlier batch
+  p_restored_from UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF jsonb_typeof(p_holdings) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_holdings must be a JSON array';
+  END IF;
+
+  UPDATE public.import_batches
+  SET status = CASE WHEN p_restored_from IS NULL THEN 'superseded' ELSE 'rolled_back' END
+  WHERE source = p_source
+    AND scope = p_scope
+    AND user_id IS NOT DISTINCT FROM p_user_id
+    AND status = 'active';
+
+  INSERT INTO public.import_batches (
+    user_id, source, scope, file_name, file_hash, status, total_rows,
+    holdings_count, skipped_count, holdings, restored_from
+  )
+  VALUES (
+    p_user_id, p_source, p_scope, p_file_name, p_file_hash, 'active', p_total_rows,
+    jsonb_array_length(p_holdings), p_skipped_count, p_holdings, p_restored_from
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Edge functions call this with the service role
+REVOKE EXECUTE ON FUNCTION public.record_import_batch(UUID, TEXT, TEXT, JSONB, TEXT, TEXT, INTEGER, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_import_batch(UUID, TEXT, TEXT, JSONB, TEXT, TEXT, INTEGER, INTEGER, UUID) TO service_role;
@@ -0,0 +1,108 @@
+-- Migration: Record the import batch in the same transaction as the holdings
+-- Importers replaced a source's holdings with replace_source_holdings and then
+-- recorded the batch with record_import_batch, a second request. When that one
+-- failed, holdings had changed while the active batch still described the old
+-- set. replace_source_holdings now takes the batch details and writes both.
+
+DROP FUNCTION IF EXISTS public.record_import_batch(UUID, TEXT, TEXT, JSONB, TEXT, TEXT, INTEGER, INTEGER, UUID);
+DROP FUNCTION IF EXISTS public.replace_source_holdings(TEXT, UUID, JSONB, TEXT, TEXT, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.replace_source_holdings(
+  p_source TEXT,
+  p_user_id UUID,
+  p_holdings JSONB,
+  -- Optional narrowing to part of the source, e.g. exchange = 'MF' for a funds-only file
+  p_scope_column TEXT DEFAULT NULL,
+  p_scope_value TEXT DEFAULT NULL,
+  p_scope_negate BOOLEAN DEFAULT false,
+  -- Import batch to record: file_name, file_hash, total_rows, skipped_count and,
+  -- for a restore, restored_from. NULL records no batch.
+  p_batch JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_deleted INTEGER;
+  v_inserted INTEGER;
+  v_scope TEXT;
+  v_batch_id UUID;
+BEGIN
+  IF jsonb_typeof(p_holdings) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_holdings must be a JSON array';
+  END IF;
+
+  IF p_scope_column IS NULL THEN
+    DELETE FROM public.holdings
+    WHERE source = p_source
+      AND user_id IS NOT DISTINCT FROM p_user_id;
+  ELSE
+    -- Same semantics as PostgREST eq/neq: rows with a null scope column never match
+    EXECUTE format(
+      'DELETE FROM public.holdings
+       WHERE source = $1
+         AND user_id IS NOT DISTINCT FROM $2
+         AND CASE WHEN $4 THEN %1$I <> $3 ELSE %1$I = $3 END',
+      p_scope_column
+    ) USING p_source, p_user_id, p_scope_value, p_scope_negate;
+  END IF;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  INSERT INTO public.holdings (
+    user_id, symbol, name, type, sector, quantity, avg_price, ltp,
+    exchange, source, isin, broker, xirr
+  )
+  SELECT
+    p_user_id, h.symbol, h.name, h.type, h.sector, h.quantity, h.avg_price, h.ltp,
+    h.exchange, p_source, h.isin, h.broker, h.xirr
+  FROM jsonb_to_recordset(p_holdings) AS h(
+    symbol TEXT, name TEXT, type TEXT, sector TEXT, quantity NUMERIC, avg_price NUMERIC,
+    ltp NUMERIC, exchange TEXT, isin TEXT, broker TEXT, xirr NUMERIC
+  );
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  IF p_batch IS NOT NULL THEN
+    -- Same format as scopeKey in _shared/importBatches.ts
+    v_scope := CASE
+      WHEN p_scope_column IS NULL THEN ''
+      ELSE p_scope_column || CASE WHEN p_scope_negate THEN '!=' ELSE '=' END || p_scope_value
+    END;
+
+    -- A restore marks the batch it replaces as rolled back
+    UPDATE public.import_batches
+    SET status = CASE WHEN p_batch->>'restored_from' IS NULL THEN 'superseded' ELSE 'rolled_back' END
+    WHERE source = p_source
+      AND scope = v_scope
+      AND user_id IS NOT DISTINCT FROM p_user_id
+      AND status = 'active';
+
+    -- Holdings rows are stored without user_id; the batch carries it
+    INSERT INTO public.import_batches (
+      user_id, source, scope, file_name, file_hash, status, total_rows,
+      holdings_count, skipped_count, holdings, restored_from
+    )
+    VALUES (
+      p_user_id, p_source, v_scope, p_batch->>'file_name', p_batch->>'file_hash', 'active',
+      (p_batch->>'total_rows')::INTEGER, v_inserted, COALESCE((p_batch->>'skipped_count')::INTEGER, 0),
+      COALESCE((SELECT jsonb_agg(h - 'user_id') FROM jsonb_array_elements(p_holdings) AS h), '[]'::jsonb),
+      (p_batch->>'restored_from')::UUID
+    )
+    RETURNING id INTO v_batch_id;
+
+    -- Keep the latest 50 batches per source and scope
+    DELETE FROM public.import_batches
+    WHERE id IN (
+      SELECT id FROM public.import_batches
+      WHERE source = p_source
+        AND scope = v_scope
+        AND user_id IS NOT DISTINCT FROM p_user_id
+      ORDER BY created_at DESC
+      OFFSET 50
+    );
+  END IF;
+
+  RETURN jsonb_build_object('deleted', v_deleted, 'inserted', v_inserted, 'batch_id', v_batch_id);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Edge functions call this with the service role; users must not replace arbitrary sources
+REVOKE EXECUTE ON FUNCTION public.replace_source_holdings(TEXT, UUID, JSONB, TEXT, TEXT, BOOLEAN, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_source_holdings(TEXT, UUID, JSONB, TEXT, TEXT, BOOLEAN, JSONB) TO service_role;
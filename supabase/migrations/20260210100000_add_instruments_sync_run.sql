@@ -0,0 +1,6 @@
+-- Migration: Mark instruments with the sync run that loaded them
+-- instruments-sync pruned rows whose updated_at was older than the edge
+-- function's start time, comparing its clock with the database's. Each run now
+-- stamps the rows it upserts with its own id and prunes every other row.
+
+ALTER TABLE public.instruments ADD COLUMN sync_run_id UUID;
@@ -0,0 +1,27 @@
+-- Migration: Let snapshots leave net_contribution unknown
+-- A NOT NULL DEFAULT 0 column recorded "no money added" for every snapshot
+-- written without a contribution: filtered captures, and writers that predate
+-- the column. NULL now means unknown, and the app falls back to the change in
+-- total_investment for those snapshots.
+
+ALTER TABLE public.portfolio_snapshots
+  ALTER COLUMN net_contribution DROP NOT NULL,
+  ALTER COLUMN net_contribution DROP DEFAULT;
+
+-- A recorded contribution is the change in invested amount, so a zero next to a
+-- non-zero change was the default filling in rather than a real value
+WITH deltas AS (
+  SELECT
+    id,
+    total_investment - LAG(total_investment) OVER (PARTITION BY user_id ORDER BY snapshot_date) AS delta
+  FROM public.portfolio_snapshots
+)
+UPDATE public.portfolio_snapshots ps
+SET net_contribution = NULL
+FROM deltas
+WHERE ps.id = deltas.id
+  AND ps.net_contribution = 0
+  AND deltas.delta <> 0;
+
+COMMENT ON COLUMN public.portfolio_snapshots.net_contribution IS
+  'Net money added since the previous snapshot, derived from the change in total_investment; NULL when unknown';
@@ -61,6 +61,11 @@ export default {
         ride: "hsl(var(--ride))",
         zerodha: "hsl(var(--zerodha))",
         indmoney: "hsl(var(--indmoney))",
+        groww: "hsl(var(--groww))",
+        cas: "hsl(var(--cas))",
+        manual: "hsl(var(--manual))",
+        angel: "hsl(var(--angel))",
+        upstox: "hsl(var(--upstox))",
         chart: {
           1: "hsl(var(--chart-1))",
           2: "hsl(var(--chart-2))",